@@ -0,0 +1,126 @@
+// Serves unpacked SCORM / xAPI training packages to the package host page
+// from Cache Storage on the separate package origin (see
+// src/lib/trainingPackages.ts) and stands in for the LRS xAPI courses report
+// to: statements and state are passed on to the host page, which sends them to
+// the viewer to record against the employee's progress.
+
+const SCOPE = "/training-packages/";
+const XAPI_ENDPOINT = "/__xapi__/";
+const XAPI_HEADERS = { "X-Experience-API-Version": "1.0.3" };
+
+// Must match getPackageFileUrl in src/lib/trainingPackages.ts
+const fileUrl = (sessionId, path) =>
+  `${SCOPE}${sessionId}/${path.split("/").map(encodeURIComponent).join("/")}`;
+
+const stateUrl = (sessionId, key) => `${SCOPE}${sessionId}/__xapi_state__/${encodeURIComponent(key)}`;
+
+self.addEventListener("install", () => self.skipWaiting());
+
+self.addEventListener("activate", (event) => event.waitUntil(self.clients.claim()));
+
+const notifyHost = async (message) => {
+  const clients = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+  clients.forEach((client) => client.postMessage(message));
+};
+
+const serveFile = async (request, cache, sessionId, path) => {
+  if (request.method !== "GET" && request.method !== "HEAD") {
+    return new Response(null, { status: 405 });
+  }
+
+  let decoded;
+  try {
+    decoded = path.split("/").map(decodeURIComponent).join("/");
+  } catch {
+    return new Response("Not found", { status: 404 });
+  }
+
+  const response = await cache.match(fileUrl(sessionId, decoded || "index.html"));
+  return response || new Response("Not found", { status: 404 });
+};
+
+const handleStatements = async (request, url, sessionId) => {
+  if (request.method === "GET") {
+    return Response.json({ statements: [], more: "" }, { headers: XAPI_HEADERS });
+  }
+
+  const body = await request.json();
+  const statements = (Array.isArray(body) ? body : [body]).map((statement) => ({
+    ...statement,
+    id: statement.id || url.searchParams.get("statementId") || crypto.randomUUID(),
+  }));
+
+  await Promise.all(
+    statements.map((statement) => notifyHost({ type: "xapi-statement", sessionId, statement }))
+  );
+
+  return request.method === "PUT"
+    ? new Response(null, { status: 204, headers: XAPI_HEADERS })
+    : Response.json(
+        statements.map((statement) => statement.id),
+        { headers: XAPI_HEADERS }
+      );
+};
+
+const handleState = async (request, url, cache, sessionId) => {
+  const stateId = url.searchParams.get("stateId");
+  if (!stateId) {
+    return Response.json([], { headers: XAPI_HEADERS });
+  }
+
+  const key = `${url.searchParams.get("activityId") || ""}|${stateId}`;
+
+  switch (request.method) {
+    case "GET": {
+      const saved = await cache.match(stateUrl(sessionId, key));
+      return saved
+        ? new Response(await saved.text(), { headers: XAPI_HEADERS })
+        : new Response(null, { status: 404, headers: XAPI_HEADERS });
+    }
+    case "DELETE":
+      await cache.delete(stateUrl(sessionId, key));
+      await notifyHost({ type: "xapi-state", sessionId, key, value: null });
+      return new Response(null, { status: 204, headers: XAPI_HEADERS });
+    default: {
+      const value = await request.text();
+      await cache.put(stateUrl(sessionId, key), new Response(value));
+      await notifyHost({ type: "xapi-state", sessionId, key, value });
+      return new Response(null, { status: 204, headers: XAPI_HEADERS });
+    }
+  }
+};
+
+// Profiles and agent lookups aren't kept; courses treat a missing document
+// as a fresh start
+const handleXapi = (request, url, cache, sessionId, resource) => {
+  if (resource === "about") {
+    return Response.json({ version: ["1.0.3", "1.0.0"] }, { headers: XAPI_HEADERS });
+  }
+  if (resource === "statements") return handleStatements(request, url, sessionId);
+  if (resource === "activities/state") return handleState(request, url, cache, sessionId);
+
+  return new Response(null, { status: request.method === "GET" ? 404 : 204, headers: XAPI_HEADERS });
+};
+
+self.addEventListener("fetch", (event) => {
+  const url = new URL(event.request.url);
+  if (url.origin !== self.location.origin || !url.pathname.startsWith(SCOPE)) return;
+
+  const [sessionId, ...rest] = url.pathname.slice(SCOPE.length).split("/");
+  const path = rest.join("/");
+
+  event.respondWith(
+    caches.open(`training-package-${sessionId}`).then((cache) => {
+      const xapiIndex = url.pathname.indexOf(XAPI_ENDPOINT);
+      return xapiIndex === -1
+        ? serveFile(event.request, cache, sessionId, path)
+        : handleXapi(
+            event.request,
+            url,
+            cache,
+            sessionId,
+            url.pathname.slice(xapiIndex + XAPI_ENDPOINT.length).replace(/\/$/, "")
+          );
+    })
+  );
+});
@@ -0,0 +1,93 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { AuthContext } from "@/hooks/use-auth";
+import {
+  AppRole,
+  Permission,
+  RoleAssignment,
+  canAccessDepartment,
+  getManagedDepartmentIds,
+  hasOrganisationScope,
+  hasPermission,
+  isStaff,
+} from "@/lib/permissions";
+
+// Resolves the session and the signed-in user's roles once for the whole app
+const AuthProvider = ({ children }: { children: React.ReactNode }) => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [sessionLoading, setSessionLoading] = useState(true);
+  const [roles, setRoles] = useState<RoleAssignment[]>([]);
+  // Whose roles are currently loaded; null before the first load
+  const [rolesUserId, setRolesUserId] = useState<string | undefined | null>(null);
+
+  const user = session?.user ?? null;
+  const userId = user?.id;
+
+  useEffect(() => {
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((_event, session) => {
+      setSession(session);
+      setSessionLoading(false);
+    });
+
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setSession(session);
+      setSessionLoading(false);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const loadRoles = useCallback(async (id: string | undefined) => {
+    if (!id) {
+      setRoles([]);
+      setRolesUserId(undefined);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from("user_roles")
+      .select("role, department_id")
+      .eq("user_id", id);
+
+    if (error) console.error("Error loading roles:", error);
+    setRoles(data || []);
+    setRolesUserId(id);
+  }, []);
+
+  // Token refreshes hand us a new session object for the same user, so key on the id
+  useEffect(() => {
+    if (!sessionLoading) loadRoles(userId);
+  }, [userId, sessionLoading, loadRoles]);
+
+  const can = useCallback((permission: Permission) => hasPermission(roles, permission), [roles]);
+  const hasRole = useCallback((...wanted: AppRole[]) => roles.some((r) => wanted.includes(r.role)), [roles]);
+  const canAccess = useCallback((departmentId: string | null) => canAccessDepartment(roles, departmentId), [roles]);
+  const refreshRoles = useCallback(() => loadRoles(userId), [loadRoles, userId]);
+  // Kept stable so consumers can depend on it in their effects
+  const managedDepartmentIds = useMemo(() => getManagedDepartmentIds(roles), [roles]);
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user,
+        session,
+        roles,
+        loading: sessionLoading || rolesUserId !== userId,
+        can,
+        hasRole,
+        canAccessDepartment: canAccess,
+        isStaff: isStaff(roles),
+        hasOrganisationScope: hasOrganisationScope(roles),
+        managedDepartmentIds,
+        refreshRoles,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+export default AuthProvider;
@@ -1,37 +1,19 @@
-import { useEffect, useState } from "react";
 import { Navigate } from "react-router-dom";
-import { supabase } from "@/integrations/supabase/client";
-import { User, Session } from "@supabase/supabase-js";
 import { Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { AppRole, Permission } from "@/lib/permissions";
+import Forbidden from "@/pages/Forbidden";
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  // The user needs at least one of these roles
+  requiredRoles?: AppRole[];
+  // The user needs every one of these permissions
+  requiredPermissions?: Permission[];
 }
 
-const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
-  const [user, setUser] = useState<User | null>(null);
-  const [session, setSession] = useState<Session | null>(null);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    // Set up auth state listener
-    const {
-      data: { subscription },
-    } = supabase.auth.onAuthStateChange((event, session) => {
-      setSession(session);
-      setUser(session?.user ?? null);
-      setLoading(false);
-    });
-
-    // Check for existing session
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      setSession(session);
-      setUser(session?.user ?? null);
-      setLoading(false);
-    });
-
-    return () => subscription.unsubscribe();
-  }, []);
+const ProtectedRoute = ({ children, requiredRoles, requiredPermissions }: ProtectedRouteProps) => {
+  const { user, loading, hasRole, can } = useAuth();
 
   if (loading) {
     return (
@@ -45,6 +27,14 @@ const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
     return <Navigate to="/auth" replace />;
   }
 
+  if (requiredRoles?.length && !hasRole(...requiredRoles)) {
+    return <Forbidden />;
+  }
+
+  if (requiredPermissions?.some((permission) => !can(permission))) {
+    return <Forbidden />;
+  }
+
   return <>{children}</>;
 };
 
@@ -3,11 +3,19 @@ import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import DashboardLayout from "./DashboardLayout";
 import StatsCard from "./StatsCard";
-import { Users, FileText, Building2, BookOpen } from "lucide-react";
+import { Users, FileText, Building2, BookOpen, FileCheck, FileStack, ShieldCheck, ListChecks, Mail, Route, LucideIcon } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import EmployeeManagementTab from "./admin/EmployeeManagementTab";
 import FormManagementTab from "./admin/FormManagementTab";
 import TrainingManagementTab from "./admin/TrainingManagementTab";
+import TrainingPathManagementTab from "./admin/TrainingPathManagementTab";
+import DocumentReviewTab from "./admin/DocumentReviewTab";
+import DocumentTemplateManagementTab from "./admin/DocumentTemplateManagementTab";
+import RoleManagementTab from "./admin/RoleManagementTab";
+import ChecklistManagementTab from "./admin/ChecklistManagementTab";
+import InvitationManagementTab from "./admin/InvitationManagementTab";
+import { useAuth } from "@/hooks/use-auth";
+import { Permission } from "@/lib/permissions";
 
 interface Stats {
   totalEmployees: number;
@@ -16,6 +24,26 @@ interface Stats {
   totalTemplates: number;
 }
 
+interface DashboardTab {
+  value: string;
+  label: string;
+  icon: LucideIcon;
+  viewPermission: Permission;
+  managePermission: Permission;
+}
+
+const DASHBOARD_TABS: DashboardTab[] = [
+  { value: "employees", label: "Employees", icon: Users, viewPermission: "employees.view", managePermission: "employees.manage" },
+  { value: "invitations", label: "Invitations", icon: Mail, viewPermission: "employees.view", managePermission: "employees.manage" },
+  { value: "review", label: "Document Review", icon: FileCheck, viewPermission: "documents.view", managePermission: "documents.review" },
+  { value: "templates", label: "Document Templates", icon: FileStack, viewPermission: "templates.view", managePermission: "templates.manage" },
+  { value: "forms", label: "Department Forms", icon: Building2, viewPermission: "forms.view", managePermission: "forms.manage" },
+  { value: "checklists", label: "Checklists", icon: ListChecks, viewPermission: "checklists.view", managePermission: "checklists.manage" },
+  { value: "training", label: "Training", icon: BookOpen, viewPermission: "training.view", managePermission: "training.manage" },
+  { value: "paths", label: "Training Paths", icon: Route, viewPermission: "training.view", managePermission: "training.manage" },
+  { value: "roles", label: "Roles", icon: ShieldCheck, viewPermission: "roles.view", managePermission: "roles.manage" },
+];
+
 const AdminDashboard = () => {
   const [stats, setStats] = useState<Stats>({
     totalEmployees: 0,
@@ -24,8 +52,15 @@ const AdminDashboard = () => {
     totalTemplates: 0,
   });
   const [loading, setLoading] = useState(true);
+  const { can } = useAuth();
   const { toast } = useToast();
 
+  const visibleTabs = DASHBOARD_TABS.filter((tab) => can(tab.viewPermission));
+  const readOnly = (value: string) => {
+    const tab = DASHBOARD_TABS.find((t) => t.value === value);
+    return !tab || !can(tab.managePermission);
+  };
+
   useEffect(() => {
     loadDashboardData();
   }, []);
@@ -57,10 +92,10 @@ const AdminDashboard = () => {
   };
 
   return (
-    <DashboardLayout title="Admin Dashboard" subtitle="Manage employees, forms, and training">
+    <DashboardLayout title="Admin Dashboard" subtitle="Manage employees, documents, forms, and training">
       <div className="space-y-6">
         {/* Stats Grid */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
           <StatsCard
             title="Total Employees"
             value={stats.totalEmployees}
@@ -76,37 +111,65 @@ const AdminDashboard = () => {
             value={stats.totalTrainingSessions}
             icon={BookOpen}
           />
+          <StatsCard
+            title="Document Templates"
+            value={stats.totalTemplates}
+            icon={FileStack}
+          />
         </div>
 
         {/* Main Tabs */}
-        <Tabs defaultValue="employees" className="w-full">
-          <TabsList className="grid w-full grid-cols-3">
-            <TabsTrigger value="employees">
-              <Users className="w-4 h-4 mr-2" />
-              Employees
-            </TabsTrigger>
-            <TabsTrigger value="forms">
-              <Building2 className="w-4 h-4 mr-2" />
-              Department Forms
-            </TabsTrigger>
-            <TabsTrigger value="training">
-              <BookOpen className="w-4 h-4 mr-2" />
-              Training
-            </TabsTrigger>
-          </TabsList>
-
-          <TabsContent value="employees" className="mt-6">
-            <EmployeeManagementTab />
-          </TabsContent>
-
-          <TabsContent value="forms" className="mt-6">
-            <FormManagementTab />
-          </TabsContent>
-
-          <TabsContent value="training" className="mt-6">
-            <TrainingManagementTab />
-          </TabsContent>
-        </Tabs>
+        {visibleTabs.length > 0 && (
+          <Tabs defaultValue={visibleTabs[0].value} className="w-full">
+            <TabsList
+              className="grid w-full"
+              style={{ gridTemplateColumns: `repeat(${visibleTabs.length}, minmax(0, 1fr))` }}
+            >
+              {visibleTabs.map((tab) => (
+                <TabsTrigger key={tab.value} value={tab.value}>
+                  <tab.icon className="w-4 h-4 mr-2" />
+                  {tab.label}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+
+            <TabsContent value="employees" className="mt-6">
+              <EmployeeManagementTab readOnly={readOnly("employees")} />
+            </TabsContent>
+
+            <TabsContent value="invitations" className="mt-6">
+              <InvitationManagementTab readOnly={readOnly("invitations")} />
+            </TabsContent>
+
+            <TabsContent value="review" className="mt-6">
+              <DocumentReviewTab readOnly={readOnly("review")} />
+            </TabsContent>
+
+            <TabsContent value="templates" className="mt-6">
+              <DocumentTemplateManagementTab readOnly={readOnly("templates")} />
+            </TabsContent>
+
+            <TabsContent value="forms" className="mt-6">
+              <FormManagementTab readOnly={readOnly("forms")} />
+            </TabsContent>
+
+            <TabsContent value="checklists" className="mt-6">
+              <ChecklistManagementTab readOnly={readOnly("checklists")} />
+            </TabsContent>
+
+            <TabsContent value="training" className="mt-6">
+              <TrainingManagementTab readOnly={readOnly("training")} />
+            </TabsContent>
+
+            <TabsContent value="paths" className="mt-6">
+              <TrainingPathManagementTab readOnly={readOnly("paths")} />
+            </TabsContent>
+
+            <TabsContent value="roles" className="mt-6">
+              <RoleManagementTab readOnly={readOnly("roles")} />
+            </TabsContent>
+          </Tabs>
+        )}
       </div>
     </DashboardLayout>
   );
@@ -26,6 +26,8 @@ const DocumentListCard = ({ title, documents, loading }: DocumentListCardProps)
         return "bg-accent text-accent-foreground";
       case "rejected":
         return "bg-destructive text-destructive-foreground";
+      case "reupload_requested":
+        return "bg-amber-100 text-amber-800";
       default:
         return "bg-secondary text-secondary-foreground";
     }
@@ -75,7 +77,7 @@ const DocumentListCard = ({ title, documents, loading }: DocumentListCardProps)
                 </div>
                 <div className="flex flex-col items-end gap-2">
                   <Badge className={getStatusColor(doc.status)}>
-                    {doc.status}
+                    {doc.status.replace(/_/g, " ")}
                   </Badge>
                   <Button size="sm" variant="ghost">
                     <Download className="w-3 h-3" />
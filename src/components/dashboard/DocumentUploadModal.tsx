@@ -1,6 +1,7 @@
-import { useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import {
   Dialog,
   DialogContent,
@@ -12,7 +13,17 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Loader2, Upload } from "lucide-react";
+import { Tables } from "@/integrations/supabase/types";
+
+const NO_TEMPLATE = "none";
 
 interface DocumentUploadModalProps {
   open: boolean;
@@ -20,6 +31,7 @@ interface DocumentUploadModalProps {
   onUploadComplete: () => void;
   targetUserId?: string;
   isAdminUpload?: boolean;
+  replacesDocument?: { id: string; title: string; template_id?: string | null } | null;
 }
 
 const DocumentUploadModal = ({
@@ -28,19 +40,70 @@ const DocumentUploadModal = ({
   onUploadComplete,
   targetUserId,
   isAdminUpload = false,
+  replacesDocument = null,
 }: DocumentUploadModalProps) => {
   const [uploading, setUploading] = useState(false);
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
   const [externalLink, setExternalLink] = useState("");
   const [file, setFile] = useState<File | null>(null);
+  const [templates, setTemplates] = useState<Tables<"department_document_templates">[]>([]);
+  const [templateId, setTemplateId] = useState(NO_TEMPLATE);
   const { toast } = useToast();
+  const { user } = useAuth();
+  const ownerId = isAdminUpload && targetUserId ? targetUserId : user?.id;
+
+  useEffect(() => {
+    if (open && replacesDocument) {
+      setTitle(replacesDocument.title);
+      setTemplateId(replacesDocument.template_id || NO_TEMPLATE);
+    }
+  }, [open, replacesDocument]);
+
+  // Templates of the owner's department, so the upload counts towards it
+  const loadTemplates = useCallback(async () => {
+    if (!ownerId) return;
+
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("department_id")
+      .eq("id", ownerId)
+      .maybeSingle();
+
+    if (!profile?.department_id) {
+      setTemplates([]);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from("department_document_templates")
+      .select("*")
+      .eq("department_id", profile.department_id)
+      .order("title");
+
+    if (error) {
+      console.error("Error loading document templates:", error);
+      return;
+    }
+    setTemplates(data || []);
+  }, [ownerId]);
+
+  useEffect(() => {
+    if (open) loadTemplates();
+  }, [open, loadTemplates]);
+
+  const handleTemplateChange = (value: string) => {
+    setTemplateId(value);
+    const template = templates.find((t) => t.id === value);
+    if (template && !title.trim()) setTitle(template.title);
+  };
 
   const resetForm = () => {
     setTitle("");
     setDescription("");
     setExternalLink("");
     setFile(null);
+    setTemplateId(NO_TEMPLATE);
   };
 
   const handleUpload = async () => {
@@ -65,13 +128,9 @@ const DocumentUploadModal = ({
     setUploading(true);
 
     try {
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
+      if (!ownerId) throw new Error("No user found");
 
-      if (!user) throw new Error("No user found");
-
-      const uploadForUserId = isAdminUpload && targetUserId ? targetUserId : user.id;
+      const selectedTemplate = templates.find((t) => t.id === templateId);
 
       let fileUrl = externalLink;
       let fileName = "External Link";
@@ -79,7 +138,7 @@ const DocumentUploadModal = ({
 
       if (file) {
         const fileExt = file.name.split(".").pop();
-        const filePath = `${uploadForUserId}/${Date.now()}.${fileExt}`;
+        const filePath = `${ownerId}/${Date.now()}.${fileExt}`;
 
         const { error: uploadError } = await supabase.storage
           .from("employee_docs")
@@ -94,13 +153,16 @@ const DocumentUploadModal = ({
       }
 
       const { error: insertError } = await supabase.from("documents").insert({
-        user_id: uploadForUserId,
+        user_id: ownerId,
         title,
         description: description || null,
         file_name: fileName,
         file_url: fileUrl,
         file_type: fileType,
         uploaded_by_admin: isAdminUpload,
+        replaces_document_id: replacesDocument?.id || null,
+        template_id: selectedTemplate?.id || null,
+        template_version: selectedTemplate?.version || null,
       });
 
       if (insertError) throw insertError;
@@ -128,9 +190,29 @@ const DocumentUploadModal = ({
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
-          <DialogTitle>Add Document</DialogTitle>
+          <DialogTitle>{replacesDocument ? "Upload Replacement" : "Add Document"}</DialogTitle>
         </DialogHeader>
         <div className="space-y-4 py-4">
+          {templates.length > 0 && (
+            <div className="space-y-2">
+              <Label>Department Template</Label>
+              <Select value={templateId} onValueChange={handleTemplateChange}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_TEMPLATE}>Not for a template</SelectItem>
+                  {templates.map((template) => (
+                    <SelectItem key={template.id} value={template.id}>
+                      {template.title}
+                      {template.is_required ? " (Required)" : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label htmlFor="title">Document Title *</Label>
             <Input
@@ -1,14 +1,24 @@
 import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
+import { format, parseISO } from "date-fns";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import DashboardLayout from "./DashboardLayout";
 import UserInfoSidebar from "./UserInfoSidebar";
-import { FileText, GraduationCap, ExternalLink, Play, X } from "lucide-react";
+import FormSubmissionCard from "./FormSubmissionCard";
+import OnboardingChecklist from "./OnboardingChecklist";
+import TrainingViewer from "./TrainingViewer";
+import TrainingPathsCard from "./TrainingPathsCard";
+import TrainingCertificatesCard from "./TrainingCertificatesCard";
+import { FileText, GraduationCap, ExternalLink, Play, X, CheckCircle2, Lock } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Tables } from "@/integrations/supabase/types";
+import { TrainingPath, getLockedSessionIds, loadTrainingPaths } from "@/lib/trainingPaths";
+import { isTrainingOverdue } from "@/lib/training";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -25,9 +35,13 @@ interface TrainingSession {
   title: string;
   resource_type: string;
   resource_url: string;
+  storage_path: string | null;
   description: string;
+  duration_minutes: number | null;
   progress: number;
+  completed: boolean;
   is_mandatory: boolean;
+  due_date: string | null;
 }
 
 const EmployeeDashboard = () => {
@@ -38,20 +52,29 @@ const EmployeeDashboard = () => {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [sessionToUnassign, setSessionToUnassign] = useState<TrainingSession | null>(null);
   const [unassigning, setUnassigning] = useState(false);
+  const [activeSession, setActiveSession] = useState<TrainingSession | null>(null);
+  const [trainingPaths, setTrainingPaths] = useState<TrainingPath[]>([]);
   const { toast } = useToast();
+  const { user } = useAuth();
   const navigate = useNavigate();
 
   useEffect(() => {
     loadData();
   }, []);
 
+  useEffect(() => {
+    if (!profile?.department_id) return;
+    loadTrainingPaths(profile.department_id)
+      .then(setTrainingPaths)
+      .catch((error) => console.error("Error loading training paths:", error));
+  }, [profile?.department_id]);
+
   const loadData = async () => {
     await Promise.all([loadDocumentCount(), loadProfile(), loadTrainingSessions()]);
   };
 
   const loadTrainingSessions = async () => {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
       // Fetch only assigned training sessions with progress
@@ -63,9 +86,11 @@ const EmployeeDashboard = () => {
           description,
           resource_type,
           resource_url,
+          storage_path,
+          duration_minutes,
           is_mandatory,
-          training_progress(progress_percentage),
-          training_assignments!inner(user_id)
+          training_progress(progress_percentage, completed),
+          training_assignments!inner(user_id, due_date)
         `)
         .eq("training_assignments.user_id", user.id)
         .order("created_at", { ascending: false });
@@ -77,9 +102,13 @@ const EmployeeDashboard = () => {
         title: session.title,
         resource_type: session.resource_type,
         resource_url: session.resource_url || "#",
+        storage_path: session.storage_path,
         description: session.description || "",
+        duration_minutes: session.duration_minutes,
         progress: session.training_progress?.[0]?.progress_percentage || 0,
+        completed: !!session.training_progress?.[0]?.completed,
         is_mandatory: session.is_mandatory,
+        due_date: session.training_assignments?.[0]?.due_date || null,
       })) || [];
 
       setTrainingSessions(formattedSessions);
@@ -90,10 +119,6 @@ const EmployeeDashboard = () => {
 
   const loadProfile = async () => {
     try {
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-
       if (!user) return;
 
       const { data, error } = await supabase
@@ -115,10 +140,6 @@ const EmployeeDashboard = () => {
 
   const loadDocumentCount = async () => {
     try {
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-
       if (!user) return;
 
       const { count, error } = await supabase
@@ -140,12 +161,34 @@ const EmployeeDashboard = () => {
     }
   };
 
-  const handleSessionClick = async (session: TrainingSession) => {
-    if (session.resource_url && session.resource_url !== "#") {
-      window.open(session.resource_url, "_blank");
+  const completedSessionIds = trainingSessions.filter((s) => s.completed).map((s) => s.id);
+  const lockedSessionIds = getLockedSessionIds(trainingPaths, completedSessionIds);
+  const pathSessionIds = trainingPaths.flatMap((p) => p.training_path_modules.map((m) => m.training_session_id));
+
+  const handleSessionClick = (session: TrainingSession) => {
+    if (lockedSessionIds.includes(session.id)) {
+      toast({
+        title: "Training locked",
+        description: "Complete the earlier modules in your training path first.",
+      });
+      return;
+    }
+    if (session.storage_path || (session.resource_url && session.resource_url !== "#")) {
+      setActiveSession(session);
     }
   };
 
+  // Keep the progress bars in step with what the viewer records
+  const handleProgress = (progress: Tables<"training_progress">) => {
+    setTrainingSessions((sessions) =>
+      sessions.map((s) =>
+        s.id === progress.training_session_id
+          ? { ...s, progress: progress.progress_percentage || 0, completed: !!progress.completed }
+          : s
+      )
+    );
+  };
+
   const handleUnassignClick = (e: React.MouseEvent, session: TrainingSession) => {
     e.stopPropagation(); // Prevent opening the session
     setSessionToUnassign(session);
@@ -157,7 +200,6 @@ const EmployeeDashboard = () => {
 
     setUnassigning(true);
     try {
-      const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
       const { error } = await supabase
@@ -209,6 +251,9 @@ const EmployeeDashboard = () => {
 
         {/* Main Content */}
         <div className="lg:col-span-3 space-y-6">
+          {/* Onboarding Checklist Card */}
+          <OnboardingChecklist userId={profile.id} departmentId={profile.department_id} joinDate={profile.join_date} />
+
           {/* Documents Summary Card */}
           <Card
             className="cursor-pointer hover:shadow-lg transition-shadow"
@@ -234,6 +279,23 @@ const EmployeeDashboard = () => {
             </CardContent>
           </Card>
 
+          {/* Onboarding Form Submission Card */}
+          <FormSubmissionCard />
+
+          {/* Training Paths Card */}
+          <TrainingPathsCard
+            paths={trainingPaths}
+            sessions={trainingSessions}
+            joinDate={profile.join_date}
+            onOpen={(sessionId) => {
+              const session = trainingSessions.find((s) => s.id === sessionId);
+              if (session) handleSessionClick(session);
+            }}
+          />
+
+          {/* Certificates Card */}
+          <TrainingCertificatesCard userId={profile.id} completedCount={completedSessionIds.length} />
+
           {/* Training & Session Modules Card */}
           <Card>
             <CardHeader>
@@ -249,52 +311,75 @@ const EmployeeDashboard = () => {
                     No training sessions assigned yet
                   </p>
                 ) : (
-                  trainingSessions.map((session) => (
-                    <div
-                      key={session.id}
-                      className="p-4 border rounded-lg hover:bg-muted/50 transition-colors cursor-pointer"
-                      onClick={() => handleSessionClick(session)}
-                    >
-                      <div className="flex items-start justify-between mb-2">
-                        <div className="flex-1">
-                          <div className="flex items-center gap-2 mb-1">
-                            <h4 className="font-semibold">{session.title}</h4>
-                            <Badge variant="outline" className="text-xs">
-                              {session.resource_type}
-                            </Badge>
-                            {session.is_mandatory && (
-                              <Badge variant="destructive" className="text-xs">
-                                Mandatory
+                  trainingSessions.map((session) => {
+                    const overdue = isTrainingOverdue(session.due_date, session.completed);
+                    return (
+                      <div
+                        key={session.id}
+                        className={`p-4 border rounded-lg hover:bg-muted/50 transition-colors cursor-pointer ${
+                          overdue ? "border-destructive/50 bg-destructive/5" : ""
+                        }`}
+                        onClick={() => handleSessionClick(session)}
+                      >
+                        <div className="flex items-start justify-between mb-2">
+                          <div className="flex-1">
+                            <div className="flex items-center gap-2 mb-1">
+                              <h4 className="font-semibold">{session.title}</h4>
+                              <Badge variant="outline" className="text-xs">
+                                {session.resource_type}
                               </Badge>
+                              {session.is_mandatory && (
+                                <Badge variant="destructive" className="text-xs">
+                                  Mandatory
+                                </Badge>
+                              )}
+                              {overdue && (
+                                <Badge variant="destructive" className="text-xs">
+                                  Overdue
+                                </Badge>
+                              )}
+                              {session.completed && (
+                                <CheckCircle2 className="w-4 h-4 text-green-600" />
+                              )}
+                            </div>
+                            <p className="text-sm text-muted-foreground">
+                              {session.description}
+                            </p>
+                            {session.due_date && !session.completed && (
+                              <p className={`text-xs mt-1 ${overdue ? "text-destructive" : "text-muted-foreground"}`}>
+                                Due {format(parseISO(session.due_date), "PP")}
+                              </p>
+                            )}
+                          </div>
+                          <div className="flex items-center gap-2 ml-2">
+                            {lockedSessionIds.includes(session.id) ? (
+                              <Lock className="w-5 h-5 text-muted-foreground" />
+                            ) : (
+                              <Play className="w-5 h-5 text-primary" />
+                            )}
+                            {/* Path sessions are part of the department's programme */}
+                            {!session.is_mandatory && !pathSessionIds.includes(session.id) && (
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={(e) => handleUnassignClick(e, session)}
+                                className="text-muted-foreground hover:text-destructive p-1 h-auto"
+                              >
+                                <X className="w-4 h-4" />
+                              </Button>
                             )}
                           </div>
-                          <p className="text-sm text-muted-foreground">
-                            {session.description}
-                          </p>
-                        </div>
-                        <div className="flex items-center gap-2 ml-2">
-                          <Play className="w-5 h-5 text-primary" />
-                          {!session.is_mandatory && (
-                            <Button
-                              size="sm"
-                              variant="ghost"
-                              onClick={(e) => handleUnassignClick(e, session)}
-                              className="text-muted-foreground hover:text-destructive p-1 h-auto"
-                            >
-                              <X className="w-4 h-4" />
-                            </Button>
-                          )}
                         </div>
-                      </div>
-                      <div className="space-y-1">
-                        <div className="flex items-center justify-between text-xs text-muted-foreground">
-                          <span>Progress</span>
-                          <span>{session.progress}%</span>
+                        <div className="space-y-1">
+                          <div className="flex items-center justify-between text-xs text-muted-foreground">
+                            <span>Progress</span>
+                            <span>{session.progress}%</span>
+                          </div>
+                          <Progress value={session.progress} className="h-2" />
                         </div>
-                        <Progress value={session.progress} className="h-2" />
                       </div>
-                    </div>
-                  ))
+                    );
+                  })
                 )}
               </div>
             </CardContent>
@@ -302,6 +387,12 @@ const EmployeeDashboard = () => {
         </div>
       </div>
 
+      <TrainingViewer
+        session={activeSession}
+        onClose={() => setActiveSession(null)}
+        onProgress={handleProgress}
+      />
+
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -0,0 +1,49 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download, Loader2 } from "lucide-react";
+import { EXPORT_FORMATS, ExportFormat } from "@/lib/spreadsheet";
+
+interface ExportMenuProps {
+  label?: string;
+  onExport: (format: ExportFormat) => Promise<void> | void;
+  disabled?: boolean;
+}
+
+const ExportMenu = ({ label = "Export", onExport, disabled = false }: ExportMenuProps) => {
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(true);
+    try {
+      await onExport(format);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={disabled || exporting}>
+          {exporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+          {label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {EXPORT_FORMATS.map((format) => (
+          <DropdownMenuItem key={format.value} onClick={() => handleExport(format.value)}>
+            {format.label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,100 @@
+import { useState, useEffect, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { Tables } from "@/integrations/supabase/types";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ClipboardList } from "lucide-react";
+import { format } from "date-fns";
+import SubmissionStatusBadge from "./SubmissionStatusBadge";
+
+interface Submission extends Tables<"department_signup_form_submissions"> {
+  department_signup_forms?: { form_name: string } | null;
+}
+
+const FormSubmissionCard = () => {
+  const [submission, setSubmission] = useState<Submission | null>(null);
+  const [loading, setLoading] = useState(true);
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const userId = user?.id;
+
+  const loadSubmission = useCallback(async () => {
+    try {
+      if (!userId) return;
+
+      const { data, error } = await supabase
+        .from("department_signup_form_submissions")
+        .select("*, department_signup_forms(form_name)")
+        .eq("user_id", userId)
+        .order("submitted_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      setSubmission(data);
+    } catch (error) {
+      console.error("Error loading form submission:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadSubmission();
+  }, [loadSubmission]);
+
+  if (loading) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-xl">Onboarding Form</CardTitle>
+          <ClipboardList className="w-8 h-8 text-primary" />
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!submission ? (
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-muted-foreground">You haven't submitted your department form yet.</p>
+            <Button size="sm" onClick={() => navigate("/onboarding")}>
+              Fill in form
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <p className="font-medium">
+                  {submission.department_signup_forms?.form_name || "Department form"}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  Version {submission.version}
+                  {submission.submitted_at &&
+                    ` · submitted ${format(new Date(submission.submitted_at), "MMM d, yyyy")}`}
+                </p>
+              </div>
+              <SubmissionStatusBadge status={submission.status} />
+            </div>
+            {submission.reviewer_notes && (
+              <p className="text-sm bg-muted/50 rounded-md p-3">
+                <span className="font-medium">Reviewer notes: </span>
+                {submission.reviewer_notes}
+              </p>
+            )}
+            {submission.status === "needs_changes" && (
+              <Button size="sm" onClick={() => navigate("/onboarding")}>
+                Update & Resubmit
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FormSubmissionCard;
@@ -0,0 +1,114 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Bell } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+
+type Notification = Tables<"notifications">;
+
+const NotificationBell = () => {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const userId = user?.id;
+
+  const loadNotifications = useCallback(async () => {
+    if (!userId) return;
+
+    const { data, error } = await supabase
+      .from("notifications")
+      .select("*")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false })
+      .limit(20);
+
+    if (error) {
+      console.error("Error loading notifications:", error);
+      return;
+    }
+
+    setNotifications(data || []);
+  }, [userId]);
+
+  useEffect(() => {
+    loadNotifications();
+  }, [loadNotifications]);
+
+  const markAllRead = async () => {
+    const unreadIds = notifications.filter((n) => !n.read_at).map((n) => n.id);
+    if (unreadIds.length === 0) return;
+
+    const readAt = new Date().toISOString();
+    const { error } = await supabase
+      .from("notifications")
+      .update({ read_at: readAt })
+      .in("id", unreadIds);
+
+    if (error) {
+      console.error("Error marking notifications as read:", error);
+      return;
+    }
+
+    setNotifications((items) => items.map((n) => (n.read_at ? n : { ...n, read_at: readAt })));
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    // Opening the list counts as reading it
+    if (!open) markAllRead();
+  };
+
+  const unreadCount = notifications.filter((n) => !n.read_at).length;
+
+  return (
+    <Popover onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative">
+          <Bell className="w-4 h-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] leading-[1.1rem] text-center">
+              {unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="px-4 py-3 border-b">
+          <p className="text-sm font-semibold">Notifications</p>
+        </div>
+        {notifications.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">You're all caught up</p>
+        ) : (
+          <ScrollArea className="max-h-80">
+            {notifications.map((notification) => (
+              <button
+                key={notification.id}
+                type="button"
+                className={`w-full text-left px-4 py-3 border-b last:border-0 hover:bg-muted/50 transition-colors ${
+                  notification.read_at ? "" : "bg-primary/5"
+                }`}
+                onClick={() => notification.link && navigate(notification.link)}
+              >
+                <p className="text-sm font-medium">{notification.title}</p>
+                {notification.message && (
+                  <p className="text-xs text-muted-foreground mt-1">{notification.message}</p>
+                )}
+                {notification.created_at && (
+                  <p className="text-[11px] text-muted-foreground mt-1">
+                    {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                  </p>
+                )}
+              </button>
+            ))}
+          </ScrollArea>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default NotificationBell;
@@ -0,0 +1,169 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { CheckCircle2, Circle, Clock, ListChecks, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import {
+  ChecklistEntry,
+  ChecklistTaskType,
+  EmployeeChecklist,
+  getTaskTypeLabel,
+  loadEmployeeChecklist,
+} from "@/lib/checklist";
+
+interface OnboardingChecklistProps {
+  userId: string;
+  departmentId: string | null;
+  joinDate: string;
+  // Reviewers sign off manual tasks; employees get links to where each task is done
+  reviewer?: boolean;
+  readOnly?: boolean;
+}
+
+const TASK_LINKS: Partial<Record<ChecklistTaskType, string>> = {
+  fill_form: "/onboarding",
+  upload_template: "/dashboard/documents",
+};
+
+const OnboardingChecklist = ({
+  userId,
+  departmentId,
+  joinDate,
+  reviewer = false,
+  readOnly = false,
+}: OnboardingChecklistProps) => {
+  const [checklist, setChecklist] = useState<EmployeeChecklist | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [savingItemId, setSavingItemId] = useState<string | null>(null);
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  const loadChecklist = useCallback(async () => {
+    if (!departmentId) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setChecklist(await loadEmployeeChecklist(userId, departmentId, joinDate));
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error loading checklist",
+        description: (error as Error).message,
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, departmentId, joinDate, toast]);
+
+  useEffect(() => {
+    loadChecklist();
+  }, [loadChecklist]);
+
+  const toggleSignOff = async (entry: ChecklistEntry) => {
+    setSavingItemId(entry.item.id);
+    try {
+      const { error } = entry.signoff
+        ? await supabase.from("checklist_item_signoffs").delete().eq("id", entry.signoff.id)
+        : await supabase.from("checklist_item_signoffs").insert({
+            item_id: entry.item.id,
+            user_id: userId,
+            signed_off_by: user?.id,
+          });
+
+      if (error) throw error;
+      await loadChecklist();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error updating sign-off",
+        description: (error as Error).message,
+      });
+    } finally {
+      setSavingItemId(null);
+    }
+  };
+
+  // Departments without a checklist simply don't show one
+  if (loading || !checklist || checklist.entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-xl">Onboarding Checklist</CardTitle>
+          <ListChecks className="w-8 h-8 text-primary" />
+        </div>
+        <div className="space-y-1 pt-2">
+          <div className="flex items-center justify-between text-sm text-muted-foreground">
+            <span>
+              {checklist.completed} of {checklist.entries.length} done
+            </span>
+            <span>{checklist.percentage}%</span>
+          </div>
+          <Progress value={checklist.percentage} className="h-2" />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {checklist.entries.map((entry) => {
+          const link = TASK_LINKS[entry.item.task_type];
+          return (
+            <div key={entry.item.id} className="flex items-start gap-3 rounded-lg border p-3">
+              {entry.state === "done" ? (
+                <CheckCircle2 className="w-5 h-5 text-green-600 mt-0.5 shrink-0" />
+              ) : entry.state === "in_progress" ? (
+                <Clock className="w-5 h-5 text-amber-600 mt-0.5 shrink-0" />
+              ) : (
+                <Circle className="w-5 h-5 text-muted-foreground mt-0.5 shrink-0" />
+              )}
+              <div className="flex-1 min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <p className={`font-medium ${entry.state === "done" ? "line-through text-muted-foreground" : ""}`}>
+                    {entry.item.title}
+                  </p>
+                  <Badge variant="outline" className="text-xs">
+                    {getTaskTypeLabel(entry.item.task_type)}
+                  </Badge>
+                </div>
+                {entry.item.description && (
+                  <p className="text-sm text-muted-foreground">{entry.item.description}</p>
+                )}
+                <p className={`text-xs ${entry.overdue ? "text-destructive font-medium" : "text-muted-foreground"}`}>
+                  {entry.overdue ? "Overdue since" : "Due"} {format(entry.dueDate, "MMM d, yyyy")}
+                </p>
+              </div>
+              {reviewer && !readOnly && entry.item.task_type === "manual" && (
+                <Button
+                  size="sm"
+                  variant={entry.signoff ? "outline" : "default"}
+                  onClick={() => toggleSignOff(entry)}
+                  disabled={savingItemId === entry.item.id}
+                >
+                  {savingItemId === entry.item.id && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  {entry.signoff ? "Undo sign-off" : "Sign off"}
+                </Button>
+              )}
+              {!reviewer && link && entry.state !== "done" && (
+                <Button size="sm" variant="outline" onClick={() => navigate(link)}>
+                  Open
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OnboardingChecklist;
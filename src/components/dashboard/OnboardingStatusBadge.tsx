@@ -0,0 +1,13 @@
+import { Badge } from "@/components/ui/badge";
+import { OnboardingStatus, getOnboardingStatus } from "@/lib/onboardingStatus";
+
+interface OnboardingStatusBadgeProps {
+  status: OnboardingStatus;
+}
+
+const OnboardingStatusBadge = ({ status }: OnboardingStatusBadgeProps) => {
+  const { label, className } = getOnboardingStatus(status);
+  return <Badge className={className}>{label}</Badge>;
+};
+
+export default OnboardingStatusBadge;
@@ -0,0 +1,14 @@
+import { Badge } from "@/components/ui/badge";
+import { getSubmissionStatus } from "@/lib/formSubmissions";
+
+interface SubmissionStatusBadgeProps {
+  status: string | null;
+}
+
+const SubmissionStatusBadge = ({ status }: SubmissionStatusBadgeProps) => {
+  const { label, className } = getSubmissionStatus(status);
+
+  return <Badge className={`${className} border-0`}>{label}</Badge>;
+};
+
+export default SubmissionStatusBadge;
@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Award, Download } from "lucide-react";
+import {
+  TrainingCertificate,
+  downloadCertificate,
+  fileCertificateDocument,
+  getCertificateVerifyUrl,
+  loadCertificates,
+} from "@/lib/certificates";
+
+interface TrainingCertificatesCardProps {
+  userId: string;
+  // Reloaded when this changes, as completing a mandatory session issues one
+  completedCount: number;
+}
+
+const TrainingCertificatesCard = ({ userId, completedCount }: TrainingCertificatesCardProps) => {
+  const [certificates, setCertificates] = useState<TrainingCertificate[]>([]);
+  const { toast } = useToast();
+
+  const load = useCallback(async () => {
+    try {
+      const loaded = await loadCertificates(userId);
+      setCertificates(loaded);
+
+      // File any new certificate in the employee's documents
+      for (const certificate of loaded.filter((c) => !c.document_id)) {
+        try {
+          const filed = await fileCertificateDocument(certificate);
+          setCertificates((current) => current.map((c) => (c.id === filed.id ? filed : c)));
+        } catch (error) {
+          console.error("Error filing certificate:", error);
+        }
+      }
+    } catch (error) {
+      console.error("Error loading certificates:", error);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    load();
+  }, [load, completedCount]);
+
+  const handleDownload = (certificate: TrainingCertificate) => {
+    try {
+      downloadCertificate(certificate);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error downloading certificate",
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  if (certificates.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-xl">My Certificates</CardTitle>
+          <Award className="w-8 h-8 text-primary" />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {certificates.map((certificate) => (
+          <div key={certificate.id} className="flex items-center justify-between gap-3 rounded-lg border p-3">
+            <div className="space-y-1">
+              <p className="font-medium">{certificate.session_title}</p>
+              <p className="text-xs text-muted-foreground">
+                Completed {format(parseISO(certificate.completed_at), "PP")} · ID{" "}
+                <a
+                  href={getCertificateVerifyUrl(certificate.verification_code)}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="font-mono text-primary hover:underline"
+                >
+                  {certificate.verification_code}
+                </a>
+              </p>
+            </div>
+            <Button size="sm" variant="outline" onClick={() => handleDownload(certificate)}>
+              <Download className="w-4 h-4 mr-2" />
+              PDF
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TrainingCertificatesCard;
@@ -0,0 +1,148 @@
+import { useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/use-auth";
+import { Loader2 } from "lucide-react";
+import { PackageResult } from "@/lib/scorm";
+import {
+  PACKAGE_HOST_ORIGIN,
+  PackageData,
+  PackageHostMessage,
+  PackageViewerMessage,
+  getPackageHostUrl,
+  toPackageData,
+} from "@/lib/trainingPackages";
+
+interface TrainingPackagePlayerProps {
+  sessionId: string;
+  storagePath: string;
+  // training_progress.package_data from the employee's last launch
+  packageData: Json;
+  onResult: (result: PackageResult) => void;
+}
+
+// Course content must never run on the app's own origin
+const hostConfigured = !!PACKAGE_HOST_ORIGIN && PACKAGE_HOST_ORIGIN !== window.location.origin;
+
+const saveTrainingPackageState = async (sessionId: string, data: PackageData, score: number | null) => {
+  const { error } = await supabase.rpc("save_training_package_state", {
+    _session_id: sessionId,
+    _data: data as Json,
+    _score: score ?? undefined,
+  });
+
+  if (error) throw error;
+};
+
+// Runs a SCORM or xAPI course through the package host page and saves what it
+// reports
+const TrainingPackagePlayer = ({ sessionId, storagePath, packageData, onResult }: TrainingPackagePlayerProps) => {
+  const [launched, setLaunched] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const frameRef = useRef<HTMLIFrameElement>(null);
+  const { user } = useAuth();
+  const userId = user?.id;
+  const onResultRef = useRef(onResult);
+  onResultRef.current = onResult;
+  // Only read when the course starts; what it saves after that comes back from the host
+  const packageDataRef = useRef(packageData);
+  packageDataRef.current = packageData;
+
+  useEffect(() => {
+    if (!userId || !hostConfigured) return;
+
+    let cancelled = false;
+    const post = (message: PackageViewerMessage, transfer: Transferable[] = []) =>
+      frameRef.current?.contentWindow?.postMessage(message, PACKAGE_HOST_ORIGIN!, transfer);
+
+    const handle = async (message: PackageHostMessage) => {
+      switch (message.type) {
+        case "ready": {
+          const { data: profile, error } = await supabase
+            .from("profiles")
+            .select("full_name, email")
+            .eq("id", userId)
+            .single();
+          if (error) throw error;
+
+          post({
+            type: "launch",
+            sessionId,
+            storagePath,
+            learner: { id: userId, name: profile.full_name || profile.email, email: profile.email },
+            data: toPackageData(packageDataRef.current),
+          });
+          break;
+        }
+        case "need-package": {
+          const { data, error } = await supabase.storage.from("training_content").download(storagePath);
+          if (error) throw error;
+
+          const zip = await data.arrayBuffer();
+          post({ type: "package", zip }, [zip]);
+          break;
+        }
+        case "launched":
+          if (!cancelled) setLaunched(true);
+          break;
+        case "save":
+          saveTrainingPackageState(sessionId, message.data, message.result?.score ?? null).catch((error) =>
+            console.error("Error saving course progress:", error)
+          );
+          if (message.result) onResultRef.current(message.result);
+          break;
+        case "error":
+          throw new Error(message.message);
+      }
+    };
+
+    const handleMessage = (event: MessageEvent<PackageHostMessage>) => {
+      if (event.origin !== PACKAGE_HOST_ORIGIN || event.source !== frameRef.current?.contentWindow) return;
+
+      handle(event.data).catch((error) => {
+        console.error("Error launching course:", error);
+        if (!cancelled) setError(error.message);
+      });
+    };
+
+    setLaunched(false);
+    setError(null);
+    window.addEventListener("message", handleMessage);
+
+    return () => {
+      cancelled = true;
+      window.removeEventListener("message", handleMessage);
+    };
+  }, [sessionId, storagePath, userId]);
+
+  if (!hostConfigured || error) {
+    return (
+      <div className="rounded-md border p-8 text-center text-sm text-destructive">
+        This course couldn't be started: {error || "no separate course host is configured"}
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative h-[65vh] w-full overflow-hidden rounded-md border">
+      {!launched && (
+        <div className="absolute inset-0 flex items-center justify-center bg-background">
+          <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+        </div>
+      )}
+      {/* Reloaded for each course, as the host page runs only one */}
+      <iframe
+        key={`${sessionId}:${storagePath}`}
+        ref={frameRef}
+        src={getPackageHostUrl()}
+        title="Course"
+        className="w-full h-full"
+        sandbox="allow-scripts allow-same-origin allow-forms allow-popups"
+        allow="autoplay; fullscreen"
+        allowFullScreen
+      />
+    </div>
+  );
+};
+
+export default TrainingPackagePlayer;
@@ -0,0 +1,119 @@
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { CheckCircle2, Lock, PlayCircle, Route } from "lucide-react";
+import {
+  MODULE_STATES,
+  TrainingPath,
+  getModuleDueDate,
+  getModuleState,
+  isModuleOverdue,
+} from "@/lib/trainingPaths";
+
+interface PathSession {
+  id: string;
+  title: string;
+  completed: boolean;
+}
+
+interface TrainingPathsCardProps {
+  paths: TrainingPath[];
+  // The employee's assigned sessions
+  sessions: PathSession[];
+  joinDate: string | null;
+  onOpen: (sessionId: string) => void;
+}
+
+const TrainingPathsCard = ({ paths, sessions, joinDate, onOpen }: TrainingPathsCardProps) => {
+  const completedIds = sessions.filter((s) => s.completed).map((s) => s.id);
+
+  if (paths.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-xl">My Training Paths</CardTitle>
+          <Route className="w-8 h-8 text-primary" />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {paths.map((path) => {
+          const modules = path.training_path_modules;
+          const completed = modules.filter((m) => completedIds.includes(m.training_session_id)).length;
+
+          return (
+            <div key={path.id} className="space-y-3">
+              <div>
+                <div className="flex items-center justify-between">
+                  <h4 className="font-semibold">{path.title}</h4>
+                  <span className="text-sm text-muted-foreground">
+                    {completed} of {modules.length} completed
+                  </span>
+                </div>
+                {path.description && <p className="text-sm text-muted-foreground">{path.description}</p>}
+                <Progress value={modules.length ? (completed / modules.length) * 100 : 0} className="h-2 mt-2" />
+              </div>
+
+              <ol className="space-y-2">
+                {modules.map((module, index) => {
+                  const session = sessions.find((s) => s.id === module.training_session_id);
+                  const state = getModuleState(module, completedIds);
+                  const dueDate = getModuleDueDate(module, joinDate);
+                  const overdue = isModuleOverdue(dueDate, state);
+                  const openable = !!session && state !== "locked";
+                  const waitingOn = module.prerequisite_session_ids
+                    .filter((id) => !completedIds.includes(id))
+                    .map((id) => sessions.find((s) => s.id === id)?.title)
+                    .filter(Boolean);
+
+                  return (
+                    <li
+                      key={module.id}
+                      className={`flex items-start gap-3 rounded-lg border p-3 ${
+                        openable ? "cursor-pointer hover:bg-muted/50 transition-colors" : "opacity-75"
+                      }`}
+                      onClick={() => openable && onOpen(session.id)}
+                    >
+                      {state === "completed" ? (
+                        <CheckCircle2 className="w-5 h-5 mt-0.5 shrink-0 text-green-600" />
+                      ) : state === "unlocked" ? (
+                        <PlayCircle className="w-5 h-5 mt-0.5 shrink-0 text-primary" />
+                      ) : (
+                        <Lock className="w-5 h-5 mt-0.5 shrink-0 text-muted-foreground" />
+                      )}
+                      <div className="flex-1 space-y-1">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="font-medium">
+                            {index + 1}. {session?.title || "Session not assigned"}
+                          </span>
+                          <Badge className={`text-xs ${MODULE_STATES[state].className}`}>
+                            {MODULE_STATES[state].label}
+                          </Badge>
+                          {overdue && (
+                            <Badge variant="destructive" className="text-xs">
+                              Overdue
+                            </Badge>
+                          )}
+                        </div>
+                        {state === "locked" && waitingOn.length > 0 && (
+                          <p className="text-xs text-muted-foreground">Complete {waitingOn.join(", ")} first</p>
+                        )}
+                        {dueDate && state !== "completed" && (
+                          <p className="text-xs text-muted-foreground">Due {format(dueDate, "PP")}</p>
+                        )}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ol>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TrainingPathsCard;
@@ -0,0 +1,512 @@
+import { useEffect, useRef, useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ArrowLeft, CheckCircle2, ExternalLink, ListChecks, Loader2 } from "lucide-react";
+import { Json, Tables } from "@/integrations/supabase/types";
+import {
+  ACTIVITY_FLUSH_SECONDS,
+  formatTimeSpent,
+  getEmbedUrl,
+  getTimedProgress,
+  getTrainingContentUrl,
+  recordTrainingActivity,
+} from "@/lib/training";
+import { EmployeeQuiz, QuizAnswers, TRUE_FALSE_OPTIONS, getTrainingQuiz, submitQuizAttempt } from "@/lib/quizzes";
+import { PackageResult } from "@/lib/scorm";
+import TrainingPackagePlayer from "./TrainingPackagePlayer";
+
+export interface ViewerSession {
+  id: string;
+  title: string;
+  description: string;
+  resource_type: string;
+  resource_url: string;
+  storage_path: string | null;
+  duration_minutes: number | null;
+  is_mandatory: boolean | null;
+}
+
+interface TrainingViewerProps {
+  session: ViewerSession | null;
+  onClose: () => void;
+  // Called with the saved row whenever progress is written
+  onProgress?: (progress: Tables<"training_progress">) => void;
+}
+
+// The server refuses time sent again this soon after the last save
+const MIN_FLUSH_INTERVAL_MS = 2000;
+// Share of a video that has to be played through before it counts as watched
+const VIDEO_WATCHED_PERCENT = 95;
+// Resuming this close to the end would only show the last frame
+const VIDEO_RESUME_MARGIN = 5;
+
+const TrainingViewer = ({ session, onClose, onProgress }: TrainingViewerProps) => {
+  const [progress, setProgress] = useState(0);
+  const [completed, setCompleted] = useState(false);
+  const [timeSpent, setTimeSpent] = useState(0);
+  // The PDF viewer doesn't tell us how far the employee has read, so they
+  // confirm it themselves before completing
+  const [readConfirmed, setReadConfirmed] = useState(false);
+  const [contentUrl, setContentUrl] = useState<string | null>(null);
+  const [completing, setCompleting] = useState(false);
+  const [quiz, setQuiz] = useState<EmployeeQuiz | null>(null);
+  const [showQuiz, setShowQuiz] = useState(false);
+  const [answers, setAnswers] = useState<QuizAnswers>({});
+  const [lastScore, setLastScore] = useState<number | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  // Saved course state, known once the open is recorded
+  const [packageData, setPackageData] = useState<Json | null>(null);
+  const [score, setScore] = useState<number | null>(null);
+  const unsavedSeconds = useRef(0);
+  const totalSeconds = useRef(0);
+  const lastFlushAt = useRef(0);
+  // Furthest point reached by playing the video through
+  const contentProgress = useRef(0);
+  const playbackPosition = useRef<number | null>(null);
+  const furthestPosition = useRef(0);
+  const resumePosition = useRef(0);
+  const completedRef = useRef(false);
+  const { toast } = useToast();
+
+  const embedUrl = session ? getEmbedUrl(session.resource_type, contentUrl) : null;
+  const isPdf = session?.resource_type === "pdf";
+  const isVideo = session?.resource_type === "video";
+  // Packaged courses report their own completion
+  const isPackage = session?.resource_type === "scorm";
+  // Mandatory sessions with a quiz are only completed by passing it
+  const quizRequired = !!session?.is_mandatory && !!quiz && !quiz.passed;
+  const attemptsLeft = quiz?.max_attempts ? Math.max(0, quiz.max_attempts - quiz.attempts_used) : null;
+
+  // Videos and courses are measured by how much was watched, not how long the
+  // viewer was open
+  const currentProgress = () =>
+    isVideo || isPackage
+      ? contentProgress.current
+      : Math.max(contentProgress.current, getTimedProgress(totalSeconds.current, session?.duration_minutes ?? null));
+
+  const flush = async (extra: { completed?: boolean } = {}) => {
+    if (!session) return;
+    // Time counted just after a save is kept for the next one
+    const seconds = Date.now() - lastFlushAt.current < MIN_FLUSH_INTERVAL_MS ? 0 : unsavedSeconds.current;
+    unsavedSeconds.current -= seconds;
+    if (seconds > 0) lastFlushAt.current = Date.now();
+
+    const row = await recordTrainingActivity(session.id, {
+      seconds,
+      progress: currentProgress(),
+      completed: extra.completed,
+      position: playbackPosition.current ?? undefined,
+    });
+    onProgress?.(row);
+    setProgress(row.progress_percentage || 0);
+    setScore(row.score);
+    if (row.completed) {
+      completedRef.current = true;
+      setCompleted(true);
+    }
+  };
+
+  const complete = async (automatic: boolean) => {
+    if (completedRef.current || quizRequired) return;
+    completedRef.current = true;
+    setCompleting(true);
+    try {
+      await flush({ completed: true });
+      toast({
+        title: "Training completed",
+        description: automatic
+          ? `You reached the end of "${session?.title}".`
+          : `"${session?.title}" is marked as complete.`,
+      });
+    } catch (error) {
+      completedRef.current = false;
+      toast({
+        variant: "destructive",
+        title: "Error saving progress",
+        description: (error as Error).message,
+      });
+    } finally {
+      setCompleting(false);
+    }
+  };
+
+  // The session effect below only restarts for a different session, so it
+  // reaches the latest callbacks through refs
+  const flushRef = useRef(flush);
+  flushRef.current = flush;
+  const onProgressRef = useRef(onProgress);
+  onProgressRef.current = onProgress;
+  const sessionId = session?.id;
+  const storagePath = session?.storage_path;
+  const resourceUrl = session?.resource_url;
+
+  // Record the open, then count visible seconds and save them periodically
+  useEffect(() => {
+    if (!sessionId) return;
+
+    unsavedSeconds.current = 0;
+    lastFlushAt.current = Date.now();
+    contentProgress.current = 0;
+    playbackPosition.current = null;
+    furthestPosition.current = 0;
+    resumePosition.current = 0;
+    setReadConfirmed(false);
+    setContentUrl(storagePath ? null : resourceUrl ?? null);
+    setPackageData(null);
+    setScore(null);
+    setQuiz(null);
+    setShowQuiz(false);
+    setAnswers({});
+    setLastScore(null);
+
+    getTrainingQuiz(sessionId)
+      .then(setQuiz)
+      .catch((error) => console.error("Error loading quiz:", error));
+
+    recordTrainingActivity(sessionId, { opened: true })
+      .then((row) => {
+        onProgressRef.current?.(row);
+        totalSeconds.current = row.time_spent_seconds;
+        contentProgress.current = row.progress_percentage || 0;
+        resumePosition.current = row.playback_position_seconds;
+        completedRef.current = !!row.completed;
+        setTimeSpent(row.time_spent_seconds);
+        setProgress(row.progress_percentage || 0);
+        setCompleted(!!row.completed);
+        setScore(row.score);
+        setPackageData(row.package_data);
+      })
+      .catch((error) => {
+        console.error("Error recording training open:", error);
+        setPackageData({});
+      });
+
+    // Packages are unpacked by the player rather than linked
+    if (storagePath && !isPackage) {
+      getTrainingContentUrl(storagePath)
+        .then(setContentUrl)
+        .catch((error) => {
+          toast({
+            variant: "destructive",
+            title: "Error loading training content",
+            description: (error as Error).message,
+          });
+        });
+    }
+
+    const timer = window.setInterval(() => {
+      if (document.visibilityState !== "visible") return;
+      unsavedSeconds.current += 1;
+      totalSeconds.current += 1;
+      setTimeSpent(totalSeconds.current);
+      if (unsavedSeconds.current >= ACTIVITY_FLUSH_SECONDS) {
+        flushRef.current().catch((error) => console.error("Error saving training progress:", error));
+      }
+    }, 1000);
+
+    return () => {
+      window.clearInterval(timer);
+      flushRef.current().catch((error) => console.error("Error saving training progress:", error));
+    };
+  }, [sessionId, storagePath, resourceUrl, isPackage, toast]);
+
+  const handleSubmitQuiz = async () => {
+    if (!session || !quiz) return;
+
+    const unanswered = quiz.questions.filter((q) => !answers[q.id]?.trim()).length;
+    if (unanswered > 0) {
+      toast({
+        variant: "destructive",
+        title: "Quiz incomplete",
+        description: `Answer all questions before submitting (${unanswered} left).`,
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const attempt = await submitQuizAttempt(session.id, answers);
+      setLastScore(attempt.score);
+      setQuiz({ ...quiz, attempts_used: attempt.attempt_number, passed: attempt.passed });
+
+      if (attempt.passed) {
+        completedRef.current = true;
+        await flush();
+        toast({
+          title: "Quiz passed",
+          description: `You scored ${attempt.score}% and completed "${session.title}".`,
+        });
+      } else {
+        setAnswers({});
+        toast({
+          variant: "destructive",
+          title: "Quiz not passed",
+          description: `You scored ${attempt.score}%. ${quiz.passing_score}% is needed to pass.`,
+        });
+      }
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error submitting quiz",
+        description: (error as Error).message,
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // Pick up where the employee stopped, and treat everything up to there (or
+  // up to their saved progress) as already watched
+  const handleVideoLoaded = (e: React.SyntheticEvent<HTMLVideoElement>) => {
+    const video = e.currentTarget;
+    if (resumePosition.current > 0 && resumePosition.current < video.duration - VIDEO_RESUME_MARGIN) {
+      video.currentTime = resumePosition.current;
+    }
+    furthestPosition.current = Math.max(resumePosition.current, (contentProgress.current / 100) * video.duration);
+  };
+
+  // Only playing through counts: seeking past the furthest point reached
+  // doesn't move progress
+  const handleVideoTime = (e: React.SyntheticEvent<HTMLVideoElement>) => {
+    const video = e.currentTarget;
+    playbackPosition.current = video.currentTime;
+    if (!video.duration) return;
+
+    if (video.currentTime <= furthestPosition.current + 2) {
+      furthestPosition.current = Math.max(furthestPosition.current, video.currentTime);
+    }
+    contentProgress.current = Math.max(
+      contentProgress.current,
+      Math.min(100, Math.round((furthestPosition.current / video.duration) * 100))
+    );
+    setProgress((current) => Math.max(current, contentProgress.current));
+  };
+
+  const handleVideoEnded = () => {
+    playbackPosition.current = 0;
+    if (contentProgress.current >= VIDEO_WATCHED_PERCENT) complete(true);
+  };
+
+  const handlePackageResult = (result: PackageResult) => {
+    if (result.score !== null) setScore(result.score);
+    if (result.progress !== null) {
+      contentProgress.current = Math.max(contentProgress.current, result.progress);
+      setProgress((current) => Math.max(current, contentProgress.current));
+    }
+    if (result.completed) complete(true);
+  };
+
+  return (
+    <Dialog open={!!session} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[95vh] flex flex-col">
+        <DialogHeader>
+          <div className="flex items-center gap-2">
+            <DialogTitle>{session?.title}</DialogTitle>
+            {completed && (
+              <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Completed</Badge>
+            )}
+          </div>
+          {session?.description && <DialogDescription>{session.description}</DialogDescription>}
+        </DialogHeader>
+
+        {showQuiz && quiz ? (
+          <div className="h-[65vh] overflow-y-auto rounded-md border p-4 space-y-5">
+            <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+              <span>Pass mark: {quiz.passing_score}%</span>
+              <span>·</span>
+              <span>
+                {attemptsLeft === null
+                  ? `Attempts used: ${quiz.attempts_used}`
+                  : `Attempts left: ${attemptsLeft} of ${quiz.max_attempts}`}
+              </span>
+              {lastScore !== null && (
+                <>
+                  <span>·</span>
+                  <span>Last score: {lastScore}%</span>
+                </>
+              )}
+            </div>
+
+            {quiz.passed ? (
+              <div className="rounded-md bg-green-50 p-4 text-sm text-green-800">
+                You've passed this quiz.
+              </div>
+            ) : attemptsLeft === 0 ? (
+              <div className="rounded-md bg-destructive/10 p-4 text-sm text-destructive">
+                You've used all your attempts. Contact HR to review your training.
+              </div>
+            ) : (
+              <>
+                {quiz.questions.map((question, index) => (
+                  <div key={question.id} className="space-y-2">
+                    <p className="font-medium">
+                      {index + 1}. {question.prompt}
+                    </p>
+                    {question.type === "short_answer" ? (
+                      <Input
+                        value={answers[question.id] || ""}
+                        onChange={(e) => setAnswers({ ...answers, [question.id]: e.target.value })}
+                      />
+                    ) : (
+                      <RadioGroup
+                        value={answers[question.id] || ""}
+                        onValueChange={(value) => setAnswers({ ...answers, [question.id]: value })}
+                      >
+                        {(question.type === "true_false" ? TRUE_FALSE_OPTIONS : question.options || []).map(
+                          (option) => (
+                            <div key={option} className="flex items-center gap-2">
+                              <RadioGroupItem value={option} id={`${question.id}-${option}`} />
+                              <Label htmlFor={`${question.id}-${option}`} className="font-normal">
+                                {option}
+                              </Label>
+                            </div>
+                          )
+                        )}
+                      </RadioGroup>
+                    )}
+                  </div>
+                ))}
+                <Button onClick={handleSubmitQuiz} disabled={submitting}>
+                  {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Submit answers
+                </Button>
+              </>
+            )}
+          </div>
+        ) : isPackage && session?.storage_path ? (
+          packageData === null ? (
+            <div className="flex h-[40vh] items-center justify-center rounded-md border">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <TrainingPackagePlayer
+              sessionId={session.id}
+              storagePath={session.storage_path}
+              packageData={packageData}
+              onResult={handlePackageResult}
+            />
+          )
+        ) : isVideo && contentUrl ? (
+          <video
+            src={contentUrl}
+            controls
+            playsInline
+            onLoadedMetadata={handleVideoLoaded}
+            onTimeUpdate={handleVideoTime}
+            onEnded={handleVideoEnded}
+            className="w-full max-h-[65vh] rounded-md border bg-black"
+          />
+        ) : session?.storage_path && !contentUrl ? (
+          <div className="flex h-[40vh] items-center justify-center rounded-md border">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : embedUrl && isPdf ? (
+          <div className="h-[65vh] overflow-hidden rounded-md border">
+            <iframe src={embedUrl} title={session?.title} className="w-full h-full" />
+          </div>
+        ) : embedUrl ? (
+          <div className="aspect-video w-full overflow-hidden rounded-md border">
+            <iframe
+              src={embedUrl}
+              title={session?.title}
+              className="w-full h-full"
+              allow="accelerometer; autoplay; encrypted-media; picture-in-picture"
+              allowFullScreen
+            />
+          </div>
+        ) : (
+          <div className="rounded-md border p-8 text-center space-y-3">
+            <p className="text-muted-foreground">This resource opens in a new tab.</p>
+            <Button variant="outline" onClick={() => contentUrl && window.open(contentUrl, "_blank")}>
+              <ExternalLink className="w-4 h-4 mr-2" />
+              Open resource
+            </Button>
+          </div>
+        )}
+
+        {quizRequired && !showQuiz && (
+          <p className="text-xs text-muted-foreground">
+            Pass the quiz to complete this training.
+          </p>
+        )}
+
+        {isPackage && !completed && !quizRequired && !showQuiz && (
+          <p className="text-xs text-muted-foreground">
+            This course records its own completion. Finish it to complete this training.
+          </p>
+        )}
+
+        {isPdf && !completed && !quizRequired && !showQuiz && (
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="training-read-confirmed"
+              checked={readConfirmed}
+              onCheckedChange={(checked) => setReadConfirmed(checked === true)}
+            />
+            <Label htmlFor="training-read-confirmed" className="text-sm font-normal">
+              I have read this document
+            </Label>
+          </div>
+        )}
+
+        <DialogFooter className="flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div className="flex-1 space-y-1">
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>
+                Time spent: {formatTimeSpent(timeSpent)}
+                {score !== null && ` · Score: ${score}%`}
+              </span>
+              <span>{progress}%</span>
+            </div>
+            <Progress value={progress} className="h-2" />
+          </div>
+          <div className="flex gap-2">
+            {quiz && (
+              <Button variant="outline" size="sm" onClick={() => setShowQuiz(!showQuiz)}>
+                {showQuiz ? (
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                ) : (
+                  <ListChecks className="w-4 h-4 mr-2" />
+                )}
+                {showQuiz ? "Back to material" : quiz.passed ? "View quiz" : "Take quiz"}
+              </Button>
+            )}
+            {(embedUrl || isVideo) && contentUrl && !showQuiz && (
+              <Button variant="ghost" size="sm" onClick={() => window.open(contentUrl, "_blank")}>
+                <ExternalLink className="w-4 h-4 mr-2" />
+                New tab
+              </Button>
+            )}
+            <Button
+              onClick={() => complete(false)}
+              disabled={completed || completing || quizRequired || isPackage || (isPdf && !readConfirmed)}
+            >
+              {completing ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <CheckCircle2 className="w-4 h-4 mr-2" />
+              )}
+              {completed ? "Completed" : "Mark complete"}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TrainingViewer;
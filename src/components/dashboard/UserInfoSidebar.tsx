@@ -1,6 +1,7 @@
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Mail, Phone, Building2, Briefcase } from "lucide-react";
+import { formatFieldValue } from "@/lib/formFields";
 
 interface UserInfoSidebarProps {
   profile: {
@@ -72,7 +73,7 @@ const UserInfoSidebar = ({ profile }: UserInfoSidebarProps) => {
                   <span className="text-muted-foreground capitalize">
                     {key.replace(/([A-Z])/g, ' $1')}:
                   </span>{" "}
-                  {value as string}
+                  {formatFieldValue(undefined, value)}
                 </p>
               ))}
             </div>
@@ -0,0 +1,393 @@
+import { useCallback, useEffect, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import { Tables } from "@/integrations/supabase/types";
+import { AppRole, ROLES } from "@/lib/permissions";
+import { notifyUsers } from "@/lib/notifications";
+import { getDueDateFromStart } from "@/lib/training";
+
+type AssignMode = "department" | "employees" | "cohort";
+// The session's own deadline, a fixed date, or days after each start date
+type DueMode = "default" | "date" | "start";
+
+type Employee = Pick<Tables<"profiles">, "id" | "full_name" | "email" | "department_id" | "join_date">;
+
+interface Department {
+  id: string;
+  name: string;
+}
+
+interface BulkAssignTrainingDialogProps {
+  session: { id: string; title: string; department_id: string | null } | null;
+  onClose: () => void;
+}
+
+const BulkAssignTrainingDialog = ({ session, onClose }: BulkAssignTrainingDialogProps) => {
+  const [mode, setMode] = useState<AssignMode>("department");
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [userRoles, setUserRoles] = useState<{ user_id: string; role: AppRole }[]>([]);
+  const [assignedIds, setAssignedIds] = useState<string[]>([]);
+  const [departmentId, setDepartmentId] = useState("");
+  const [listDepartment, setListDepartment] = useState("all");
+  const [roleFilter, setRoleFilter] = useState("all");
+  const [searchTerm, setSearchTerm] = useState("");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [joinedAfter, setJoinedAfter] = useState("");
+  const [cohortDepartment, setCohortDepartment] = useState("all");
+  const [dueMode, setDueMode] = useState<DueMode>("default");
+  const [dueDate, setDueDate] = useState("");
+  const [dueDays, setDueDays] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [assigning, setAssigning] = useState(false);
+  const { user, hasOrganisationScope, managedDepartmentIds } = useAuth();
+  const { toast } = useToast();
+
+  const sessionId = session?.id;
+  const sessionDepartmentId = session?.department_id;
+
+  useEffect(() => {
+    if (!sessionId) return;
+    setMode("department");
+    setSelectedIds([]);
+    setSearchTerm("");
+    setJoinedAfter("");
+    setDueMode("default");
+    setDueDate("");
+    setDueDays("");
+  }, [sessionId]);
+
+  const loadData = useCallback(async () => {
+    if (!sessionId) return;
+
+    setLoading(true);
+    try {
+      const [employeesData, deptData, rolesData, assignmentsData] = await Promise.all([
+        supabase.from("profiles").select("id, full_name, email, department_id, join_date").order("full_name"),
+        supabase.from("departments").select("id, name").order("name"),
+        supabase.from("user_roles").select("user_id, role"),
+        supabase.from("training_assignments").select("user_id").eq("training_session_id", sessionId),
+      ]);
+
+      if (employeesData.error) throw employeesData.error;
+      if (deptData.error) throw deptData.error;
+      if (rolesData.error) throw rolesData.error;
+      if (assignmentsData.error) throw assignmentsData.error;
+
+      // Department managers only assign within their own departments
+      const visibleDepartments = (deptData.data || []).filter(
+        (d) => hasOrganisationScope || managedDepartmentIds.includes(d.id)
+      );
+
+      setEmployees(
+        (employeesData.data || []).filter(
+          (e) => hasOrganisationScope || (e.department_id && managedDepartmentIds.includes(e.department_id))
+        )
+      );
+      setDepartments(visibleDepartments);
+      setUserRoles(rolesData.data || []);
+      setAssignedIds((assignmentsData.data || []).map((a) => a.user_id));
+      setDepartmentId(
+        visibleDepartments.find((d) => d.id === sessionDepartmentId)?.id || visibleDepartments[0]?.id || ""
+      );
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error loading employees",
+        description: (error as Error).message,
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId, sessionDepartmentId, hasOrganisationScope, managedDepartmentIds, toast]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const hasRole = (employeeId: string, role: string) =>
+    userRoles.some((r) => r.user_id === employeeId && r.role === role);
+
+  const listedEmployees = employees.filter((employee) => {
+    const search = searchTerm.toLowerCase();
+    return (
+      (listDepartment === "all" || employee.department_id === listDepartment) &&
+      (roleFilter === "all" || hasRole(employee.id, roleFilter)) &&
+      (!search ||
+        employee.full_name?.toLowerCase().includes(search) ||
+        employee.email?.toLowerCase().includes(search))
+    );
+  });
+
+  const targets = (() => {
+    switch (mode) {
+      case "department":
+        return employees.filter((e) => e.department_id === departmentId);
+      case "employees":
+        return employees.filter((e) => selectedIds.includes(e.id));
+      case "cohort":
+        return joinedAfter
+          ? employees.filter(
+              (e) =>
+                e.join_date >= joinedAfter && (cohortDepartment === "all" || e.department_id === cohortDepartment)
+            )
+          : [];
+    }
+  })();
+
+  const newTargets = targets.filter((e) => !assignedIds.includes(e.id));
+  const dueReady = dueMode === "default" || (dueMode === "date" ? !!dueDate : dueDays !== "");
+
+  // Undefined leaves it to the database, which applies the session default
+  const getDueDate = (employee: Employee) => {
+    switch (dueMode) {
+      case "date":
+        return dueDate;
+      case "start":
+        return getDueDateFromStart(employee.join_date, Math.max(0, parseInt(dueDays) || 0));
+      default:
+        return undefined;
+    }
+  };
+
+  const toggleEmployee = (employeeId: string, checked: boolean) => {
+    setSelectedIds((current) =>
+      checked ? [...current, employeeId] : current.filter((id) => id !== employeeId)
+    );
+  };
+
+  const allListedSelected = listedEmployees.length > 0 && listedEmployees.every((e) => selectedIds.includes(e.id));
+
+  const toggleAllListed = (checked: boolean) => {
+    const listedIds = listedEmployees.map((e) => e.id);
+    setSelectedIds((current) =>
+      checked ? [...new Set([...current, ...listedIds])] : current.filter((id) => !listedIds.includes(id))
+    );
+  };
+
+  const handleAssign = async () => {
+    if (!session || newTargets.length === 0) return;
+
+    setAssigning(true);
+    try {
+      if (!user) throw new Error("Not authenticated");
+
+      const { error } = await supabase.from("training_assignments").insert(
+        newTargets.map((employee) => ({
+          user_id: employee.id,
+          training_session_id: session.id,
+          assigned_by: user.id,
+          due_date: getDueDate(employee),
+        }))
+      );
+
+      if (error) throw error;
+
+      try {
+        await notifyUsers(
+          user.id,
+          newTargets.map((employee) => ({
+            userId: employee.id,
+            title: "New training assigned",
+            message: `"${session.title}" has been added to your training.${
+              dueMode === "default" ? "" : ` Due ${format(parseISO(getDueDate(employee)!), "PP")}.`
+            }`,
+            link: "/dashboard",
+          }))
+        );
+      } catch (notifyError) {
+        console.error("Error notifying employees:", notifyError);
+      }
+
+      toast({
+        title: "Training assigned",
+        description: `"${session.title}" assigned to ${newTargets.length} employee${newTargets.length === 1 ? "" : "s"}`,
+      });
+      onClose();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error assigning training",
+        description: (error as Error).message,
+      });
+    } finally {
+      setAssigning(false);
+    }
+  };
+
+  const departmentSelect = (value: string, onChange: (value: string) => void, allowAll: boolean) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger>
+        <SelectValue placeholder="Select department" />
+      </SelectTrigger>
+      <SelectContent>
+        {allowAll && <SelectItem value="all">All Departments</SelectItem>}
+        {departments.map((dept) => (
+          <SelectItem key={dept.id} value={dept.id}>
+            {dept.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={!!session} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Assign "{session?.title}"</DialogTitle>
+          <DialogDescription>Employees who already have this session are skipped.</DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="text-muted-foreground">Loading employees...</div>
+        ) : (
+          <Tabs value={mode} onValueChange={(value) => setMode(value as AssignMode)}>
+            <TabsList className="grid w-full grid-cols-3">
+              <TabsTrigger value="department">Department</TabsTrigger>
+              <TabsTrigger value="employees">Employees</TabsTrigger>
+              <TabsTrigger value="cohort">Joined After</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="department" className="space-y-2 pt-2">
+              <Label>Department</Label>
+              {departmentSelect(departmentId, setDepartmentId, false)}
+            </TabsContent>
+
+            <TabsContent value="employees" className="space-y-3 pt-2">
+              <div className="grid grid-cols-3 gap-2">
+                <Input
+                  placeholder="Search name or email"
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                />
+                {departmentSelect(listDepartment, setListDepartment, true)}
+                <Select value={roleFilter} onValueChange={setRoleFilter}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Roles</SelectItem>
+                    {ROLES.map((role) => (
+                      <SelectItem key={role.value} value={role.value}>
+                        {role.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="rounded-md border max-h-72 overflow-y-auto divide-y">
+                <label className="flex items-center gap-3 px-3 py-2 text-sm font-medium bg-muted/50">
+                  <Checkbox
+                    checked={allListedSelected}
+                    onCheckedChange={(checked) => toggleAllListed(checked === true)}
+                  />
+                  Select all {listedEmployees.length} listed
+                </label>
+                {listedEmployees.map((employee) => (
+                  <label key={employee.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                    <Checkbox
+                      checked={selectedIds.includes(employee.id)}
+                      onCheckedChange={(checked) => toggleEmployee(employee.id, checked === true)}
+                    />
+                    <span className="flex-1">
+                      {employee.full_name || "Unnamed"}
+                      <span className="text-muted-foreground"> · {employee.email}</span>
+                    </span>
+                    {assignedIds.includes(employee.id) && (
+                      <span className="text-xs text-muted-foreground">Already assigned</span>
+                    )}
+                  </label>
+                ))}
+              </div>
+            </TabsContent>
+
+            <TabsContent value="cohort" className="space-y-3 pt-2">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>Joined on or after</Label>
+                  <Input type="date" value={joinedAfter} onChange={(e) => setJoinedAfter(e.target.value)} />
+                </div>
+                <div>
+                  <Label>Department</Label>
+                  {departmentSelect(cohortDepartment, setCohortDepartment, true)}
+                </div>
+              </div>
+            </TabsContent>
+          </Tabs>
+        )}
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label>Due date</Label>
+            <Select value={dueMode} onValueChange={(value) => setDueMode(value as DueMode)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="default">Session default</SelectItem>
+                <SelectItem value="date">On a date</SelectItem>
+                <SelectItem value="start">Days after start date</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {dueMode === "date" && (
+            <div>
+              <Label>Due on</Label>
+              <Input type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+            </div>
+          )}
+          {dueMode === "start" && (
+            <div>
+              <Label>Days after start date</Label>
+              <Input type="number" min={0} value={dueDays} onChange={(e) => setDueDays(e.target.value)} />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="sm:items-center sm:justify-between gap-2">
+          <p className="text-sm text-muted-foreground">
+            {targets.length === 0
+              ? "No employees selected"
+              : `${newTargets.length} of ${targets.length} employee${targets.length === 1 ? "" : "s"} will be assigned`}
+            {mode === "cohort" && joinedAfter && ` (joined since ${format(parseISO(joinedAfter), "PP")})`}
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClose} disabled={assigning}>
+              Cancel
+            </Button>
+            <Button onClick={handleAssign} disabled={assigning || loading || newTargets.length === 0 || !dueReady}>
+              {assigning && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Assign
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BulkAssignTrainingDialog;
@@ -0,0 +1,413 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ArrowDown, ArrowUp, Edit, Plus, Trash2 } from "lucide-react";
+import { Tables } from "@/integrations/supabase/types";
+import { CHECKLIST_TASK_TYPES, ChecklistItem, ChecklistTaskType, getTaskTypeLabel } from "@/lib/checklist";
+
+interface Department {
+  id: string;
+  name: string;
+}
+
+type TemplateOption = Pick<Tables<"department_document_templates">, "id" | "title">;
+type TrainingOption = Pick<Tables<"training_sessions">, "id" | "title">;
+
+interface ItemForm {
+  title: string;
+  description: string;
+  task_type: ChecklistTaskType;
+  template_id: string;
+  training_session_id: string;
+  due_offset_days: number;
+}
+
+const EMPTY_FORM: ItemForm = {
+  title: "",
+  description: "",
+  task_type: "manual",
+  template_id: "",
+  training_session_id: "",
+  due_offset_days: 7,
+};
+
+interface ChecklistManagementTabProps {
+  readOnly?: boolean;
+}
+
+const ChecklistManagementTab = ({ readOnly = false }: ChecklistManagementTabProps) => {
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [departmentId, setDepartmentId] = useState("");
+  const [items, setItems] = useState<ChecklistItem[]>([]);
+  const [templates, setTemplates] = useState<TemplateOption[]>([]);
+  const [trainingSessions, setTrainingSessions] = useState<TrainingOption[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingItem, setEditingItem] = useState<ChecklistItem | null>(null);
+  const [formData, setFormData] = useState<ItemForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const { user, hasOrganisationScope, managedDepartmentIds } = useAuth();
+  const { toast } = useToast();
+
+  const loadDepartments = useCallback(async () => {
+    const { data, error } = await supabase.from("departments").select("id, name").order("name");
+    if (error) {
+      toast({ variant: "destructive", title: "Error loading departments", description: error.message });
+      return;
+    }
+
+    // Department managers only configure their own department's checklist
+    const visible = (data || []).filter((d) => hasOrganisationScope || managedDepartmentIds.includes(d.id));
+    setDepartments(visible);
+    if (visible.length > 0) setDepartmentId(visible[0].id);
+  }, [hasOrganisationScope, managedDepartmentIds, toast]);
+
+  useEffect(() => {
+    loadDepartments();
+  }, [loadDepartments]);
+
+  const loadItems = useCallback(async () => {
+    try {
+      const [itemsData, templatesData, trainingData] = await Promise.all([
+        supabase
+          .from("department_checklist_items")
+          .select("*")
+          .eq("department_id", departmentId)
+          .order("position")
+          .order("created_at"),
+        supabase
+          .from("department_document_templates")
+          .select("id, title")
+          .eq("department_id", departmentId)
+          .order("title"),
+        supabase.from("training_sessions").select("id, title").order("title"),
+      ]);
+
+      if (itemsData.error) throw itemsData.error;
+      if (templatesData.error) throw templatesData.error;
+      if (trainingData.error) throw trainingData.error;
+
+      setItems(itemsData.data || []);
+      setTemplates(templatesData.data || []);
+      setTrainingSessions(trainingData.data || []);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error loading checklist",
+        description: (error as Error).message,
+      });
+    }
+  }, [departmentId, toast]);
+
+  useEffect(() => {
+    if (departmentId) loadItems();
+  }, [departmentId, loadItems]);
+
+  const openCreateDialog = () => {
+    setEditingItem(null);
+    setFormData(EMPTY_FORM);
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (item: ChecklistItem) => {
+    setEditingItem(item);
+    setFormData({
+      title: item.title,
+      description: item.description || "",
+      task_type: item.task_type,
+      template_id: item.template_id || "",
+      training_session_id: item.training_session_id || "",
+      due_offset_days: item.due_offset_days,
+    });
+    setDialogOpen(true);
+  };
+
+  const getLinkedTitle = (item: ChecklistItem) => {
+    if (item.task_type === "upload_template") return templates.find((t) => t.id === item.template_id)?.title;
+    if (item.task_type === "complete_training") return trainingSessions.find((t) => t.id === item.training_session_id)?.title;
+    return null;
+  };
+
+  const handleSave = async () => {
+    if (!formData.title.trim()) {
+      toast({ variant: "destructive", title: "Missing title", description: "Give the task a title" });
+      return;
+    }
+    if (formData.task_type === "upload_template" && !formData.template_id) {
+      toast({ variant: "destructive", title: "Missing template", description: "Choose the template to upload" });
+      return;
+    }
+    if (formData.task_type === "complete_training" && !formData.training_session_id) {
+      toast({ variant: "destructive", title: "Missing training", description: "Choose the training session to complete" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const values = {
+        title: formData.title.trim(),
+        description: formData.description.trim() || null,
+        task_type: formData.task_type,
+        template_id: formData.task_type === "upload_template" ? formData.template_id : null,
+        training_session_id: formData.task_type === "complete_training" ? formData.training_session_id : null,
+        due_offset_days: formData.due_offset_days,
+      };
+
+      const { error } = editingItem
+        ? await supabase.from("department_checklist_items").update(values).eq("id", editingItem.id)
+        : await supabase.from("department_checklist_items").insert({
+            ...values,
+            department_id: departmentId,
+            position: items.length ? Math.max(...items.map((i) => i.position)) + 1 : 0,
+            created_by: user?.id,
+          });
+
+      if (error) throw error;
+
+      toast({ title: "Success", description: editingItem ? "Checklist task updated" : "Checklist task added" });
+      setDialogOpen(false);
+      loadItems();
+    } catch (error) {
+      toast({ variant: "destructive", title: "Error saving task", description: (error as Error).message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (item: ChecklistItem) => {
+    if (!confirm(`Remove "${item.title}" from the checklist? Sign-offs for it are removed too.`)) return;
+
+    try {
+      const { error } = await supabase.from("department_checklist_items").delete().eq("id", item.id);
+      if (error) throw error;
+
+      toast({ title: "Success", description: "Checklist task removed" });
+      loadItems();
+    } catch (error) {
+      toast({ variant: "destructive", title: "Error removing task", description: (error as Error).message });
+    }
+  };
+
+  // Swap with the neighbouring item, renumbering so positions are unique
+  const moveItem = async (index: number, direction: -1 | 1) => {
+    const reordered = [...items];
+    [reordered[index], reordered[index + direction]] = [reordered[index + direction], reordered[index]];
+    setItems(reordered);
+
+    try {
+      const results = await Promise.all(
+        reordered.map((item, position) =>
+          supabase.from("department_checklist_items").update({ position }).eq("id", item.id)
+        )
+      );
+      const failed = results.find((r) => r.error);
+      if (failed?.error) throw failed.error;
+    } catch (error) {
+      toast({ variant: "destructive", title: "Error reordering checklist", description: (error as Error).message });
+      loadItems();
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <Select value={departmentId} onValueChange={setDepartmentId}>
+          <SelectTrigger className="w-64">
+            <SelectValue placeholder="Select department" />
+          </SelectTrigger>
+          <SelectContent>
+            {departments.map((dept) => (
+              <SelectItem key={dept.id} value={dept.id}>
+                {dept.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {!readOnly && (
+          <Button onClick={openCreateDialog} disabled={!departmentId}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Task
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 gap-3">
+        {items.length === 0 ? (
+          <Card>
+            <CardContent className="p-8 text-center text-muted-foreground">
+              This department has no checklist tasks yet
+            </CardContent>
+          </Card>
+        ) : (
+          items.map((item, index) => (
+            <Card key={item.id}>
+              <CardContent className="p-4 flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <p className="font-medium">{item.title}</p>
+                    <Badge variant="outline" className="text-xs">
+                      {getTaskTypeLabel(item.task_type)}
+                    </Badge>
+                  </div>
+                  {getLinkedTitle(item) && (
+                    <p className="text-sm text-muted-foreground">{getLinkedTitle(item)}</p>
+                  )}
+                  {item.description && <p className="text-sm text-muted-foreground">{item.description}</p>}
+                  <p className="text-xs text-muted-foreground">
+                    Due {item.due_offset_days === 0 ? "on the join date" : `${item.due_offset_days} day${item.due_offset_days === 1 ? "" : "s"} after joining`}
+                  </p>
+                </div>
+                {!readOnly && (
+                  <div className="flex items-center gap-1">
+                    <Button size="sm" variant="ghost" onClick={() => moveItem(index, -1)} disabled={index === 0}>
+                      <ArrowUp className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => moveItem(index, 1)}
+                      disabled={index === items.length - 1}
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => openEditDialog(item)}>
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                    <Button size="sm" variant="destructive" onClick={() => handleDelete(item)}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingItem ? "Edit Checklist Task" : "Add Checklist Task"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label>Title *</Label>
+              <Input
+                placeholder="e.g., Return signed contract"
+                value={formData.title}
+                onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>Description</Label>
+              <Textarea
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                rows={2}
+              />
+            </div>
+            <div>
+              <Label>Task Type</Label>
+              <Select
+                value={formData.task_type}
+                onValueChange={(value) => setFormData({ ...formData, task_type: value as ChecklistTaskType })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CHECKLIST_TASK_TYPES.map((type) => (
+                    <SelectItem key={type.value} value={type.value}>
+                      {type.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {formData.task_type === "upload_template" && (
+              <div>
+                <Label>Template *</Label>
+                <Select
+                  value={formData.template_id}
+                  onValueChange={(value) => setFormData({ ...formData, template_id: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select template" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {templates.map((template) => (
+                      <SelectItem key={template.id} value={template.id}>
+                        {template.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {formData.task_type === "complete_training" && (
+              <div>
+                <Label>Training Session *</Label>
+                <Select
+                  value={formData.training_session_id}
+                  onValueChange={(value) => setFormData({ ...formData, training_session_id: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select training session" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {trainingSessions.map((session) => (
+                      <SelectItem key={session.id} value={session.id}>
+                        {session.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div>
+              <Label>Due (days after joining)</Label>
+              <Input
+                type="number"
+                min={0}
+                value={formData.due_offset_days}
+                onChange={(e) =>
+                  setFormData({ ...formData, due_offset_days: Math.max(0, parseInt(e.target.value) || 0) })
+                }
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {editingItem ? "Update Task" : "Add Task"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ChecklistManagementTab;
@@ -1,7 +1,19 @@
 import { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { Json } from "@/integrations/supabase/types";
+import {
+    FieldRule,
+    FormField,
+    OPTION_FIELD_TYPES,
+    RULE_ACTIONS,
+    RULE_OPERATORS,
+    evaluateFieldRules,
+    getFieldError,
+    toFormFields
+} from "@/lib/formFields";
+import DynamicFieldInput from "@/components/forms/DynamicFieldInput";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -46,37 +58,34 @@ import {
     List,
     Upload,
     AlertCircle,
-    CheckCircle
+    CheckCircle,
+    Send,
+    GitBranch,
+    SeparatorHorizontal,
+    AlignLeft,
+    Hash,
+    Calendar,
+    CircleDot,
+    ListChecks,
+    SquareCheck,
+    MapPin,
+    PenLine,
+    ScrollText
 } from "lucide-react";
 
-// Types for form fields
-interface FormField {
+interface Department {
     id: string;
-    type: 'text' | 'email' | 'phone' | 'dropdown' | 'file';
-    label: string;
-    required: boolean;
-    placeholder?: string;
-    options?: string[]; // For dropdown fields
-    validation?: {
-        min?: number;
-        max?: number;
-        pattern?: string;
-    };
-    fileTypes?: string[]; // For file upload fields
-    maxFileSize?: number; // In MB
+    name: string;
 }
 
-interface Department {
+interface RevisionSummary {
     id: string;
-    name: string;
+    revision_number: number;
 }
 
-interface DepartmentSignupForm {
-    id?: string;
-    department_id: string;
-    form_name: string;
-    form_description?: string;
-    form_fields: FormField[];
+interface DepartmentSignupFormBuilderProps {
+    departmentId?: string;
+    onPublished?: () => void;
 }
 
 // Sortable field component
@@ -106,8 +115,18 @@ const SortableField = ({ field, onEdit, onDelete, onToggleRequired }: {
             case 'text': return <FileText className="w-4 h-4" />;
             case 'email': return <Mail className="w-4 h-4" />;
             case 'phone': return <Phone className="w-4 h-4" />;
+            case 'textarea': return <AlignLeft className="w-4 h-4" />;
+            case 'number': return <Hash className="w-4 h-4" />;
+            case 'date': return <Calendar className="w-4 h-4" />;
             case 'dropdown': return <List className="w-4 h-4" />;
+            case 'radio': return <CircleDot className="w-4 h-4" />;
+            case 'multiselect': return <ListChecks className="w-4 h-4" />;
+            case 'checkbox': return <SquareCheck className="w-4 h-4" />;
+            case 'address': return <MapPin className="w-4 h-4" />;
+            case 'signature': return <PenLine className="w-4 h-4" />;
+            case 'acknowledgement': return <ScrollText className="w-4 h-4" />;
             case 'file': return <Upload className="w-4 h-4" />;
+            case 'section': return <SeparatorHorizontal className="w-4 h-4" />;
             default: return <FileText className="w-4 h-4" />;
         }
     };
@@ -116,7 +135,7 @@ const SortableField = ({ field, onEdit, onDelete, onToggleRequired }: {
         <div
             ref={setNodeRef}
             style={style}
-            className="flex items-center gap-3 p-3 bg-white border rounded-lg shadow-sm"
+            className={`flex items-center gap-3 p-3 border rounded-lg shadow-sm ${field.type === 'section' ? 'bg-muted mt-4' : 'bg-white'}`}
         >
             <div
                 {...attributes}
@@ -134,14 +153,27 @@ const SortableField = ({ field, onEdit, onDelete, onToggleRequired }: {
                 </div>
             </div>
 
-            <div className="flex items-center gap-2">
-                <Switch
-                    checked={field.required}
-                    onCheckedChange={() => onToggleRequired(field.id)}
-                />
-                <Badge variant={field.required ? "default" : "outline"} className="text-xs">
-                    {field.required ? "Required" : "Optional"}
+            {field.rules && field.rules.length > 0 && (
+                <Badge variant="secondary" className="text-xs">
+                    <GitBranch className="w-3 h-3 mr-1" />
+                    Conditional
                 </Badge>
+            )}
+
+            <div className="flex items-center gap-2">
+                {field.type === 'section' ? (
+                    <Badge variant="outline" className="text-xs">New page</Badge>
+                ) : (
+                    <>
+                        <Switch
+                            checked={field.required}
+                            onCheckedChange={() => onToggleRequired(field.id)}
+                        />
+                        <Badge variant={field.required ? "default" : "outline"} className="text-xs">
+                            {field.required ? "Required" : "Optional"}
+                        </Badge>
+                    </>
+                )}
 
                 <Button
                     variant="ghost"
@@ -173,44 +205,16 @@ const FormPreview = ({ fields, formName, formDescription }: {
 }) => {
     const [formData, setFormData] = useState<Record<string, any>>({});
     const [errors, setErrors] = useState<Record<string, string>>({});
-
-    const validateField = (field: FormField, value: any): string | null => {
-        if (field.required && (!value || value.toString().trim() === '')) {
-            return `${field.label} is required`;
-        }
-
-        if (field.type === 'email' && value) {
-            const emailPattern = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-            if (!emailPattern.test(value)) {
-                return 'Please enter a valid email address';
-            }
-        }
-
-        if (field.type === 'phone' && value) {
-            const phonePattern = /^[\d\s\-\+\(\)]+$/;
-            if (!phonePattern.test(value)) {
-                return 'Please enter a valid phone number';
-            }
-        }
-
-        if (field.validation) {
-            if (field.validation.min && value && value.length < field.validation.min) {
-                return `Minimum ${field.validation.min} characters required`;
-            }
-            if (field.validation.max && value && value.length > field.validation.max) {
-                return `Maximum ${field.validation.max} characters allowed`;
-            }
-        }
-
-        return null;
-    };
+    const fieldStates = evaluateFieldRules(fields, formData);
 
     const handleFieldChange = (fieldName: string, value: any) => {
-        setFormData(prev => ({ ...prev, [fieldName]: value }));
+        const nextData = { ...formData, [fieldName]: value };
+        setFormData(nextData);
 
         const field = fields.find(f => f.id === fieldName);
         if (field) {
-            const error = validateField(field, value);
+            const required = evaluateFieldRules(fields, nextData)[fieldName]?.required;
+            const error = getFieldError(field, value, required);
             setErrors(prev => ({ ...prev, [fieldName]: error || '' }));
         }
     };
@@ -220,7 +224,10 @@ const FormPreview = ({ fields, formName, formDescription }: {
         let isValid = true;
 
         fields.forEach(field => {
-            const error = validateField(field, formData[field.id]);
+            const state = fieldStates[field.id];
+            if (!state?.visible || field.type === 'section') return;
+
+            const error = getFieldError(field, formData[field.id], state.required);
             if (error) {
                 newErrors[field.id] = error;
                 isValid = false;
@@ -239,75 +246,65 @@ const FormPreview = ({ fields, formName, formDescription }: {
     };
 
     const renderField = (field: FormField) => {
+        const state = fieldStates[field.id];
+        if (state && !state.visible) return null;
+
         const error = errors[field.id];
-        const value = formData[field.id] || '';
+        const value = formData[field.id];
+        const required = state?.required ?? field.required;
 
         switch (field.type) {
-            case 'text':
-            case 'email':
-            case 'phone':
+            case 'file':
                 return (
                     <div key={field.id} className="space-y-2">
-                        <Label htmlFor={field.id}>
+                        <Label>
                             {field.label}
-                            {field.required && <span className="text-red-500 ml-1">*</span>}
+                            {required && <span className="text-red-500 ml-1">*</span>}
                         </Label>
-                        <Input
-                            id={field.id}
-                            type={field.type === 'phone' ? 'tel' : field.type}
-                            placeholder={field.placeholder}
-                            value={value}
-                            onChange={(e) => handleFieldChange(field.id, e.target.value)}
-                            className={error ? 'border-red-500' : ''}
+                        <FileUploadField
+                            field={field}
+                            value={value || null}
+                            onChange={(file) => handleFieldChange(field.id, file)}
+                            error={error}
                         />
-                        {error && <p className="text-sm text-red-500">{error}</p>}
                     </div>
                 );
 
-            case 'dropdown':
+            case 'section':
                 return (
-                    <div key={field.id} className="space-y-2">
-                        <Label htmlFor={field.id}>
-                            {field.label}
-                            {field.required && <span className="text-red-500 ml-1">*</span>}
-                        </Label>
-                        <Select
-                            value={value}
-                            onValueChange={(val) => handleFieldChange(field.id, val)}
-                        >
-                            <SelectTrigger className={error ? 'border-red-500' : ''}>
-                                <SelectValue placeholder={field.placeholder || 'Select an option'} />
-                            </SelectTrigger>
-                            <SelectContent>
-                                {field.options?.map((option, index) => (
-                                    <SelectItem key={index} value={option}>
-                                        {option}
-                                    </SelectItem>
-                                ))}
-                            </SelectContent>
-                        </Select>
-                        {error && <p className="text-sm text-red-500">{error}</p>}
+                    <div key={field.id} className="pt-4 border-t">
+                        <h3 className="font-semibold">{field.label}</h3>
+                        {field.description && (
+                            <p className="text-sm text-muted-foreground">{field.description}</p>
+                        )}
                     </div>
                 );
 
-            case 'file':
+            default:
                 return (
                     <div key={field.id} className="space-y-2">
-                        <Label>
-                            {field.label}
-                            {field.required && <span className="text-red-500 ml-1">*</span>}
-                        </Label>
-                        <FileUploadField
+                        {field.type !== 'acknowledgement' && (
+                            <Label htmlFor={field.id}>
+                                {field.label}
+                                {required && <span className="text-red-500 ml-1">*</span>}
+                            </Label>
+                        )}
+                        {field.type === 'acknowledgement' && (
+                            <p className="text-sm font-medium">
+                                {field.label}
+                                {required && <span className="text-red-500 ml-1">*</span>}
+                            </p>
+                        )}
+                        <DynamicFieldInput
                             field={field}
                             value={value}
-                            onChange={(file) => handleFieldChange(field.id, file)}
-                            error={error}
+                            onChange={(val) => handleFieldChange(field.id, val)}
+                            required={required}
+                            invalid={!!error}
                         />
+                        {error && <p className="text-sm text-red-500">{error}</p>}
                     </div>
                 );
-
-            default:
-                return null;
         }
     };
 
@@ -362,7 +359,7 @@ const FileUploadField = ({
 
                 if (file.size > maxSizeBytes) {
                     alert(`File size must be less than ${maxSizeMB}MB`);
-                    return;
+                    return false;
                 }
 
                 // Validate file type
@@ -370,7 +367,7 @@ const FileUploadField = ({
                     const fileExt = file.name.split('.').pop()?.toLowerCase();
                     if (!fileExt || !field.fileTypes.includes(fileExt)) {
                         alert(`File type must be one of: ${field.fileTypes.join(', ')}`);
-                        return;
+                        return false;
                     }
                 }
 
@@ -429,11 +426,13 @@ const FileUploadField = ({
 // Field Editor Dialog
 const FieldEditor = ({
     field,
+    allFields,
     isOpen,
     onClose,
     onSave
 }: {
     field: FormField | null;
+    allFields: FormField[];
     isOpen: boolean;
     onClose: () => void;
     onSave: (field: FormField) => void;
@@ -466,7 +465,7 @@ const FieldEditor = ({
 
     const handleSave = () => {
         if (!editingField.id || !editingField.label) {
-            return;
+            return false;
         }
         onSave(editingField);
         onClose();
@@ -493,6 +492,37 @@ const FieldEditor = ({
         }));
     };
 
+    // Rules can depend on any other non-file field in the form
+    const ruleSourceFields = allFields.filter(f =>
+        f.id !== editingField.id && !['file', 'section', 'signature', 'acknowledgement'].includes(f.type)
+    );
+
+    const addRule = () => {
+        setEditingField(prev => ({
+            ...prev,
+            rules: [...(prev.rules || []), {
+                action: 'show',
+                fieldId: ruleSourceFields[0]?.id || '',
+                operator: 'equals',
+                value: '',
+            }]
+        }));
+    };
+
+    const updateRule = (index: number, updates: Partial<FieldRule>) => {
+        setEditingField(prev => ({
+            ...prev,
+            rules: prev.rules?.map((rule, i) => i === index ? { ...rule, ...updates } : rule)
+        }));
+    };
+
+    const removeRule = (index: number) => {
+        setEditingField(prev => ({
+            ...prev,
+            rules: prev.rules?.filter((_, i) => i !== index)
+        }));
+    };
+
     return (
         <Dialog open={isOpen} onOpenChange={onClose}>
             <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
@@ -519,8 +549,18 @@ const FieldEditor = ({
                                     <SelectItem value="text">Text</SelectItem>
                                     <SelectItem value="email">Email</SelectItem>
                                     <SelectItem value="phone">Phone</SelectItem>
+                                    <SelectItem value="textarea">Long Text</SelectItem>
+                                    <SelectItem value="number">Number</SelectItem>
+                                    <SelectItem value="date">Date</SelectItem>
                                     <SelectItem value="dropdown">Dropdown</SelectItem>
+                                    <SelectItem value="radio">Radio Group</SelectItem>
+                                    <SelectItem value="multiselect">Multi-select</SelectItem>
+                                    <SelectItem value="checkbox">Checkbox</SelectItem>
+                                    <SelectItem value="address">Address</SelectItem>
+                                    <SelectItem value="signature">Signature</SelectItem>
+                                    <SelectItem value="acknowledgement">Acknowledgement</SelectItem>
                                     <SelectItem value="file">File Upload</SelectItem>
+                                    <SelectItem value="section">Section (New Page)</SelectItem>
                                 </SelectContent>
                             </Select>
                         </div>
@@ -550,32 +590,68 @@ const FieldEditor = ({
                         />
                     </div>
 
-                    <div className="space-y-2">
-                        <Label>Placeholder</Label>
-                        <Input
-                            placeholder="Enter placeholder text..."
-                            value={editingField.placeholder || ''}
-                            onChange={(e) => setEditingField(prev => ({
-                                ...prev,
-                                placeholder: e.target.value
-                            }))}
-                        />
-                    </div>
+                    {editingField.type === 'section' ? (
+                        <div className="space-y-2">
+                            <Label>Section Description</Label>
+                            <Textarea
+                                placeholder="Shown under the section title in the onboarding wizard..."
+                                value={editingField.description || ''}
+                                onChange={(e) => setEditingField(prev => ({
+                                    ...prev,
+                                    description: e.target.value
+                                }))}
+                                rows={2}
+                            />
+                        </div>
+                    ) : (
+                        <>
+                            {editingField.type === 'acknowledgement' && (
+                                <div className="space-y-2">
+                                    <Label>Acknowledgement Text</Label>
+                                    <Textarea
+                                        placeholder="Policy or statement the employee must read and agree to..."
+                                        value={editingField.description || ''}
+                                        onChange={(e) => setEditingField(prev => ({
+                                            ...prev,
+                                            description: e.target.value
+                                        }))}
+                                        rows={5}
+                                    />
+                                </div>
+                            )}
 
-                    <div className="flex items-center space-x-2">
-                        <Switch
-                            checked={editingField.required}
-                            onCheckedChange={(checked) => setEditingField(prev => ({
-                                ...prev,
-                                required: checked
-                            }))}
-                        />
-                        <Label>Required Field</Label>
-                    </div>
+                            <div className="space-y-2">
+                                <Label>
+                                    {editingField.type === 'checkbox' || editingField.type === 'acknowledgement'
+                                        ? 'Checkbox Label'
+                                        : 'Placeholder'}
+                                </Label>
+                                <Input
+                                    placeholder="Enter placeholder text..."
+                                    value={editingField.placeholder || ''}
+                                    onChange={(e) => setEditingField(prev => ({
+                                        ...prev,
+                                        placeholder: e.target.value
+                                    }))}
+                                />
+                            </div>
 
-                    {editingField.type === 'dropdown' && (
+                            <div className="flex items-center space-x-2">
+                                <Switch
+                                    checked={editingField.required}
+                                    onCheckedChange={(checked) => setEditingField(prev => ({
+                                        ...prev,
+                                        required: checked
+                                    }))}
+                                />
+                                <Label>Required Field</Label>
+                            </div>
+                        </>
+                    )}
+
+                    {OPTION_FIELD_TYPES.includes(editingField.type) && (
                         <div className="space-y-2">
-                            <Label>Dropdown Options</Label>
+                            <Label>Options</Label>
                             <div className="space-y-2">
                                 {editingField.options?.map((option, index) => (
                                     <div key={index} className="flex gap-2">
@@ -650,37 +726,37 @@ const FieldEditor = ({
                         </div>
                     )}
 
-                    {(editingField.type === 'text' || editingField.type === 'email' || editingField.type === 'phone') && (
+                    {['text', 'email', 'phone', 'textarea', 'number'].includes(editingField.type) && (
                         <div className="grid grid-cols-2 gap-4">
                             <div className="space-y-2">
-                                <Label>Minimum Length</Label>
+                                <Label>{editingField.type === 'number' ? 'Minimum Value' : 'Minimum Length'}</Label>
                                 <Input
                                     type="number"
-                                    min="0"
+                                    min={editingField.type === 'number' ? undefined : '0'}
                                     placeholder="Optional"
-                                    value={editingField.validation?.min || ''}
+                                    value={editingField.validation?.min ?? ''}
                                     onChange={(e) => setEditingField(prev => ({
                                         ...prev,
                                         validation: {
                                             ...prev.validation,
-                                            min: e.target.value ? parseInt(e.target.value) : undefined
+                                            min: e.target.value ? Number(e.target.value) : undefined
                                         }
                                     }))}
                                 />
                             </div>
 
                             <div className="space-y-2">
-                                <Label>Maximum Length</Label>
+                                <Label>{editingField.type === 'number' ? 'Maximum Value' : 'Maximum Length'}</Label>
                                 <Input
                                     type="number"
-                                    min="1"
+                                    min={editingField.type === 'number' ? undefined : '1'}
                                     placeholder="Optional"
-                                    value={editingField.validation?.max || ''}
+                                    value={editingField.validation?.max ?? ''}
                                     onChange={(e) => setEditingField(prev => ({
                                         ...prev,
                                         validation: {
                                             ...prev.validation,
-                                            max: e.target.value ? parseInt(e.target.value) : undefined
+                                            max: e.target.value ? Number(e.target.value) : undefined
                                         }
                                     }))}
                                 />
@@ -688,6 +764,127 @@ const FieldEditor = ({
                         </div>
                     )}
 
+                    <div className="space-y-2 pt-2 border-t">
+                        <Label>Conditional Logic</Label>
+                        <p className="text-xs text-muted-foreground">
+                            {editingField.type === 'section'
+                                ? 'Show or hide this whole section based on answers to other fields.'
+                                : 'Show, hide or require this field based on answers to other fields.'}
+                        </p>
+                        {ruleSourceFields.length === 0 ? (
+                            <p className="text-sm text-muted-foreground">Add other fields to the form to create rules.</p>
+                        ) : (
+                            <div className="space-y-2">
+                                {editingField.rules?.map((rule, index) => {
+                                    const source = ruleSourceFields.find(f => f.id === rule.fieldId);
+                                    const operator = RULE_OPERATORS.find(o => o.value === rule.operator);
+
+                                    return (
+                                        <div key={index} className="grid grid-cols-[1fr_1fr_1fr_1fr_auto] gap-2 items-center">
+                                            <Select
+                                                value={rule.action}
+                                                onValueChange={(value: FieldRule['action']) => updateRule(index, { action: value })}
+                                            >
+                                                <SelectTrigger>
+                                                    <SelectValue />
+                                                </SelectTrigger>
+                                                <SelectContent>
+                                                    {RULE_ACTIONS.map(action => (
+                                                        <SelectItem key={action.value} value={action.value}>
+                                                            {action.label}
+                                                        </SelectItem>
+                                                    ))}
+                                                </SelectContent>
+                                            </Select>
+                                            <Select
+                                                value={rule.fieldId}
+                                                onValueChange={(value) => updateRule(index, { fieldId: value, value: '' })}
+                                            >
+                                                <SelectTrigger>
+                                                    <SelectValue placeholder="Field" />
+                                                </SelectTrigger>
+                                                <SelectContent>
+                                                    {ruleSourceFields.map(f => (
+                                                        <SelectItem key={f.id} value={f.id}>
+                                                            {f.label}
+                                                        </SelectItem>
+                                                    ))}
+                                                </SelectContent>
+                                            </Select>
+                                            <Select
+                                                value={rule.operator}
+                                                onValueChange={(value: FieldRule['operator']) => updateRule(index, { operator: value })}
+                                            >
+                                                <SelectTrigger>
+                                                    <SelectValue />
+                                                </SelectTrigger>
+                                                <SelectContent>
+                                                    {RULE_OPERATORS.map(op => (
+                                                        <SelectItem key={op.value} value={op.value}>
+                                                            {op.label}
+                                                        </SelectItem>
+                                                    ))}
+                                                </SelectContent>
+                                            </Select>
+                                            {!operator?.needsValue ? (
+                                                <div />
+                                            ) : source && OPTION_FIELD_TYPES.includes(source.type) ? (
+                                                <Select
+                                                    value={rule.value || ''}
+                                                    onValueChange={(value) => updateRule(index, { value })}
+                                                >
+                                                    <SelectTrigger>
+                                                        <SelectValue placeholder="Value" />
+                                                    </SelectTrigger>
+                                                    <SelectContent>
+                                                        {source.options?.filter(Boolean).map(option => (
+                                                            <SelectItem key={option} value={option}>
+                                                                {option}
+                                                            </SelectItem>
+                                                        ))}
+                                                    </SelectContent>
+                                                </Select>
+                                            ) : source?.type === 'checkbox' ? (
+                                                <Select
+                                                    value={rule.value || ''}
+                                                    onValueChange={(value) => updateRule(index, { value })}
+                                                >
+                                                    <SelectTrigger>
+                                                        <SelectValue placeholder="Value" />
+                                                    </SelectTrigger>
+                                                    <SelectContent>
+                                                        <SelectItem value="Yes">Checked</SelectItem>
+                                                    </SelectContent>
+                                                </Select>
+                                            ) : (
+                                                <Input
+                                                    placeholder={source?.type === 'date' ? 'YYYY-MM-DD' : 'Value'}
+                                                    value={rule.value || ''}
+                                                    onChange={(e) => updateRule(index, { value: e.target.value })}
+                                                />
+                                            )}
+                                            <Button
+                                                variant="outline"
+                                                size="sm"
+                                                onClick={() => removeRule(index)}
+                                            >
+                                                <Trash2 className="w-4 h-4" />
+                                            </Button>
+                                        </div>
+                                    );
+                                })}
+                                <Button
+                                    variant="outline"
+                                    onClick={addRule}
+                                    className="w-full"
+                                >
+                                    <GitBranch className="w-4 h-4 mr-2" />
+                                    Add Rule
+                                </Button>
+                            </div>
+                        )}
+                    </div>
+
                     <div className="flex justify-end gap-2 pt-4">
                         <Button variant="outline" onClick={onClose}>
                             Cancel
@@ -703,22 +900,27 @@ const FieldEditor = ({
 };
 
 // Main Component
-const DepartmentSignupFormBuilder = () => {
+const DepartmentSignupFormBuilder = ({ departmentId, onPublished }: DepartmentSignupFormBuilderProps) => {
     const [departments, setDepartments] = useState<Department[]>([]);
-    const [selectedDepartment, setSelectedDepartment] = useState<string>("");
+    const [selectedDepartment, setSelectedDepartment] = useState<string>(departmentId || "");
     const [formName, setFormName] = useState("");
     const [formDescription, setFormDescription] = useState("");
     const [formFields, setFormFields] = useState<FormField[]>([]);
     const [loading, setLoading] = useState(true);
     const [saving, setSaving] = useState(false);
+    const [publishing, setPublishing] = useState(false);
     const [activeId, setActiveId] = useState<string | null>(null);
     const [isFieldEditorOpen, setIsFieldEditorOpen] = useState(false);
     const [editingField, setEditingField] = useState<FormField | null>(null);
     const [existingFormId, setExistingFormId] = useState<string | null>(null);
+    // Edits always go to the draft revision; published revisions are read-only
+    const [draftRevision, setDraftRevision] = useState<RevisionSummary | null>(null);
+    const [publishedRevision, setPublishedRevision] = useState<RevisionSummary | null>(null);
     const [noFormFound, setNoFormFound] = useState(false);
     const [tableMissing, setTableMissing] = useState(false);
 
     const { toast } = useToast();
+    const { user } = useAuth();
 
     const sensors = useSensors(
         useSensor(PointerSensor),
@@ -745,6 +947,8 @@ const DepartmentSignupFormBuilder = () => {
         setFormDescription("");
         setFormFields([]);
         setExistingFormId(null);
+        setDraftRevision(null);
+        setPublishedRevision(null);
     };
 
     const loadDepartments = async () => {
@@ -789,10 +993,24 @@ const DepartmentSignupFormBuilder = () => {
             }
 
             if (data) {
-                setFormName(data.form_name);
-                setFormDescription(data.form_description || "");
-                setFormFields((data.form_fields as unknown) as FormField[]);
+                const { data: revisions, error: revisionsError } = await supabase
+                    .from("department_signup_form_revisions")
+                    .select("*")
+                    .eq("form_id", data.id)
+                    .in("status", ["draft", "published"]);
+
+                if (revisionsError) throw revisionsError;
+
+                const draft = revisions?.find(r => r.status === "draft");
+                const published = revisions?.find(r => r.status === "published");
+                const source = draft || published || data;
+
+                setFormName(source.form_name);
+                setFormDescription(source.form_description || "");
+                setFormFields(toFormFields(source.form_fields));
                 setExistingFormId(data.id);
+                setDraftRevision(draft ? { id: draft.id, revision_number: draft.revision_number } : null);
+                setPublishedRevision(published ? { id: published.id, revision_number: published.revision_number } : null);
                 setNoFormFound(false);
             } else {
                 // No form found for this department
@@ -849,9 +1067,9 @@ const DepartmentSignupFormBuilder = () => {
         const newField: FormField = {
             id: `${type}_field_${formFields.length + 1}`,
             type,
-            label: `${type.charAt(0).toUpperCase() + type.slice(1)} Field`,
+            label: type === 'section' ? 'New Section' : `${type.charAt(0).toUpperCase() + type.slice(1)} Field`,
             required: false,
-            options: type === 'dropdown' ? ['Option 1', 'Option 2'] : undefined,
+            options: OPTION_FIELD_TYPES.includes(type) ? ['Option 1', 'Option 2'] : undefined,
             fileTypes: ['pdf', 'docx', 'image'],
             maxFileSize: 5,
         };
@@ -876,7 +1094,13 @@ const DepartmentSignupFormBuilder = () => {
     };
 
     const deleteField = (id: string) => {
-        setFormFields(prev => prev.filter(field => field.id !== id));
+        // Drop rules that pointed at the removed field
+        setFormFields(prev => prev
+            .filter(field => field.id !== id)
+            .map(field => field.rules
+                ? { ...field, rules: field.rules.filter(rule => rule.fieldId !== id) }
+                : field
+            ));
     };
 
     const toggleFieldRequired = (id: string) => {
@@ -885,7 +1109,7 @@ const DepartmentSignupFormBuilder = () => {
         ));
     };
 
-    const saveForm = async () => {
+    const validateForm = (): boolean => {
         // Validate department selection
         if (!selectedDepartment) {
             toast({
@@ -893,7 +1117,7 @@ const DepartmentSignupFormBuilder = () => {
                 title: "Validation Error",
                 description: "Please select a department",
             });
-            return;
+            return false;
         }
 
         // Validate form name
@@ -903,7 +1127,7 @@ const DepartmentSignupFormBuilder = () => {
                 title: "Validation Error",
                 description: "Please enter a form name",
             });
-            return;
+            return false;
         }
 
         if (formName.trim().length < 3) {
@@ -912,7 +1136,7 @@ const DepartmentSignupFormBuilder = () => {
                 title: "Validation Error",
                 description: "Form name must be at least 3 characters long",
             });
-            return;
+            return false;
         }
 
         // Validate form fields
@@ -922,7 +1146,7 @@ const DepartmentSignupFormBuilder = () => {
                 title: "Validation Error",
                 description: "Please add at least one field to the form",
             });
-            return;
+            return false;
         }
 
         // Validate each field has proper structure
@@ -936,44 +1160,86 @@ const DepartmentSignupFormBuilder = () => {
                 title: "Validation Error",
                 description: "All fields must have an ID, label, and type",
             });
-            return;
+            return false;
+        }
+
+        // Validate rules point at fields that still exist
+        const brokenRuleField = formFields.find(field =>
+            field.rules?.some(rule => !formFields.some(f => f.id === rule.fieldId && f.id !== field.id))
+        );
+
+        if (brokenRuleField) {
+            toast({
+                variant: "destructive",
+                title: "Validation Error",
+                description: `"${brokenRuleField.label}" has a rule that refers to a missing field`,
+            });
+            return false;
+        }
+
+        return true;
+    };
+
+    // Write the editor contents to the draft revision, creating the form and
+    // the draft on first save. Returns the draft revision id.
+    const persistDraft = async (): Promise<string> => {
+        let formId = existingFormId;
+        if (!formId) {
+            // The form row only mirrors published content, so it starts empty
+            const { data, error } = await supabase
+                .from("department_signup_forms")
+                .insert({
+                    department_id: selectedDepartment,
+                    form_name: formName,
+                    form_description: formDescription,
+                    form_fields: [],
+                })
+                .select("id")
+                .single();
+
+            if (error) throw error;
+            formId = data.id;
+        }
+
+        const revisionData = {
+            form_name: formName,
+            form_description: formDescription,
+            form_fields: formFields as unknown as Json[],
+        };
+
+        if (draftRevision) {
+            const { error } = await supabase
+                .from("department_signup_form_revisions")
+                .update(revisionData)
+                .eq("id", draftRevision.id);
+
+            if (error) throw error;
+            return draftRevision.id;
         }
 
+        const { data, error } = await supabase
+            .from("department_signup_form_revisions")
+            .insert({ ...revisionData, form_id: formId, created_by: user?.id })
+            .select("id")
+            .single();
+
+        if (error) throw error;
+        return data.id;
+    };
+
+    const saveDraft = async () => {
+        if (!validateForm()) return;
+
         setSaving(true);
 
         try {
-            const formData = {
-                department_id: selectedDepartment,
-                form_name: formName,
-                form_description: formDescription,
-                form_fields: formFields as unknown as Json[],
-            };
-
-            let error;
-            if (existingFormId) {
-                const { error: updateError } = await supabase
-                    .from("department_signup_forms")
-                    .update(formData)
-                    .eq("id", existingFormId);
-                error = updateError;
-            } else {
-                const { error: insertError } = await supabase
-                    .from("department_signup_forms")
-                    .insert(formData);
-                error = insertError;
-            }
-
-            if (error) {
-                console.error("Error saving department signup form:", error);
-                throw error;
-            }
+            await persistDraft();
 
             toast({
-                title: "Success",
-                description: existingFormId ? "Form updated successfully" : "Form created successfully",
+                title: "Draft saved",
+                description: "Publish the draft to make it live for new hires.",
             });
 
-            // Reload to get the form ID
             await loadExistingForm(selectedDepartment);
         } catch (error: any) {
             toast({
@@ -986,6 +1252,38 @@ const DepartmentSignupFormBuilder = () => {
         }
     };
 
+    const publishForm = async () => {
+        if (!validateForm()) return;
+
+        setPublishing(true);
+
+        try {
+            const revisionId = await persistDraft();
+
+            const { error } = await supabase.rpc("publish_department_signup_form_revision", {
+                _revision_id: revisionId,
+            });
+
+            if (error) throw error;
+
+            toast({
+                title: "Form published",
+                description: "New hires will now answer this revision.",
+            });
+
+            await loadExistingForm(selectedDepartment);
+            onPublished?.();
+        } catch (error) {
+            toast({
+                variant: "destructive",
+                title: "Error publishing form",
+                description: (error as Error).message,
+            });
+        } finally {
+            setPublishing(false);
+        }
+    };
+
     if (loading) {
         return <div className="text-muted-foreground">Loading form builder...</div>;
     }
@@ -1082,7 +1380,14 @@ const DepartmentSignupFormBuilder = () => {
                             <Card>
                                 <CardHeader>
                                     <CardTitle className="flex items-center justify-between">
-                                        <span>Department Signup Form Editor</span>
+                                        <div className="flex items-center gap-2">
+                                            <span>Department Signup Form Editor</span>
+                                            {draftRevision ? (
+                                                <Badge variant="secondary">Draft · rev {draftRevision.revision_number}</Badge>
+                                            ) : publishedRevision ? (
+                                                <Badge variant="outline">Published · rev {publishedRevision.revision_number}</Badge>
+                                            ) : null}
+                                        </div>
                                         <div className="flex gap-2">
                                             <Button
                                                 variant="outline"
@@ -1093,14 +1398,29 @@ const DepartmentSignupFormBuilder = () => {
                                                 Add Field
                                             </Button>
                                             <Button
-                                                onClick={saveForm}
-                                                disabled={saving}
+                                                variant="outline"
+                                                size="sm"
+                                                onClick={saveDraft}
+                                                disabled={saving || publishing}
                                             >
                                                 <Save className="w-4 h-4 mr-2" />
-                                                {saving ? 'Saving...' : 'Save Form'}
+                                                {saving ? 'Saving...' : 'Save Draft'}
+                                            </Button>
+                                            <Button
+                                                size="sm"
+                                                onClick={publishForm}
+                                                disabled={saving || publishing}
+                                            >
+                                                <Send className="w-4 h-4 mr-2" />
+                                                {publishing ? 'Publishing...' : 'Publish'}
                                             </Button>
                                         </div>
                                     </CardTitle>
+                                    {publishedRevision && !draftRevision && (
+                                        <p className="text-sm font-normal text-muted-foreground">
+                                            Saving changes creates a new draft; revision {publishedRevision.revision_number} stays live until you publish.
+                                        </p>
+                                    )}
                                 </CardHeader>
                                 <CardContent className="space-y-4">
                                     {/* Quick Add Buttons */}
@@ -1129,6 +1449,30 @@ const DepartmentSignupFormBuilder = () => {
                                             <Phone className="w-4 h-4 mr-2" />
                                             Phone
                                         </Button>
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={() => addField('textarea')}
+                                        >
+                                            <AlignLeft className="w-4 h-4 mr-2" />
+                                            Long Text
+                                        </Button>
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={() => addField('number')}
+                                        >
+                                            <Hash className="w-4 h-4 mr-2" />
+                                            Number
+                                        </Button>
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={() => addField('date')}
+                                        >
+                                            <Calendar className="w-4 h-4 mr-2" />
+                                            Date
+                                        </Button>
                                         <Button
                                             variant="outline"
                                             size="sm"
@@ -1137,6 +1481,54 @@ const DepartmentSignupFormBuilder = () => {
                                             <List className="w-4 h-4 mr-2" />
                                             Dropdown
                                         </Button>
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={() => addField('radio')}
+                                        >
+                                            <CircleDot className="w-4 h-4 mr-2" />
+                                            Radio Group
+                                        </Button>
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={() => addField('multiselect')}
+                                        >
+                                            <ListChecks className="w-4 h-4 mr-2" />
+                                            Multi-select
+                                        </Button>
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={() => addField('checkbox')}
+                                        >
+                                            <SquareCheck className="w-4 h-4 mr-2" />
+                                            Checkbox
+                                        </Button>
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={() => addField('address')}
+                                        >
+                                            <MapPin className="w-4 h-4 mr-2" />
+                                            Address
+                                        </Button>
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={() => addField('signature')}
+                                        >
+                                            <PenLine className="w-4 h-4 mr-2" />
+                                            Signature
+                                        </Button>
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={() => addField('acknowledgement')}
+                                        >
+                                            <ScrollText className="w-4 h-4 mr-2" />
+                                            Acknowledgement
+                                        </Button>
                                         <Button
                                             variant="outline"
                                             size="sm"
@@ -1145,6 +1537,14 @@ const DepartmentSignupFormBuilder = () => {
                                             <Upload className="w-4 h-4 mr-2" />
                                             File Upload
                                         </Button>
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={() => addField('section')}
+                                        >
+                                            <SeparatorHorizontal className="w-4 h-4 mr-2" />
+                                            Section
+                                        </Button>
                                     </div>
 
                                     {/* Fields List */}
@@ -1198,6 +1598,7 @@ const DepartmentSignupFormBuilder = () => {
 
             <FieldEditor
                 field={editingField}
+                allFields={formFields}
                 isOpen={isFieldEditorOpen}
                 onClose={() => {
                     setIsFieldEditorOpen(false);
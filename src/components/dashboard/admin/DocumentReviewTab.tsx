@@ -0,0 +1,400 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Check, X, RotateCcw, Eye, ExternalLink, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import { Tables, Enums } from "@/integrations/supabase/types";
+import { getDocumentUrl } from "@/lib/storage";
+import { notifyUsers } from "@/lib/notifications";
+
+type DocumentStatus = Enums<"document_status">;
+
+interface ReviewDocument extends Tables<"documents"> {
+  employee?: { full_name: string; email: string };
+  replaces?: { title: string; review_notes: string | null };
+}
+
+type ReviewAction = "rejected" | "reupload_requested";
+
+const STATUS_FILTERS: { value: DocumentStatus; label: string }[] = [
+  { value: "pending", label: "Pending review" },
+  { value: "reupload_requested", label: "Re-upload requested" },
+  { value: "rejected", label: "Rejected" },
+  { value: "approved", label: "Approved" },
+];
+
+interface DocumentReviewTabProps {
+  readOnly?: boolean;
+}
+
+const DocumentReviewTab = ({ readOnly = false }: DocumentReviewTabProps) => {
+  const [documents, setDocuments] = useState<ReviewDocument[]>([]);
+  const [statusFilter, setStatusFilter] = useState<DocumentStatus>("pending");
+  const [loading, setLoading] = useState(true);
+  const [previewDoc, setPreviewDoc] = useState<ReviewDocument | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [actionDoc, setActionDoc] = useState<ReviewDocument | null>(null);
+  const [action, setAction] = useState<ReviewAction>("rejected");
+  const [reason, setReason] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const loadDocuments = useCallback(async () => {
+    setLoading(true);
+    try {
+      // Only employees' own uploads need review; staff files and uploads made
+      // on an employee's behalf stay out of the queue
+      const [docsData, staffData] = await Promise.all([
+        supabase
+          .from("documents")
+          .select("*")
+          .eq("status", statusFilter)
+          .eq("uploaded_by_admin", false)
+          .order("created_at", { ascending: true }),
+        supabase.from("user_roles").select("user_id").neq("role", "employee"),
+      ]);
+
+      if (docsData.error) throw docsData.error;
+      if (staffData.error) throw staffData.error;
+
+      const staffIds = new Set((staffData.data || []).map((r) => r.user_id));
+      const docs = (docsData.data || []).filter((d) => !staffIds.has(d.user_id));
+      const userIds = [...new Set(docs.map((d) => d.user_id))];
+      const originalIds = docs
+        .map((d) => d.replaces_document_id)
+        .filter((id): id is string => !!id);
+
+      // documents.user_id references auth.users, so profiles can't be embedded
+      const [profilesData, originalsData] = await Promise.all([
+        userIds.length > 0
+          ? supabase.from("profiles").select("id, full_name, email").in("id", userIds)
+          : Promise.resolve({ data: [], error: null }),
+        originalIds.length > 0
+          ? supabase.from("documents").select("id, title, review_notes").in("id", originalIds)
+          : Promise.resolve({ data: [], error: null }),
+      ]);
+
+      if (profilesData.error) throw profilesData.error;
+      if (originalsData.error) throw originalsData.error;
+
+      setDocuments(
+        docs.map((doc) => ({
+          ...doc,
+          employee: profilesData.data?.find((p) => p.id === doc.user_id),
+          replaces: originalsData.data?.find((o) => o.id === doc.replaces_document_id),
+        }))
+      );
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error loading documents",
+        description: (error as Error).message,
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter, toast]);
+
+  useEffect(() => {
+    loadDocuments();
+  }, [loadDocuments]);
+
+  const openPreview = async (doc: ReviewDocument) => {
+    setPreviewDoc(doc);
+    setPreviewUrl(null);
+    try {
+      setPreviewUrl(await getDocumentUrl(doc.file_url));
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error loading preview",
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  const updateStatus = async (doc: ReviewDocument, status: DocumentStatus, notes: string | null) => {
+    if (!user) throw new Error("Not authenticated");
+
+    const { error } = await supabase
+      .from("documents")
+      .update({
+        status,
+        review_notes: notes,
+        reviewed_by: user.id,
+        reviewed_at: new Date().toISOString(),
+      })
+      .eq("id", doc.id);
+
+    if (error) throw error;
+
+    const messages: Record<DocumentStatus, string> = {
+      approved: `Your document "${doc.title}" has been approved.`,
+      rejected: `Your document "${doc.title}" was rejected: ${notes}`,
+      reupload_requested: `Please upload a new version of "${doc.title}": ${notes}`,
+      pending: "",
+    };
+
+    try {
+      await notifyUsers(user.id, [
+        {
+          userId: doc.user_id,
+          title: status === "reupload_requested" ? "Re-upload requested" : `Document ${status}`,
+          message: messages[status],
+          link: "/dashboard/documents",
+        },
+      ]);
+    } catch (notifyError) {
+      // The review itself succeeded; a missing notification shouldn't undo it
+      console.error("Error sending notification:", notifyError);
+    }
+
+    setDocuments((docs) => docs.filter((d) => d.id !== doc.id));
+  };
+
+  const handleApprove = async (doc: ReviewDocument) => {
+    try {
+      await updateStatus(doc, "approved", null);
+      toast({ title: "Document approved" });
+      if (previewDoc?.id === doc.id) setPreviewDoc(null);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error approving document",
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  const openActionDialog = (doc: ReviewDocument, nextAction: ReviewAction) => {
+    setActionDoc(doc);
+    setAction(nextAction);
+    setReason("");
+  };
+
+  const handleSubmitAction = async () => {
+    if (!actionDoc) return;
+
+    if (!reason.trim()) {
+      toast({
+        variant: "destructive",
+        title: "Reason required",
+        description: "Please explain why so the employee knows what to fix",
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await updateStatus(actionDoc, action, reason.trim());
+      toast({
+        title: action === "rejected" ? "Document rejected" : "Re-upload requested",
+      });
+      if (previewDoc?.id === actionDoc.id) setPreviewDoc(null);
+      setActionDoc(null);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error updating document",
+        description: (error as Error).message,
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderPreview = () => {
+    if (!previewDoc) return null;
+    if (!previewUrl) {
+      return (
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      );
+    }
+    if (previewDoc.file_type.startsWith("image/")) {
+      return <img src={previewUrl} alt={previewDoc.title} className="max-h-[60vh] mx-auto rounded" />;
+    }
+    if (previewDoc.file_type === "application/pdf") {
+      return <iframe src={previewUrl} title={previewDoc.title} className="w-full h-[60vh] rounded border" />;
+    }
+    return (
+      <div className="text-center py-12 space-y-4">
+        <p className="text-muted-foreground">Inline preview isn't available for this file type.</p>
+        <Button variant="outline" onClick={() => window.open(previewUrl, "_blank")}>
+          <ExternalLink className="w-4 h-4 mr-2" />
+          Open in new tab
+        </Button>
+      </div>
+    );
+  };
+
+  const renderActions = (doc: ReviewDocument) => (
+    <>
+      <Button size="sm" onClick={() => handleApprove(doc)}>
+        <Check className="w-4 h-4 mr-1" />
+        Approve
+      </Button>
+      <Button size="sm" variant="outline" onClick={() => openActionDialog(doc, "reupload_requested")}>
+        <RotateCcw className="w-4 h-4 mr-1" />
+        Request re-upload
+      </Button>
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={() => openActionDialog(doc, "rejected")}
+        className="text-destructive hover:text-destructive"
+      >
+        <X className="w-4 h-4 mr-1" />
+        Reject
+      </Button>
+    </>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-4">
+        <p className="text-sm text-muted-foreground">
+          Review documents uploaded by employees
+        </p>
+        <Select value={statusFilter} onValueChange={(value: DocumentStatus) => setStatusFilter(value)}>
+          <SelectTrigger className="w-full sm:w-[220px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {STATUS_FILTERS.map((filter) => (
+              <SelectItem key={filter.value} value={filter.value}>
+                {filter.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {loading ? (
+        <div className="text-muted-foreground">Loading documents...</div>
+      ) : documents.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center text-muted-foreground">
+            No documents in this queue
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 gap-4">
+          {documents.map((doc) => (
+            <Card key={doc.id}>
+              <CardHeader className="pb-3">
+                <div className="flex flex-col md:flex-row justify-between md:items-start gap-4">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <CardTitle className="text-base">{doc.title}</CardTitle>
+                      {doc.replaces_document_id && <Badge variant="secondary">Replacement</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {doc.employee?.full_name || "Unknown employee"}
+                      {doc.employee?.email && ` • ${doc.employee.email}`}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {doc.file_name} • Uploaded {format(new Date(doc.created_at), "MMM dd, yyyy")}
+                    </p>
+                    {doc.replaces && (
+                      <p className="text-xs text-muted-foreground">
+                        Replaces "{doc.replaces.title}"
+                        {doc.replaces.review_notes && ` — requested: ${doc.replaces.review_notes}`}
+                      </p>
+                    )}
+                    {doc.review_notes && (
+                      <p className="text-xs text-destructive">Reason: {doc.review_notes}</p>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Button size="sm" variant="outline" onClick={() => openPreview(doc)}>
+                      <Eye className="w-4 h-4 mr-1" />
+                      Preview
+                    </Button>
+                    {doc.status === "pending" && !readOnly && renderActions(doc)}
+                  </div>
+                </div>
+              </CardHeader>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={!!previewDoc} onOpenChange={(open) => !open && setPreviewDoc(null)}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>{previewDoc?.title}</DialogTitle>
+          </DialogHeader>
+          {renderPreview()}
+          {previewDoc?.status === "pending" && !readOnly && (
+            <DialogFooter className="gap-2">{renderActions(previewDoc)}</DialogFooter>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!actionDoc} onOpenChange={(open) => !open && setActionDoc(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {action === "rejected" ? "Reject document" : "Request re-upload"}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2 py-2">
+            <Label htmlFor="review-reason">Reason *</Label>
+            <Textarea
+              id="review-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={
+                action === "rejected"
+                  ? "e.g., Document does not match the employee's name"
+                  : "e.g., Scan is blurry, please upload a clearer copy"
+              }
+              rows={3}
+            />
+            <p className="text-xs text-muted-foreground">
+              The employee will be notified with this reason.
+            </p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setActionDoc(null)} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSubmitAction}
+              disabled={submitting || !reason.trim()}
+              variant={action === "rejected" ? "destructive" : "default"}
+            >
+              {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {action === "rejected" ? "Reject" : "Request re-upload"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default DocumentReviewTab;
@@ -1,6 +1,7 @@
 import { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -20,8 +21,12 @@ import {
     DialogTitle,
     DialogTrigger,
 } from "@/components/ui/dialog";
-import { Plus, Trash2, Edit, Download, Eye } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Plus, Trash2, Edit, Eye, History } from "lucide-react";
+import { format } from "date-fns";
 import { Tables } from "@/integrations/supabase/types";
+import TemplateFulfilmentMatrix from "./TemplateFulfilmentMatrix";
 
 interface DocumentTemplate extends Tables<"department_document_templates"> {
     departments?: { name: string } | null;
@@ -32,12 +37,18 @@ interface Department {
     name: string;
 }
 
-const DocumentTemplateManagementTab = () => {
+interface DocumentTemplateManagementTabProps {
+    readOnly?: boolean;
+}
+
+const DocumentTemplateManagementTab = ({ readOnly = false }: DocumentTemplateManagementTabProps) => {
     const [templates, setTemplates] = useState<DocumentTemplate[]>([]);
     const [departments, setDepartments] = useState<Department[]>([]);
     const [loading, setLoading] = useState(true);
     const [dialogOpen, setDialogOpen] = useState(false);
     const [editingTemplate, setEditingTemplate] = useState<DocumentTemplate | null>(null);
+    const [historyTemplate, setHistoryTemplate] = useState<DocumentTemplate | null>(null);
+    const [versions, setVersions] = useState<Tables<"department_document_template_versions">[]>([]);
     const [formData, setFormData] = useState({
         title: "",
         description: "",
@@ -46,6 +57,7 @@ const DocumentTemplateManagementTab = () => {
         file: null as File | null,
     });
     const { toast } = useToast();
+    const { user } = useAuth();
 
     useEffect(() => {
         loadData();
@@ -97,9 +109,6 @@ const DocumentTemplateManagementTab = () => {
                 return;
             }
 
-            const {
-                data: { user },
-            } = await supabase.auth.getUser();
             if (!user) throw new Error("Not authenticated");
 
             let fileUrl = editingTemplate?.file_url;
@@ -130,11 +139,17 @@ const DocumentTemplateManagementTab = () => {
                         is_required: formData.is_required,
                         file_url: fileUrl,
                         file_name: fileName,
+                        file_type: formData.file?.type || editingTemplate.file_type,
                     })
                     .eq("id", editingTemplate.id);
 
                 if (error) throw error;
-                toast({ title: "Template updated successfully" });
+                toast({
+                    title: "Template updated successfully",
+                    description: formData.file
+                        ? `Saved as version ${editingTemplate.version + 1}; the previous file is kept in its history`
+                        : undefined,
+                });
             } else {
                 const { error } = await supabase.from("department_document_templates").insert({
                     title: formData.title,
@@ -189,11 +204,11 @@ const DocumentTemplateManagementTab = () => {
         }
     };
 
-    const handleViewTemplate = async (template: DocumentTemplate) => {
+    const handleViewTemplate = async (fileUrl: string) => {
         try {
             const { data, error } = await supabase.storage
                 .from("employee_docs")
-                .createSignedUrl(template.file_url, 3600);
+                .createSignedUrl(fileUrl, 3600);
 
             if (error) throw error;
             if (data?.signedUrl) {
@@ -208,6 +223,27 @@ const DocumentTemplateManagementTab = () => {
         }
     };
 
+    const openHistory = async (template: DocumentTemplate) => {
+        setHistoryTemplate(template);
+        setVersions([]);
+        try {
+            const { data, error } = await supabase
+                .from("department_document_template_versions")
+                .select("*")
+                .eq("template_id", template.id)
+                .order("version", { ascending: false });
+
+            if (error) throw error;
+            setVersions(data || []);
+        } catch (error) {
+            toast({
+                variant: "destructive",
+                title: "Error loading template history",
+                description: (error as Error).message,
+            });
+        }
+    };
+
     const openEditDialog = (template: DocumentTemplate) => {
         setEditingTemplate(template);
         setFormData({
@@ -225,162 +261,235 @@ const DocumentTemplateManagementTab = () => {
     }
 
     return (
-        <div className="space-y-6">
-            <div className="flex justify-between items-center">
-                <p className="text-sm text-muted-foreground">
-                    Manage department-specific document templates and PDFs
-                </p>
-                <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-                    <DialogTrigger asChild>
-                        <Button onClick={() => {
-                            setEditingTemplate(null);
-                            setFormData({
-                                title: "",
-                                description: "",
-                                department_id: "",
-                                is_required: false,
-                                file: null,
-                            });
-                        }}>
-                            <Plus className="w-4 h-4 mr-2" />
-                            Add Template
-                        </Button>
-                    </DialogTrigger>
-                    <DialogContent className="max-w-md">
-                        <DialogHeader>
-                            <DialogTitle>
-                                {editingTemplate ? "Edit Template" : "Add New Template"}
-                            </DialogTitle>
-                        </DialogHeader>
-                        <div className="space-y-4">
-                            <div>
-                                <Label>Template Title *</Label>
-                                <Input
-                                    placeholder="e.g., Employee Handbook"
-                                    value={formData.title}
-                                    onChange={(e) =>
-                                        setFormData({ ...formData, title: e.target.value })
-                                    }
-                                />
-                            </div>
-                            <div>
-                                <Label>Description</Label>
-                                <Input
-                                    placeholder="Brief description of the template"
-                                    value={formData.description}
-                                    onChange={(e) =>
-                                        setFormData({ ...formData, description: e.target.value })
-                                    }
-                                />
-                            </div>
-                            <div>
-                                <Label>Department *</Label>
-                                <Select
-                                    value={formData.department_id}
-                                    onValueChange={(value) =>
-                                        setFormData({ ...formData, department_id: value })
-                                    }
-                                >
-                                    <SelectTrigger>
-                                        <SelectValue placeholder="Select department" />
-                                    </SelectTrigger>
-                                    <SelectContent>
-                                        {departments.map((dept) => (
-                                            <SelectItem key={dept.id} value={dept.id}>
-                                                {dept.name}
-                                            </SelectItem>
-                                        ))}
-                                    </SelectContent>
-                                </Select>
-                            </div>
-                            <div>
-                                <Label>Template File *</Label>
-                                <Input
-                                    type="file"
-                                    accept=".pdf,.doc,.docx,.txt"
-                                    onChange={(e) =>
-                                        setFormData({ ...formData, file: e.target.files?.[0] || null })
-                                    }
-                                />
-                                {editingTemplate && !formData.file && (
-                                    <p className="text-sm text-muted-foreground mt-1">
-                                        Current file: {editingTemplate.file_name}
-                                    </p>
-                                )}
-                            </div>
-                            <div className="flex items-center space-x-2">
-                                <Switch
-                                    checked={formData.is_required}
-                                    onCheckedChange={(checked) =>
-                                        setFormData({ ...formData, is_required: checked })
-                                    }
-                                />
-                                <Label>Required for employees</Label>
-                            </div>
-                            <Button onClick={handleSaveTemplate} className="w-full">
-                                {editingTemplate ? "Update Template" : "Add Template"}
-                            </Button>
-                        </div>
-                    </DialogContent>
-                </Dialog>
-            </div>
-
-            <div className="grid grid-cols-1 gap-4">
-                {templates.length === 0 ? (
-                    <Card>
-                        <CardContent className="p-8 text-center text-muted-foreground">
-                            No document templates created yet
-                        </CardContent>
-                    </Card>
-                ) : (
-                    templates.map((template) => (
-                        <Card key={template.id}>
-                            <CardHeader className="pb-3">
-                                <div className="flex justify-between items-start">
-                                    <div>
-                                        <CardTitle className="text-base">{template.title}</CardTitle>
+        <Tabs defaultValue="templates" className="space-y-6">
+            <TabsList>
+                <TabsTrigger value="templates">Templates</TabsTrigger>
+                <TabsTrigger value="fulfilment">Fulfilment</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="fulfilment">
+                <TemplateFulfilmentMatrix departments={departments} readOnly={readOnly} />
+            </TabsContent>
+
+            <TabsContent value="templates" className="space-y-6">
+                <div className="flex justify-between items-center">
+                    <p className="text-sm text-muted-foreground">
+                        Manage department-specific document templates and PDFs
+                    </p>
+                    <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+                        {!readOnly && (
+                            <DialogTrigger asChild>
+                                <Button onClick={() => {
+                                    setEditingTemplate(null);
+                                    setFormData({
+                                        title: "",
+                                        description: "",
+                                        department_id: "",
+                                        is_required: false,
+                                        file: null,
+                                    });
+                                }}>
+                                    <Plus className="w-4 h-4 mr-2" />
+                                    Add Template
+                                </Button>
+                            </DialogTrigger>
+                        )}
+                        <DialogContent className="max-w-md">
+                            <DialogHeader>
+                                <DialogTitle>
+                                    {editingTemplate ? "Edit Template" : "Add New Template"}
+                                </DialogTitle>
+                            </DialogHeader>
+                            <div className="space-y-4">
+                                <div>
+                                    <Label>Template Title *</Label>
+                                    <Input
+                                        placeholder="e.g., Employee Handbook"
+                                        value={formData.title}
+                                        onChange={(e) =>
+                                            setFormData({ ...formData, title: e.target.value })
+                                        }
+                                    />
+                                </div>
+                                <div>
+                                    <Label>Description</Label>
+                                    <Input
+                                        placeholder="Brief description of the template"
+                                        value={formData.description}
+                                        onChange={(e) =>
+                                            setFormData({ ...formData, description: e.target.value })
+                                        }
+                                    />
+                                </div>
+                                <div>
+                                    <Label>Department *</Label>
+                                    <Select
+                                        value={formData.department_id}
+                                        onValueChange={(value) =>
+                                            setFormData({ ...formData, department_id: value })
+                                        }
+                                    >
+                                        <SelectTrigger>
+                                            <SelectValue placeholder="Select department" />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {departments.map((dept) => (
+                                                <SelectItem key={dept.id} value={dept.id}>
+                                                    {dept.name}
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                                <div>
+                                    <Label>Template File *</Label>
+                                    <Input
+                                        type="file"
+                                        accept=".pdf,.doc,.docx,.txt"
+                                        onChange={(e) =>
+                                            setFormData({ ...formData, file: e.target.files?.[0] || null })
+                                        }
+                                    />
+                                    {editingTemplate && !formData.file && (
                                         <p className="text-sm text-muted-foreground mt-1">
-                                            Department: {template.departments?.name}
-                                            {template.is_required && (
-                                                <span className="ml-2 text-green-600">• Required</span>
-                                            )}
+                                            Current file: {editingTemplate.file_name} (v{editingTemplate.version})
                                         </p>
-                                        {template.description && (
+                                    )}
+                                    {editingTemplate && formData.file && (
+                                        <p className="text-sm text-muted-foreground mt-1">
+                                            Replacing the file creates version {editingTemplate.version + 1}
+                                        </p>
+                                    )}
+                                </div>
+                                <div className="flex items-center space-x-2">
+                                    <Switch
+                                        checked={formData.is_required}
+                                        onCheckedChange={(checked) =>
+                                            setFormData({ ...formData, is_required: checked })
+                                        }
+                                    />
+                                    <Label>Required for employees</Label>
+                                </div>
+                                <Button onClick={handleSaveTemplate} className="w-full">
+                                    {editingTemplate ? "Update Template" : "Add Template"}
+                                </Button>
+                            </div>
+                        </DialogContent>
+                    </Dialog>
+                </div>
+
+                <div className="grid grid-cols-1 gap-4">
+                    {templates.length === 0 ? (
+                        <Card>
+                            <CardContent className="p-8 text-center text-muted-foreground">
+                                No document templates created yet
+                            </CardContent>
+                        </Card>
+                    ) : (
+                        templates.map((template) => (
+                            <Card key={template.id}>
+                                <CardHeader className="pb-3">
+                                    <div className="flex justify-between items-start">
+                                        <div>
+                                            <CardTitle className="text-base flex items-center gap-2">
+                                                {template.title}
+                                                <Badge variant="outline">v{template.version}</Badge>
+                                            </CardTitle>
                                             <p className="text-sm text-muted-foreground mt-1">
-                                                {template.description}
+                                                Department: {template.departments?.name}
+                                                {template.is_required && (
+                                                    <span className="ml-2 text-green-600">• Required</span>
+                                                )}
                                             </p>
-                                        )}
-                                    </div>
-                                    <div className="flex items-center gap-2">
-                                        <Button
-                                            size="sm"
-                                            variant="outline"
-                                            onClick={() => handleViewTemplate(template)}
-                                        >
-                                            <Eye className="w-4 h-4" />
-                                        </Button>
-                                        <Button
-                                            size="sm"
-                                            variant="outline"
-                                            onClick={() => openEditDialog(template)}
-                                        >
-                                            <Edit className="w-4 h-4" />
-                                        </Button>
-                                        <Button
-                                            size="sm"
-                                            variant="destructive"
-                                            onClick={() => handleDeleteTemplate(template.id)}
-                                        >
-                                            <Trash2 className="w-4 h-4" />
-                                        </Button>
+                                            {template.description && (
+                                                <p className="text-sm text-muted-foreground mt-1">
+                                                    {template.description}
+                                                </p>
+                                            )}
+                                        </div>
+                                        <div className="flex items-center gap-2">
+                                            <Button
+                                                size="sm"
+                                                variant="outline"
+                                                onClick={() => handleViewTemplate(template.file_url)}
+                                            >
+                                                <Eye className="w-4 h-4" />
+                                            </Button>
+                                            <Button
+                                                size="sm"
+                                                variant="outline"
+                                                onClick={() => openHistory(template)}
+                                                disabled={template.version <= 1}
+                                            >
+                                                <History className="w-4 h-4" />
+                                            </Button>
+                                            {!readOnly && (
+                                                <>
+                                                    <Button
+                                                        size="sm"
+                                                        variant="outline"
+                                                        onClick={() => openEditDialog(template)}
+                                                    >
+                                                        <Edit className="w-4 h-4" />
+                                                    </Button>
+                                                    <Button
+                                                        size="sm"
+                                                        variant="destructive"
+                                                        onClick={() => handleDeleteTemplate(template.id)}
+                                                    >
+                                                        <Trash2 className="w-4 h-4" />
+                                                    </Button>
+                                                </>
+                                            )}
+                                        </div>
                                     </div>
+                                </CardHeader>
+                            </Card>
+                        ))
+                    )}
+                </div>
+            </TabsContent>
+
+            <Dialog open={!!historyTemplate} onOpenChange={(open) => !open && setHistoryTemplate(null)}>
+                <DialogContent className="max-w-md">
+                    <DialogHeader>
+                        <DialogTitle>{historyTemplate?.title} history</DialogTitle>
+                    </DialogHeader>
+                    <div className="space-y-2">
+                        {historyTemplate && (
+                            <div className="flex items-center justify-between rounded-lg border p-3">
+                                <div>
+                                    <p className="text-sm font-medium">
+                                        v{historyTemplate.version} · {historyTemplate.file_name}
+                                    </p>
+                                    <p className="text-xs text-muted-foreground">Current version</p>
                                 </div>
-                            </CardHeader>
-                        </Card>
-                    ))
-                )}
-            </div>
-        </div>
+                                <Button size="sm" variant="outline" onClick={() => handleViewTemplate(historyTemplate.file_url)}>
+                                    <Eye className="w-4 h-4" />
+                                </Button>
+                            </div>
+                        )}
+                        {versions.map((version) => (
+                            <div key={version.id} className="flex items-center justify-between rounded-lg border p-3">
+                                <div>
+                                    <p className="text-sm font-medium">
+                                        v{version.version} · {version.file_name}
+                                    </p>
+                                    {version.created_at && (
+                                        <p className="text-xs text-muted-foreground">
+                                            Uploaded {format(new Date(version.created_at), "MMM d, yyyy")}
+                                        </p>
+                                    )}
+                                </div>
+                                <Button size="sm" variant="outline" onClick={() => handleViewTemplate(version.file_url)}>
+                                    <Eye className="w-4 h-4" />
+                                </Button>
+                            </div>
+                        ))}
+                    </div>
+                </DialogContent>
+            </Dialog>
+        </Tabs>
     );
 };
 
@@ -0,0 +1,463 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CheckCircle2, Loader2, XCircle } from "lucide-react";
+import { format, isValid, parse } from "date-fns";
+import { parseCsv } from "@/lib/csv";
+import { AppRole, ROLES } from "@/lib/permissions";
+import { getInvitationStatus, sendInvitationEmail } from "@/lib/invitations";
+
+type ImportField = "full_name" | "email" | "phone_number" | "department" | "join_date" | "role";
+type ImportStep = "upload" | "map" | "preview" | "report";
+
+interface Department {
+  id: string;
+  name: string;
+}
+
+interface PreviewRow {
+  rowNumber: number;
+  full_name: string;
+  email: string;
+  phone_number: string;
+  department: string;
+  departmentId: string | null;
+  joinDate: string;
+  role: AppRole;
+  errors: string[];
+}
+
+interface ImportResult {
+  rowNumber: number;
+  email: string;
+  created: boolean;
+  emailed: boolean;
+  message?: string;
+}
+
+interface EmployeeImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  departments: Department[];
+  onImported: () => void;
+}
+
+const IMPORT_FIELDS: { key: ImportField; label: string; required: boolean; aliases: string[] }[] = [
+  { key: "full_name", label: "Name", required: true, aliases: ["name", "fullname", "employeename"] },
+  { key: "email", label: "Email", required: true, aliases: ["email", "emailaddress", "workemail"] },
+  { key: "phone_number", label: "Phone", required: false, aliases: ["phone", "phonenumber", "mobile"] },
+  { key: "department", label: "Department", required: true, aliases: ["department", "departmentname", "dept"] },
+  { key: "join_date", label: "Start date", required: false, aliases: ["startdate", "joindate", "start", "joined"] },
+  { key: "role", label: "Role", required: false, aliases: ["role", "approle"] },
+];
+
+const NOT_MAPPED = "none";
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const normalizeKey = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+const guessMapping = (headers: string[]) =>
+  IMPORT_FIELDS.reduce(
+    (mapping, field) => {
+      const index = headers.findIndex((h) => field.aliases.includes(normalizeKey(h)));
+      mapping[field.key] = index >= 0 ? String(index) : NOT_MAPPED;
+      return mapping;
+    },
+    {} as Record<ImportField, string>
+  );
+
+const EmployeeImportDialog = ({ open, onOpenChange, departments, onImported }: EmployeeImportDialogProps) => {
+  const [step, setStep] = useState<ImportStep>("upload");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<Record<ImportField, string>>(guessMapping([]));
+  const [previewRows, setPreviewRows] = useState<PreviewRow[]>([]);
+  const [results, setResults] = useState<ImportResult[]>([]);
+  const [working, setWorking] = useState(false);
+  const { user, hasRole, hasOrganisationScope, managedDepartmentIds } = useAuth();
+  const { toast } = useToast();
+
+  const isAdmin = hasRole("admin");
+  const validRows = previewRows.filter((r) => r.errors.length === 0);
+
+  const reset = () => {
+    setStep("upload");
+    setHeaders([]);
+    setRows([]);
+    setPreviewRows([]);
+    setResults([]);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (working) return;
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const [headerRow, ...dataRows] = parseCsv(await file.text());
+    if (!headerRow || dataRows.length === 0) {
+      toast({
+        variant: "destructive",
+        title: "Empty file",
+        description: "The CSV needs a header row and at least one employee",
+      });
+      return;
+    }
+
+    const trimmedHeaders = headerRow.map((h) => h.trim());
+    setHeaders(trimmedHeaders);
+    setRows(dataRows);
+    setMapping(guessMapping(trimmedHeaders));
+    setStep("map");
+  };
+
+  // Dry run: check every row against departments, roles, existing accounts,
+  // pending invitations and the rest of the file without writing anything
+  const buildPreview = async () => {
+    const missing = IMPORT_FIELDS.filter((f) => f.required && mapping[f.key] === NOT_MAPPED);
+    if (missing.length > 0) {
+      toast({
+        variant: "destructive",
+        title: "Columns not mapped",
+        description: `Choose a column for ${missing.map((f) => f.label).join(", ")}`,
+      });
+      return;
+    }
+
+    setWorking(true);
+    try {
+      const [profilesData, invitationsData] = await Promise.all([
+        supabase.from("profiles").select("email"),
+        supabase.from("employee_invitations").select("*"),
+      ]);
+
+      if (profilesData.error) throw profilesData.error;
+      if (invitationsData.error) throw invitationsData.error;
+
+      const existingEmails = new Set((profilesData.data || []).map((p) => p.email.toLowerCase()));
+      const invitedEmails = new Set(
+        (invitationsData.data || [])
+          .filter((i) => getInvitationStatus(i) === "pending")
+          .map((i) => i.email.toLowerCase())
+      );
+      const seenEmails = new Set<string>();
+
+      const valueOf = (row: string[], field: ImportField) =>
+        mapping[field] === NOT_MAPPED ? "" : (row[Number(mapping[field])] || "").trim();
+
+      setPreviewRows(
+        rows.map((row, index) => {
+          const errors: string[] = [];
+          const fullName = valueOf(row, "full_name");
+          const email = valueOf(row, "email").toLowerCase();
+          const departmentName = valueOf(row, "department");
+          const joinDateValue = valueOf(row, "join_date");
+          const roleValue = valueOf(row, "role");
+
+          if (!fullName) errors.push("Name is missing");
+
+          if (!email) {
+            errors.push("Email is missing");
+          } else if (!EMAIL_PATTERN.test(email)) {
+            errors.push("Email is not valid");
+          } else if (existingEmails.has(email)) {
+            errors.push("An account with this email already exists");
+          } else if (invitedEmails.has(email)) {
+            errors.push("This email already has a pending invitation");
+          } else if (seenEmails.has(email)) {
+            errors.push("Email appears more than once in the file");
+          }
+          seenEmails.add(email);
+
+          const department = departments.find((d) => d.name.toLowerCase() === departmentName.toLowerCase());
+          if (!departmentName) {
+            errors.push("Department is missing");
+          } else if (!department) {
+            errors.push(`Unknown department "${departmentName}"`);
+          } else if (!hasOrganisationScope && !managedDepartmentIds.includes(department.id)) {
+            errors.push(`You can't invite employees to ${department.name}`);
+          }
+
+          let joinDate = format(new Date(), "yyyy-MM-dd");
+          if (joinDateValue) {
+            const parsed = parse(joinDateValue, "yyyy-MM-dd", new Date());
+            if (isValid(parsed)) {
+              joinDate = format(parsed, "yyyy-MM-dd");
+            } else {
+              errors.push(`Start date "${joinDateValue}" must be YYYY-MM-DD`);
+            }
+          }
+
+          let role: AppRole = "employee";
+          if (roleValue) {
+            const match = ROLES.find(
+              (r) => normalizeKey(r.value) === normalizeKey(roleValue) || normalizeKey(r.label) === normalizeKey(roleValue)
+            );
+            if (!match) {
+              errors.push(`Unknown role "${roleValue}"`);
+            } else if (match.value !== "employee" && !isAdmin) {
+              errors.push(`Only admins can invite with the ${match.label} role`);
+            } else {
+              role = match.value;
+            }
+          }
+
+          return {
+            // Spreadsheet row numbers, counting the header as row 1
+            rowNumber: index + 2,
+            full_name: fullName,
+            email,
+            phone_number: valueOf(row, "phone_number"),
+            department: department?.name || departmentName,
+            departmentId: department?.id || null,
+            joinDate,
+            role,
+            errors,
+          };
+        })
+      );
+      setStep("preview");
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error validating import",
+        description: (error as Error).message,
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  // Rows are created one at a time so a single failure doesn't sink the batch
+  const handleImport = async () => {
+    setWorking(true);
+    const importResults: ImportResult[] = [];
+
+    for (const row of validRows) {
+      const { data, error } = await supabase
+        .from("employee_invitations")
+        .insert({
+          email: row.email,
+          full_name: row.full_name,
+          phone_number: row.phone_number || null,
+          department_id: row.departmentId!,
+          role: row.role,
+          join_date: row.joinDate,
+          invited_by: user?.id,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        importResults.push({
+          rowNumber: row.rowNumber,
+          email: row.email,
+          created: false,
+          emailed: false,
+          message: error.message,
+        });
+        continue;
+      }
+
+      const emailed = await sendInvitationEmail(data);
+      importResults.push({ rowNumber: row.rowNumber, email: row.email, created: true, emailed });
+    }
+
+    setResults(importResults);
+    setStep("report");
+    setWorking(false);
+    onImported();
+  };
+
+  const createdCount = results.filter((r) => r.created).length;
+  const notEmailedCount = results.filter((r) => r.created && !r.emailed).length;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Employees</DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Upload a CSV with one new hire per row. Each row becomes an invitation."}
+            {step === "map" && `Match the columns in your file to employee details (${rows.length} rows found).`}
+            {step === "preview" &&
+              `${validRows.length} of ${previewRows.length} rows are ready to import. Rows with errors are skipped.`}
+            {step === "report" && `${createdCount} of ${results.length} invitations created.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="space-y-2">
+            <Label htmlFor="import-file">CSV file</Label>
+            <Input id="import-file" type="file" accept=".csv,text/csv" onChange={handleFileChange} />
+            <p className="text-sm text-muted-foreground">
+              Expected columns: name, email, phone, department, start date (YYYY-MM-DD) and role. Department names
+              must match existing departments; role defaults to Employee.
+            </p>
+          </div>
+        )}
+
+        {step === "map" && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {IMPORT_FIELDS.map((field) => (
+              <div key={field.key}>
+                <Label>
+                  {field.label}
+                  {field.required && " *"}
+                </Label>
+                <Select
+                  value={mapping[field.key]}
+                  onValueChange={(value) => setMapping({ ...mapping, [field.key]: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NOT_MAPPED}>Not in file</SelectItem>
+                    {headers.map((header, index) => (
+                      <SelectItem key={index} value={String(index)}>
+                        {header || `Column ${index + 1}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {step === "preview" && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Row</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>Department</TableHead>
+                <TableHead>Start date</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Result</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {previewRows.map((row) => (
+                <TableRow key={row.rowNumber}>
+                  <TableCell>{row.rowNumber}</TableCell>
+                  <TableCell>{row.full_name}</TableCell>
+                  <TableCell>{row.email}</TableCell>
+                  <TableCell>{row.department}</TableCell>
+                  <TableCell>{row.joinDate}</TableCell>
+                  <TableCell>{ROLES.find((r) => r.value === row.role)?.label}</TableCell>
+                  <TableCell>
+                    {row.errors.length === 0 ? (
+                      <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Ready</Badge>
+                    ) : (
+                      <ul className="text-xs text-destructive space-y-0.5">
+                        {row.errors.map((error) => (
+                          <li key={error}>{error}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {step === "report" && (
+          <div className="space-y-4">
+            {notEmailedCount > 0 && (
+              <p className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+                {notEmailedCount} invitation email(s) could not be sent. Copy their links from the Invitations tab.
+              </p>
+            )}
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Row</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Result</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {results.map((result) => (
+                  <TableRow key={result.rowNumber}>
+                    <TableCell>{result.rowNumber}</TableCell>
+                    <TableCell>{result.email}</TableCell>
+                    <TableCell>
+                      {result.created ? (
+                        <span className="flex items-center gap-1 text-sm text-green-700">
+                          <CheckCircle2 className="w-4 h-4" />
+                          {result.emailed ? "Invited" : "Invited, email not sent"}
+                        </span>
+                      ) : (
+                        <span className="flex items-center gap-1 text-sm text-destructive">
+                          <XCircle className="w-4 h-4" />
+                          {result.message}
+                        </span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === "map" && (
+            <>
+              <Button variant="outline" onClick={reset} disabled={working}>
+                Back
+              </Button>
+              <Button onClick={buildPreview} disabled={working}>
+                {working && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Preview Import
+              </Button>
+            </>
+          )}
+          {step === "preview" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("map")} disabled={working}>
+                Back
+              </Button>
+              <Button onClick={handleImport} disabled={working || validRows.length === 0}>
+                {working && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Create {validRows.length} Invitation{validRows.length === 1 ? "" : "s"}
+              </Button>
+            </>
+          )}
+          {step === "report" && <Button onClick={() => handleOpenChange(false)}>Done</Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EmployeeImportDialog;
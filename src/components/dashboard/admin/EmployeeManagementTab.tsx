@@ -5,7 +5,7 @@ import { useNavigate } from "react-router-dom";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { Search, Eye } from "lucide-react";
+import { Search, Eye, Upload } from "lucide-react";
 import {
   Select,
   SelectContent,
@@ -13,6 +13,13 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import OnboardingStatusBadge from "@/components/dashboard/OnboardingStatusBadge";
+import EmployeeImportDialog from "./EmployeeImportDialog";
+import ExportMenu from "@/components/dashboard/ExportMenu";
+import { ONBOARDING_STATUSES, OnboardingStatus } from "@/lib/onboardingStatus";
+import { exportFilename, loadEmployeeExportRows } from "@/lib/exports";
+import { ExportFormat, exportRows } from "@/lib/spreadsheet";
+import { Json } from "@/integrations/supabase/types";
 
 interface Employee {
   id: string;
@@ -20,6 +27,9 @@ interface Employee {
   email: string;
   phone_number: string;
   department_id: string;
+  department_specific_data: Json;
+  onboarding_status: OnboardingStatus;
+  join_date: string;
   created_at: string;
   departments?: {
     name: string;
@@ -31,13 +41,19 @@ interface Department {
   name: string;
 }
 
-const EmployeeManagementTab = () => {
+interface EmployeeManagementTabProps {
+  readOnly?: boolean;
+}
+
+const EmployeeManagementTab = ({ readOnly = false }: EmployeeManagementTabProps) => {
   const [employees, setEmployees] = useState<Employee[]>([]);
   const [departments, setDepartments] = useState<Department[]>([]);
   const [filteredEmployees, setFilteredEmployees] = useState<Employee[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedDept, setSelectedDept] = useState<string>("all");
+  const [selectedStatus, setSelectedStatus] = useState<string>("all");
   const [loading, setLoading] = useState(true);
+  const [importOpen, setImportOpen] = useState(false);
   const { toast } = useToast();
   const navigate = useNavigate();
 
@@ -47,7 +63,7 @@ const EmployeeManagementTab = () => {
 
   useEffect(() => {
     filterEmployees();
-  }, [searchQuery, selectedDept, employees]);
+  }, [searchQuery, selectedDept, selectedStatus, employees]);
 
   const loadData = async () => {
     try {
@@ -82,6 +98,10 @@ const EmployeeManagementTab = () => {
       filtered = filtered.filter((emp) => emp.department_id === selectedDept);
     }
 
+    if (selectedStatus !== "all") {
+      filtered = filtered.filter((emp) => emp.onboarding_status === selectedStatus);
+    }
+
     if (searchQuery) {
       filtered = filtered.filter(
         (emp) =>
@@ -93,6 +113,19 @@ const EmployeeManagementTab = () => {
     setFilteredEmployees(filtered);
   };
 
+  const handleExport = async (exportFormat: ExportFormat) => {
+    try {
+      const rows = await loadEmployeeExportRows(filteredEmployees);
+      exportRows(rows, exportFilename("employees"), exportFormat, "Employees");
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error exporting employees",
+        description: (error as Error).message,
+      });
+    }
+  };
+
   if (loading) {
     return <div className="text-muted-foreground">Loading employees...</div>;
   }
@@ -123,6 +156,26 @@ const EmployeeManagementTab = () => {
             ))}
           </SelectContent>
         </Select>
+        <Select value={selectedStatus} onValueChange={setSelectedStatus}>
+          <SelectTrigger className="w-full sm:w-[200px]">
+            <SelectValue placeholder="All Statuses" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Statuses</SelectItem>
+            {ONBOARDING_STATUSES.map((status) => (
+              <SelectItem key={status.value} value={status.value}>
+                {status.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <ExportMenu onExport={handleExport} disabled={filteredEmployees.length === 0} />
+        {!readOnly && (
+          <Button variant="outline" onClick={() => setImportOpen(true)}>
+            <Upload className="w-4 h-4 mr-2" />
+            Import CSV
+          </Button>
+        )}
       </div>
 
       {/* Employee List */}
@@ -148,6 +201,7 @@ const EmployeeManagementTab = () => {
                       <span className="px-3 py-1 bg-primary/10 text-primary rounded-full text-xs">
                         {emp.departments?.name || "No Department"}
                       </span>
+                      <OnboardingStatusBadge status={emp.onboarding_status} />
                       <span className="text-xs text-muted-foreground">
                         Joined: {new Date(emp.created_at).toLocaleDateString()}
                       </span>
@@ -166,6 +220,13 @@ const EmployeeManagementTab = () => {
           ))
         )}
       </div>
+
+      <EmployeeImportDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        departments={departments}
+        onImported={loadData}
+      />
     </div>
   );
 };
@@ -9,13 +9,15 @@ import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import DepartmentSignupFormBuilder from "./DepartmentSignupFormBuilder";
+import FormRevisionHistory from "./FormRevisionHistory";
 import {
     Plus,
     Edit,
     Trash2,
     Eye,
     Building2,
-    FileText
+    FileText,
+    History
 } from "lucide-react";
 
 interface Department {
@@ -34,15 +36,24 @@ interface DepartmentSignupForm {
   departments?: {
     name: string;
   };
+  department_signup_form_revisions?: {
+    revision_number: number;
+    status: string;
+  }[];
 }
 
-const FormManagementTab = () => {
+interface FormManagementTabProps {
+    readOnly?: boolean;
+}
+
+const FormManagementTab = ({ readOnly = false }: FormManagementTabProps) => {
     const [forms, setForms] = useState<DepartmentSignupForm[]>([]);
     const [departments, setDepartments] = useState<Department[]>([]);
     const [loading, setLoading] = useState(true);
     const [isBuilderOpen, setIsBuilderOpen] = useState(false);
     const [selectedForm, setSelectedForm] = useState<DepartmentSignupForm | null>(null);
     const [filterDepartment, setFilterDepartment] = useState<string>("all");
+    const [historyForm, setHistoryForm] = useState<DepartmentSignupForm | null>(null);
     const { toast } = useToast();
 
     useEffect(() => {
@@ -87,6 +98,10 @@ const FormManagementTab = () => {
           *,
           departments (
             name
+          ),
+          department_signup_form_revisions!department_signup_form_revisions_form_id_fkey (
+            revision_number,
+            status
           )
         `)
                 .order("updated_at", { ascending: false });
@@ -178,6 +193,10 @@ const FormManagementTab = () => {
         return formFields?.length || 0;
     };
 
+    const getRevision = (form: DepartmentSignupForm, status: string) => {
+        return form.department_signup_form_revisions?.find(r => r.status === status);
+    };
+
     if (loading) {
         return <div className="text-muted-foreground">Loading forms...</div>;
     }
@@ -191,19 +210,24 @@ const FormManagementTab = () => {
                     <p className="text-muted-foreground">Manage signup forms for different departments</p>
                 </div>
                 <Dialog open={isBuilderOpen} onOpenChange={setIsBuilderOpen}>
-                    <DialogTrigger asChild>
-                        <Button onClick={createNewForm}>
-                            <Plus className="w-4 h-4 mr-2" />
-                            Create New Form
-                        </Button>
-                    </DialogTrigger>
+                    {!readOnly && (
+                        <DialogTrigger asChild>
+                            <Button onClick={createNewForm}>
+                                <Plus className="w-4 h-4 mr-2" />
+                                Create New Form
+                            </Button>
+                        </DialogTrigger>
+                    )}
                     <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
                         <DialogHeader>
                             <DialogTitle>
                                 {selectedForm ? 'Edit Form' : 'Create New Form'}
                             </DialogTitle>
                         </DialogHeader>
-                        <DepartmentSignupFormBuilder />
+                        <DepartmentSignupFormBuilder
+                            departmentId={selectedForm?.department_id}
+                            onPublished={loadForms}
+                        />
                     </DialogContent>
                 </Dialog>
             </div>
@@ -247,10 +271,12 @@ const FormManagementTab = () => {
                                     ? "Get started by creating your first department signup form."
                                     : "No forms found for this department."}
                             </p>
-                            <Button onClick={createNewForm}>
-                                <Plus className="w-4 h-4 mr-2" />
-                                Create New Form
-                            </Button>
+                            {!readOnly && (
+                                <Button onClick={createNewForm}>
+                                    <Plus className="w-4 h-4 mr-2" />
+                                    Create New Form
+                                </Button>
+                            )}
                         </CardContent>
                     </Card>
                 ) : (
@@ -265,6 +291,14 @@ const FormManagementTab = () => {
                                                 <Building2 className="w-3 h-3 mr-1" />
                                                 {form.departments?.name || getDepartmentName(form.department_id)}
                                             </Badge>
+                                            {getRevision(form, "published") ? (
+                                                <Badge>Rev {getRevision(form, "published")?.revision_number} live</Badge>
+                                            ) : (
+                                                <Badge variant="secondary">Not published</Badge>
+                                            )}
+                                            {getRevision(form, "draft") && (
+                                                <Badge variant="secondary">Draft pending</Badge>
+                                            )}
                                         </div>
                                         {form.form_description && (
                                             <p className="text-sm text-muted-foreground">{form.form_description}</p>
@@ -279,18 +313,29 @@ const FormManagementTab = () => {
                                         <Button
                                             variant="outline"
                                             size="sm"
-                                            onClick={() => editForm(form)}
+                                            onClick={() => setHistoryForm(form)}
                                         >
-                                            <Edit className="w-4 h-4" />
-                                        </Button>
-                                        <Button
-                                            variant="outline"
-                                            size="sm"
-                                            onClick={() => deleteForm(form.id)}
-                                            className="text-red-600 hover:text-red-700"
-                                        >
-                                            <Trash2 className="w-4 h-4" />
+                                            <History className="w-4 h-4" />
                                         </Button>
+                                        {!readOnly && (
+                                            <>
+                                                <Button
+                                                    variant="outline"
+                                                    size="sm"
+                                                    onClick={() => editForm(form)}
+                                                >
+                                                    <Edit className="w-4 h-4" />
+                                                </Button>
+                                                <Button
+                                                    variant="outline"
+                                                    size="sm"
+                                                    onClick={() => deleteForm(form.id)}
+                                                    className="text-red-600 hover:text-red-700"
+                                                >
+                                                    <Trash2 className="w-4 h-4" />
+                                                </Button>
+                                            </>
+                                        )}
                                     </div>
                                 </div>
                             </CardHeader>
@@ -298,6 +343,11 @@ const FormManagementTab = () => {
                     ))
                 )}
             </div>
+
+            <FormRevisionHistory
+                form={historyForm}
+                onOpenChange={(open) => !open && setHistoryForm(null)}
+            />
         </div>
     );
 };
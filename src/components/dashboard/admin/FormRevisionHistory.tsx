@@ -0,0 +1,204 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Minus, Pencil, Plus } from "lucide-react";
+import { format } from "date-fns";
+import { Tables } from "@/integrations/supabase/types";
+import { diffFormFields, toFormFields } from "@/lib/formFields";
+
+type Revision = Tables<"department_signup_form_revisions">;
+
+interface FormRevisionHistoryProps {
+  form: { id: string; form_name: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "outline"> = {
+  published: "default",
+  draft: "secondary",
+  archived: "outline",
+};
+
+const FormRevisionHistory = ({ form, onOpenChange }: FormRevisionHistoryProps) => {
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [fromId, setFromId] = useState("");
+  const [toId, setToId] = useState("");
+  const { toast } = useToast();
+
+  const loadRevisions = useCallback(async (formId: string) => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("department_signup_form_revisions")
+        .select("*")
+        .eq("form_id", formId)
+        .order("revision_number", { ascending: false });
+
+      if (error) throw error;
+
+      const items = data || [];
+      setRevisions(items);
+      // Default to comparing the two most recent revisions
+      setToId(items[0]?.id || "");
+      setFromId(items[1]?.id || items[0]?.id || "");
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error loading revisions",
+        description: (error as Error).message,
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (form) loadRevisions(form.id);
+  }, [form, loadRevisions]);
+
+  const from = revisions.find((r) => r.id === fromId);
+  const to = revisions.find((r) => r.id === toId);
+  const diff = from && to ? diffFormFields(toFormFields(from.form_fields), toFormFields(to.form_fields)) : null;
+  const hasChanges =
+    !!diff &&
+    (diff.added.length > 0 ||
+      diff.removed.length > 0 ||
+      diff.changed.length > 0 ||
+      diff.reordered ||
+      from?.form_name !== to?.form_name ||
+      (from?.form_description || "") !== (to?.form_description || ""));
+
+  const revisionSelect = (value: string, onChange: (value: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger>
+        <SelectValue placeholder="Select revision" />
+      </SelectTrigger>
+      <SelectContent>
+        {revisions.map((revision) => (
+          <SelectItem key={revision.id} value={revision.id}>
+            Rev {revision.revision_number} ({revision.status})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={!!form} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Revision History</DialogTitle>
+          <DialogDescription>{form?.form_name}</DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No revisions yet</p>
+        ) : (
+          <div className="space-y-6">
+            <div className="border rounded-lg divide-y">
+              {revisions.map((revision) => (
+                <div key={revision.id} className="flex items-center justify-between px-4 py-3 text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">Rev {revision.revision_number}</span>
+                    <Badge variant={STATUS_VARIANTS[revision.status] || "outline"}>{revision.status}</Badge>
+                    <span className="text-muted-foreground">{toFormFields(revision.form_fields).length} fields</span>
+                  </div>
+                  <span className="text-muted-foreground">
+                    {revision.published_at
+                      ? `Published ${format(new Date(revision.published_at), "MMM d, yyyy")}`
+                      : revision.updated_at && `Edited ${format(new Date(revision.updated_at), "MMM d, yyyy")}`}
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Compare from</Label>
+                  {revisionSelect(fromId, setFromId)}
+                </div>
+                <div className="space-y-2">
+                  <Label>To</Label>
+                  {revisionSelect(toId, setToId)}
+                </div>
+              </div>
+
+              {diff && from && to && (
+                !hasChanges ? (
+                  <p className="text-sm text-muted-foreground">No differences between these revisions.</p>
+                ) : (
+                  <div className="space-y-2 text-sm">
+                    {from.form_name !== to.form_name && (
+                      <p className="flex items-start gap-2">
+                        <Pencil className="w-4 h-4 mt-0.5 text-amber-600" />
+                        Form name: {from.form_name} → {to.form_name}
+                      </p>
+                    )}
+                    {(from.form_description || "") !== (to.form_description || "") && (
+                      <p className="flex items-start gap-2">
+                        <Pencil className="w-4 h-4 mt-0.5 text-amber-600" />
+                        Form description changed
+                      </p>
+                    )}
+                    {diff.added.map((field) => (
+                      <p key={`added-${field.id}`} className="flex items-start gap-2 text-green-700">
+                        <Plus className="w-4 h-4 mt-0.5" />
+                        Added "{field.label}" ({field.type}{field.required ? ", required" : ""})
+                      </p>
+                    ))}
+                    {diff.removed.map((field) => (
+                      <p key={`removed-${field.id}`} className="flex items-start gap-2 text-destructive">
+                        <Minus className="w-4 h-4 mt-0.5" />
+                        Removed "{field.label}"
+                      </p>
+                    ))}
+                    {diff.changed.map(({ field, changes }) => (
+                      <div key={`changed-${field.id}`} className="flex items-start gap-2">
+                        <Pencil className="w-4 h-4 mt-0.5 text-amber-600" />
+                        <div>
+                          <p>Changed "{field.label}"</p>
+                          <ul className="text-muted-foreground list-disc list-inside">
+                            {changes.map((change) => (
+                              <li key={change}>{change}</li>
+                            ))}
+                          </ul>
+                        </div>
+                      </div>
+                    ))}
+                    {diff.reordered && (
+                      <p className="text-muted-foreground">Field order changed</p>
+                    )}
+                  </div>
+                )
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default FormRevisionHistory;
@@ -0,0 +1,242 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import { Json, Tables } from "@/integrations/supabase/types";
+import { formatFieldValue, toFormFields } from "@/lib/formFields";
+import { SUBMISSION_STATUSES, SubmissionStatus, getSubmissionStatus } from "@/lib/formSubmissions";
+import { notifyUsers } from "@/lib/notifications";
+import SubmissionStatusBadge from "../SubmissionStatusBadge";
+
+interface Submission extends Tables<"department_signup_form_submissions"> {
+  department_signup_forms?: { form_name: string } | null;
+  department_signup_form_revisions?: { revision_number: number; form_fields: Json } | null;
+}
+
+interface FormSubmissionReviewProps {
+  userId: string;
+}
+
+const FormSubmissionReview = ({ userId }: FormSubmissionReviewProps) => {
+  const [submissions, setSubmissions] = useState<Submission[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [status, setStatus] = useState<SubmissionStatus>("submitted");
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const loadSubmissions = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("department_signup_form_submissions")
+        .select("*, department_signup_forms(form_name), department_signup_form_revisions(revision_number, form_fields)")
+        .eq("user_id", userId)
+        .order("submitted_at", { ascending: false });
+
+      if (error) throw error;
+
+      setSubmissions(data || []);
+      if (data && data.length > 0) {
+        setStatus(getSubmissionStatus(data[0].status).value);
+        setNotes(data[0].reviewer_notes || "");
+      }
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error loading form submissions",
+        description: (error as Error).message,
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, toast]);
+
+  useEffect(() => {
+    loadSubmissions();
+  }, [loadSubmissions]);
+
+  const saveReview = async (submission: Submission) => {
+    if (status === "needs_changes" && !notes.trim()) {
+      toast({
+        variant: "destructive",
+        title: "Notes required",
+        description: "Tell the employee what needs to change.",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (!user) throw new Error("Not authenticated");
+
+      const { error } = await supabase
+        .from("department_signup_form_submissions")
+        .update({
+          status,
+          reviewer_notes: notes.trim() || null,
+          reviewed_by: user.id,
+          reviewed_at: new Date().toISOString(),
+        })
+        .eq("id", submission.id);
+
+      if (error) throw error;
+
+      if (status !== submission.status) {
+        await notifyUsers(user.id, [
+          {
+            userId,
+            title: `Onboarding form ${getSubmissionStatus(status).label.toLowerCase()}`,
+            message: notes.trim() || undefined,
+            link: "/dashboard",
+          },
+        ]);
+      }
+
+      toast({ title: "Submission updated" });
+      loadSubmissions();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error updating submission",
+        description: (error as Error).message,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const getField = (submission: Submission, fieldId: string) => {
+    // Label answers with the revision they were given against, not the current form
+    const fields = toFormFields(submission.department_signup_form_revisions?.form_fields);
+    return fields.find((f) => f.id === fieldId);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (submissions.length === 0) {
+    return (
+      <Card>
+        <CardContent className="p-8 text-center text-muted-foreground">
+          No onboarding form submitted yet
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {submissions.map((submission, index) => {
+        const answers = Object.entries((submission.submission_data as Record<string, unknown>) || {});
+        const isLatest = index === 0;
+
+        return (
+          <Card key={submission.id} className={isLatest ? "" : "opacity-75"}>
+            <CardHeader>
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <CardTitle className="text-base">
+                    {submission.department_signup_forms?.form_name || "Department form"} · v{submission.version}
+                    {submission.department_signup_form_revisions &&
+                      ` (form rev ${submission.department_signup_form_revisions.revision_number})`}
+                  </CardTitle>
+                  {submission.submitted_at && (
+                    <p className="text-sm text-muted-foreground">
+                      Submitted {format(new Date(submission.submitted_at), "MMM d, yyyy h:mm a")}
+                    </p>
+                  )}
+                </div>
+                <SubmissionStatusBadge status={submission.status} />
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {answers.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No answers recorded</p>
+              ) : (
+                <dl className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  {answers.map(([fieldId, value]) => {
+                    const field = getField(submission, fieldId);
+                    return (
+                      <div key={fieldId}>
+                        <dt className="text-sm text-muted-foreground">{field?.label || fieldId}</dt>
+                        {field?.type === "signature" && typeof value === "string" ? (
+                          <dd>
+                            <img src={value} alt={`${field.label} signature`} className="h-16 rounded border bg-white" />
+                          </dd>
+                        ) : (
+                          <dd className="text-sm break-words">{formatFieldValue(field, value)}</dd>
+                        )}
+                      </div>
+                    );
+                  })}
+                </dl>
+              )}
+
+              {isLatest ? (
+                <div className="space-y-3 pt-4 border-t">
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <div className="space-y-2">
+                      <Label>Status</Label>
+                      <Select value={status} onValueChange={(value) => setStatus(value as SubmissionStatus)}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {SUBMISSION_STATUSES.map((s) => (
+                            <SelectItem key={s.value} value={s.value}>
+                              {s.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2 md:col-span-2">
+                      <Label>Reviewer notes</Label>
+                      <Textarea
+                        value={notes}
+                        onChange={(e) => setNotes(e.target.value)}
+                        placeholder="Visible to the employee"
+                        rows={2}
+                      />
+                    </div>
+                  </div>
+                  <div className="flex justify-end">
+                    <Button size="sm" onClick={() => saveReview(submission)} disabled={saving}>
+                      {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                      Save Review
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                submission.reviewer_notes && (
+                  <p className="text-sm text-muted-foreground">Review: {submission.reviewer_notes}</p>
+                )
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
+
+export default FormSubmissionReview;
@@ -0,0 +1,540 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Copy, Loader2, Mail, RefreshCw, Search, UserPlus } from "lucide-react";
+import { addDays, format, parseISO } from "date-fns";
+import { AppRole, ROLES, getRoleLabel } from "@/lib/permissions";
+import {
+  INVITATION_VALID_DAYS,
+  Invitation,
+  InvitationStatus,
+  generateInvitationToken,
+  getInvitationStatus,
+  getInvitationUrl,
+  sendInvitationEmail,
+} from "@/lib/invitations";
+
+interface Department {
+  id: string;
+  name: string;
+}
+
+interface InvitationForm {
+  email: string;
+  full_name: string;
+  department_id: string;
+  role: AppRole;
+  join_date: string;
+}
+
+interface InvitationManagementTabProps {
+  readOnly?: boolean;
+}
+
+const STATUS_STYLES: Record<InvitationStatus, { label: string; className: string }> = {
+  pending: { label: "Pending", className: "bg-amber-100 text-amber-800 hover:bg-amber-100" },
+  accepted: { label: "Accepted", className: "bg-green-100 text-green-800 hover:bg-green-100" },
+  expired: { label: "Expired", className: "bg-gray-100 text-gray-800 hover:bg-gray-100" },
+  revoked: { label: "Revoked", className: "bg-red-100 text-red-800 hover:bg-red-100" },
+};
+
+const EMPTY_FORM: InvitationForm = {
+  email: "",
+  full_name: "",
+  department_id: "",
+  role: "employee",
+  join_date: format(new Date(), "yyyy-MM-dd"),
+};
+
+const InvitationManagementTab = ({ readOnly = false }: InvitationManagementTabProps) => {
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [openSignup, setOpenSignup] = useState(true);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [formData, setFormData] = useState<InvitationForm>(EMPTY_FORM);
+  const [invitationToRevoke, setInvitationToRevoke] = useState<Invitation | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [busyInvitationId, setBusyInvitationId] = useState<string | null>(null);
+  const { user, hasRole, hasOrganisationScope, managedDepartmentIds } = useAuth();
+  const { toast } = useToast();
+
+  // Only admins hand out roles and change signup settings
+  const isAdmin = hasRole("admin");
+
+  const loadData = useCallback(async () => {
+    try {
+      const [invitationsData, deptData, settingData] = await Promise.all([
+        supabase.from("employee_invitations").select("*").order("created_at", { ascending: false }),
+        supabase.from("departments").select("id, name").order("name"),
+        supabase.from("app_settings").select("value").eq("key", "open_signup").maybeSingle(),
+      ]);
+
+      if (invitationsData.error) throw invitationsData.error;
+      if (deptData.error) throw deptData.error;
+      if (settingData.error) throw settingData.error;
+
+      setInvitations(invitationsData.data || []);
+      setDepartments(
+        (deptData.data || []).filter((d) => hasOrganisationScope || managedDepartmentIds.includes(d.id))
+      );
+      setOpenSignup(settingData.data?.value !== false);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error loading invitations",
+        description: (error as Error).message,
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [hasOrganisationScope, managedDepartmentIds, toast]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const getDepartmentName = (departmentId: string) =>
+    departments.find((d) => d.id === departmentId)?.name || "Unknown department";
+
+  const filteredInvitations = invitations.filter((invitation) => {
+    if (statusFilter !== "all" && getInvitationStatus(invitation) !== statusFilter) return false;
+    if (!searchQuery) return true;
+    const query = searchQuery.toLowerCase();
+    return (
+      invitation.full_name.toLowerCase().includes(query) || invitation.email.toLowerCase().includes(query)
+    );
+  });
+
+  const openInviteDialog = () => {
+    setFormData({ ...EMPTY_FORM, department_id: departments.length === 1 ? departments[0].id : "" });
+    setDialogOpen(true);
+  };
+
+  const handleInvite = async () => {
+    if (!formData.email || !formData.full_name || !formData.department_id || !formData.join_date) {
+      toast({
+        variant: "destructive",
+        title: "Missing details",
+        description: "Email, name, department and start date are required",
+      });
+      return;
+    }
+
+    const email = formData.email.trim().toLowerCase();
+    if (invitations.some((i) => i.email.toLowerCase() === email && getInvitationStatus(i) === "pending")) {
+      toast({
+        variant: "destructive",
+        title: "Already invited",
+        description: `${email} already has a pending invitation`,
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data, error } = await supabase
+        .from("employee_invitations")
+        .insert({
+          email,
+          full_name: formData.full_name.trim(),
+          department_id: formData.department_id,
+          role: formData.role,
+          join_date: formData.join_date,
+          invited_by: user?.id,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const sent = await sendInvitationEmail(data);
+      toast({
+        title: "Invitation created",
+        description: sent
+          ? `An invitation has been emailed to ${data.email}`
+          : "The email could not be sent. Copy the link and share it directly.",
+      });
+      setDialogOpen(false);
+      loadData();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error creating invitation",
+        description: (error as Error).message,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCopyLink = async (invitation: Invitation) => {
+    try {
+      await navigator.clipboard.writeText(getInvitationUrl(invitation));
+      toast({ title: "Link copied", description: "The invitation link is on your clipboard" });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error copying link",
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  // Resending also restarts the expiry window; expired or revoked invites get a new link
+  const handleResend = async (invitation: Invitation) => {
+    setBusyInvitationId(invitation.id);
+    try {
+      const status = getInvitationStatus(invitation);
+      const { data, error } = await supabase
+        .from("employee_invitations")
+        .update({
+          expires_at: addDays(new Date(), INVITATION_VALID_DAYS).toISOString(),
+          revoked_at: null,
+          ...(status !== "pending" ? { token: generateInvitationToken() } : {}),
+        })
+        .eq("id", invitation.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const sent = await sendInvitationEmail(data);
+      toast({
+        title: sent ? "Invitation resent" : "Invitation renewed",
+        description: sent
+          ? `A new email has been sent to ${data.email}`
+          : "The email could not be sent. Copy the link and share it directly.",
+      });
+      loadData();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error resending invitation",
+        description: (error as Error).message,
+      });
+    } finally {
+      setBusyInvitationId(null);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!invitationToRevoke) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from("employee_invitations")
+        .update({ revoked_at: new Date().toISOString() })
+        .eq("id", invitationToRevoke.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Invitation revoked",
+        description: `The link sent to ${invitationToRevoke.email} no longer works`,
+      });
+      setInvitationToRevoke(null);
+      loadData();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error revoking invitation",
+        description: (error as Error).message,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleOpenSignupChange = async (checked: boolean) => {
+    try {
+      const { error } = await supabase
+        .from("app_settings")
+        .update({ value: checked, updated_by: user?.id })
+        .eq("key", "open_signup");
+
+      if (error) throw error;
+
+      setOpenSignup(checked);
+      toast({
+        title: checked ? "Open signup enabled" : "Open signup disabled",
+        description: checked
+          ? "Anyone can create an account from the sign-in page"
+          : "New accounts can only be created from an invitation link",
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error updating signup setting",
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  if (loading) {
+    return <div className="text-muted-foreground">Loading invitations...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {isAdmin && (
+        <Card>
+          <CardContent className="p-4 flex items-center justify-between gap-4">
+            <div>
+              <p className="font-medium">Open signup</p>
+              <p className="text-sm text-muted-foreground">
+                When off, new accounts can only be created from an invitation link
+              </p>
+            </div>
+            <Switch checked={openSignup} onCheckedChange={handleOpenSignupChange} />
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Filters */}
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+          <Input
+            placeholder="Search by name or email..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="w-full sm:w-[200px]">
+            <SelectValue placeholder="All Statuses" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Statuses</SelectItem>
+            {(Object.keys(STATUS_STYLES) as InvitationStatus[]).map((status) => (
+              <SelectItem key={status} value={status}>
+                {STATUS_STYLES[status].label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {!readOnly && (
+          <Button onClick={openInviteDialog}>
+            <UserPlus className="w-4 h-4 mr-2" />
+            Invite Employee
+          </Button>
+        )}
+      </div>
+
+      {/* Invitation list */}
+      <div className="grid grid-cols-1 gap-4">
+        {filteredInvitations.length === 0 ? (
+          <p className="text-muted-foreground text-center py-8">No invitations found.</p>
+        ) : (
+          filteredInvitations.map((invitation) => {
+            const status = getInvitationStatus(invitation);
+            const busy = busyInvitationId === invitation.id;
+            return (
+              <Card key={invitation.id}>
+                <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                  <div className="space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <p className="font-medium">{invitation.full_name}</p>
+                      <Badge className={STATUS_STYLES[status].className}>{STATUS_STYLES[status].label}</Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground">{invitation.email}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {getDepartmentName(invitation.department_id)} · {getRoleLabel(invitation.role)} · starts{" "}
+                      {format(parseISO(invitation.join_date), "MMM d, yyyy")}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {status === "accepted" && invitation.accepted_at
+                        ? `Accepted ${format(new Date(invitation.accepted_at), "MMM d, yyyy")}`
+                        : status === "revoked" && invitation.revoked_at
+                          ? `Revoked ${format(new Date(invitation.revoked_at), "MMM d, yyyy")}`
+                          : `${status === "expired" ? "Expired" : "Expires"} ${format(new Date(invitation.expires_at), "MMM d, yyyy")}`}
+                    </p>
+                  </div>
+                  {!readOnly && status !== "accepted" && (
+                    <div className="flex flex-wrap gap-2">
+                      {status === "pending" && (
+                        <Button size="sm" variant="outline" onClick={() => handleCopyLink(invitation)}>
+                          <Copy className="w-4 h-4 mr-2" />
+                          Copy Link
+                        </Button>
+                      )}
+                      <Button size="sm" variant="outline" onClick={() => handleResend(invitation)} disabled={busy}>
+                        {busy ? (
+                          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        ) : status === "pending" ? (
+                          <Mail className="w-4 h-4 mr-2" />
+                        ) : (
+                          <RefreshCw className="w-4 h-4 mr-2" />
+                        )}
+                        {status === "pending" ? "Resend" : "Reissue"}
+                      </Button>
+                      {status === "pending" && (
+                        <Button size="sm" variant="destructive" onClick={() => setInvitationToRevoke(invitation)}>
+                          Revoke
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })
+        )}
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Invite Employee</DialogTitle>
+            <DialogDescription>
+              The invitation link can be used once and expires after {INVITATION_VALID_DAYS} days.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="invite-name">Full Name *</Label>
+              <Input
+                id="invite-name"
+                value={formData.full_name}
+                onChange={(e) => setFormData({ ...formData, full_name: e.target.value })}
+                placeholder="John Doe"
+              />
+            </div>
+            <div>
+              <Label htmlFor="invite-email">Email *</Label>
+              <Input
+                id="invite-email"
+                type="email"
+                value={formData.email}
+                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                placeholder="new.hire@company.com"
+              />
+            </div>
+            <div>
+              <Label>Department *</Label>
+              <Select
+                value={formData.department_id}
+                onValueChange={(value) => setFormData({ ...formData, department_id: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select department" />
+                </SelectTrigger>
+                <SelectContent>
+                  {departments.map((dept) => (
+                    <SelectItem key={dept.id} value={dept.id}>
+                      {dept.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {isAdmin && (
+              <div>
+                <Label>Role</Label>
+                <Select
+                  value={formData.role}
+                  onValueChange={(value) => setFormData({ ...formData, role: value as AppRole })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ROLES.map((role) => (
+                      <SelectItem key={role.value} value={role.value}>
+                        {role.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {formData.role === "department_manager" && (
+                  <p className="text-sm text-muted-foreground mt-1">
+                    They will manage the department selected above
+                  </p>
+                )}
+              </div>
+            )}
+            <div>
+              <Label htmlFor="invite-join-date">Start Date *</Label>
+              <Input
+                id="invite-join-date"
+                type="date"
+                value={formData.join_date}
+                onChange={(e) => setFormData({ ...formData, join_date: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleInvite} disabled={saving}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Send Invitation
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!invitationToRevoke} onOpenChange={(open) => !open && setInvitationToRevoke(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke this invitation?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {invitationToRevoke &&
+                `The link sent to ${invitationToRevoke.email} will stop working. You can reissue it later.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={saving}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRevoke}
+              disabled={saving}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {saving ? "Revoking..." : "Revoke"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default InvitationManagementTab;
@@ -0,0 +1,165 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowRight, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import { Tables } from "@/integrations/supabase/types";
+import { OnboardingStatus, getOnboardingStatus } from "@/lib/onboardingStatus";
+import OnboardingStatusBadge from "@/components/dashboard/OnboardingStatusBadge";
+
+type StatusChange = Tables<"onboarding_status_history">;
+
+interface OnboardingStatusCardProps {
+  userId: string;
+  status: OnboardingStatus;
+  readOnly?: boolean;
+  onStatusChange: (status: OnboardingStatus) => void;
+}
+
+// Current onboarding status, the moves a reviewer can make from it, and its history
+const OnboardingStatusCard = ({ userId, status, readOnly = false, onStatusChange }: OnboardingStatusCardProps) => {
+  const [nextStatuses, setNextStatuses] = useState<OnboardingStatus[]>([]);
+  const [history, setHistory] = useState<StatusChange[]>([]);
+  const [actorNames, setActorNames] = useState<Record<string, string>>({});
+  const [selectedStatus, setSelectedStatus] = useState<string>("");
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const loadTransitions = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("onboarding_status_transitions")
+      .select("to_status")
+      .eq("from_status", status);
+
+    if (error) {
+      console.error("Error loading status transitions:", error);
+      return;
+    }
+
+    setNextStatuses((data || []).map((t) => t.to_status));
+    setSelectedStatus("");
+  }, [status]);
+
+  const loadHistory = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("onboarding_status_history")
+      .select("*")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error loading status history:", error);
+      return;
+    }
+
+    setHistory(data || []);
+
+    const actorIds = [...new Set((data || []).map((h) => h.changed_by).filter((id): id is string => !!id))];
+    if (actorIds.length === 0) return;
+
+    const { data: actors } = await supabase.from("profiles").select("id, full_name").in("id", actorIds);
+    setActorNames(Object.fromEntries((actors || []).map((a) => [a.id, a.full_name])));
+  }, [userId]);
+
+  useEffect(() => {
+    loadTransitions();
+    loadHistory();
+  }, [loadTransitions, loadHistory]);
+
+  const handleUpdateStatus = async () => {
+    if (!selectedStatus) return;
+    const next = selectedStatus as OnboardingStatus;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from("profiles")
+        .update({ onboarding_status: next })
+        .eq("id", userId);
+
+      if (error) throw error;
+
+      toast({
+        title: "Status updated",
+        description: `Onboarding moved to ${getOnboardingStatus(next).label.toLowerCase()}`,
+      });
+      onStatusChange(next);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error updating status",
+        description: (error as Error).message,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Onboarding Status</CardTitle>
+          <OnboardingStatusBadge status={status} />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!readOnly && nextStatuses.length > 0 && (
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Select value={selectedStatus} onValueChange={setSelectedStatus}>
+              <SelectTrigger className="sm:w-64">
+                <SelectValue placeholder="Move to..." />
+              </SelectTrigger>
+              <SelectContent>
+                {nextStatuses.map((next) => (
+                  <SelectItem key={next} value={next}>
+                    {getOnboardingStatus(next).label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={handleUpdateStatus} disabled={!selectedStatus || saving}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Update Status
+            </Button>
+          </div>
+        )}
+
+        {history.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No status changes yet</p>
+        ) : (
+          <div className="space-y-2">
+            {history.map((change) => (
+              <div key={change.id} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1 text-sm">
+                <div className="flex items-center gap-2">
+                  {change.from_status && (
+                    <>
+                      <span className="text-muted-foreground">{getOnboardingStatus(change.from_status).label}</span>
+                      <ArrowRight className="w-3 h-3 text-muted-foreground" />
+                    </>
+                  )}
+                  <span className="font-medium">{getOnboardingStatus(change.to_status).label}</span>
+                </div>
+                <span className="text-xs text-muted-foreground">
+                  {change.changed_by ? actorNames[change.changed_by] || "Staff" : "System"}
+                  {change.created_at && ` · ${format(new Date(change.created_at), "MMM d, yyyy HH:mm")}`}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OnboardingStatusCard;
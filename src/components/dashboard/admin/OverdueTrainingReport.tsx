@@ -0,0 +1,257 @@
+import { useCallback, useEffect, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { AlertTriangle, BellRing, Loader2 } from "lucide-react";
+import ExportMenu from "@/components/dashboard/ExportMenu";
+import { notifyUsers } from "@/lib/notifications";
+import { exportFilename } from "@/lib/exports";
+import { ExportFormat, exportRows } from "@/lib/spreadsheet";
+import { getDaysOverdue } from "@/lib/training";
+
+interface OverdueAssignment {
+  userId: string;
+  employeeName: string;
+  email: string;
+  sessionTitle: string;
+  dueDate: string;
+}
+
+interface DepartmentGroup {
+  id: string | null;
+  name: string;
+  assignments: OverdueAssignment[];
+}
+
+interface OverdueTrainingReportProps {
+  readOnly?: boolean;
+}
+
+// Incomplete assignments past their due date, grouped by the employee's
+// department, with reminders to the employees and their managers
+const OverdueTrainingReport = ({ readOnly = false }: OverdueTrainingReportProps) => {
+  const [groups, setGroups] = useState<DepartmentGroup[]>([]);
+  const [escalating, setEscalating] = useState<string | null>(null);
+  const { user, hasOrganisationScope, managedDepartmentIds } = useAuth();
+  const { toast } = useToast();
+
+  const loadReport = useCallback(async () => {
+    try {
+      const { data: assignments, error } = await supabase
+        .from("training_assignments")
+        .select("user_id, training_session_id, due_date, training_sessions(title)")
+        .lt("due_date", format(new Date(), "yyyy-MM-dd"))
+        .order("due_date");
+
+      if (error) throw error;
+      if (!assignments?.length) {
+        setGroups([]);
+        return;
+      }
+
+      const sessionIds = [...new Set(assignments.map((a) => a.training_session_id))];
+      const [profilesData, deptData, progressData] = await Promise.all([
+        supabase.from("profiles").select("id, full_name, email, department_id"),
+        supabase.from("departments").select("id, name").order("name"),
+        supabase
+          .from("training_progress")
+          .select("user_id, training_session_id")
+          .eq("completed", true)
+          .in("training_session_id", sessionIds),
+      ]);
+
+      if (profilesData.error) throw profilesData.error;
+      if (deptData.error) throw deptData.error;
+      if (progressData.error) throw progressData.error;
+
+      const completed = new Set((progressData.data || []).map((p) => `${p.user_id}:${p.training_session_id}`));
+      const grouped = new Map<string | null, OverdueAssignment[]>();
+
+      for (const assignment of assignments) {
+        if (!assignment.due_date || completed.has(`${assignment.user_id}:${assignment.training_session_id}`)) continue;
+
+        const profile = profilesData.data?.find((p) => p.id === assignment.user_id);
+        if (!profile) continue;
+
+        const departmentId = profile.department_id;
+        if (!hasOrganisationScope && !(departmentId && managedDepartmentIds.includes(departmentId))) continue;
+
+        grouped.set(departmentId, [
+          ...(grouped.get(departmentId) || []),
+          {
+            userId: profile.id,
+            employeeName: profile.full_name || profile.email,
+            email: profile.email,
+            sessionTitle: assignment.training_sessions?.title || "Training session",
+            dueDate: assignment.due_date,
+          },
+        ]);
+      }
+
+      setGroups(
+        [...grouped.entries()]
+          .map(([id, items]) => ({
+            id,
+            name: deptData.data?.find((d) => d.id === id)?.name || "No department",
+            assignments: items,
+          }))
+          .sort((a, b) => a.name.localeCompare(b.name))
+      );
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error loading overdue training",
+        description: (error as Error).message,
+      });
+    }
+  }, [hasOrganisationScope, managedDepartmentIds, toast]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  // Reminds each employee of what they owe and tells the department's
+  // managers how much is outstanding
+  const handleEscalate = async (group: DepartmentGroup) => {
+    setEscalating(group.id ?? "none");
+    try {
+      if (!user) throw new Error("Not authenticated");
+
+      let managerIds: string[] = [];
+      if (group.id) {
+        const { data, error } = await supabase
+          .from("user_roles")
+          .select("user_id")
+          .eq("role", "department_manager")
+          .eq("department_id", group.id);
+
+        if (error) throw error;
+        managerIds = (data || []).map((r) => r.user_id);
+      }
+
+      const overdueCount = group.assignments.length;
+      await notifyUsers(user.id, [
+        ...group.assignments.map((a) => ({
+          userId: a.userId,
+          title: "Training overdue",
+          message: `"${a.sessionTitle}" was due on ${format(parseISO(a.dueDate), "PP")}. Please complete it as soon as possible.`,
+          link: "/dashboard",
+        })),
+        ...managerIds.map((userId) => ({
+          userId,
+          title: "Overdue training in your department",
+          message: `${group.name} has ${overdueCount} overdue training assignment${overdueCount === 1 ? "" : "s"}.`,
+          link: "/dashboard",
+        })),
+      ]);
+
+      toast({
+        title: "Reminders sent",
+        description: `Notified ${new Set(group.assignments.map((a) => a.userId)).size} employee(s) and ${managerIds.length} manager(s) in ${group.name}.`,
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error sending reminders",
+        description: (error as Error).message,
+      });
+    } finally {
+      setEscalating(null);
+    }
+  };
+
+  const handleExport = (exportFormat: ExportFormat) => {
+    exportRows(
+      [
+        ["Department", "Employee", "Email", "Training", "Due date", "Days overdue"],
+        ...groups.flatMap((group) =>
+          group.assignments.map((a) => [
+            group.name,
+            a.employeeName,
+            a.email,
+            a.sessionTitle,
+            a.dueDate,
+            getDaysOverdue(a.dueDate),
+          ])
+        ),
+      ],
+      exportFilename("overdue training"),
+      exportFormat,
+      "Overdue training"
+    );
+  };
+
+  const total = groups.reduce((sum, group) => sum + group.assignments.length, 0);
+
+  if (total === 0) return null;
+
+  return (
+    <Card className="border-destructive/40">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <AlertTriangle className="w-5 h-5 text-destructive" />
+          Overdue Training
+          <Badge variant="destructive">{total}</Badge>
+        </CardTitle>
+        <ExportMenu onExport={handleExport} />
+      </CardHeader>
+      <CardContent>
+        <Accordion type="multiple">
+          {groups.map((group) => (
+            <AccordionItem key={group.id ?? "none"} value={group.id ?? "none"}>
+              <AccordionTrigger>
+                <span className="flex items-center gap-2">
+                  {group.name}
+                  <Badge variant="outline">{group.assignments.length} overdue</Badge>
+                </span>
+              </AccordionTrigger>
+              <AccordionContent className="space-y-3">
+                <div className="divide-y rounded-md border">
+                  {group.assignments.map((a) => (
+                    <div
+                      key={`${a.userId}-${a.sessionTitle}`}
+                      className="flex items-center justify-between gap-3 px-3 py-2 text-sm"
+                    >
+                      <div>
+                        <p className="font-medium">{a.employeeName}</p>
+                        <p className="text-muted-foreground">{a.sessionTitle}</p>
+                      </div>
+                      <div className="text-right text-xs">
+                        <p>Due {format(parseISO(a.dueDate), "PP")}</p>
+                        <p className="text-destructive">
+                          {getDaysOverdue(a.dueDate)} day{getDaysOverdue(a.dueDate) === 1 ? "" : "s"} overdue
+                        </p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                {!readOnly && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleEscalate(group)}
+                    disabled={escalating !== null}
+                  >
+                    {escalating === (group.id ?? "none") ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <BellRing className="w-4 h-4 mr-2" />
+                    )}
+                    Remind employees and managers
+                  </Button>
+                )}
+              </AccordionContent>
+            </AccordionItem>
+          ))}
+        </Accordion>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OverdueTrainingReport;
@@ -0,0 +1,135 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { CheckCircle2, XCircle } from "lucide-react";
+import { format } from "date-fns";
+import { Tables } from "@/integrations/supabase/types";
+import { QuizQuestion, isCorrectAnswer, toQuizAnswers, toQuizQuestions } from "@/lib/quizzes";
+
+interface QuizAttemptsReviewProps {
+  userId: string;
+  sessionId: string;
+}
+
+// An employee's attempts at one session's quiz, newest first. Answers are
+// marked against the quiz as it stands now, so questions edited since an
+// attempt show how it would be graded today.
+const QuizAttemptsReview = ({ userId, sessionId }: QuizAttemptsReviewProps) => {
+  const [quiz, setQuiz] = useState<{ passing_score: number; max_attempts: number | null; questions: QuizQuestion[] } | null>(null);
+  const [attempts, setAttempts] = useState<Tables<"training_quiz_attempts">[]>([]);
+  const { toast } = useToast();
+
+  const loadAttempts = useCallback(async () => {
+    try {
+      const { data: quizData, error: quizError } = await supabase
+        .from("training_quizzes")
+        .select("id, passing_score, max_attempts, questions")
+        .eq("training_session_id", sessionId)
+        .maybeSingle();
+
+      if (quizError) throw quizError;
+      if (!quizData) {
+        setQuiz(null);
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from("training_quiz_attempts")
+        .select("*")
+        .eq("quiz_id", quizData.id)
+        .eq("user_id", userId)
+        .order("attempt_number", { ascending: false });
+
+      if (error) throw error;
+
+      setQuiz({ ...quizData, questions: toQuizQuestions(quizData.questions) });
+      setAttempts(data || []);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error loading quiz attempts",
+        description: (error as Error).message,
+      });
+    }
+  }, [userId, sessionId, toast]);
+
+  useEffect(() => {
+    loadAttempts();
+  }, [loadAttempts]);
+
+  if (!quiz) return null;
+
+  return (
+    <div className="space-y-2 border-t pt-3">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">Quiz attempts</span>
+        <span className="text-muted-foreground">
+          Pass mark {quiz.passing_score}% · {attempts.length}
+          {quiz.max_attempts ? ` of ${quiz.max_attempts}` : ""} used
+        </span>
+      </div>
+
+      {attempts.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No attempts yet</p>
+      ) : (
+        <Accordion type="single" collapsible>
+          {attempts.map((attempt) => {
+            const answers = toQuizAnswers(attempt.answers);
+            return (
+              <AccordionItem key={attempt.id} value={attempt.id}>
+                <AccordionTrigger className="py-2 text-sm">
+                  <div className="flex items-center gap-2">
+                    <span>Attempt {attempt.attempt_number}</span>
+                    <Badge
+                      className={
+                        attempt.passed
+                          ? "bg-green-100 text-green-800 hover:bg-green-100"
+                          : "bg-red-100 text-red-800 hover:bg-red-100"
+                      }
+                    >
+                      {attempt.score}% · {attempt.passed ? "Passed" : "Failed"}
+                    </Badge>
+                    {attempt.submitted_at && (
+                      <span className="text-xs text-muted-foreground">
+                        {format(new Date(attempt.submitted_at), "PPp")}
+                      </span>
+                    )}
+                  </div>
+                </AccordionTrigger>
+                <AccordionContent className="space-y-3">
+                  {quiz.questions.map((question, index) => {
+                    const correct = isCorrectAnswer(question, answers[question.id]);
+                    return (
+                      <div key={question.id} className="flex gap-2 text-sm">
+                        {correct ? (
+                          <CheckCircle2 className="w-4 h-4 mt-0.5 shrink-0 text-green-600" />
+                        ) : (
+                          <XCircle className="w-4 h-4 mt-0.5 shrink-0 text-destructive" />
+                        )}
+                        <div>
+                          <p className="font-medium">
+                            {index + 1}. {question.prompt}
+                          </p>
+                          <p className="text-muted-foreground">Answer: {answers[question.id] || "—"}</p>
+                          {!correct && (
+                            <p className="text-muted-foreground">
+                              Correct: {question.correct_answers.join(" / ")}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </AccordionContent>
+              </AccordionItem>
+            );
+          })}
+        </Accordion>
+      )}
+    </div>
+  );
+};
+
+export default QuizAttemptsReview;
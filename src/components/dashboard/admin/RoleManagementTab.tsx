@@ -0,0 +1,400 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Search, Plus, X, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import { Tables } from "@/integrations/supabase/types";
+import { AppRole, ROLES, getRoleLabel } from "@/lib/permissions";
+
+type Profile = Pick<Tables<"profiles">, "id" | "full_name" | "email">;
+type UserRole = Tables<"user_roles">;
+type RoleChange = Tables<"role_change_log">;
+
+interface Department {
+  id: string;
+  name: string;
+}
+
+interface RoleManagementTabProps {
+  readOnly?: boolean;
+}
+
+const RoleManagementTab = ({ readOnly = false }: RoleManagementTabProps) => {
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [roles, setRoles] = useState<UserRole[]>([]);
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [changes, setChanges] = useState<RoleChange[]>([]);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [roleFilter, setRoleFilter] = useState<string>("all");
+  const [loading, setLoading] = useState(true);
+  const [grantUser, setGrantUser] = useState<Profile | null>(null);
+  const [grantRole, setGrantRole] = useState<AppRole>("employee");
+  const [grantDepartmentId, setGrantDepartmentId] = useState("");
+  const [roleToRevoke, setRoleToRevoke] = useState<UserRole | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const loadData = useCallback(async () => {
+    try {
+      const [profilesData, rolesData, deptData, changesData] = await Promise.all([
+        supabase.from("profiles").select("id, full_name, email").order("full_name"),
+        supabase.from("user_roles").select("*"),
+        supabase.from("departments").select("id, name").order("name"),
+        supabase
+          .from("role_change_log")
+          .select("*")
+          .order("created_at", { ascending: false })
+          .limit(50),
+      ]);
+
+      if (profilesData.error) throw profilesData.error;
+      if (rolesData.error) throw rolesData.error;
+      if (deptData.error) throw deptData.error;
+      if (changesData.error) throw changesData.error;
+
+      setProfiles(profilesData.data || []);
+      setRoles(rolesData.data || []);
+      setDepartments(deptData.data || []);
+      setChanges(changesData.data || []);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error loading roles",
+        description: (error as Error).message,
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const adminCount = roles.filter((r) => r.role === "admin").length;
+
+  const getDepartmentName = (departmentId: string | null) =>
+    departments.find((d) => d.id === departmentId)?.name;
+
+  const getUserName = (userId: string | null) => {
+    if (!userId) return "System";
+    const profile = profiles.find((p) => p.id === userId);
+    return profile?.full_name || profile?.email || "Deleted user";
+  };
+
+  const describeRole = (role: AppRole, departmentId: string | null) => {
+    const department = getDepartmentName(departmentId);
+    return department ? `${getRoleLabel(role)} · ${department}` : getRoleLabel(role);
+  };
+
+  const filteredProfiles = profiles.filter((profile) => {
+    if (roleFilter !== "all" && !roles.some((r) => r.user_id === profile.id && r.role === roleFilter)) {
+      return false;
+    }
+    if (!searchQuery) return true;
+    const query = searchQuery.toLowerCase();
+    return profile.full_name.toLowerCase().includes(query) || profile.email.toLowerCase().includes(query);
+  });
+
+  const openGrantDialog = (profile: Profile) => {
+    setGrantUser(profile);
+    setGrantRole("employee");
+    setGrantDepartmentId("");
+  };
+
+  const handleGrantRole = async () => {
+    if (!grantUser) return;
+
+    if (grantRole === "department_manager" && !grantDepartmentId) {
+      toast({
+        variant: "destructive",
+        title: "Department required",
+        description: "Choose the department this manager is responsible for",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from("user_roles").insert({
+        user_id: grantUser.id,
+        role: grantRole,
+        department_id: grantRole === "department_manager" ? grantDepartmentId : null,
+      });
+
+      if (error) {
+        // Unique violation: the user already holds this role
+        if (error.code === "23505") {
+          throw new Error(`${grantUser.full_name} is already ${describeRole(grantRole, grantDepartmentId || null)}`);
+        }
+        throw error;
+      }
+
+      toast({
+        title: "Role granted",
+        description: `${grantUser.full_name} is now ${describeRole(grantRole, grantDepartmentId || null)}`,
+      });
+      setGrantUser(null);
+      loadData();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error granting role",
+        description: (error as Error).message,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevokeRole = async () => {
+    if (!roleToRevoke) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from("user_roles").delete().eq("id", roleToRevoke.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Role revoked",
+        description: `${getUserName(roleToRevoke.user_id)} is no longer ${describeRole(roleToRevoke.role, roleToRevoke.department_id)}`,
+      });
+      setRoleToRevoke(null);
+      loadData();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error revoking role",
+        description: (error as Error).message,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-muted-foreground">Loading roles...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+          <Input
+            placeholder="Search by name or email..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+        <Select value={roleFilter} onValueChange={setRoleFilter}>
+          <SelectTrigger className="w-full sm:w-[200px]">
+            <SelectValue placeholder="All Roles" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Roles</SelectItem>
+            {ROLES.map((role) => (
+              <SelectItem key={role.value} value={role.value}>
+                {role.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Users and their roles */}
+      <div className="grid grid-cols-1 gap-4">
+        {filteredProfiles.length === 0 ? (
+          <p className="text-muted-foreground text-center py-8">No users found.</p>
+        ) : (
+          filteredProfiles.map((profile) => {
+            const userRoles = roles.filter((r) => r.user_id === profile.id);
+            return (
+              <Card key={profile.id}>
+                <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                  <div className="space-y-2">
+                    <div>
+                      <p className="font-medium">{profile.full_name}</p>
+                      <p className="text-sm text-muted-foreground">{profile.email}</p>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {userRoles.length === 0 && (
+                        <span className="text-xs text-muted-foreground">No roles</span>
+                      )}
+                      {userRoles.map((role) => {
+                        const lastAdmin = role.role === "admin" && adminCount <= 1;
+                        return (
+                          <Badge key={role.id} variant="secondary" className="gap-1">
+                            {describeRole(role.role, role.department_id)}
+                            {!readOnly && (
+                              <button
+                                type="button"
+                                onClick={() => setRoleToRevoke(role)}
+                                disabled={lastAdmin}
+                                title={lastAdmin ? "The last admin cannot be removed" : "Revoke role"}
+                                className="ml-1 rounded-full hover:text-destructive disabled:opacity-40 disabled:cursor-not-allowed"
+                              >
+                                <X className="w-3 h-3" />
+                              </button>
+                            )}
+                          </Badge>
+                        );
+                      })}
+                    </div>
+                  </div>
+                  {!readOnly && (
+                    <Button size="sm" variant="outline" onClick={() => openGrantDialog(profile)}>
+                      <Plus className="w-4 h-4 mr-2" />
+                      Grant Role
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })
+        )}
+      </div>
+
+      {/* Audit trail */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Recent role changes</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {changes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No role changes recorded yet</p>
+          ) : (
+            <div className="space-y-3">
+              {changes.map((change) => (
+                <div key={change.id} className="flex flex-col sm:flex-row sm:justify-between gap-1 text-sm">
+                  <span>
+                    <span className="font-medium">{getUserName(change.changed_by)}</span>{" "}
+                    {change.action === "granted" ? "granted" : "revoked"}{" "}
+                    <span className="font-medium">{describeRole(change.role, change.department_id)}</span>{" "}
+                    {change.action === "granted" ? "to" : "from"}{" "}
+                    <span className="font-medium">{getUserName(change.user_id)}</span>
+                  </span>
+                  {change.created_at && (
+                    <span className="text-xs text-muted-foreground">
+                      {format(new Date(change.created_at), "MMM d, yyyy HH:mm")}
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!grantUser} onOpenChange={(open) => !open && setGrantUser(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Grant role to {grantUser?.full_name}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label>Role</Label>
+              <Select value={grantRole} onValueChange={(value) => setGrantRole(value as AppRole)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ROLES.map((role) => (
+                    <SelectItem key={role.value} value={role.value}>
+                      {role.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground mt-1">
+                {ROLES.find((r) => r.value === grantRole)?.description}
+              </p>
+            </div>
+            {grantRole === "department_manager" && (
+              <div>
+                <Label>Department *</Label>
+                <Select value={grantDepartmentId} onValueChange={setGrantDepartmentId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select department" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {departments.map((dept) => (
+                      <SelectItem key={dept.id} value={dept.id}>
+                        {dept.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setGrantUser(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleGrantRole} disabled={saving}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Grant Role
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!roleToRevoke} onOpenChange={(open) => !open && setRoleToRevoke(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke this role?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {roleToRevoke &&
+                `${getUserName(roleToRevoke.user_id)} will lose the ${describeRole(roleToRevoke.role, roleToRevoke.department_id)} role and the access that comes with it.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={saving}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRevokeRole}
+              disabled={saving}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {saving ? "Revoking..." : "Revoke"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default RoleManagementTab;
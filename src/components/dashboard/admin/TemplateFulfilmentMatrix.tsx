@@ -0,0 +1,240 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { BellRing, Loader2 } from "lucide-react";
+import { Tables } from "@/integrations/supabase/types";
+import { getFulfilmentState, getTemplateFulfilment, isOutstanding } from "@/lib/documentTemplates";
+import { notifyUsers } from "@/lib/notifications";
+
+interface Department {
+  id: string;
+  name: string;
+}
+
+type Employee = Pick<Tables<"profiles">, "id" | "full_name" | "email">;
+type TemplateDocument = Pick<
+  Tables<"documents">,
+  "id" | "user_id" | "template_id" | "template_version" | "status" | "created_at"
+>;
+
+interface TemplateFulfilmentMatrixProps {
+  departments: Department[];
+  readOnly?: boolean;
+}
+
+// Which department templates each employee has returned, and bulk reminders
+// for anything still outstanding
+const TemplateFulfilmentMatrix = ({ departments, readOnly = false }: TemplateFulfilmentMatrixProps) => {
+  const [departmentId, setDepartmentId] = useState(departments[0]?.id || "");
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [templates, setTemplates] = useState<Tables<"department_document_templates">[]>([]);
+  const [documents, setDocuments] = useState<TemplateDocument[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [reminding, setReminding] = useState(false);
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (!departmentId && departments.length > 0) setDepartmentId(departments[0].id);
+  }, [departments, departmentId]);
+
+  const loadMatrix = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [employeesData, templatesData] = await Promise.all([
+        supabase
+          .from("profiles")
+          .select("id, full_name, email")
+          .eq("department_id", departmentId)
+          .order("full_name"),
+        supabase
+          .from("department_document_templates")
+          .select("*")
+          .eq("department_id", departmentId)
+          .order("is_required", { ascending: false })
+          .order("title"),
+      ]);
+
+      if (employeesData.error) throw employeesData.error;
+      if (templatesData.error) throw templatesData.error;
+
+      const templateIds = (templatesData.data || []).map((t) => t.id);
+      const { data: docsData, error: docsError } = templateIds.length
+        ? await supabase
+            .from("documents")
+            .select("id, user_id, template_id, template_version, status, created_at")
+            .in("template_id", templateIds)
+        : { data: [], error: null };
+
+      if (docsError) throw docsError;
+
+      setEmployees(employeesData.data || []);
+      setTemplates(templatesData.data || []);
+      setDocuments(docsData || []);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error loading template fulfilment",
+        description: (error as Error).message,
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [departmentId, toast]);
+
+  useEffect(() => {
+    if (departmentId) loadMatrix();
+  }, [departmentId, loadMatrix]);
+
+  const rows = employees.map((employee) => {
+    const fulfilment = getTemplateFulfilment(
+      templates,
+      documents.filter((doc) => doc.user_id === employee.id)
+    );
+    const outstanding = fulfilment.filter((f) => f.template.is_required && isOutstanding(f));
+    return { employee, fulfilment, outstanding };
+  });
+
+  const employeesMissing = rows.filter((row) => row.outstanding.length > 0);
+
+  const remindMissing = async () => {
+    setReminding(true);
+    try {
+      if (!user) throw new Error("Not authenticated");
+      await notifyUsers(
+        user.id,
+        employeesMissing.map(({ employee, outstanding }) => ({
+          userId: employee.id,
+          title: "Documents still needed",
+          message: `Please upload: ${outstanding.map((f) => f.template.title).join(", ")}`,
+          link: "/dashboard/documents",
+        }))
+      );
+
+      toast({
+        title: "Reminders sent",
+        description: `${employeesMissing.length} employee${employeesMissing.length === 1 ? "" : "s"} notified`,
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error sending reminders",
+        description: (error as Error).message,
+      });
+    } finally {
+      setReminding(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <Select value={departmentId} onValueChange={setDepartmentId}>
+          <SelectTrigger className="w-64">
+            <SelectValue placeholder="Select department" />
+          </SelectTrigger>
+          <SelectContent>
+            {departments.map((dept) => (
+              <SelectItem key={dept.id} value={dept.id}>
+                {dept.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-3">
+          <span className="text-sm text-muted-foreground">
+            {employeesMissing.length} of {employees.length} missing required documents
+          </span>
+          {!readOnly && (
+            <Button
+              variant="outline"
+              onClick={remindMissing}
+              disabled={reminding || loading || employeesMissing.length === 0}
+            >
+              {reminding ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <BellRing className="w-4 h-4 mr-2" />}
+              Remind missing
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : templates.length === 0 || employees.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center text-muted-foreground">
+            {templates.length === 0
+              ? "This department has no document templates"
+              : "No employees in this department yet"}
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="p-0 overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Employee</TableHead>
+                  {templates.map((template) => (
+                    <TableHead key={template.id} className="whitespace-nowrap">
+                      {template.title}
+                      {template.is_required && <span className="text-red-500 ml-1">*</span>}
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(({ employee, fulfilment }) => (
+                  <TableRow key={employee.id}>
+                    <TableCell>
+                      <p className="font-medium">{employee.full_name}</p>
+                      <p className="text-xs text-muted-foreground">{employee.email}</p>
+                    </TableCell>
+                    {fulfilment.map((f) => {
+                      const state = getFulfilmentState(f.state);
+                      return (
+                        <TableCell key={f.template.id}>
+                          <div className="flex flex-col items-start gap-1">
+                            <Badge className={state.className}>{state.label}</Badge>
+                            {f.outdated && (
+                              <span className="text-xs text-amber-700">
+                                Returned v{f.document?.template_version}, current v{f.template.version}
+                              </span>
+                            )}
+                          </div>
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default TemplateFulfilmentMatrix;
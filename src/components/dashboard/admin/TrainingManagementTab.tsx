@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -32,7 +33,22 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { Plus, Trash2, Edit, ExternalLink } from "lucide-react";
+import { Plus, Trash2, Edit, ExternalLink, ListChecks, Users, Loader2 } from "lucide-react";
+import ExportMenu from "@/components/dashboard/ExportMenu";
+import TrainingQuizEditor from "@/components/dashboard/admin/TrainingQuizEditor";
+import BulkAssignTrainingDialog from "@/components/dashboard/admin/BulkAssignTrainingDialog";
+import OverdueTrainingReport from "@/components/dashboard/admin/OverdueTrainingReport";
+import { exportFilename, loadTrainingMatrixRows } from "@/lib/exports";
+import { ExportFormat, exportRows } from "@/lib/spreadsheet";
+import { toQuizQuestions } from "@/lib/quizzes";
+import {
+  TRAINING_RESOURCE_TYPES,
+  getResourceTypeLabel,
+  getTrainingContentUrl,
+  uploadTrainingContent,
+} from "@/lib/training";
+import { inspectTrainingPackage } from "@/lib/trainingPackages";
+import { formatDueOffset } from "@/lib/trainingPaths";
 
 interface TrainingSession {
   id: string;
@@ -40,10 +56,14 @@ interface TrainingSession {
   description: string | null;
   resource_type: string;
   resource_url: string | null;
+  storage_path: string | null;
+  file_name: string | null;
   duration_minutes: number | null;
+  due_offset_days: number | null;
   is_mandatory: boolean;
   department_id: string | null;
   departments?: { name: string };
+  training_quizzes?: { questions: unknown; passing_score: number } | null;
 }
 
 interface Department {
@@ -51,7 +71,11 @@ interface Department {
   name: string;
 }
 
-const TrainingManagementTab = () => {
+interface TrainingManagementTabProps {
+  readOnly?: boolean;
+}
+
+const TrainingManagementTab = ({ readOnly = false }: TrainingManagementTabProps) => {
   const [sessions, setSessions] = useState<TrainingSession[]>([]);
   const [departments, setDepartments] = useState<Department[]>([]);
   const [loading, setLoading] = useState(true);
@@ -60,15 +84,24 @@ const TrainingManagementTab = () => {
   const [editingSession, setEditingSession] = useState<TrainingSession | null>(null);
   const [sessionToDelete, setSessionToDelete] = useState<TrainingSession | null>(null);
   const [deleting, setDeleting] = useState(false);
+  const [matrixDepartment, setMatrixDepartment] = useState("all");
+  const [quizSession, setQuizSession] = useState<TrainingSession | null>(null);
+  const [assignSession, setAssignSession] = useState<TrainingSession | null>(null);
+  const [contentFile, setContentFile] = useState<File | null>(null);
+  const [saving, setSaving] = useState(false);
   const [formData, setFormData] = useState({
     title: "",
     description: "",
     resource_type: "youtube",
     resource_url: "",
     duration_minutes: "",
+    due_offset_days: "",
     is_mandatory: false,
     department_id: "all",
   });
+  const { hasRole } = useAuth();
+  // Packaged courses run their own scripts, so only HR and admins add them
+  const canUploadPackages = hasRole("admin", "hr_manager");
   const { toast } = useToast();
 
   useEffect(() => {
@@ -80,7 +113,7 @@ const TrainingManagementTab = () => {
       const [sessionsData, deptData] = await Promise.all([
         supabase
           .from("training_sessions")
-          .select("*, departments(name)")
+          .select("*, departments(name), training_quizzes(questions, passing_score)")
           .order("created_at", { ascending: false }),
         supabase.from("departments").select("*").order("name"),
       ]);
@@ -103,23 +136,55 @@ const TrainingManagementTab = () => {
 
   const handleSaveSession = async () => {
     try {
-      if (!formData.title || !formData.resource_url) {
+      const resourceType = TRAINING_RESOURCE_TYPES.find((t) => t.value === formData.resource_type);
+      const uploadable = !!resourceType?.accept;
+      const isPackage = formData.resource_type === "scorm";
+      const hasUrl = !resourceType?.uploadOnly && !!formData.resource_url;
+      // An uploaded file stays unless a new file or a link replaces it. A
+      // package can't be kept from a session that held some other file.
+      const keepFile =
+        uploadable &&
+        !contentFile &&
+        !hasUrl &&
+        !!editingSession?.storage_path &&
+        (!isPackage || editingSession.resource_type === "scorm");
+
+      if (!formData.title || (!hasUrl && !(uploadable && contentFile) && !keepFile)) {
         toast({
           variant: "destructive",
           title: "Missing fields",
-          description: "Please fill in title and resource URL",
+          description: resourceType?.uploadOnly
+            ? "Please fill in title and upload a package"
+            : uploadable
+              ? "Please fill in title and upload a file or enter a resource URL"
+              : "Please fill in title and resource URL",
         });
         return;
       }
 
+      setSaving(true);
+      const departmentId = formData.department_id === "all" ? null : formData.department_id;
+      let storagePath = keepFile ? editingSession!.storage_path : null;
+      let fileName = keepFile ? editingSession!.file_name : null;
+
+      if (uploadable && contentFile) {
+        // Throws when the zip has no SCORM or xAPI manifest to launch from
+        if (isPackage) await inspectTrainingPackage(contentFile);
+        storagePath = await uploadTrainingContent(contentFile, departmentId);
+        fileName = contentFile.name;
+      }
+
       const sessionData = {
         title: formData.title,
         description: formData.description || null,
         resource_type: formData.resource_type,
-        resource_url: formData.resource_url,
+        resource_url: storagePath || !hasUrl ? null : formData.resource_url,
+        storage_path: storagePath,
+        file_name: fileName,
         duration_minutes: formData.duration_minutes ? parseInt(formData.duration_minutes) : null,
+        due_offset_days: formData.due_offset_days === "" ? null : Math.max(0, parseInt(formData.due_offset_days) || 0),
         is_mandatory: formData.is_mandatory,
-        department_id: formData.department_id === "all" ? null : formData.department_id,
+        department_id: departmentId,
       };
 
       if (editingSession) {
@@ -129,6 +194,9 @@ const TrainingManagementTab = () => {
           .eq("id", editingSession.id);
 
         if (error) throw error;
+        if (editingSession.storage_path && editingSession.storage_path !== storagePath) {
+          removeContentFile(editingSession.storage_path);
+        }
         toast({ title: "Session updated successfully" });
       } else {
         const { error } = await supabase.from("training_sessions").insert(sessionData);
@@ -147,6 +215,29 @@ const TrainingManagementTab = () => {
         title: "Error saving session",
         description: error.message,
       });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Best effort: a leftover file only costs storage
+  const removeContentFile = (storagePath: string) => {
+    supabase.storage
+      .from("training_content")
+      .remove([storagePath])
+      .then(({ error }) => error && console.error("Error removing training file:", error));
+  };
+
+  const openResource = async (session: TrainingSession) => {
+    try {
+      const url = session.storage_path ? await getTrainingContentUrl(session.storage_path) : session.resource_url;
+      if (url) window.open(url, "_blank");
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error opening resource",
+        description: (error as Error).message,
+      });
     }
   };
 
@@ -163,6 +254,7 @@ const TrainingManagementTab = () => {
       const { error } = await supabase.from("training_sessions").delete().eq("id", sessionToDelete.id);
 
       if (error) throw error;
+      if (sessionToDelete.storage_path) removeContentFile(sessionToDelete.storage_path);
 
       // Update local state
       setSessions(sessions => sessions.filter(s => s.id !== sessionToDelete.id));
@@ -189,9 +281,11 @@ const TrainingManagementTab = () => {
       resource_type: session.resource_type,
       resource_url: session.resource_url || "",
       duration_minutes: session.duration_minutes?.toString() || "",
+      due_offset_days: session.due_offset_days?.toString() ?? "",
       is_mandatory: session.is_mandatory,
       department_id: session.department_id || "all",
     });
+    setContentFile(null);
     setDialogOpen(true);
   };
 
@@ -202,124 +296,209 @@ const TrainingManagementTab = () => {
       resource_type: "youtube",
       resource_url: "",
       duration_minutes: "",
+      due_offset_days: "",
       is_mandatory: false,
       department_id: "all",
     });
+    setContentFile(null);
   };
 
+  const selectedResourceType = TRAINING_RESOURCE_TYPES.find((t) => t.value === formData.resource_type);
+
   if (loading) {
     return <div className="text-muted-foreground">Loading training sessions...</div>;
   }
 
+  const handleExportMatrix = async (exportFormat: ExportFormat) => {
+    try {
+      const departmentId = matrixDepartment === "all" ? null : matrixDepartment;
+      const departmentName = departments.find((d) => d.id === departmentId)?.name;
+      const rows = await loadTrainingMatrixRows(departmentId);
+      exportRows(
+        rows,
+        exportFilename(departmentName ? `${departmentName} training` : "training"),
+        exportFormat,
+        "Training completion"
+      );
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error exporting training",
+        description: (error as Error).message,
+      });
+    }
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <p className="text-sm text-muted-foreground">
           Manage training sessions and assign them to departments
         </p>
-        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-          <DialogTrigger asChild>
-            <Button onClick={() => {
-              setEditingSession(null);
-              resetForm();
-            }}>
-              <Plus className="w-4 h-4 mr-2" />
-              Add Session
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
-            <DialogHeader>
-              <DialogTitle>
-                {editingSession ? "Edit Training Session" : "Add New Training Session"}
-              </DialogTitle>
-            </DialogHeader>
-            <div className="space-y-4">
-              <div>
-                <Label>Title *</Label>
-                <Input
-                  placeholder="e.g., Introduction to Company Policies"
-                  value={formData.title}
-                  onChange={(e) => setFormData({ ...formData, title: e.target.value })}
-                />
-              </div>
-              <div>
-                <Label>Description</Label>
-                <Textarea
-                  placeholder="Brief description of the training session"
-                  value={formData.description}
-                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                />
-              </div>
-              <div>
-                <Label>Resource Type *</Label>
-                <Select
-                  value={formData.resource_type}
-                  onValueChange={(value) => setFormData({ ...formData, resource_type: value })}
-                >
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="youtube">YouTube Video</SelectItem>
-                    <SelectItem value="pdf">PDF Document</SelectItem>
-                    <SelectItem value="drive">Google Drive Link</SelectItem>
-                    <SelectItem value="external">External Link</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-              <div>
-                <Label>Resource URL *</Label>
-                <Input
-                  placeholder="https://..."
-                  value={formData.resource_url}
-                  onChange={(e) => setFormData({ ...formData, resource_url: e.target.value })}
-                />
-              </div>
-              <div>
-                <Label>Duration (minutes)</Label>
-                <Input
-                  type="number"
-                  placeholder="e.g., 45"
-                  value={formData.duration_minutes}
-                  onChange={(e) => setFormData({ ...formData, duration_minutes: e.target.value })}
-                />
-              </div>
-              <div>
-                <Label>Assign to Department (optional)</Label>
-                <Select
-                  value={formData.department_id}
-                  onValueChange={(value) => setFormData({ ...formData, department_id: value })}
-                >
-                  <SelectTrigger>
-                    <SelectValue placeholder="All Departments" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="all">All Departments</SelectItem>
-                    {departments.map((dept) => (
-                      <SelectItem key={dept.id} value={dept.id}>
-                        {dept.name}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
-              <div className="flex items-center space-x-2">
-                <Switch
-                  checked={formData.is_mandatory}
-                  onCheckedChange={(checked) =>
-                    setFormData({ ...formData, is_mandatory: checked })
-                  }
-                />
-                <Label>Mandatory Training</Label>
+        <div className="flex gap-2">
+          <Select value={matrixDepartment} onValueChange={setMatrixDepartment}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue placeholder="All Departments" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Departments</SelectItem>
+              {departments.map((dept) => (
+                <SelectItem key={dept.id} value={dept.id}>
+                  {dept.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <ExportMenu label="Export Completion" onExport={handleExportMatrix} />
+          <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+            {!readOnly && (
+              <DialogTrigger asChild>
+                <Button onClick={() => {
+                  setEditingSession(null);
+                  resetForm();
+                }}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Session
+                </Button>
+              </DialogTrigger>
+            )}
+            <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>
+                  {editingSession ? "Edit Training Session" : "Add New Training Session"}
+                </DialogTitle>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div>
+                  <Label>Title *</Label>
+                  <Input
+                    placeholder="e.g., Introduction to Company Policies"
+                    value={formData.title}
+                    onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label>Description</Label>
+                  <Textarea
+                    placeholder="Brief description of the training session"
+                    value={formData.description}
+                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label>Resource Type *</Label>
+                  <Select
+                    value={formData.resource_type}
+                    onValueChange={(value) => setFormData({ ...formData, resource_type: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TRAINING_RESOURCE_TYPES.filter(
+                        (type) => type.value !== "scorm" || canUploadPackages || formData.resource_type === "scorm"
+                      ).map((type) => (
+                        <SelectItem key={type.value} value={type.value}>
+                          {type.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {selectedResourceType?.accept && (!selectedResourceType.uploadOnly || canUploadPackages) && (
+                  <div>
+                    <Label>{selectedResourceType.uploadOnly ? "Upload Package *" : "Upload File"}</Label>
+                    <Input
+                      type="file"
+                      accept={selectedResourceType.accept}
+                      onChange={(e) => setContentFile(e.target.files?.[0] || null)}
+                    />
+                    {selectedResourceType.uploadOnly && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        A SCORM 1.2, SCORM 2004 or xAPI (Tin Can) zip with its imsmanifest.xml or tincan.xml.
+                      </p>
+                    )}
+                    {editingSession?.storage_path && !contentFile && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Current file: {editingSession.file_name || "uploaded file"}.{" "}
+                        {selectedResourceType.uploadOnly
+                          ? "Choose a package to replace it."
+                          : "Choose a file or enter a URL to replace it."}
+                      </p>
+                    )}
+                  </div>
+                )}
+                {!selectedResourceType?.uploadOnly && (
+                  <div>
+                    <Label>{selectedResourceType?.accept ? "Or Resource URL" : "Resource URL *"}</Label>
+                    <Input
+                      placeholder="https://..."
+                      value={formData.resource_url}
+                      onChange={(e) => setFormData({ ...formData, resource_url: e.target.value })}
+                    />
+                  </div>
+                )}
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label>Duration (minutes)</Label>
+                    <Input
+                      type="number"
+                      placeholder="e.g., 45"
+                      value={formData.duration_minutes}
+                      onChange={(e) => setFormData({ ...formData, duration_minutes: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label>Due (days after start date)</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      placeholder="No deadline"
+                      value={formData.due_offset_days}
+                      onChange={(e) => setFormData({ ...formData, due_offset_days: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <Label>Assign to Department (optional)</Label>
+                  <Select
+                    value={formData.department_id}
+                    onValueChange={(value) => setFormData({ ...formData, department_id: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="All Departments" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Departments</SelectItem>
+                      {departments.map((dept) => (
+                        <SelectItem key={dept.id} value={dept.id}>
+                          {dept.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    checked={formData.is_mandatory}
+                    onCheckedChange={(checked) =>
+                      setFormData({ ...formData, is_mandatory: checked })
+                    }
+                  />
+                  <Label>Mandatory Training</Label>
+                </div>
+                <Button onClick={handleSaveSession} className="w-full" disabled={saving}>
+                  {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  {editingSession ? "Update Session" : "Add Session"}
+                </Button>
               </div>
-              <Button onClick={handleSaveSession} className="w-full">
-                {editingSession ? "Update Session" : "Add Session"}
-              </Button>
-            </div>
-          </DialogContent>
-        </Dialog>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
+      <OverdueTrainingReport readOnly={readOnly} />
+
       <div className="grid grid-cols-1 gap-4">
         {sessions.map((session) => (
           <Card key={session.id}>
@@ -334,39 +513,69 @@ const TrainingManagementTab = () => {
                     <Badge variant={session.is_mandatory ? "default" : "secondary"}>
                       {session.is_mandatory ? "Mandatory" : "Optional"}
                     </Badge>
-                    <Badge variant="outline">{session.resource_type}</Badge>
+                    <Badge variant="outline">{getResourceTypeLabel(session.resource_type)}</Badge>
+                    {session.storage_path && <Badge variant="outline">Uploaded</Badge>}
                     {session.duration_minutes && (
                       <Badge variant="outline">{session.duration_minutes} mins</Badge>
                     )}
+                    {session.due_offset_days !== null && (
+                      <Badge variant="outline">{formatDueOffset(session.due_offset_days)}</Badge>
+                    )}
                     {session.departments && (
                       <Badge variant="outline">{session.departments.name}</Badge>
                     )}
+                    {session.training_quizzes && (
+                      <Badge variant="outline">
+                        Quiz: {toQuizQuestions(session.training_quizzes.questions).length} questions, pass{" "}
+                        {session.training_quizzes.passing_score}%
+                      </Badge>
+                    )}
                   </div>
                 </div>
                 <div className="flex items-center gap-2">
-                  {session.resource_url && (
+                  {(session.resource_url || session.storage_path) && (
                     <Button
                       size="sm"
                       variant="ghost"
-                      onClick={() => window.open(session.resource_url!, "_blank")}
+                      onClick={() => openResource(session)}
                     >
                       <ExternalLink className="w-4 h-4" />
                     </Button>
                   )}
-                  <Button
-                    size="sm"
-                    variant="outline"
-                    onClick={() => openEditDialog(session)}
-                  >
-                    <Edit className="w-4 h-4" />
-                  </Button>
-                  <Button
-                    size="sm"
-                    variant="destructive"
-                    onClick={() => handleDeleteClick(session)}
-                  >
-                    <Trash2 className="w-4 h-4" />
-                  </Button>
+                  {!readOnly && (
+                    <>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setAssignSession(session)}
+                      >
+                        <Users className="w-4 h-4 mr-2" />
+                        Assign
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setQuizSession(session)}
+                      >
+                        <ListChecks className="w-4 h-4 mr-2" />
+                        {session.training_quizzes ? "Edit Quiz" : "Add Quiz"}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => openEditDialog(session)}
+                      >
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => handleDeleteClick(session)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </>
+                  )}
                 </div>
               </div>
             </CardHeader>
@@ -374,6 +583,14 @@ const TrainingManagementTab = () => {
         ))}
       </div>
 
+      <TrainingQuizEditor
+        session={quizSession}
+        onClose={() => setQuizSession(null)}
+        onSaved={loadData}
+      />
+
+      <BulkAssignTrainingDialog session={assignSession} onClose={() => setAssignSession(null)} />
+
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -0,0 +1,544 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ArrowDown, ArrowUp, Edit, Plus, Trash2 } from "lucide-react";
+import { Tables } from "@/integrations/supabase/types";
+import {
+  TrainingPath,
+  TrainingPathModule,
+  createsPrerequisiteCycle,
+  formatDueOffset,
+  loadTrainingPaths,
+} from "@/lib/trainingPaths";
+
+interface Department {
+  id: string;
+  name: string;
+}
+
+type TrainingOption = Pick<Tables<"training_sessions">, "id" | "title" | "department_id">;
+
+interface ModuleForm {
+  training_session_id: string;
+  prerequisite_session_ids: string[];
+  due_offset_days: string;
+}
+
+interface TrainingPathManagementTabProps {
+  readOnly?: boolean;
+}
+
+const TrainingPathManagementTab = ({ readOnly = false }: TrainingPathManagementTabProps) => {
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [departmentId, setDepartmentId] = useState("");
+  const [paths, setPaths] = useState<TrainingPath[]>([]);
+  const [trainingSessions, setTrainingSessions] = useState<TrainingOption[]>([]);
+  const [pathDialogOpen, setPathDialogOpen] = useState(false);
+  const [editingPath, setEditingPath] = useState<TrainingPath | null>(null);
+  const [pathForm, setPathForm] = useState({ title: "", description: "" });
+  const [modulePath, setModulePath] = useState<TrainingPath | null>(null);
+  const [editingModule, setEditingModule] = useState<TrainingPathModule | null>(null);
+  const [moduleForm, setModuleForm] = useState<ModuleForm>({
+    training_session_id: "",
+    prerequisite_session_ids: [],
+    due_offset_days: "",
+  });
+  const [saving, setSaving] = useState(false);
+  const { user, hasOrganisationScope, managedDepartmentIds } = useAuth();
+  const { toast } = useToast();
+
+  const loadDepartments = useCallback(async () => {
+    const { data, error } = await supabase.from("departments").select("id, name").order("name");
+    if (error) {
+      toast({ variant: "destructive", title: "Error loading departments", description: error.message });
+      return;
+    }
+
+    // Department managers only build their own department's paths
+    const visible = (data || []).filter((d) => hasOrganisationScope || managedDepartmentIds.includes(d.id));
+    setDepartments(visible);
+    if (visible.length > 0) setDepartmentId(visible[0].id);
+  }, [hasOrganisationScope, managedDepartmentIds, toast]);
+
+  useEffect(() => {
+    loadDepartments();
+  }, [loadDepartments]);
+
+  const loadPaths = useCallback(async () => {
+    try {
+      const [pathsData, trainingData] = await Promise.all([
+        loadTrainingPaths(departmentId),
+        supabase
+          .from("training_sessions")
+          .select("id, title, department_id")
+          .or(`department_id.eq.${departmentId},department_id.is.null`)
+          .order("title"),
+      ]);
+
+      if (trainingData.error) throw trainingData.error;
+
+      setPaths(pathsData);
+      setTrainingSessions(trainingData.data || []);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error loading training paths",
+        description: (error as Error).message,
+      });
+    }
+  }, [departmentId, toast]);
+
+  useEffect(() => {
+    if (departmentId) loadPaths();
+  }, [departmentId, loadPaths]);
+
+  const getSessionTitle = (sessionId: string) =>
+    trainingSessions.find((s) => s.id === sessionId)?.title || "Unknown session";
+
+  const openPathDialog = (path: TrainingPath | null) => {
+    setEditingPath(path);
+    setPathForm({ title: path?.title || "", description: path?.description || "" });
+    setPathDialogOpen(true);
+  };
+
+  const handleSavePath = async () => {
+    if (!pathForm.title.trim()) {
+      toast({ variant: "destructive", title: "Missing title", description: "Give the path a title" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const values = {
+        title: pathForm.title.trim(),
+        description: pathForm.description.trim() || null,
+      };
+
+      const { error } = editingPath
+        ? await supabase.from("training_paths").update(values).eq("id", editingPath.id)
+        : await supabase.from("training_paths").insert({ ...values, department_id: departmentId, created_by: user?.id });
+
+      if (error) throw error;
+
+      toast({ title: "Success", description: editingPath ? "Training path updated" : "Training path added" });
+      setPathDialogOpen(false);
+      loadPaths();
+    } catch (error) {
+      toast({ variant: "destructive", title: "Error saving path", description: (error as Error).message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeletePath = async (path: TrainingPath) => {
+    if (!confirm(`Delete the "${path.title}" path? Assigned sessions and progress are kept.`)) return;
+
+    try {
+      const { error } = await supabase.from("training_paths").delete().eq("id", path.id);
+      if (error) throw error;
+
+      toast({ title: "Success", description: "Training path deleted" });
+      loadPaths();
+    } catch (error) {
+      toast({ variant: "destructive", title: "Error deleting path", description: (error as Error).message });
+    }
+  };
+
+  // New modules unlock after the one before them unless told otherwise
+  const openModuleDialog = (path: TrainingPath, module: TrainingPathModule | null) => {
+    const last = path.training_path_modules[path.training_path_modules.length - 1];
+    setModulePath(path);
+    setEditingModule(module);
+    setModuleForm({
+      training_session_id: module?.training_session_id || "",
+      prerequisite_session_ids: module ? module.prerequisite_session_ids : last ? [last.training_session_id] : [],
+      due_offset_days: module?.due_offset_days?.toString() ?? "",
+    });
+  };
+
+  // Only modules earlier in the path can be prerequisites, which keeps the
+  // path itself free of cycles
+  const getEarlierModules = (path: TrainingPath, module: TrainingPathModule | null) => {
+    const index = module ? path.training_path_modules.findIndex((m) => m.id === module.id) : -1;
+    return index === -1 ? path.training_path_modules : path.training_path_modules.slice(0, index);
+  };
+
+  const togglePrerequisite = (sessionId: string, checked: boolean) => {
+    setModuleForm((current) => ({
+      ...current,
+      prerequisite_session_ids: checked
+        ? [...current.prerequisite_session_ids, sessionId]
+        : current.prerequisite_session_ids.filter((id) => id !== sessionId),
+    }));
+  };
+
+  const handleSaveModule = async () => {
+    if (!modulePath) return;
+    if (!moduleForm.training_session_id) {
+      toast({ variant: "destructive", title: "Missing training", description: "Choose the training session" });
+      return;
+    }
+
+    const dueOffset = moduleForm.due_offset_days === "" ? null : parseInt(moduleForm.due_offset_days);
+    if (dueOffset !== null && (isNaN(dueOffset) || dueOffset < 0)) {
+      toast({ variant: "destructive", title: "Invalid deadline", description: "Enter a number of days, or leave it blank" });
+      return;
+    }
+
+    // A session can sit in more than one of the department's paths, so the
+    // earlier-modules rule alone doesn't rule out cycles
+    if (
+      createsPrerequisiteCycle(paths, {
+        id: editingModule?.id,
+        training_session_id: moduleForm.training_session_id,
+        prerequisite_session_ids: moduleForm.prerequisite_session_ids,
+      })
+    ) {
+      toast({
+        variant: "destructive",
+        title: "Circular prerequisites",
+        description: "Another path already has this training unlocking before one of its prerequisites",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const modules = modulePath.training_path_modules;
+      const values = {
+        prerequisite_session_ids: moduleForm.prerequisite_session_ids,
+        due_offset_days: dueOffset,
+      };
+
+      // The session itself is fixed once added, since adding is what assigns
+      // it to the department
+      const { error } = editingModule
+        ? await supabase.from("training_path_modules").update(values).eq("id", editingModule.id)
+        : await supabase.from("training_path_modules").insert({
+            ...values,
+            training_session_id: moduleForm.training_session_id,
+            path_id: modulePath.id,
+            position: modules.length ? Math.max(...modules.map((m) => m.position)) + 1 : 0,
+          });
+
+      if (error) throw error;
+
+      toast({ title: "Success", description: editingModule ? "Module updated" : "Module added" });
+      setModulePath(null);
+      loadPaths();
+    } catch (error) {
+      toast({ variant: "destructive", title: "Error saving module", description: (error as Error).message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteModule = async (path: TrainingPath, module: TrainingPathModule) => {
+    if (!confirm(`Remove "${getSessionTitle(module.training_session_id)}" from the path?`)) return;
+
+    try {
+      const { error } = await supabase.from("training_path_modules").delete().eq("id", module.id);
+      if (error) throw error;
+
+      // Modules that waited on this one no longer do
+      const dependants = path.training_path_modules.filter((m) =>
+        m.prerequisite_session_ids.includes(module.training_session_id)
+      );
+      const results = await Promise.all(
+        dependants.map((m) =>
+          supabase
+            .from("training_path_modules")
+            .update({
+              prerequisite_session_ids: m.prerequisite_session_ids.filter((id) => id !== module.training_session_id),
+            })
+            .eq("id", m.id)
+        )
+      );
+      const failed = results.find((r) => r.error);
+      if (failed?.error) throw failed.error;
+
+      toast({ title: "Success", description: "Module removed" });
+      loadPaths();
+    } catch (error) {
+      toast({ variant: "destructive", title: "Error removing module", description: (error as Error).message });
+    }
+  };
+
+  // Swap with the neighbouring module, renumbering positions and dropping
+  // prerequisites that would now come later in the path
+  const moveModule = async (path: TrainingPath, index: number, direction: -1 | 1) => {
+    const reordered = [...path.training_path_modules];
+    [reordered[index], reordered[index + direction]] = [reordered[index + direction], reordered[index]];
+    const updated = reordered.map((module, position) => {
+      const earlier = reordered.slice(0, position).map((m) => m.training_session_id);
+      return {
+        ...module,
+        position,
+        prerequisite_session_ids: module.prerequisite_session_ids.filter((id) => earlier.includes(id)),
+      };
+    });
+    setPaths((current) => current.map((p) => (p.id === path.id ? { ...p, training_path_modules: updated } : p)));
+
+    try {
+      const results = await Promise.all(
+        updated.map((module) =>
+          supabase
+            .from("training_path_modules")
+            .update({ position: module.position, prerequisite_session_ids: module.prerequisite_session_ids })
+            .eq("id", module.id)
+        )
+      );
+      const failed = results.find((r) => r.error);
+      if (failed?.error) throw failed.error;
+    } catch (error) {
+      toast({ variant: "destructive", title: "Error reordering path", description: (error as Error).message });
+      loadPaths();
+    }
+  };
+
+  const earlierModules = modulePath ? getEarlierModules(modulePath, editingModule) : [];
+  const availableSessions = trainingSessions.filter(
+    (session) =>
+      session.id === editingModule?.training_session_id ||
+      !modulePath?.training_path_modules.some((m) => m.training_session_id === session.id)
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <Select value={departmentId} onValueChange={setDepartmentId}>
+          <SelectTrigger className="w-64">
+            <SelectValue placeholder="Select department" />
+          </SelectTrigger>
+          <SelectContent>
+            {departments.map((dept) => (
+              <SelectItem key={dept.id} value={dept.id}>
+                {dept.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {!readOnly && (
+          <Button onClick={() => openPathDialog(null)} disabled={!departmentId}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Path
+          </Button>
+        )}
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Everyone in the department is assigned each path's sessions, and a module unlocks once its prerequisites
+        are completed.
+      </p>
+
+      <div className="grid grid-cols-1 gap-4">
+        {paths.length === 0 ? (
+          <Card>
+            <CardContent className="p-8 text-center text-muted-foreground">
+              This department has no training paths yet
+            </CardContent>
+          </Card>
+        ) : (
+          paths.map((path) => (
+            <Card key={path.id}>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-1">
+                    <CardTitle className="text-lg">{path.title}</CardTitle>
+                    {path.description && <p className="text-sm text-muted-foreground">{path.description}</p>}
+                  </div>
+                  {!readOnly && (
+                    <div className="flex items-center gap-1">
+                      <Button size="sm" variant="outline" onClick={() => openModuleDialog(path, null)}>
+                        <Plus className="w-4 h-4 mr-2" />
+                        Add Module
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => openPathDialog(path)}>
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button size="sm" variant="destructive" onClick={() => handleDeletePath(path)}>
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {path.training_path_modules.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No modules yet</p>
+                ) : (
+                  path.training_path_modules.map((module, index) => (
+                    <div key={module.id} className="flex items-start justify-between gap-4 rounded-md border p-3">
+                      <div className="space-y-1">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <Badge variant="outline" className="text-xs">
+                            {index + 1}
+                          </Badge>
+                          <p className="font-medium">{getSessionTitle(module.training_session_id)}</p>
+                        </div>
+                        <p className="text-sm text-muted-foreground">
+                          {module.prerequisite_session_ids.length === 0
+                            ? "Available from the start"
+                            : `Unlocks after ${module.prerequisite_session_ids.map(getSessionTitle).join(", ")}`}
+                        </p>
+                        <p className="text-xs text-muted-foreground">{formatDueOffset(module.due_offset_days)}</p>
+                      </div>
+                      {!readOnly && (
+                        <div className="flex items-center gap-1">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => moveModule(path, index, -1)}
+                            disabled={index === 0}
+                          >
+                            <ArrowUp className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => moveModule(path, index, 1)}
+                            disabled={index === path.training_path_modules.length - 1}
+                          >
+                            <ArrowDown className="w-4 h-4" />
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => openModuleDialog(path, module)}>
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                          <Button size="sm" variant="destructive" onClick={() => handleDeleteModule(path, module)}>
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+
+      <Dialog open={pathDialogOpen} onOpenChange={setPathDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingPath ? "Edit Training Path" : "Add Training Path"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label>Title *</Label>
+              <Input
+                placeholder="e.g., First week essentials"
+                value={pathForm.title}
+                onChange={(e) => setPathForm({ ...pathForm, title: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>Description</Label>
+              <Textarea
+                value={pathForm.description}
+                onChange={(e) => setPathForm({ ...pathForm, description: e.target.value })}
+                rows={2}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPathDialogOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSavePath} disabled={saving}>
+              {editingPath ? "Update Path" : "Add Path"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!modulePath} onOpenChange={(open) => !open && setModulePath(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingModule ? "Edit Module" : "Add Module"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label>Training Session *</Label>
+              <Select
+                value={moduleForm.training_session_id}
+                onValueChange={(value) => setModuleForm({ ...moduleForm, training_session_id: value })}
+                disabled={!!editingModule}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select training session" />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableSessions.map((session) => (
+                    <SelectItem key={session.id} value={session.id}>
+                      {session.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {earlierModules.length > 0 && (
+              <div className="space-y-2">
+                <Label>Unlocks after</Label>
+                {earlierModules.map((module) => (
+                  <div key={module.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`prerequisite-${module.id}`}
+                      checked={moduleForm.prerequisite_session_ids.includes(module.training_session_id)}
+                      onCheckedChange={(checked) => togglePrerequisite(module.training_session_id, checked === true)}
+                    />
+                    <Label htmlFor={`prerequisite-${module.id}`} className="font-normal">
+                      {getSessionTitle(module.training_session_id)}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div>
+              <Label>Due (days after joining)</Label>
+              <Input
+                type="number"
+                min={0}
+                placeholder="No deadline"
+                value={moduleForm.due_offset_days}
+                onChange={(e) => setModuleForm({ ...moduleForm, due_offset_days: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setModulePath(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveModule} disabled={saving}>
+              {editingModule ? "Update Module" : "Add Module"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default TrainingPathManagementTab;
@@ -0,0 +1,426 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent } from "@/components/ui/card";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Loader2, Plus, Trash2, X } from "lucide-react";
+import {
+  QUESTION_TYPES,
+  QuestionType,
+  QuizQuestion,
+  TRUE_FALSE_OPTIONS,
+  getQuestionError,
+  toQuizQuestions,
+} from "@/lib/quizzes";
+
+interface TrainingQuizEditorProps {
+  session: { id: string; title: string } | null;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const newQuestion = (type: QuestionType = "multiple_choice"): QuizQuestion => ({
+  id: Date.now().toString(),
+  type,
+  prompt: "",
+  options: type === "multiple_choice" ? ["Option 1", "Option 2"] : undefined,
+  correct_answers: [],
+});
+
+const TrainingQuizEditor = ({ session, onClose, onSaved }: TrainingQuizEditorProps) => {
+  const [quizId, setQuizId] = useState<string | null>(null);
+  const [passingScore, setPassingScore] = useState("70");
+  const [maxAttempts, setMaxAttempts] = useState("");
+  const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [removeDialogOpen, setRemoveDialogOpen] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const loadQuiz = useCallback(async (sessionId: string) => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("training_quizzes")
+        .select("*")
+        .eq("training_session_id", sessionId)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      setQuizId(data?.id || null);
+      setPassingScore((data?.passing_score ?? 70).toString());
+      setMaxAttempts(data?.max_attempts?.toString() || "");
+      setQuestions(data ? toQuizQuestions(data.questions) : [newQuestion()]);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error loading quiz",
+        description: (error as Error).message,
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  const sessionId = session?.id;
+
+  useEffect(() => {
+    if (sessionId) loadQuiz(sessionId);
+  }, [sessionId, loadQuiz]);
+
+  const updateQuestion = (index: number, changes: Partial<QuizQuestion>) => {
+    setQuestions((current) => current.map((q, i) => (i === index ? { ...q, ...changes } : q)));
+  };
+
+  // Answers and options don't carry over between question types
+  const changeType = (index: number, type: QuestionType) => {
+    const { id, prompt } = questions[index];
+    updateQuestion(index, { ...newQuestion(type), id, prompt });
+  };
+
+  const updateOption = (index: number, optionIndex: number, value: string) => {
+    const question = questions[index];
+    const previous = question.options?.[optionIndex];
+    updateQuestion(index, {
+      options: question.options?.map((o, i) => (i === optionIndex ? value : o)),
+      correct_answers: question.correct_answers.map((a) => (a === previous ? value : a)),
+    });
+  };
+
+  const removeOption = (index: number, optionIndex: number) => {
+    const question = questions[index];
+    const removed = question.options?.[optionIndex];
+    updateQuestion(index, {
+      options: question.options?.filter((_, i) => i !== optionIndex),
+      correct_answers: question.correct_answers.filter((a) => a !== removed),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!session) return;
+
+    const score = parseInt(passingScore);
+    const attempts = maxAttempts ? parseInt(maxAttempts) : null;
+
+    if (isNaN(score) || score < 0 || score > 100) {
+      toast({
+        variant: "destructive",
+        title: "Invalid passing score",
+        description: "Enter a percentage between 0 and 100",
+      });
+      return;
+    }
+    if (attempts !== null && (isNaN(attempts) || attempts < 1)) {
+      toast({
+        variant: "destructive",
+        title: "Invalid attempt limit",
+        description: "Leave the attempt limit blank or enter at least 1",
+      });
+      return;
+    }
+    if (questions.length === 0) {
+      toast({
+        variant: "destructive",
+        title: "No questions",
+        description: "Add at least one question, or remove the quiz",
+      });
+      return;
+    }
+
+    const problem = questions.map(getQuestionError).findIndex(Boolean);
+    if (problem !== -1) {
+      toast({
+        variant: "destructive",
+        title: `Question ${problem + 1} is incomplete`,
+        description: getQuestionError(questions[problem]),
+      });
+      return;
+    }
+
+    const cleaned = questions.map((q) => ({
+      ...q,
+      prompt: q.prompt.trim(),
+      options: q.options?.map((o) => o.trim()).filter(Boolean),
+      correct_answers: q.correct_answers.map((a) => a.trim()).filter(Boolean),
+    }));
+
+    setSaving(true);
+    try {
+      const quizData = {
+        passing_score: score,
+        max_attempts: attempts,
+        questions: cleaned as unknown as Json,
+      };
+
+      const { error } = quizId
+        ? await supabase.from("training_quizzes").update(quizData).eq("id", quizId)
+        : await supabase
+            .from("training_quizzes")
+            .insert({ ...quizData, training_session_id: session.id, created_by: user?.id });
+
+      if (error) throw error;
+
+      toast({ title: "Quiz saved successfully" });
+      onSaved();
+      onClose();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error saving quiz",
+        description: (error as Error).message,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!quizId) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from("training_quizzes").delete().eq("id", quizId);
+      if (error) throw error;
+
+      toast({ title: "Quiz removed" });
+      setRemoveDialogOpen(false);
+      onSaved();
+      onClose();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error removing quiz",
+        description: (error as Error).message,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={!!session} onOpenChange={(open) => !open && onClose()}>
+        <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Quiz: {session?.title}</DialogTitle>
+            <DialogDescription>
+              Employees must pass this quiz to complete the session when it is mandatory.
+            </DialogDescription>
+          </DialogHeader>
+
+          {loading ? (
+            <div className="text-muted-foreground">Loading quiz...</div>
+          ) : (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>Passing score (%)</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={passingScore}
+                    onChange={(e) => setPassingScore(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label>Attempts allowed</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    placeholder="Unlimited"
+                    value={maxAttempts}
+                    onChange={(e) => setMaxAttempts(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              {questions.map((question, index) => (
+                <Card key={question.id}>
+                  <CardContent className="pt-6 space-y-3">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium">Question {index + 1}</span>
+                      <Select
+                        value={question.type}
+                        onValueChange={(value) => changeType(index, value as QuestionType)}
+                      >
+                        <SelectTrigger className="w-[160px] ml-auto">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {QUESTION_TYPES.map((type) => (
+                            <SelectItem key={type.value} value={type.value}>
+                              {type.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setQuestions((current) => current.filter((_, i) => i !== index))}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+
+                    <Textarea
+                      placeholder="Question"
+                      value={question.prompt}
+                      onChange={(e) => updateQuestion(index, { prompt: e.target.value })}
+                      rows={2}
+                    />
+
+                    {question.type === "short_answer" ? (
+                      <div>
+                        <Label>Accepted answers (one per line)</Label>
+                        <Textarea
+                          value={question.correct_answers.join("\n")}
+                          onChange={(e) => updateQuestion(index, { correct_answers: e.target.value.split("\n") })}
+                          rows={2}
+                        />
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Answers are matched ignoring capitalisation and surrounding spaces.
+                        </p>
+                      </div>
+                    ) : (
+                      <div className="space-y-2">
+                        <Label>Select the correct answer</Label>
+                        <RadioGroup
+                          value={question.correct_answers[0] || ""}
+                          onValueChange={(value) => updateQuestion(index, { correct_answers: [value] })}
+                        >
+                          {question.type === "true_false"
+                            ? TRUE_FALSE_OPTIONS.map((option) => (
+                                <div key={option} className="flex items-center gap-2">
+                                  <RadioGroupItem value={option} id={`${question.id}-${option}`} />
+                                  <Label htmlFor={`${question.id}-${option}`} className="font-normal">
+                                    {option}
+                                  </Label>
+                                </div>
+                              ))
+                            : question.options?.map((option, optionIndex) => (
+                                <div key={optionIndex} className="flex items-center gap-2">
+                                  <RadioGroupItem value={option} disabled={!option.trim()} />
+                                  <Input
+                                    value={option}
+                                    onChange={(e) => updateOption(index, optionIndex, e.target.value)}
+                                  />
+                                  <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    onClick={() => removeOption(index, optionIndex)}
+                                  >
+                                    <X className="w-4 h-4" />
+                                  </Button>
+                                </div>
+                              ))}
+                        </RadioGroup>
+                        {question.type === "multiple_choice" && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() =>
+                              updateQuestion(index, {
+                                options: [...(question.options || []), `Option ${(question.options?.length || 0) + 1}`],
+                              })
+                            }
+                          >
+                            <Plus className="w-4 h-4 mr-2" />
+                            Add Option
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              ))}
+
+              <Button variant="outline" className="w-full" onClick={() => setQuestions([...questions, newQuestion()])}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add Question
+              </Button>
+            </div>
+          )}
+
+          <DialogFooter className="gap-2">
+            {quizId && (
+              <Button
+                variant="destructive"
+                className="sm:mr-auto"
+                onClick={() => setRemoveDialogOpen(true)}
+                disabled={saving}
+              >
+                Remove Quiz
+              </Button>
+            )}
+            <Button variant="outline" onClick={onClose} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving || loading}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save Quiz
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={removeDialogOpen} onOpenChange={setRemoveDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove this quiz?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every employee's attempts at this quiz will be deleted, and "{session?.title}" can be
+              completed without one.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={saving}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRemove}
+              disabled={saving}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {saving ? "Removing..." : "Remove"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default TrainingQuizEditor;
@@ -0,0 +1,183 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ADDRESS_PARTS, AddressValue, FieldValue, FormField } from "@/lib/formFields";
+import SignaturePad from "./SignaturePad";
+
+interface DynamicFieldInputProps {
+  field: FormField;
+  value: FieldValue | undefined;
+  onChange: (value: FieldValue) => void;
+  required?: boolean;
+  invalid?: boolean;
+}
+
+// Input control for one form field, shared by the form builder preview and
+// the onboarding wizard. File and section fields are rendered by the caller.
+const DynamicFieldInput = ({ field, value, onChange, required = field.required, invalid }: DynamicFieldInputProps) => {
+  const placeholder = field.placeholder || `Enter ${field.label.toLowerCase()}`;
+  const errorClass = invalid ? "border-red-500" : "";
+  const options = (field.options || []).filter(Boolean);
+
+  switch (field.type) {
+    case "textarea":
+      return (
+        <Textarea
+          id={field.id}
+          placeholder={placeholder}
+          value={(value as string) || ""}
+          onChange={(e) => onChange(e.target.value)}
+          required={required}
+          rows={3}
+          className={errorClass}
+        />
+      );
+
+    case "number":
+      return (
+        <Input
+          id={field.id}
+          type="number"
+          placeholder={placeholder}
+          min={field.validation?.min}
+          max={field.validation?.max}
+          value={(value as string) ?? ""}
+          onChange={(e) => onChange(e.target.value)}
+          required={required}
+          className={errorClass}
+        />
+      );
+
+    case "date":
+      return (
+        <Input
+          id={field.id}
+          type="date"
+          value={(value as string) || ""}
+          onChange={(e) => onChange(e.target.value)}
+          required={required}
+          className={errorClass}
+        />
+      );
+
+    case "dropdown":
+      return (
+        <Select value={(value as string) || ""} onValueChange={onChange} required={required}>
+          <SelectTrigger className={errorClass}>
+            <SelectValue placeholder={field.placeholder || `Select ${field.label.toLowerCase()}`} />
+          </SelectTrigger>
+          <SelectContent>
+            {options.map((option, index) => (
+              <SelectItem key={index} value={option}>
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+
+    case "radio":
+      return (
+        <RadioGroup value={(value as string) || ""} onValueChange={onChange} required={required}>
+          {options.map((option, index) => (
+            <div key={index} className="flex items-center space-x-2">
+              <RadioGroupItem value={option} id={`${field.id}-${index}`} />
+              <Label htmlFor={`${field.id}-${index}`} className="font-normal">
+                {option}
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+      );
+
+    case "multiselect": {
+      const selected = Array.isArray(value) ? value : [];
+      return (
+        <div className={`space-y-2 rounded-md border p-3 ${errorClass}`}>
+          {options.map((option, index) => (
+            <div key={index} className="flex items-center space-x-2">
+              <Checkbox
+                id={`${field.id}-${index}`}
+                checked={selected.includes(option)}
+                onCheckedChange={(checked) =>
+                  onChange(checked ? [...selected, option] : selected.filter((item) => item !== option))
+                }
+              />
+              <Label htmlFor={`${field.id}-${index}`} className="font-normal">
+                {option}
+              </Label>
+            </div>
+          ))}
+        </div>
+      );
+    }
+
+    case "checkbox":
+      return (
+        <div className="flex items-center space-x-2">
+          <Checkbox id={field.id} checked={value === true} onCheckedChange={(checked) => onChange(checked === true)} />
+          <Label htmlFor={field.id} className="font-normal">
+            {field.placeholder || "Yes"}
+          </Label>
+        </div>
+      );
+
+    case "acknowledgement":
+      return (
+        <div className={`space-y-3 rounded-md border bg-muted/40 p-4 ${errorClass}`}>
+          {field.description && <p className="text-sm whitespace-pre-wrap">{field.description}</p>}
+          <div className="flex items-center space-x-2">
+            <Checkbox id={field.id} checked={value === true} onCheckedChange={(checked) => onChange(checked === true)} />
+            <Label htmlFor={field.id} className="font-normal">
+              {field.placeholder || "I have read and agree to the above"}
+            </Label>
+          </div>
+        </div>
+      );
+
+    case "address": {
+      const address = value && typeof value === "object" && !Array.isArray(value) ? value : {};
+      const updatePart = (key: keyof AddressValue, partValue: string) => onChange({ ...address, [key]: partValue });
+      return (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {ADDRESS_PARTS.map(({ key, label }) => (
+            <Input
+              key={key}
+              id={key === "line1" ? field.id : `${field.id}-${key}`}
+              placeholder={label}
+              value={address[key] || ""}
+              onChange={(e) => updatePart(key, e.target.value)}
+              required={required && key !== "line2"}
+              className={`${key === "line1" || key === "line2" ? "sm:col-span-2" : ""} ${errorClass}`}
+            />
+          ))}
+        </div>
+      );
+    }
+
+    case "signature":
+      return <SignaturePad value={(value as string) || ""} onChange={onChange} invalid={invalid} />;
+
+    case "file":
+    case "section":
+      return null;
+
+    default:
+      return (
+        <Input
+          id={field.id}
+          type={field.type === "phone" ? "tel" : field.type === "email" ? "email" : "text"}
+          placeholder={placeholder}
+          value={(value as string) || ""}
+          onChange={(e) => onChange(e.target.value)}
+          required={required}
+          className={errorClass}
+        />
+      );
+  }
+};
+
+export default DynamicFieldInput;
@@ -0,0 +1,103 @@
+import { useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Eraser } from "lucide-react";
+
+interface SignaturePadProps {
+  value?: string;
+  onChange: (value: string) => void;
+  invalid?: boolean;
+}
+
+const CANVAS_WIDTH = 500;
+const CANVAS_HEIGHT = 160;
+
+// Draw-to-sign canvas; the signature is stored as a PNG data URL
+const SignaturePad = ({ value, onChange, invalid }: SignaturePadProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+  // Only restored once; afterwards the canvas itself holds the drawing
+  const initialValue = useRef(value);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !context) return;
+
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    if (initialValue.current) {
+      const image = new Image();
+      image.onload = () => context.drawImage(image, 0, 0);
+      image.src = initialValue.current;
+    }
+  }, []);
+
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * CANVAS_WIDTH,
+      y: ((e.clientY - rect.top) / rect.height) * CANVAS_HEIGHT,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = e.currentTarget.getContext("2d");
+    if (!context) return;
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawing.current = true;
+    const { x, y } = getPoint(e);
+    context.lineWidth = 2;
+    context.lineCap = "round";
+    context.strokeStyle = "#111827";
+    context.beginPath();
+    context.moveTo(x, y);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    const context = e.currentTarget.getContext("2d");
+    if (!context) return;
+
+    const { x, y } = getPoint(e);
+    context.lineTo(x, y);
+    context.stroke();
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    drawing.current = false;
+    onChange(e.currentTarget.toDataURL("image/png"));
+  };
+
+  const clear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext("2d")?.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    onChange("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <canvas
+        ref={canvasRef}
+        width={CANVAS_WIDTH}
+        height={CANVAS_HEIGHT}
+        className={`w-full h-40 rounded-md border bg-white touch-none cursor-crosshair ${
+          invalid ? "border-red-500" : "border-input"
+        }`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+      />
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>Sign above using your mouse or finger</span>
+        <Button type="button" variant="ghost" size="sm" onClick={clear}>
+          <Eraser className="w-3 h-3 mr-1" />
+          Clear
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default SignaturePad;
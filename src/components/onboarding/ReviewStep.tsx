@@ -0,0 +1,46 @@
+import { Button } from "@/components/ui/button";
+import { Pencil } from "lucide-react";
+
+export interface ReviewSection {
+  stepIndex: number;
+  title: string;
+  items: { label: string; value: string }[];
+}
+
+interface ReviewStepProps {
+  sections: ReviewSection[];
+  onEdit: (stepIndex: number) => void;
+}
+
+const ReviewStep = ({ sections, onEdit }: ReviewStepProps) => (
+  <div className="space-y-4">
+    <p className="text-sm text-muted-foreground">
+      Check your answers before submitting. You can go back to any step to make changes.
+    </p>
+    {sections.map((section) => (
+      <div key={section.stepIndex} className="rounded-lg border p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold">{section.title}</h3>
+          <Button type="button" variant="ghost" size="sm" onClick={() => onEdit(section.stepIndex)}>
+            <Pencil className="w-3 h-3 mr-1" />
+            Edit
+          </Button>
+        </div>
+        {section.items.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing to review</p>
+        ) : (
+          <dl className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {section.items.map((item) => (
+              <div key={item.label}>
+                <dt className="text-xs text-muted-foreground">{item.label}</dt>
+                <dd className="text-sm break-words">{item.value || "—"}</dd>
+              </div>
+            ))}
+          </dl>
+        )}
+      </div>
+    ))}
+  </div>
+);
+
+export default ReviewStep;
@@ -0,0 +1,58 @@
+import { Progress } from "@/components/ui/progress";
+import { Check } from "lucide-react";
+
+export interface WizardStep {
+  id: string;
+  title: string;
+  description?: string;
+}
+
+interface StepIndicatorProps {
+  steps: WizardStep[];
+  currentStep: number;
+  onStepClick?: (index: number) => void;
+}
+
+const StepIndicator = ({ steps, currentStep, onStepClick }: StepIndicatorProps) => {
+  const progress = steps.length > 1 ? (currentStep / (steps.length - 1)) * 100 : 100;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between text-sm">
+        <span className="font-medium">{steps[currentStep]?.title}</span>
+        <span className="text-muted-foreground">
+          Step {currentStep + 1} of {steps.length}
+        </span>
+      </div>
+      <Progress value={progress} className="h-2" />
+      <div className="flex flex-wrap gap-2">
+        {steps.map((step, index) => {
+          const isDone = index < currentStep;
+          const isCurrent = index === currentStep;
+
+          return (
+            <button
+              key={step.id}
+              type="button"
+              // Only completed steps can be revisited from here
+              disabled={!isDone || !onStepClick}
+              onClick={() => onStepClick?.(index)}
+              className={`flex items-center gap-1 rounded-full px-2 py-0.5 text-xs transition-colors ${
+                isCurrent
+                  ? "bg-primary text-primary-foreground"
+                  : isDone
+                    ? "bg-primary/10 text-primary hover:bg-primary/20"
+                    : "bg-muted text-muted-foreground"
+              }`}
+            >
+              {isDone && <Check className="w-3 h-3" />}
+              {step.title}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default StepIndicator;
@@ -0,0 +1,29 @@
+import { createContext, useContext } from "react";
+import { User, Session } from "@supabase/supabase-js";
+import { AppRole, Permission, RoleAssignment } from "@/lib/permissions";
+
+interface AuthContextValue {
+  user: User | null;
+  session: Session | null;
+  roles: RoleAssignment[];
+  // True until both the session and the user's roles are known
+  loading: boolean;
+  can: (permission: Permission) => boolean;
+  hasRole: (...roles: AppRole[]) => boolean;
+  canAccessDepartment: (departmentId: string | null) => boolean;
+  isStaff: boolean;
+  hasOrganisationScope: boolean;
+  managedDepartmentIds: string[];
+  refreshRoles: () => Promise<void>;
+}
+
+// Provided by AuthProvider
+export const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
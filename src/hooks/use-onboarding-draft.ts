@@ -0,0 +1,117 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { Json } from "@/integrations/supabase/types";
+import { FieldValue } from "@/lib/formFields";
+
+const AUTOSAVE_DELAY_MS = 1500;
+
+// A file already uploaded to the documents bucket while filling in the wizard
+export interface DraftFile {
+  path: string;
+  file_name: string;
+  file_type: string;
+}
+
+export interface OnboardingDraft {
+  department_id: string | null;
+  answers: Record<string, FieldValue>;
+  uploaded_files: Record<string, DraftFile>;
+  current_step: number;
+}
+
+export function useOnboardingDraft() {
+  const [draft, setDraft] = useState<OnboardingDraft | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+  const timer = useRef<ReturnType<typeof setTimeout>>();
+  const { user } = useAuth();
+  const userId = user?.id;
+
+  useEffect(() => {
+    const loadDraft = async () => {
+      if (!userId) {
+        setLoaded(true);
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from("onboarding_drafts")
+        .select("*")
+        .eq("user_id", userId)
+        .maybeSingle();
+
+      if (error) {
+        console.error("Error loading onboarding draft:", error);
+      } else if (data) {
+        setDraft({
+          department_id: data.department_id,
+          answers: (data.answers as Record<string, FieldValue>) || {},
+          uploaded_files: (data.uploaded_files as unknown as Record<string, DraftFile>) || {},
+          current_step: data.current_step,
+        });
+        setLastSavedAt(data.updated_at ? new Date(data.updated_at) : null);
+      }
+      setLoaded(true);
+    };
+
+    loadDraft();
+    return () => clearTimeout(timer.current);
+  }, [userId]);
+
+  const saveDraft = useCallback(async (next: OnboardingDraft) => {
+    if (!userId) return;
+
+    setSaving(true);
+    const { error } = await supabase.from("onboarding_drafts").upsert({
+      user_id: userId,
+      department_id: next.department_id,
+      answers: next.answers as Json,
+      uploaded_files: next.uploaded_files as unknown as Json,
+      current_step: next.current_step,
+    });
+    setSaving(false);
+
+    if (error) {
+      console.error("Error saving onboarding draft:", error);
+      return;
+    }
+    setLastSavedAt(new Date());
+  }, [userId]);
+
+  // Debounced so typing doesn't write on every keystroke
+  const scheduleSave = useCallback(
+    (next: OnboardingDraft) => {
+      clearTimeout(timer.current);
+      timer.current = setTimeout(() => saveDraft(next), AUTOSAVE_DELAY_MS);
+    },
+    [saveDraft]
+  );
+
+  // Remove the draft once its contents have been submitted
+  const clearDraft = useCallback(async () => {
+    clearTimeout(timer.current);
+    if (!userId) return;
+
+    const { error } = await supabase.from("onboarding_drafts").delete().eq("user_id", userId);
+    if (error) throw error;
+
+    setDraft(null);
+    setLastSavedAt(null);
+  }, [userId]);
+
+  // Throw the draft away, including any files uploaded for it
+  const discardDraft = useCallback(
+    async (files: DraftFile[]) => {
+      if (files.length > 0) {
+        const { error } = await supabase.storage.from("documents").remove(files.map((f) => f.path));
+        if (error) console.warn("Removing draft uploads failed:", error.message);
+      }
+      await clearDraft();
+    },
+    [clearDraft]
+  );
+
+  return { draft, loaded, saving, lastSavedAt, scheduleSave, clearDraft, discardDraft };
+}
@@ -14,6 +14,62 @@ export type Database = {
   }
   public: {
     Tables: {
+      app_settings: {
+        Row: {
+          key: string
+          updated_at: string | null
+          updated_by: string | null
+          value: Json
+        }
+        Insert: {
+          key: string
+          updated_at?: string | null
+          updated_by?: string | null
+          value: Json
+        }
+        Update: {
+          key?: string
+          updated_at?: string | null
+          updated_by?: string | null
+          value?: Json
+        }
+        Relationships: []
+      }
+      checklist_item_signoffs: {
+        Row: {
+          created_at: string | null
+          id: string
+          item_id: string
+          notes: string | null
+          signed_off_by: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          item_id: string
+          notes?: string | null
+          signed_off_by?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          item_id?: string
+          notes?: string | null
+          signed_off_by?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "checklist_item_signoffs_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "department_checklist_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       departments: {
         Row: {
           created_at: string | null
@@ -44,7 +100,13 @@ export type Database = {
           file_type: string
           file_url: string
           id: string
+          replaces_document_id: string | null
+          review_notes: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
           status: Database["public"]["Enums"]["document_status"] | null
+          template_id: string | null
+          template_version: number | null
           title: string
           updated_at: string | null
           uploaded_by_admin: boolean | null
@@ -58,7 +120,13 @@ export type Database = {
           file_type: string
           file_url: string
           id?: string
+          replaces_document_id?: string | null
+          review_notes?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
           status?: Database["public"]["Enums"]["document_status"] | null
+          template_id?: string | null
+          template_version?: number | null
           title: string
           updated_at?: string | null
           uploaded_by_admin?: boolean | null
@@ -72,7 +140,13 @@ export type Database = {
           file_type?: string
           file_url?: string
           id?: string
+          replaces_document_id?: string | null
+          review_notes?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
           status?: Database["public"]["Enums"]["document_status"] | null
+          template_id?: string | null
+          template_version?: number | null
           title?: string
           updated_at?: string | null
           uploaded_by_admin?: boolean | null
@@ -86,6 +160,79 @@ export type Database = {
             referencedRelation: "departments"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "documents_replaces_document_id_fkey"
+            columns: ["replaces_document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "documents_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "department_document_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      employee_invitations: {
+        Row: {
+          accepted_at: string | null
+          accepted_by: string | null
+          created_at: string | null
+          department_id: string
+          email: string
+          expires_at: string
+          full_name: string
+          id: string
+          invited_by: string | null
+          join_date: string
+          phone_number: string | null
+          revoked_at: string | null
+          role: Database["public"]["Enums"]["app_role"]
+          token: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string | null
+          department_id: string
+          email: string
+          expires_at?: string
+          full_name: string
+          id?: string
+          invited_by?: string | null
+          join_date?: string
+          phone_number?: string | null
+          revoked_at?: string | null
+          role?: Database["public"]["Enums"]["app_role"]
+          token?: string
+        }
+        Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string | null
+          department_id?: string
+          email?: string
+          expires_at?: string
+          full_name?: string
+          id?: string
+          invited_by?: string | null
+          join_date?: string
+          phone_number?: string | null
+          revoked_at?: string | null
+          role?: Database["public"]["Enums"]["app_role"]
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "employee_invitations_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
         ]
       }
       form_assignments: {
@@ -162,25 +309,547 @@ export type Database = {
         }
         Relationships: [
           {
-            foreignKeyName: "form_fields_department_id_fkey"
-            columns: ["department_id"]
+            foreignKeyName: "form_fields_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      department_checklist_items: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          department_id: string
+          description: string | null
+          due_offset_days: number
+          id: string
+          position: number
+          task_type: Database["public"]["Enums"]["checklist_task_type"]
+          template_id: string | null
+          title: string
+          training_session_id: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          department_id: string
+          description?: string | null
+          due_offset_days?: number
+          id?: string
+          position?: number
+          task_type: Database["public"]["Enums"]["checklist_task_type"]
+          template_id?: string | null
+          title: string
+          training_session_id?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          department_id?: string
+          description?: string | null
+          due_offset_days?: number
+          id?: string
+          position?: number
+          task_type?: Database["public"]["Enums"]["checklist_task_type"]
+          template_id?: string | null
+          title?: string
+          training_session_id?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "department_checklist_items_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "department_checklist_items_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "department_document_templates"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "department_checklist_items_training_session_id_fkey"
+            columns: ["training_session_id"]
+            isOneToOne: false
+            referencedRelation: "training_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      department_document_template_versions: {
+        Row: {
+          created_at: string | null
+          file_name: string
+          file_type: string
+          file_url: string
+          id: string
+          template_id: string
+          uploaded_by: string | null
+          version: number
+        }
+        Insert: {
+          created_at?: string | null
+          file_name: string
+          file_type: string
+          file_url: string
+          id?: string
+          template_id: string
+          uploaded_by?: string | null
+          version: number
+        }
+        Update: {
+          created_at?: string | null
+          file_name?: string
+          file_type?: string
+          file_url?: string
+          id?: string
+          template_id?: string
+          uploaded_by?: string | null
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "department_document_template_versions_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "department_document_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      department_document_templates: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          department_id: string
+          description: string | null
+          file_name: string
+          file_type: string
+          file_url: string
+          id: string
+          is_required: boolean | null
+          title: string
+          updated_at: string | null
+          version: number
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          department_id: string
+          description?: string | null
+          file_name: string
+          file_type: string
+          file_url: string
+          id?: string
+          is_required?: boolean | null
+          title: string
+          updated_at?: string | null
+          version?: number
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          department_id?: string
+          description?: string | null
+          file_name?: string
+          file_type?: string
+          file_url?: string
+          id?: string
+          is_required?: boolean | null
+          title?: string
+          updated_at?: string | null
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "department_document_templates_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      notifications: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          id: string
+          link: string | null
+          message: string | null
+          read_at: string | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          link?: string | null
+          message?: string | null
+          read_at?: string | null
+          title: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          link?: string | null
+          message?: string | null
+          read_at?: string | null
+          title?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      onboarding_drafts: {
+        Row: {
+          answers: Json
+          created_at: string | null
+          current_step: number
+          department_id: string | null
+          updated_at: string | null
+          uploaded_files: Json
+          user_id: string
+        }
+        Insert: {
+          answers?: Json
+          created_at?: string | null
+          current_step?: number
+          department_id?: string | null
+          updated_at?: string | null
+          uploaded_files?: Json
+          user_id: string
+        }
+        Update: {
+          answers?: Json
+          created_at?: string | null
+          current_step?: number
+          department_id?: string | null
+          updated_at?: string | null
+          uploaded_files?: Json
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "onboarding_drafts_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      onboarding_documents: {
+        Row: {
+          document_type: Database["public"]["Enums"]["document_type"]
+          file_name: string
+          file_type: string
+          file_url: string
+          id: string
+          uploaded_at: string | null
+          user_id: string
+        }
+        Insert: {
+          document_type: Database["public"]["Enums"]["document_type"]
+          file_name: string
+          file_type: string
+          file_url: string
+          id?: string
+          uploaded_at?: string | null
+          user_id: string
+        }
+        Update: {
+          document_type?: Database["public"]["Enums"]["document_type"]
+          file_name?: string
+          file_type?: string
+          file_url?: string
+          id?: string
+          uploaded_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      onboarding_status_history: {
+        Row: {
+          changed_by: string | null
+          created_at: string | null
+          from_status: Database["public"]["Enums"]["onboarding_status"] | null
+          id: string
+          to_status: Database["public"]["Enums"]["onboarding_status"]
+          user_id: string
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string | null
+          from_status?: Database["public"]["Enums"]["onboarding_status"] | null
+          id?: string
+          to_status: Database["public"]["Enums"]["onboarding_status"]
+          user_id: string
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string | null
+          from_status?: Database["public"]["Enums"]["onboarding_status"] | null
+          id?: string
+          to_status?: Database["public"]["Enums"]["onboarding_status"]
+          user_id?: string
+        }
+        Relationships: []
+      }
+      onboarding_status_transitions: {
+        Row: {
+          employee_allowed: boolean
+          from_status: Database["public"]["Enums"]["onboarding_status"]
+          to_status: Database["public"]["Enums"]["onboarding_status"]
+        }
+        Insert: {
+          employee_allowed?: boolean
+          from_status: Database["public"]["Enums"]["onboarding_status"]
+          to_status: Database["public"]["Enums"]["onboarding_status"]
+        }
+        Update: {
+          employee_allowed?: boolean
+          from_status?: Database["public"]["Enums"]["onboarding_status"]
+          to_status?: Database["public"]["Enums"]["onboarding_status"]
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          created_at: string | null
+          department_id: string | null
+          department_specific_data: Json | null
+          email: string
+          full_name: string
+          id: string
+          join_date: string
+          onboarding_status: Database["public"]["Enums"]["onboarding_status"]
+          phone_number: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          department_id?: string | null
+          department_specific_data?: Json | null
+          email: string
+          full_name: string
+          id: string
+          join_date?: string
+          onboarding_status?: Database["public"]["Enums"]["onboarding_status"]
+          phone_number?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          department_id?: string | null
+          department_specific_data?: Json | null
+          email?: string
+          full_name?: string
+          id?: string
+          join_date?: string
+          onboarding_status?: Database["public"]["Enums"]["onboarding_status"]
+          phone_number?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profiles_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      role_change_log: {
+        Row: {
+          action: string
+          changed_by: string | null
+          created_at: string | null
+          department_id: string | null
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          action: string
+          changed_by?: string | null
+          created_at?: string | null
+          department_id?: string | null
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          action?: string
+          changed_by?: string | null
+          created_at?: string | null
+          department_id?: string | null
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "role_change_log_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      training_assignments: {
+        Row: {
+          assigned_at: string | null
+          assigned_by: string | null
+          due_date: string | null
+          due_date_explicit: boolean
+          id: string
+          training_session_id: string
+          user_id: string
+        }
+        Insert: {
+          assigned_at?: string | null
+          assigned_by?: string | null
+          due_date?: string | null
+          due_date_explicit?: boolean
+          id?: string
+          training_session_id: string
+          user_id: string
+        }
+        Update: {
+          assigned_at?: string | null
+          assigned_by?: string | null
+          due_date?: string | null
+          due_date_explicit?: boolean
+          id?: string
+          training_session_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "training_assignments_training_session_id_fkey"
+            columns: ["training_session_id"]
+            isOneToOne: false
+            referencedRelation: "training_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      training_certificates: {
+        Row: {
+          completed_at: string
+          document_id: string | null
+          employee_name: string
+          id: string
+          issued_at: string
+          session_title: string
+          training_session_id: string
+          user_id: string
+          verification_code: string
+        }
+        Insert: {
+          completed_at: string
+          document_id?: string | null
+          employee_name: string
+          id?: string
+          issued_at?: string
+          session_title: string
+          training_session_id: string
+          user_id: string
+          verification_code: string
+        }
+        Update: {
+          completed_at?: string
+          document_id?: string | null
+          employee_name?: string
+          id?: string
+          issued_at?: string
+          session_title?: string
+          training_session_id?: string
+          user_id?: string
+          verification_code?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "training_certificates_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "training_certificates_training_session_id_fkey"
+            columns: ["training_session_id"]
+            isOneToOne: false
+            referencedRelation: "training_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      training_path_modules: {
+        Row: {
+          created_at: string | null
+          due_offset_days: number | null
+          id: string
+          path_id: string
+          position: number
+          prerequisite_session_ids: string[]
+          training_session_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          due_offset_days?: number | null
+          id?: string
+          path_id: string
+          position?: number
+          prerequisite_session_ids?: string[]
+          training_session_id: string
+        }
+        Update: {
+          created_at?: string | null
+          due_offset_days?: number | null
+          id?: string
+          path_id?: string
+          position?: number
+          prerequisite_session_ids?: string[]
+          training_session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "training_path_modules_path_id_fkey"
+            columns: ["path_id"]
+            isOneToOne: false
+            referencedRelation: "training_paths"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "training_path_modules_training_session_id_fkey"
+            columns: ["training_session_id"]
             isOneToOne: false
-            referencedRelation: "departments"
+            referencedRelation: "training_sessions"
             referencedColumns: ["id"]
-          }
+          },
         ]
       }
-      department_document_templates: {
+      training_paths: {
         Row: {
           created_at: string | null
           created_by: string | null
           department_id: string
           description: string | null
-          file_name: string
-          file_type: string
-          file_url: string
           id: string
-          is_required: boolean | null
           title: string
           updated_at: string | null
         }
@@ -189,11 +858,7 @@ export type Database = {
           created_by?: string | null
           department_id: string
           description?: string | null
-          file_name: string
-          file_type: string
-          file_url: string
           id?: string
-          is_required?: boolean | null
           title: string
           updated_at?: string | null
         }
@@ -202,163 +867,153 @@ export type Database = {
           created_by?: string | null
           department_id?: string
           description?: string | null
-          file_name?: string
-          file_type?: string
-          file_url?: string
           id?: string
-          is_required?: boolean | null
           title?: string
           updated_at?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "department_document_templates_department_id_fkey"
+            foreignKeyName: "training_paths_department_id_fkey"
             columns: ["department_id"]
             isOneToOne: false
             referencedRelation: "departments"
             referencedColumns: ["id"]
-          }
+          },
         ]
       }
-      onboarding_documents: {
+      training_progress: {
         Row: {
-          document_type: Database["public"]["Enums"]["document_type"]
-          file_name: string
-          file_type: string
-          file_url: string
+          completed: boolean | null
+          completed_at: string | null
+          first_opened_at: string | null
           id: string
-          uploaded_at: string | null
+          last_accessed_at: string | null
+          open_count: number
+          package_data: Json
+          playback_position_seconds: number
+          progress_percentage: number | null
+          score: number | null
+          time_spent_seconds: number
+          training_session_id: string
           user_id: string
         }
         Insert: {
-          document_type: Database["public"]["Enums"]["document_type"]
-          file_name: string
-          file_type: string
-          file_url: string
+          completed?: boolean | null
+          completed_at?: string | null
+          first_opened_at?: string | null
           id?: string
-          uploaded_at?: string | null
+          last_accessed_at?: string | null
+          open_count?: number
+          package_data?: Json
+          playback_position_seconds?: number
+          progress_percentage?: number | null
+          score?: number | null
+          time_spent_seconds?: number
+          training_session_id: string
           user_id: string
         }
         Update: {
-          document_type?: Database["public"]["Enums"]["document_type"]
-          file_name?: string
-          file_type?: string
-          file_url?: string
+          completed?: boolean | null
+          completed_at?: string | null
+          first_opened_at?: string | null
           id?: string
-          uploaded_at?: string | null
+          last_accessed_at?: string | null
+          open_count?: number
+          package_data?: Json
+          playback_position_seconds?: number
+          progress_percentage?: number | null
+          score?: number | null
+          time_spent_seconds?: number
+          training_session_id?: string
           user_id?: string
         }
-        Relationships: []
-      }
-      profiles: {
-        Row: {
-          created_at: string | null
-          department_id: string | null
-          department_specific_data: Json | null
-          email: string
-          full_name: string
-          id: string
-          onboarding_status: string | null
-          phone_number: string | null
-          updated_at: string | null
-        }
-        Insert: {
-          created_at?: string | null
-          department_id?: string | null
-          department_specific_data?: Json | null
-          email: string
-          full_name: string
-          id: string
-          onboarding_status?: string | null
-          phone_number?: string | null
-          updated_at?: string | null
-        }
-        Update: {
-          created_at?: string | null
-          department_id?: string | null
-          department_specific_data?: Json | null
-          email?: string
-          full_name?: string
-          id?: string
-          onboarding_status?: string | null
-          phone_number?: string | null
-          updated_at?: string | null
-        }
         Relationships: [
           {
-            foreignKeyName: "profiles_department_id_fkey"
-            columns: ["department_id"]
+            foreignKeyName: "training_progress_training_session_id_fkey"
+            columns: ["training_session_id"]
             isOneToOne: false
-            referencedRelation: "departments"
+            referencedRelation: "training_sessions"
             referencedColumns: ["id"]
           },
         ]
       }
-      training_assignments: {
+      training_quiz_attempts: {
         Row: {
-          assigned_at: string | null
-          assigned_by: string | null
+          answers: Json
+          attempt_number: number
           id: string
-          training_session_id: string
+          passed: boolean
+          quiz_id: string
+          score: number
+          submitted_at: string | null
           user_id: string
         }
         Insert: {
-          assigned_at?: string | null
-          assigned_by?: string | null
+          answers?: Json
+          attempt_number: number
           id?: string
-          training_session_id: string
+          passed: boolean
+          quiz_id: string
+          score: number
+          submitted_at?: string | null
           user_id: string
         }
         Update: {
-          assigned_at?: string | null
-          assigned_by?: string | null
+          answers?: Json
+          attempt_number?: number
           id?: string
-          training_session_id?: string
+          passed?: boolean
+          quiz_id?: string
+          score?: number
+          submitted_at?: string | null
           user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "training_assignments_training_session_id_fkey"
-            columns: ["training_session_id"]
+            foreignKeyName: "training_quiz_attempts_quiz_id_fkey"
+            columns: ["quiz_id"]
             isOneToOne: false
-            referencedRelation: "training_sessions"
+            referencedRelation: "training_quizzes"
             referencedColumns: ["id"]
           },
         ]
       }
-      training_progress: {
+      training_quizzes: {
         Row: {
-          completed: boolean | null
-          completed_at: string | null
+          created_at: string | null
+          created_by: string | null
           id: string
-          last_accessed_at: string | null
-          progress_percentage: number | null
+          max_attempts: number | null
+          passing_score: number
+          questions: Json
           training_session_id: string
-          user_id: string
+          updated_at: string | null
         }
         Insert: {
-          completed?: boolean | null
-          completed_at?: string | null
+          created_at?: string | null
+          created_by?: string | null
           id?: string
-          last_accessed_at?: string | null
-          progress_percentage?: number | null
+          max_attempts?: number | null
+          passing_score?: number
+          questions?: Json
           training_session_id: string
-          user_id: string
+          updated_at?: string | null
         }
         Update: {
-          completed?: boolean | null
-          completed_at?: string | null
+          created_at?: string | null
+          created_by?: string | null
           id?: string
-          last_accessed_at?: string | null
-          progress_percentage?: number | null
+          max_attempts?: number | null
+          passing_score?: number
+          questions?: Json
           training_session_id?: string
-          user_id?: string
+          updated_at?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "training_progress_training_session_id_fkey"
+            foreignKeyName: "training_quizzes_training_session_id_fkey"
             columns: ["training_session_id"]
-            isOneToOne: false
+            isOneToOne: true
             referencedRelation: "training_sessions"
             referencedColumns: ["id"]
           },
@@ -370,11 +1025,14 @@ export type Database = {
           created_by: string | null
           department_id: string | null
           description: string | null
+          due_offset_days: number | null
           duration_minutes: number | null
+          file_name: string | null
           id: string
           is_mandatory: boolean | null
           resource_type: string
           resource_url: string | null
+          storage_path: string | null
           title: string
           updated_at: string | null
         }
@@ -383,11 +1041,14 @@ export type Database = {
           created_by?: string | null
           department_id?: string | null
           description?: string | null
+          due_offset_days?: number | null
           duration_minutes?: number | null
+          file_name?: string | null
           id?: string
           is_mandatory?: boolean | null
           resource_type: string
           resource_url?: string | null
+          storage_path?: string | null
           title: string
           updated_at?: string | null
         }
@@ -396,11 +1057,14 @@ export type Database = {
           created_by?: string | null
           department_id?: string | null
           description?: string | null
+          due_offset_days?: number | null
           duration_minutes?: number | null
+          file_name?: string | null
           id?: string
           is_mandatory?: boolean | null
           resource_type?: string
           resource_url?: string | null
+          storage_path?: string | null
           title?: string
           updated_at?: string | null
         }
@@ -416,21 +1080,32 @@ export type Database = {
       }
       user_roles: {
         Row: {
+          department_id: string | null
           id: string
           role: Database["public"]["Enums"]["app_role"]
           user_id: string
         }
         Insert: {
+          department_id?: string | null
           id?: string
           role: Database["public"]["Enums"]["app_role"]
           user_id: string
         }
         Update: {
+          department_id?: string | null
           id?: string
           role?: Database["public"]["Enums"]["app_role"]
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "user_roles_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       department_signup_forms: {
         Row: {
@@ -439,6 +1114,7 @@ export type Database = {
           form_name: string
           form_description: string | null
           form_fields: Json
+          published_revision_id: string | null
           created_at: string | null
           updated_at: string | null
         }
@@ -448,6 +1124,7 @@ export type Database = {
           form_name: string
           form_description?: string | null
           form_fields: Json
+          published_revision_id?: string | null
           created_at?: string | null
           updated_at?: string | null
         }
@@ -457,6 +1134,7 @@ export type Database = {
           form_name?: string
           form_description?: string | null
           form_fields?: Json
+          published_revision_id?: string | null
           created_at?: string | null
           updated_at?: string | null
         }
@@ -467,6 +1145,66 @@ export type Database = {
             isOneToOne: false
             referencedRelation: "departments"
             referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "department_signup_forms_published_revision_id_fkey"
+            columns: ["published_revision_id"]
+            isOneToOne: false
+            referencedRelation: "department_signup_form_revisions"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      department_signup_form_revisions: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          form_description: string | null
+          form_fields: Json
+          form_id: string
+          form_name: string
+          id: string
+          published_at: string | null
+          published_by: string | null
+          revision_number: number
+          status: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          form_description?: string | null
+          form_fields?: Json
+          form_id: string
+          form_name: string
+          id?: string
+          published_at?: string | null
+          published_by?: string | null
+          revision_number?: number
+          status?: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          form_description?: string | null
+          form_fields?: Json
+          form_id?: string
+          form_name?: string
+          id?: string
+          published_at?: string | null
+          published_by?: string | null
+          revision_number?: number
+          status?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "department_signup_form_revisions_form_id_fkey"
+            columns: ["form_id"]
+            isOneToOne: false
+            referencedRelation: "department_signup_forms"
+            referencedColumns: ["id"]
           }
         ]
       }
@@ -474,26 +1212,44 @@ export type Database = {
         Row: {
           form_id: string
           id: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          reviewer_notes: string | null
+          revision_id: string | null
           status: string | null
           submission_data: Json
           submitted_at: string | null
+          updated_at: string | null
           user_id: string
+          version: number
         }
         Insert: {
           form_id: string
           id?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          reviewer_notes?: string | null
+          revision_id?: string | null
           status?: string | null
           submission_data: Json
           submitted_at?: string | null
+          updated_at?: string | null
           user_id: string
+          version?: number
         }
         Update: {
           form_id?: string
           id?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          reviewer_notes?: string | null
+          revision_id?: string | null
           status?: string | null
           submission_data?: Json
           submitted_at?: string | null
+          updated_at?: string | null
           user_id?: string
+          version?: number
         }
         Relationships: [
           {
@@ -503,6 +1259,13 @@ export type Database = {
             referencedRelation: "department_signup_forms"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "department_signup_form_submissions_revision_id_fkey"
+            columns: ["revision_id"]
+            isOneToOne: false
+            referencedRelation: "department_signup_form_revisions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "department_signup_form_submissions_user_id_fkey"
             columns: ["user_id"]
@@ -517,6 +1280,39 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      attach_certificate_document: {
+        Args: { _certificate_id: string }
+        Returns: string
+      }
+      generate_certificate_code: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      get_invitation: {
+        Args: { _token: string }
+        Returns: {
+          department_name: string
+          email: string
+          full_name: string
+          join_date: string
+          phone_number: string
+        }[]
+      }
+      get_training_due_date: {
+        Args: { _session_id: string; _user_id: string }
+        Returns: string
+      }
+      get_training_quiz: {
+        Args: { _session_id: string }
+        Returns: Json
+      }
+      has_any_role: {
+        Args: {
+          _roles: Database["public"]["Enums"]["app_role"][]
+          _user_id: string
+        }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -524,20 +1320,138 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_training_locked: {
+        Args: { _session_id: string; _user_id: string }
+        Returns: boolean
+      }
+      manages_department: {
+        Args: { _department_id: string; _user_id: string }
+        Returns: boolean
+      }
+      manages_department_folder: {
+        Args: { _folder: string; _user_id: string }
+        Returns: boolean
+      }
+      manages_employee: {
+        Args: { _employee_id: string; _user_id: string }
+        Returns: boolean
+      }
+      manages_employee_folder: {
+        Args: { _folder: string; _user_id: string }
+        Returns: boolean
+      }
+      publish_department_signup_form_revision: {
+        Args: { _revision_id: string }
+        Returns: string
+      }
+      record_training_activity: {
+        Args: {
+          _completed?: boolean
+          _opened?: boolean
+          _position?: number
+          _progress?: number
+          _seconds?: number
+          _session_id: string
+        }
+        Returns: {
+          completed: boolean | null
+          completed_at: string | null
+          first_opened_at: string | null
+          id: string
+          last_accessed_at: string | null
+          open_count: number
+          package_data: Json
+          playback_position_seconds: number
+          progress_percentage: number | null
+          score: number | null
+          time_spent_seconds: number
+          training_session_id: string
+          user_id: string
+        }
+      }
+      save_training_package_state: {
+        Args: { _data: Json; _score?: number; _session_id: string }
+        Returns: {
+          completed: boolean | null
+          completed_at: string | null
+          first_opened_at: string | null
+          id: string
+          last_accessed_at: string | null
+          open_count: number
+          package_data: Json
+          playback_position_seconds: number
+          progress_percentage: number | null
+          score: number | null
+          time_spent_seconds: number
+          training_session_id: string
+          user_id: string
+        }
+      }
       setup_admin_user: {
         Args: { user_email: string }
         Returns: undefined
       }
+      submit_onboarding: {
+        Args: {
+          _department_id: string
+          _documents?: Json
+          _form_id?: string
+          _revision_id?: string
+          _submission_data: Json
+        }
+        Returns: undefined
+      }
+      submit_quiz_attempt: {
+        Args: { _answers: Json; _session_id: string }
+        Returns: {
+          answers: Json
+          attempt_number: number
+          id: string
+          passed: boolean
+          quiz_id: string
+          score: number
+          submitted_at: string | null
+          user_id: string
+        }
+      }
+      verify_training_certificate: {
+        Args: { _code: string }
+        Returns: {
+          completed_at: string
+          employee_name: string
+          issued_at: string
+          session_title: string
+        }[]
+      }
     }
     Enums: {
-      app_role: "admin" | "employee"
-      document_status: "pending" | "approved" | "rejected"
+      app_role:
+      | "admin"
+      | "employee"
+      | "hr_manager"
+      | "department_manager"
+      | "auditor"
+      checklist_task_type:
+      | "fill_form"
+      | "upload_template"
+      | "complete_training"
+      | "manual"
+      document_status: "pending" | "approved" | "rejected" | "reupload_requested"
       document_type:
       | "aadhaar_card"
       | "police_verification"
       | "offer_letter"
       | "resume"
       | "other"
+      onboarding_status:
+      | "invited"
+      | "profile_started"
+      | "documents_uploaded"
+      | "under_review"
+      | "approved"
+      | "training_in_progress"
+      | "completed"
+      | "blocked"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -665,8 +1579,20 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["admin", "employee"],
-      document_status: ["pending", "approved", "rejected"],
+      app_role: [
+        "admin",
+        "employee",
+        "hr_manager",
+        "department_manager",
+        "auditor",
+      ],
+      checklist_task_type: [
+        "fill_form",
+        "upload_template",
+        "complete_training",
+        "manual",
+      ],
+      document_status: ["pending", "approved", "rejected", "reupload_requested"],
       document_type: [
         "aadhaar_card",
         "police_verification",
@@ -674,6 +1600,16 @@ export const Constants = {
         "resume",
         "other",
       ],
+      onboarding_status: [
+        "invited",
+        "profile_started",
+        "documents_uploaded",
+        "under_review",
+        "approved",
+        "training_in_progress",
+        "completed",
+        "blocked",
+      ],
     },
   },
 } as const
@@ -0,0 +1,136 @@
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { A4_LANDSCAPE, PdfColor, fitTextSize, toPdf } from "@/lib/pdf";
+import { downloadBlob } from "@/lib/spreadsheet";
+
+export type TrainingCertificate = Tables<"training_certificates">;
+
+// The app's --primary and muted foreground colours
+const PRIMARY: PdfColor = [54, 63, 236];
+const MUTED: PdfColor = [100, 116, 139];
+
+export const getCertificateVerifyUrl = (code: string) => `${window.location.origin}/verify/${code}`;
+
+const getCertificateFileName = (certificate: TrainingCertificate) =>
+  `certificate-${certificate.verification_code}.pdf`;
+
+export const createCertificatePdf = (certificate: TrainingCertificate) => {
+  const { width, height } = A4_LANDSCAPE;
+  const center = width / 2;
+  const textWidth = width - 160;
+
+  return toPdf(
+    A4_LANDSCAPE,
+    [
+      { type: "rect", x: 24, y: 24, width: width - 48, height: height - 48, lineWidth: 3, color: PRIMARY },
+      { type: "rect", x: 34, y: 34, width: width - 68, height: height - 68, lineWidth: 0.75, color: PRIMARY },
+      {
+        type: "text",
+        text: "Certificate of Completion",
+        x: center,
+        y: 440,
+        size: 34,
+        bold: true,
+        align: "center",
+        color: PRIMARY,
+      },
+      { type: "text", text: "This certifies that", x: center, y: 385, size: 14, align: "center", color: MUTED },
+      {
+        type: "text",
+        text: certificate.employee_name,
+        x: center,
+        y: 340,
+        size: fitTextSize(certificate.employee_name, 28, textWidth, true),
+        bold: true,
+        align: "center",
+      },
+      {
+        type: "text",
+        text: "has completed the training",
+        x: center,
+        y: 295,
+        size: 14,
+        align: "center",
+        color: MUTED,
+      },
+      {
+        type: "text",
+        text: certificate.session_title,
+        x: center,
+        y: 255,
+        size: fitTextSize(certificate.session_title, 22, textWidth, true),
+        bold: true,
+        align: "center",
+      },
+      {
+        type: "text",
+        text: `Completed on ${format(parseISO(certificate.completed_at), "PPP")}`,
+        x: center,
+        y: 200,
+        size: 13,
+        align: "center",
+      },
+      {
+        type: "text",
+        text: `Verification ID: ${certificate.verification_code}`,
+        x: center,
+        y: 95,
+        size: 11,
+        bold: true,
+        align: "center",
+      },
+      {
+        type: "text",
+        text: `Verify at ${getCertificateVerifyUrl(certificate.verification_code)}`,
+        x: center,
+        y: 76,
+        size: 10,
+        align: "center",
+        color: MUTED,
+      },
+    ],
+    `Certificate - ${certificate.session_title}`
+  );
+};
+
+export async function loadCertificates(userId: string): Promise<TrainingCertificate[]> {
+  const { data, error } = await supabase
+    .from("training_certificates")
+    .select("*")
+    .eq("user_id", userId)
+    .order("completed_at", { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Certificates are issued by the database on completion; the PDF is drawn
+// here and filed in the employee's documents, for review, the next time
+// they're listed
+export async function fileCertificateDocument(certificate: TrainingCertificate) {
+  const filePath = `${certificate.user_id}/certificates/${getCertificateFileName(certificate)}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from("employee_docs")
+    .upload(filePath, createCertificatePdf(certificate), { contentType: "application/pdf" });
+  // Left behind by an earlier attempt that failed before filing it
+  if (uploadError && !uploadError.message.includes("already exists")) throw uploadError;
+
+  // The database files it from the same path
+  const { data, error } = await supabase.rpc("attach_certificate_document", {
+    _certificate_id: certificate.id,
+  });
+  if (error) throw error;
+
+  return { ...certificate, document_id: data };
+}
+
+export const downloadCertificate = (certificate: TrainingCertificate) =>
+  downloadBlob(createCertificatePdf(certificate), getCertificateFileName(certificate));
+
+export async function verifyCertificate(code: string) {
+  const { data, error } = await supabase.rpc("verify_training_certificate", { _code: code });
+  if (error) throw error;
+  return data?.[0] || null;
+}
@@ -0,0 +1,109 @@
+import { addDays, isBefore, parseISO, startOfDay } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Enums, Tables } from "@/integrations/supabase/types";
+
+export type ChecklistTaskType = Enums<"checklist_task_type">;
+export type ChecklistItem = Tables<"department_checklist_items">;
+export type ChecklistItemState = "todo" | "in_progress" | "done";
+
+export const CHECKLIST_TASK_TYPES: { value: ChecklistTaskType; label: string }[] = [
+  { value: "fill_form", label: "Fill in form" },
+  { value: "upload_template", label: "Upload template" },
+  { value: "complete_training", label: "Complete training" },
+  { value: "manual", label: "Manual task" },
+];
+
+export const getTaskTypeLabel = (type: ChecklistTaskType) =>
+  CHECKLIST_TASK_TYPES.find((t) => t.value === type)?.label || type;
+
+export interface ChecklistEntry {
+  item: ChecklistItem;
+  state: ChecklistItemState;
+  dueDate: Date;
+  overdue: boolean;
+  signoff: Tables<"checklist_item_signoffs"> | null;
+}
+
+export interface EmployeeChecklist {
+  entries: ChecklistEntry[];
+  completed: number;
+  percentage: number;
+}
+
+// Works out each item's state from the records the task produces: the latest
+// form submission, the newest upload against the template, training progress
+// or a manager's sign-off
+export async function loadEmployeeChecklist(
+  userId: string,
+  departmentId: string,
+  joinDate: string
+): Promise<EmployeeChecklist> {
+  const [itemsData, submissionsData, documentsData, progressData, signoffsData] = await Promise.all([
+    supabase
+      .from("department_checklist_items")
+      .select("*")
+      .eq("department_id", departmentId)
+      .order("position")
+      .order("created_at"),
+    supabase
+      .from("department_signup_form_submissions")
+      .select("status, submitted_at")
+      .eq("user_id", userId)
+      .order("submitted_at", { ascending: false })
+      .limit(1),
+    supabase
+      .from("documents")
+      .select("template_id, status, created_at")
+      .eq("user_id", userId)
+      .not("template_id", "is", null)
+      .order("created_at", { ascending: false }),
+    supabase.from("training_progress").select("training_session_id, completed, progress_percentage").eq("user_id", userId),
+    supabase.from("checklist_item_signoffs").select("*").eq("user_id", userId),
+  ]);
+
+  if (itemsData.error) throw itemsData.error;
+  if (submissionsData.error) throw submissionsData.error;
+  if (documentsData.error) throw documentsData.error;
+  if (progressData.error) throw progressData.error;
+  if (signoffsData.error) throw signoffsData.error;
+
+  const latestSubmission = submissionsData.data?.[0];
+  const today = startOfDay(new Date());
+
+  const entries = (itemsData.data || []).map((item) => {
+    let state: ChecklistItemState = "todo";
+    const signoff = (signoffsData.data || []).find((s) => s.item_id === item.id) || null;
+
+    switch (item.task_type) {
+      case "fill_form":
+        if (latestSubmission?.status === "accepted") state = "done";
+        else if (latestSubmission && latestSubmission.status !== "needs_changes") state = "in_progress";
+        break;
+      case "upload_template": {
+        const document = (documentsData.data || []).find((d) => d.template_id === item.template_id);
+        if (document?.status === "approved") state = "done";
+        else if (document?.status === "pending") state = "in_progress";
+        break;
+      }
+      case "complete_training": {
+        const progress = (progressData.data || []).find((p) => p.training_session_id === item.training_session_id);
+        if (progress?.completed) state = "done";
+        else if (progress?.progress_percentage) state = "in_progress";
+        break;
+      }
+      case "manual":
+        if (signoff) state = "done";
+        break;
+    }
+
+    const dueDate = addDays(parseISO(joinDate), item.due_offset_days);
+    return { item, state, dueDate, overdue: state !== "done" && isBefore(dueDate, today), signoff };
+  });
+
+  const completed = entries.filter((e) => e.state === "done").length;
+  return {
+    entries,
+    completed,
+    percentage: entries.length ? Math.round((completed / entries.length) * 100) : 0,
+  };
+}
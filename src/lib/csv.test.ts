@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv } from "./csv";
+
+describe("parseCsv", () => {
+  it("splits rows and fields", () => {
+    expect(parseCsv("email,name\na@b.co,Asha\n")).toEqual([
+      ["email", "name"],
+      ["a@b.co", "Asha"],
+    ]);
+  });
+
+  it("keeps commas, line breaks and escaped quotes inside quoted fields", () => {
+    expect(parseCsv('name,notes\n"Rao, Asha","said ""hi""\nthen left"')).toEqual([
+      ["name", "notes"],
+      ["Rao, Asha", 'said "hi"\nthen left'],
+    ]);
+  });
+
+  it("accepts Windows and old Mac line endings", () => {
+    expect(parseCsv("a,b\r\n1,2\r3,4")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+      ["3", "4"],
+    ]);
+  });
+
+  it("strips a byte order mark and drops blank lines", () => {
+    expect(parseCsv("\uFEFFemail\n\n , \nx@y.z\n\n")).toEqual([["email"], ["x@y.z"]]);
+  });
+
+  it("keeps empty fields within a row", () => {
+    expect(parseCsv("a,,c\n,b,")).toEqual([
+      ["a", "", "c"],
+      ["", "b", ""],
+    ]);
+  });
+
+  it("returns no rows for empty input", () => {
+    expect(parseCsv("")).toEqual([]);
+  });
+});
@@ -0,0 +1,47 @@
+import { Tables } from "@/integrations/supabase/types";
+
+export type FulfilmentState = "missing" | "pending" | "approved" | "rejected" | "reupload_requested";
+
+export const FULFILMENT_STATES: { value: FulfilmentState; label: string; className: string }[] = [
+  { value: "missing", label: "Missing", className: "bg-muted text-muted-foreground" },
+  { value: "pending", label: "Pending review", className: "bg-secondary text-secondary-foreground" },
+  { value: "approved", label: "Approved", className: "bg-accent text-accent-foreground" },
+  { value: "rejected", label: "Rejected", className: "bg-destructive text-destructive-foreground" },
+  { value: "reupload_requested", label: "Re-upload requested", className: "bg-amber-100 text-amber-800" },
+];
+
+export const getFulfilmentState = (state: FulfilmentState) =>
+  FULFILMENT_STATES.find((s) => s.value === state) || FULFILMENT_STATES[0];
+
+type TemplateDocument = Pick<Tables<"documents">, "id" | "template_id" | "template_version" | "status" | "created_at">;
+
+export interface TemplateFulfilment<D extends TemplateDocument = TemplateDocument> {
+  template: Tables<"department_document_templates">;
+  document: D | null;
+  state: FulfilmentState;
+  // Returned against an older version of the template file
+  outdated: boolean;
+}
+
+// Match one employee's documents to templates; the newest upload per template wins
+export const getTemplateFulfilment = <D extends TemplateDocument>(
+  templates: Tables<"department_document_templates">[],
+  documents: D[]
+): TemplateFulfilment<D>[] =>
+  templates.map((template) => {
+    const document =
+      documents
+        .filter((doc) => doc.template_id === template.id)
+        .sort((a, b) => new Date(b.created_at || 0).getTime() - new Date(a.created_at || 0).getTime())[0] || null;
+
+    return {
+      template,
+      document,
+      state: document ? ((document.status || "pending") as FulfilmentState) : "missing",
+      outdated: !!document?.template_version && document.template_version < template.version,
+    };
+  });
+
+// Still needs something from the employee
+export const isOutstanding = (fulfilment: TemplateFulfilment) =>
+  fulfilment.state === "missing" || fulfilment.state === "rejected" || fulfilment.state === "reupload_requested";
@@ -0,0 +1,187 @@
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { FormField, formatFieldValue, toFormFields } from "@/lib/formFields";
+import { getOnboardingStatus } from "@/lib/onboardingStatus";
+import { getFulfilmentState, getTemplateFulfilment } from "@/lib/documentTemplates";
+import { CellValue } from "@/lib/spreadsheet";
+
+type ExportEmployee = Pick<
+  Tables<"profiles">,
+  | "id"
+  | "full_name"
+  | "email"
+  | "phone_number"
+  | "department_id"
+  | "department_specific_data"
+  | "onboarding_status"
+  | "join_date"
+  | "created_at"
+>;
+
+const formatDate = (value: string | null | undefined) => (value ? format(new Date(value), "yyyy-MM-dd") : "");
+
+export const exportFilename = (name: string) =>
+  `${name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "")}-${format(new Date(), "yyyy-MM-dd")}`;
+
+// One row per employee. Answers from each department's form become their own
+// columns, labelled with the department when the export spans several.
+export async function loadEmployeeExportRows(employees: ExportEmployee[]): Promise<CellValue[][]> {
+  const departmentIds = [...new Set(employees.map((e) => e.department_id).filter(Boolean))] as string[];
+
+  const [formsData, deptData] = await Promise.all([
+    supabase.from("department_signup_forms").select("department_id, form_fields").in("department_id", departmentIds),
+    supabase.from("departments").select("id, name").in("id", departmentIds).order("name"),
+  ]);
+
+  if (formsData.error) throw formsData.error;
+  if (deptData.error) throw deptData.error;
+
+  const departments = deptData.data || [];
+  const multipleDepartments = departments.length > 1;
+  const formColumns: { departmentId: string; field: FormField; header: string }[] = [];
+
+  for (const department of departments) {
+    const form = (formsData.data || []).find((f) => f.department_id === department.id);
+    toFormFields(form?.form_fields)
+      .filter((field) => field.type !== "section" && field.type !== "file")
+      .forEach((field) =>
+        formColumns.push({
+          departmentId: department.id,
+          field,
+          header: multipleDepartments ? `${department.name}: ${field.label}` : field.label,
+        })
+      );
+  }
+
+  const header = [
+    "Name",
+    "Email",
+    "Phone",
+    "Department",
+    "Onboarding status",
+    "Start date",
+    "Signed up",
+    ...formColumns.map((c) => c.header),
+  ];
+
+  const rows = employees.map((employee) => {
+    const answers = (employee.department_specific_data as Record<string, unknown>) || {};
+    return [
+      employee.full_name,
+      employee.email,
+      employee.phone_number,
+      departments.find((d) => d.id === employee.department_id)?.name || "",
+      getOnboardingStatus(employee.onboarding_status).label,
+      employee.join_date,
+      formatDate(employee.created_at),
+      ...formColumns.map((c) =>
+        c.departmentId === employee.department_id ? formatFieldValue(c.field, answers[c.field.id]) : ""
+      ),
+    ];
+  });
+
+  return [header, ...rows];
+}
+
+// Every document the employee has uploaded, plus a row for each template in
+// their department that nothing has been uploaded against yet
+export async function loadDocumentInventoryRows(userId: string, departmentId: string | null): Promise<CellValue[][]> {
+  const [documentsData, templatesData] = await Promise.all([
+    supabase.from("documents").select("*").eq("user_id", userId).order("created_at", { ascending: false }),
+    departmentId
+      ? supabase.from("department_document_templates").select("*").eq("department_id", departmentId).order("title")
+      : Promise.resolve({ data: [] as Tables<"department_document_templates">[], error: null }),
+  ]);
+
+  if (documentsData.error) throw documentsData.error;
+  if (templatesData.error) throw templatesData.error;
+
+  const documents = documentsData.data || [];
+  const templates = templatesData.data || [];
+
+  const header = ["Document", "Template", "Required", "Status", "File", "Uploaded", "Reviewed", "Review notes"];
+
+  const documentRows = documents.map((doc) => {
+    const template = templates.find((t) => t.id === doc.template_id);
+    return [
+      doc.title,
+      template?.title || "",
+      template ? (template.is_required ? "Yes" : "No") : "",
+      getFulfilmentState(doc.status || "pending").label,
+      doc.file_name,
+      formatDate(doc.created_at),
+      formatDate(doc.reviewed_at),
+      doc.review_notes,
+    ];
+  });
+
+  const missingRows = getTemplateFulfilment(templates, documents)
+    .filter((fulfilment) => fulfilment.state === "missing")
+    .map((fulfilment) => [
+      fulfilment.template.title,
+      fulfilment.template.title,
+      fulfilment.template.is_required ? "Yes" : "No",
+      getFulfilmentState("missing").label,
+      "",
+      "",
+      "",
+      "",
+    ]);
+
+  return [header, ...documentRows, ...missingRows];
+}
+
+// Employees down the side, sessions across the top. Cells are blank where the
+// session isn't assigned to that employee.
+export async function loadTrainingMatrixRows(departmentId: string | null): Promise<CellValue[][]> {
+  let profilesQuery = supabase.from("profiles").select("id, full_name, email, department_id").order("full_name");
+  let sessionsQuery = supabase.from("training_sessions").select("id, title, department_id").order("title");
+  if (departmentId) {
+    profilesQuery = profilesQuery.eq("department_id", departmentId);
+    sessionsQuery = sessionsQuery.or(`department_id.eq.${departmentId},department_id.is.null`);
+  }
+
+  const [profilesData, sessionsData, assignmentsData, progressData] = await Promise.all([
+    profilesQuery,
+    sessionsQuery,
+    supabase.from("training_assignments").select("user_id, training_session_id"),
+    supabase.from("training_progress").select("user_id, training_session_id, completed, completed_at, progress_percentage"),
+  ]);
+
+  if (profilesData.error) throw profilesData.error;
+  if (sessionsData.error) throw sessionsData.error;
+  if (assignmentsData.error) throw assignmentsData.error;
+  if (progressData.error) throw progressData.error;
+
+  const sessions = sessionsData.data || [];
+  const assignments = assignmentsData.data || [];
+  const progress = progressData.data || [];
+
+  const header = ["Name", "Email", ...sessions.map((s) => s.title), "Completed"];
+
+  const rows = (profilesData.data || []).map((profile) => {
+    let assigned = 0;
+    let completed = 0;
+
+    const cells = sessions.map((session) => {
+      const isAssigned = assignments.some(
+        (a) => a.user_id === profile.id && a.training_session_id === session.id
+      );
+      if (!isAssigned) return "";
+      assigned++;
+
+      const entry = progress.find((p) => p.user_id === profile.id && p.training_session_id === session.id);
+      if (entry?.completed) {
+        completed++;
+        return entry.completed_at ? `Completed ${formatDate(entry.completed_at)}` : "Completed";
+      }
+      if (entry?.progress_percentage) return `In progress (${entry.progress_percentage}%)`;
+      return "Not started";
+    });
+
+    return [profile.full_name, profile.email, ...cells, assigned ? `${completed} of ${assigned}` : ""];
+  });
+
+  return [header, ...rows];
+}
@@ -0,0 +1,221 @@
+import { describe, expect, it } from "vitest";
+import {
+  FormField,
+  diffFormFields,
+  evaluateFieldRules,
+  formatFieldValue,
+  getFieldError,
+  getMissingRequiredFields,
+  getVisibleAnswers,
+} from "./formFields";
+
+const field = (id: string, overrides: Partial<FormField> = {}): FormField => ({
+  id,
+  type: "text",
+  label: id,
+  required: false,
+  ...overrides,
+});
+
+describe("evaluateFieldRules", () => {
+  const nationality = field("nationality");
+  const passport = field("passport", {
+    rules: [{ action: "show", fieldId: "nationality", operator: "not_equals", value: "India" }],
+  });
+
+  it("shows fields without rules", () => {
+    expect(evaluateFieldRules([nationality], {})).toEqual({
+      nationality: { visible: true, required: false },
+    });
+  });
+
+  it("compares answers case- and whitespace-insensitively", () => {
+    expect(evaluateFieldRules([nationality, passport], { nationality: " india " }).passport.visible).toBe(false);
+    expect(evaluateFieldRules([nationality, passport], { nationality: "Nepal" }).passport.visible).toBe(true);
+  });
+
+  it("shows a field when any show rule matches and no hide rule does", () => {
+    const visa = field("visa", {
+      rules: [
+        { action: "show", fieldId: "nationality", operator: "equals", value: "Nepal" },
+        { action: "show", fieldId: "nationality", operator: "equals", value: "Bhutan" },
+        { action: "hide", fieldId: "resident", operator: "equals", value: "yes" },
+      ],
+    });
+    const fields = [nationality, field("resident"), visa];
+
+    expect(evaluateFieldRules(fields, { nationality: "Bhutan" }).visa.visible).toBe(true);
+    expect(evaluateFieldRules(fields, { nationality: "Bhutan", resident: "Yes" }).visa.visible).toBe(false);
+    expect(evaluateFieldRules(fields, { nationality: "France" }).visa.visible).toBe(false);
+  });
+
+  it("requires a field by rule only while it is visible", () => {
+    const reason = field("reason", {
+      rules: [
+        { action: "require", fieldId: "nationality", operator: "is_not_empty" },
+        { action: "hide", fieldId: "nationality", operator: "contains", value: "ind" },
+      ],
+    });
+
+    expect(evaluateFieldRules([nationality, reason], {}).reason).toEqual({ visible: true, required: false });
+    expect(evaluateFieldRules([nationality, reason], { nationality: "Nepal" }).reason).toEqual({
+      visible: true,
+      required: true,
+    });
+    expect(evaluateFieldRules([nationality, reason], { nationality: "India" }).reason).toEqual({
+      visible: false,
+      required: false,
+    });
+  });
+
+  it("treats hidden fields as empty for rules that depend on them", () => {
+    const passportNumber = field("passport_number", {
+      rules: [{ action: "show", fieldId: "passport", operator: "is_not_empty" }],
+    });
+    const fields = [nationality, passport, passportNumber];
+
+    expect(evaluateFieldRules(fields, { nationality: "Nepal", passport: "yes" }).passport_number.visible).toBe(true);
+    expect(evaluateFieldRules(fields, { nationality: "India", passport: "yes" }).passport_number.visible).toBe(false);
+  });
+
+  it("ignores rules on the field itself and rules without a source field", () => {
+    const notes = field("notes", {
+      rules: [
+        { action: "hide", fieldId: "notes", operator: "is_empty" },
+        { action: "hide", fieldId: "", operator: "is_empty" },
+      ],
+    });
+
+    expect(evaluateFieldRules([notes], {}).notes.visible).toBe(true);
+  });
+});
+
+describe("checkbox rules", () => {
+  const consent = field("consent", { type: "checkbox" });
+  const details = (value: string) =>
+    field("details", { rules: [{ action: "show", fieldId: "consent", operator: "equals", value }] });
+
+  it("matches a checked box against the editor's Yes and legacy true values", () => {
+    expect(evaluateFieldRules([consent, details("Yes")], { consent: true }).details.visible).toBe(true);
+    expect(evaluateFieldRules([consent, details("true")], { consent: true }).details.visible).toBe(true);
+    expect(evaluateFieldRules([consent, details("Yes")], { consent: false }).details.visible).toBe(false);
+    expect(evaluateFieldRules([consent, details("Yes")], {}).details.visible).toBe(false);
+  });
+
+  it("treats an unchecked box as empty", () => {
+    const notes = field("notes", { rules: [{ action: "require", fieldId: "consent", operator: "is_empty" }] });
+    expect(evaluateFieldRules([consent, notes], { consent: false }).notes.required).toBe(true);
+    expect(evaluateFieldRules([consent, notes], { consent: true }).notes.required).toBe(false);
+  });
+
+  it("hides every field on a hidden section", () => {
+    const fields = [
+      consent,
+      field("extra", { type: "section", rules: [{ action: "show", fieldId: "consent", operator: "equals", value: "Yes" }] }),
+      field("reason", { required: true }),
+    ];
+    expect(evaluateFieldRules(fields, {}).reason).toEqual({ visible: false, required: false });
+    expect(evaluateFieldRules(fields, { consent: true }).reason).toEqual({ visible: true, required: true });
+  });
+});
+
+describe("getVisibleAnswers", () => {
+  it("drops answers to hidden fields and keeps the rest", () => {
+    const fields = [
+      field("nationality"),
+      field("passport", {
+        rules: [{ action: "hide", fieldId: "nationality", operator: "equals", value: "India" }],
+      }),
+    ];
+
+    expect(getVisibleAnswers(fields, { nationality: "India", passport: "X123", extra: "kept" })).toEqual({
+      nationality: "India",
+      extra: "kept",
+    });
+  });
+});
+
+describe("getMissingRequiredFields", () => {
+  it("lists visible required fields with blank answers", () => {
+    const fields = [
+      field("name", { required: true }),
+      field("nickname", { required: true, rules: [{ action: "show", fieldId: "name", operator: "equals", value: "x" }] }),
+    ];
+
+    expect(getMissingRequiredFields(fields, { name: "   " }).map((f) => f.id)).toEqual(["name"]);
+    expect(getMissingRequiredFields(fields, { name: "Asha" })).toEqual([]);
+  });
+});
+
+describe("diffFormFields", () => {
+  it("reports nothing for identical revisions", () => {
+    const fields = [field("a"), field("b")];
+    expect(diffFormFields(fields, fields)).toEqual({ added: [], removed: [], changed: [], reordered: false });
+  });
+
+  it("reports added, removed and changed fields by id", () => {
+    const before = [field("a"), field("b", { options: ["x"] })];
+    const after = [field("b", { label: "B", options: ["x", "y"] }), field("c")];
+
+    const diff = diffFormFields(before, after);
+
+    expect(diff.added.map((f) => f.id)).toEqual(["c"]);
+    expect(diff.removed.map((f) => f.id)).toEqual(["a"]);
+    expect(diff.changed).toEqual([
+      { field: after[0], changes: ["Label: b → B", "Options: x → x, y"] },
+    ]);
+    expect(diff.reordered).toBe(false);
+  });
+
+  it("treats missing and empty properties as the same", () => {
+    const diff = diffFormFields([field("a", { placeholder: "" })], [field("a", { options: [] })]);
+    expect(diff.changed).toEqual([]);
+  });
+
+  it("detects reordering of the fields both revisions share", () => {
+    const diff = diffFormFields([field("a"), field("b"), field("c")], [field("c"), field("a"), field("b")]);
+    expect(diff.reordered).toBe(true);
+    expect(diffFormFields([field("a"), field("b")], [field("x"), field("a"), field("b")]).reordered).toBe(false);
+  });
+});
+
+describe("getFieldError", () => {
+  it("checks format and range only once there is an answer", () => {
+    const email = field("email", { type: "email", label: "Email", required: true });
+    expect(getFieldError(email, "")).toBe("Email is required");
+    expect(getFieldError(email, "not-an-email")).toBe("Please enter a valid email address");
+    expect(getFieldError(email, "a@b.co")).toBeNull();
+
+    const age = field("age", { type: "number", validation: { min: 18, max: 65 } });
+    expect(getFieldError(age, "")).toBeNull();
+    expect(getFieldError(age, "abc")).toBe("Please enter a number");
+    expect(getFieldError(age, "17")).toBe("Must be at least 18");
+    expect(getFieldError(age, "66")).toBe("Must be at most 65");
+    expect(getFieldError(age, "40")).toBeNull();
+  });
+
+  it("limits text length", () => {
+    const code = field("code", { validation: { min: 2, max: 3 } });
+    expect(getFieldError(code, "a")).toBe("Minimum 2 characters required");
+    expect(getFieldError(code, "abcd")).toBe("Maximum 3 characters allowed");
+  });
+});
+
+describe("formatFieldValue", () => {
+  it("formats answers by field type", () => {
+    expect(formatFieldValue(field("s", { type: "signature" }), "data:image/png;base64,AAA")).toBe("Signed");
+    expect(formatFieldValue(field("a", { type: "acknowledgement" }), true)).toBe("Acknowledged");
+    expect(formatFieldValue(field("c", { type: "checkbox" }), true)).toBe("Yes");
+    expect(formatFieldValue(field("m", { type: "multiselect" }), ["a", "b"])).toBe("a, b");
+    expect(formatFieldValue(field("addr", { type: "address" }), { line1: "1 Main St", city: "Pune" })).toBe(
+      "1 Main St, Pune"
+    );
+    expect(formatFieldValue(field("e"), "")).toBe("");
+  });
+
+  it("shows text that looks like an image URL as typed", () => {
+    expect(formatFieldValue(field("notes", { type: "textarea" }), "data:image/png is the format")).toBe(
+      "data:image/png is the format"
+    );
+  });
+});
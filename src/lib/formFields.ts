@@ -0,0 +1,318 @@
+export type RuleAction = "show" | "hide" | "require";
+export type RuleOperator = "equals" | "not_equals" | "contains" | "is_empty" | "is_not_empty";
+
+// A condition on another field's answer, e.g. show this field when
+// nationality not_equals "India"
+export interface FieldRule {
+  action: RuleAction;
+  fieldId: string;
+  operator: RuleOperator;
+  value?: string;
+}
+
+export type FieldType =
+  | "text"
+  | "email"
+  | "phone"
+  | "textarea"
+  | "number"
+  | "date"
+  | "dropdown"
+  | "radio"
+  | "multiselect"
+  | "checkbox"
+  | "address"
+  | "signature"
+  | "acknowledgement"
+  | "file"
+  | "section";
+
+// Field definitions stored in department_signup_forms.form_fields and
+// department_signup_form_revisions.form_fields
+export interface FormField {
+  id: string;
+  // "section" starts a new page of the onboarding wizard and holds no answer
+  type: FieldType;
+  label: string;
+  description?: string; // Section intro or acknowledgement text
+  required: boolean;
+  placeholder?: string;
+  options?: string[]; // For dropdown, radio and multiselect fields
+  validation?: {
+    min?: number; // Length for text fields, value for number fields
+    max?: number;
+    pattern?: string;
+  };
+  fileTypes?: string[]; // For file upload fields
+  maxFileSize?: number; // In MB
+  rules?: FieldRule[];
+}
+
+export type AddressValue = {
+  line1?: string;
+  line2?: string;
+  city?: string;
+  state?: string;
+  postal_code?: string;
+  country?: string;
+};
+
+// Answer shapes: strings for most fields (signatures are PNG data URLs),
+// booleans for checkbox and acknowledgement, string[] for multiselect
+export type FieldValue = string | boolean | string[] | AddressValue;
+
+export const ADDRESS_PARTS: { key: keyof AddressValue; label: string }[] = [
+  { key: "line1", label: "Address line 1" },
+  { key: "line2", label: "Address line 2" },
+  { key: "city", label: "City" },
+  { key: "state", label: "State" },
+  { key: "postal_code", label: "Postal code" },
+  { key: "country", label: "Country" },
+];
+
+export const OPTION_FIELD_TYPES: FieldType[] = ["dropdown", "radio", "multiselect"];
+
+export const RULE_ACTIONS: { value: RuleAction; label: string }[] = [
+  { value: "show", label: "Show only if" },
+  { value: "hide", label: "Hide if" },
+  { value: "require", label: "Require if" },
+];
+
+export const RULE_OPERATORS: { value: RuleOperator; label: string; needsValue: boolean }[] = [
+  { value: "equals", label: "equals", needsValue: true },
+  { value: "not_equals", label: "does not equal", needsValue: true },
+  { value: "contains", label: "contains", needsValue: true },
+  { value: "is_empty", label: "is empty", needsValue: false },
+  { value: "is_not_empty", label: "is not empty", needsValue: false },
+];
+
+export interface FieldState {
+  visible: boolean;
+  required: boolean;
+}
+
+// Checkbox answers compare as "yes" or empty, whether stored as a boolean or
+// typed into a rule as "Yes" or "true"
+const normalize = (value: unknown, type?: FieldType): string => {
+  if (type === "checkbox" || type === "acknowledgement") {
+    return value === true || ["true", "yes"].includes(String(value).trim().toLowerCase()) ? "yes" : "";
+  }
+  if (value === undefined || value === null || value === false) return "";
+  if (value === true) return "yes";
+  if (Array.isArray(value)) return value.join(", ").trim().toLowerCase();
+  if (value instanceof File) return value.name.toLowerCase();
+  if (typeof value === "object") return Object.values(value).filter(Boolean).join(", ").trim().toLowerCase();
+  return String(value).trim().toLowerCase();
+};
+
+// Unchecked boxes, empty selections and blank addresses all count as empty
+export const isEmptyValue = (value: unknown) => normalize(value) === "";
+
+const ruleMatches = (rule: FieldRule, answer: unknown, sourceType?: FieldType) => {
+  const actual = normalize(answer, sourceType);
+  const expected = normalize(rule.value, sourceType);
+
+  switch (rule.operator) {
+    case "equals":
+      return actual === expected;
+    case "not_equals":
+      return actual !== expected;
+    case "contains":
+      return actual.includes(expected);
+    case "is_empty":
+      return actual === "";
+    case "is_not_empty":
+      return actual !== "";
+    default:
+      return false;
+  }
+};
+
+// Work out which fields are visible and required for the current answers.
+// Fields are evaluated in form order and a hidden field counts as empty, so
+// rules chained on a hidden field resolve the same way on every screen.
+// Hiding a section hides every field on it.
+export const evaluateFieldRules = (fields: FormField[], answers: Record<string, unknown>) => {
+  const states: Record<string, FieldState> = {};
+  const effectiveAnswers: Record<string, unknown> = {};
+  const typeById = new Map(fields.map((field) => [field.id, field.type]));
+  let sectionVisible = true;
+
+  const answerFor = (fieldId: string) =>
+    fieldId in states ? effectiveAnswers[fieldId] : answers[fieldId];
+
+  fields.forEach((field) => {
+    const rules = (field.rules || []).filter((rule) => rule.fieldId && rule.fieldId !== field.id);
+    const matching = (action: RuleAction) =>
+      rules.filter((rule) => rule.action === action).map((rule) => ruleMatches(rule, answerFor(rule.fieldId), typeById.get(rule.fieldId)));
+
+    const showResults = matching("show");
+    const ownVisible = (showResults.length === 0 || showResults.some(Boolean)) && !matching("hide").some(Boolean);
+
+    if (field.type === "section") {
+      sectionVisible = ownVisible;
+      states[field.id] = { visible: ownVisible, required: false };
+      return;
+    }
+
+    const visible = sectionVisible && ownVisible;
+    const required = visible && (field.required || matching("require").some(Boolean));
+
+    states[field.id] = { visible, required };
+    effectiveAnswers[field.id] = visible ? answers[field.id] : undefined;
+  });
+
+  return states;
+};
+
+// Drop answers to fields the rules hide so they are never stored
+export const getVisibleAnswers = <T>(fields: FormField[], answers: Record<string, T>) => {
+  const states = evaluateFieldRules(fields, answers);
+  return Object.fromEntries(
+    Object.entries(answers).filter(([fieldId]) => states[fieldId]?.visible !== false)
+  ) as Record<string, T>;
+};
+
+// Required (statically or by rule) visible fields that have no answer
+export const getMissingRequiredFields = (fields: FormField[], answers: Record<string, unknown>) => {
+  const states = evaluateFieldRules(fields, answers);
+  return fields.filter(
+    (field) => field.type !== "section" && states[field.id]?.required && isEmptyValue(answers[field.id])
+  );
+};
+
+// Format and range checks for a single answer; required-ness comes from the rules
+export const getFieldError = (field: FormField, value: unknown, required = field.required): string | null => {
+  if (required && isEmptyValue(value)) {
+    return field.type === "acknowledgement" ? "Please confirm you have read this" : `${field.label} is required`;
+  }
+  if (isEmptyValue(value)) return null;
+
+  if (field.type === "email" && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(String(value))) {
+    return "Please enter a valid email address";
+  }
+
+  if (field.type === "phone" && !/^[\d\s\-+()]+$/.test(String(value))) {
+    return "Please enter a valid phone number";
+  }
+
+  const { min, max } = field.validation || {};
+
+  if (field.type === "number") {
+    const number = Number(value);
+    if (Number.isNaN(number)) return "Please enter a number";
+    if (min !== undefined && number < min) return `Must be at least ${min}`;
+    if (max !== undefined && number > max) return `Must be at most ${max}`;
+    return null;
+  }
+
+  if (typeof value === "string" && ["text", "email", "phone", "textarea"].includes(field.type)) {
+    if (min && value.length < min) return `Minimum ${min} characters required`;
+    if (max && value.length > max) return `Maximum ${max} characters allowed`;
+  }
+
+  return null;
+};
+
+// Human-readable answer for review screens and admin views
+export const formatFieldValue = (field: FormField | undefined, value: unknown): string => {
+  if (isEmptyValue(value)) return "";
+  if (field?.type === "signature") return "Signed";
+  if (field?.type === "acknowledgement") return "Acknowledged";
+  if (field?.type === "checkbox" || typeof value === "boolean") return normalize(value, "checkbox") ? "Yes" : "No";
+  if (Array.isArray(value)) return value.join(", ");
+  if (typeof value === "object" && value !== null) {
+    return ADDRESS_PARTS.map(({ key }) => (value as AddressValue)[key]).filter(Boolean).join(", ");
+  }
+  return String(value);
+};
+
+export type RevisionStatus = "draft" | "published" | "archived";
+
+export interface FieldChange {
+  field: FormField;
+  changes: string[];
+}
+
+export interface FormFieldsDiff {
+  added: FormField[];
+  removed: FormField[];
+  changed: FieldChange[];
+  reordered: boolean;
+}
+
+const describeValue = (value: unknown) => {
+  if (value === undefined || value === null || value === "") return "none";
+  if (Array.isArray(value)) return value.length ? value.join(", ") : "none";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+const COMPARED_PROPERTIES: { key: keyof FormField; label: string }[] = [
+  { key: "type", label: "Type" },
+  { key: "label", label: "Label" },
+  { key: "required", label: "Required" },
+  { key: "placeholder", label: "Placeholder" },
+  { key: "description", label: "Description" },
+  { key: "options", label: "Options" },
+  { key: "validation", label: "Validation" },
+  { key: "fileTypes", label: "File types" },
+  { key: "maxFileSize", label: "Max file size" },
+  { key: "rules", label: "Rules" },
+];
+
+// Compare two revisions' fields by field id
+export const diffFormFields = (before: FormField[], after: FormField[]): FormFieldsDiff => {
+  const beforeById = new Map(before.map((f) => [f.id, f]));
+  const afterById = new Map(after.map((f) => [f.id, f]));
+
+  const added = after.filter((f) => !beforeById.has(f.id));
+  const removed = before.filter((f) => !afterById.has(f.id));
+
+  const changed: FieldChange[] = [];
+  after.forEach((field) => {
+    const previous = beforeById.get(field.id);
+    if (!previous) return;
+
+    const changes = COMPARED_PROPERTIES
+      .filter(({ key }) => describeValue(previous[key]) !== describeValue(field[key]))
+      .map(({ key, label }) => `${label}: ${describeValue(previous[key])} → ${describeValue(field[key])}`);
+
+    if (changes.length > 0) changed.push({ field, changes });
+  });
+
+  const keptBefore = before.filter((f) => afterById.has(f.id)).map((f) => f.id);
+  const keptAfter = after.filter((f) => beforeById.has(f.id)).map((f) => f.id);
+  const reordered = keptBefore.some((id, index) => keptAfter[index] !== id);
+
+  return { added, removed, changed, reordered };
+};
+
+export interface FormSection {
+  id: string;
+  title: string;
+  description?: string;
+  fields: FormField[];
+}
+
+// Split a form into pages at each section field. Fields before the first
+// section go on a default page.
+export const getFormSections = (fields: FormField[], defaultTitle = "Department Information") => {
+  const sections: FormSection[] = [];
+  let current: FormSection = { id: "details", title: defaultTitle, fields: [] };
+
+  fields.forEach((field) => {
+    if (field.type === "section") {
+      if (current.fields.length > 0 || current.id !== "details") sections.push(current);
+      current = { id: field.id, title: field.label, description: field.description, fields: [] };
+    } else {
+      current.fields.push(field);
+    }
+  });
+
+  if (current.fields.length > 0 || current.id !== "details") sections.push(current);
+  return sections;
+};
+
+export const toFormFields = (value: unknown): FormField[] =>
+  Array.isArray(value) ? (value as FormField[]) : [];
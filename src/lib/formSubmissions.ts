@@ -0,0 +1,11 @@
+export type SubmissionStatus = "submitted" | "under_review" | "accepted" | "needs_changes";
+
+export const SUBMISSION_STATUSES: { value: SubmissionStatus; label: string; className: string }[] = [
+  { value: "submitted", label: "Submitted", className: "bg-secondary text-secondary-foreground" },
+  { value: "under_review", label: "Under review", className: "bg-blue-100 text-blue-800" },
+  { value: "accepted", label: "Accepted", className: "bg-accent text-accent-foreground" },
+  { value: "needs_changes", label: "Needs changes", className: "bg-amber-100 text-amber-800" },
+];
+
+export const getSubmissionStatus = (status: string | null) =>
+  SUBMISSION_STATUSES.find((s) => s.value === status) || SUBMISSION_STATUSES[0];
@@ -0,0 +1,38 @@
+import { isPast } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+
+export type Invitation = Tables<"employee_invitations">;
+export type InvitationStatus = "pending" | "accepted" | "expired" | "revoked";
+
+export const INVITATION_VALID_DAYS = 7;
+
+export const getInvitationStatus = (invitation: Invitation): InvitationStatus => {
+  if (invitation.accepted_at) return "accepted";
+  if (invitation.revoked_at) return "revoked";
+  if (isPast(new Date(invitation.expires_at))) return "expired";
+  return "pending";
+};
+
+export const getInvitationUrl = (invitation: Invitation) =>
+  `${window.location.origin}/auth?invite=${invitation.token}`;
+
+// Reissued links get a fresh token so the old one can no longer be used
+export const generateInvitationToken = () => (crypto.randomUUID() + crypto.randomUUID()).replace(/-/g, "");
+
+// Email the invitation link. The function looks the invitation up itself, as
+// the caller, so only staff who can manage it can send it. Failures are logged
+// rather than thrown so the caller can fall back to sharing the link by hand.
+export const sendInvitationEmail = async (invitation: Invitation) => {
+  try {
+    const { error } = await supabase.functions.invoke("send-invitation-email", {
+      body: { invitationId: invitation.id },
+    });
+
+    if (error) throw error;
+    return true;
+  } catch (emailError) {
+    console.error("Error sending invitation email:", emailError);
+    return false;
+  }
+};
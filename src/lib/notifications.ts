@@ -0,0 +1,26 @@
+import { supabase } from "@/integrations/supabase/client";
+
+interface NotificationInput {
+  userId: string;
+  title: string;
+  message?: string;
+  link?: string;
+}
+
+// Send in-app notifications from the signed-in user; they show up in the
+// dashboard header bell.
+export const notifyUsers = async (senderId: string, notifications: NotificationInput[]) => {
+  if (notifications.length === 0) return;
+
+  const { error } = await supabase.from("notifications").insert(
+    notifications.map((n) => ({
+      user_id: n.userId,
+      title: n.title,
+      message: n.message || null,
+      link: n.link || null,
+      created_by: senderId,
+    }))
+  );
+
+  if (error) throw error;
+};
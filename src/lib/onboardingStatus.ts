@@ -0,0 +1,22 @@
+import { Enums } from "@/integrations/supabase/types";
+
+export type OnboardingStatus = Enums<"onboarding_status">;
+
+// In lifecycle order; the allowed transitions live in onboarding_status_transitions
+export const ONBOARDING_STATUSES: { value: OnboardingStatus; label: string; className: string }[] = [
+  { value: "invited", label: "Invited", className: "bg-muted text-muted-foreground" },
+  { value: "profile_started", label: "Profile started", className: "bg-muted text-muted-foreground" },
+  { value: "documents_uploaded", label: "Documents uploaded", className: "bg-secondary text-secondary-foreground" },
+  { value: "under_review", label: "Under review", className: "bg-amber-100 text-amber-800" },
+  { value: "approved", label: "Approved", className: "bg-accent text-accent-foreground" },
+  { value: "training_in_progress", label: "Training in progress", className: "bg-primary/10 text-primary" },
+  { value: "completed", label: "Completed", className: "bg-green-100 text-green-800" },
+  { value: "blocked", label: "Blocked", className: "bg-destructive text-destructive-foreground" },
+];
+
+export const getOnboardingStatus = (status: OnboardingStatus) =>
+  ONBOARDING_STATUSES.find((s) => s.value === status) || ONBOARDING_STATUSES[0];
+
+// Statuses from which the employee's own submission moves them to documents_uploaded
+export const isAwaitingSubmission = (status: OnboardingStatus) =>
+  status === "invited" || status === "profile_started";
@@ -0,0 +1,115 @@
+// Minimal single-page PDF writer for generated documents such as training
+// certificates. Text is set in the standard Helvetica faces every PDF reader
+// has built in, so nothing needs embedding; characters outside Latin-1 are
+// replaced.
+
+export type PdfColor = [number, number, number];
+
+export type PdfItem =
+  | {
+      type: "text";
+      text: string;
+      x: number;
+      y: number;
+      size: number;
+      bold?: boolean;
+      // Centered text is centered on x
+      align?: "left" | "center";
+      color?: PdfColor;
+    }
+  | { type: "rect"; x: number; y: number; width: number; height: number; lineWidth?: number; color?: PdfColor };
+
+// A4 in points
+export const A4_LANDSCAPE = { width: 842, height: 595 };
+
+// Glyph widths (per 1000 units) for characters 32-126, from the standard
+// Helvetica font metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556,
+  556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334,
+  260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611,
+  556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389,
+  280, 389, 584,
+];
+
+// Accented Latin-1 letters are close enough to the average glyph
+const DEFAULT_WIDTH = 556;
+
+// Latin-1 only, as the built-in fonts use WinAnsi encoding
+const toLatin1 = (text: string) => text.replace(/[^\x20-\x7e\xa0-\xff]/g, "?");
+
+export const measureText = (text: string, size: number, bold = false) => {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (const char of toLatin1(text)) {
+    total += widths[char.charCodeAt(0) - 32] ?? DEFAULT_WIDTH;
+  }
+  return (total * size) / 1000;
+};
+
+// The largest size up to size at which the text fits in maxWidth
+export const fitTextSize = (text: string, size: number, maxWidth: number, bold = false) =>
+  Math.min(size, (size * maxWidth) / Math.max(measureText(text, size, bold), 1));
+
+const escapeText = (text: string) => toLatin1(text).replace(/[\\()]/g, (char) => `\\${char}`);
+
+const formatColor = ([r, g, b]: PdfColor) => [r, g, b].map((c) => (c / 255).toFixed(3)).join(" ");
+
+const drawItem = (item: PdfItem) => {
+  if (item.type === "rect") {
+    return [
+      `${formatColor(item.color || [0, 0, 0])} RG`,
+      `${item.lineWidth ?? 1} w`,
+      `${item.x} ${item.y} ${item.width} ${item.height} re S`,
+    ].join("\n");
+  }
+
+  const x = item.align === "center" ? item.x - measureText(item.text, item.size, item.bold) / 2 : item.x;
+  return [
+    "BT",
+    `${formatColor(item.color || [0, 0, 0])} rg`,
+    `/${item.bold ? "F2" : "F1"} ${item.size} Tf`,
+    `${x.toFixed(2)} ${item.y} Td`,
+    `(${escapeText(item.text)}) Tj`,
+    "ET",
+  ].join("\n");
+};
+
+export const toPdf = (page: { width: number; height: number }, items: PdfItem[], title?: string) => {
+  const content = items.map(drawItem).join("\n");
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${page.width} ${page.height}] ` +
+      "/Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    `<< /Title (${escapeText(title || "")}) /Producer (Employee Onboarding) >>`,
+  ];
+
+  // Every character is a single byte, so string offsets are byte offsets
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+
+  const xref = pdf.length;
+  pdf +=
+    `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n` +
+    offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("") +
+    `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\n` +
+    `startxref\n${xref}\n%%EOF`;
+
+  return new Blob([Uint8Array.from(pdf, (char) => char.charCodeAt(0))], { type: "application/pdf" });
+};
@@ -0,0 +1,101 @@
+import { Enums } from "@/integrations/supabase/types";
+
+export type AppRole = Enums<"app_role">;
+
+export type Permission =
+  | "employees.view"
+  | "employees.manage"
+  | "documents.view"
+  | "documents.review"
+  | "forms.view"
+  | "forms.manage"
+  | "templates.view"
+  | "templates.manage"
+  | "checklists.view"
+  | "checklists.manage"
+  | "training.view"
+  | "training.manage"
+  | "roles.view"
+  | "roles.manage";
+
+export interface RoleAssignment {
+  role: AppRole;
+  department_id: string | null;
+}
+
+export const ROLES: { value: AppRole; label: string; description: string }[] = [
+  { value: "admin", label: "Admin", description: "Full access, including role management" },
+  { value: "hr_manager", label: "HR Manager", description: "Manages onboarding across all departments" },
+  {
+    value: "department_manager",
+    label: "Department Manager",
+    description: "Manages employees, forms, checklists and training for one department",
+  },
+  { value: "auditor", label: "Auditor", description: "Read-only access to everything" },
+  { value: "employee", label: "Employee", description: "Completes their own onboarding" },
+];
+
+const VIEW_PERMISSIONS: Permission[] = [
+  "employees.view",
+  "documents.view",
+  "forms.view",
+  "templates.view",
+  "checklists.view",
+  "training.view",
+  "roles.view",
+];
+
+// Mirrors the RLS policies; the database remains the source of truth
+export const ROLE_PERMISSIONS: Record<AppRole, Permission[]> = {
+  admin: [
+    ...VIEW_PERMISSIONS,
+    "employees.manage",
+    "documents.review",
+    "forms.manage",
+    "templates.manage",
+    "checklists.manage",
+    "training.manage",
+    "roles.manage",
+  ],
+  hr_manager: [
+    ...VIEW_PERMISSIONS,
+    "employees.manage",
+    "documents.review",
+    "forms.manage",
+    "templates.manage",
+    "checklists.manage",
+    "training.manage",
+  ],
+  department_manager: [
+    "employees.view",
+    "employees.manage",
+    "documents.view",
+    "documents.review",
+    "forms.view",
+    "forms.manage",
+    "checklists.view",
+    "checklists.manage",
+    "training.view",
+    "training.manage",
+  ],
+  auditor: VIEW_PERMISSIONS,
+  employee: [],
+};
+
+export const getRoleLabel = (role: AppRole) => ROLES.find((r) => r.value === role)?.label || role;
+
+export const hasPermission = (roles: RoleAssignment[], permission: Permission) =>
+  roles.some((r) => ROLE_PERMISSIONS[r.role]?.includes(permission));
+
+// Anyone with a role beyond employee gets the management dashboard
+export const isStaff = (roles: RoleAssignment[]) => roles.some((r) => r.role !== "employee");
+
+// Admins, HR managers and auditors see every department
+export const hasOrganisationScope = (roles: RoleAssignment[]) =>
+  roles.some((r) => r.role === "admin" || r.role === "hr_manager" || r.role === "auditor");
+
+export const getManagedDepartmentIds = (roles: RoleAssignment[]) =>
+  roles.filter((r) => r.role === "department_manager" && r.department_id).map((r) => r.department_id as string);
+
+export const canAccessDepartment = (roles: RoleAssignment[], departmentId: string | null) =>
+  hasOrganisationScope(roles) || (!!departmentId && getManagedDepartmentIds(roles).includes(departmentId));
@@ -0,0 +1,76 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+
+export type QuestionType = "multiple_choice" | "true_false" | "short_answer";
+
+// Question definitions stored in training_quizzes.questions
+export interface QuizQuestion {
+  id: string;
+  type: QuestionType;
+  prompt: string;
+  options?: string[]; // For multiple choice questions
+  // Any of these counts as correct; short answers match ignoring case and
+  // surrounding whitespace
+  correct_answers: string[];
+}
+
+// What an assigned employee gets back from get_training_quiz: no answers
+export interface EmployeeQuiz {
+  id: string;
+  passing_score: number;
+  max_attempts: number | null;
+  questions: Omit<QuizQuestion, "correct_answers">[];
+  attempts_used: number;
+  passed: boolean;
+}
+
+// Answers keyed by question id
+export type QuizAnswers = Record<string, string>;
+
+export const QUESTION_TYPES: { value: QuestionType; label: string }[] = [
+  { value: "multiple_choice", label: "Multiple choice" },
+  { value: "true_false", label: "True / false" },
+  { value: "short_answer", label: "Short answer" },
+];
+
+export const TRUE_FALSE_OPTIONS = ["True", "False"];
+
+export const getQuestionTypeLabel = (type: string) =>
+  QUESTION_TYPES.find((t) => t.value === type)?.label || type;
+
+export const toQuizQuestions = (value: unknown): QuizQuestion[] =>
+  Array.isArray(value) ? (value as QuizQuestion[]) : [];
+
+export const toQuizAnswers = (value: unknown): QuizAnswers =>
+  value && typeof value === "object" && !Array.isArray(value) ? (value as QuizAnswers) : {};
+
+export const isCorrectAnswer = (question: QuizQuestion, answer: string | undefined) => {
+  const given = (answer || "").trim().toLowerCase();
+  return !!given && question.correct_answers.some((correct) => correct.trim().toLowerCase() === given);
+};
+
+// Problems that would make a question impossible to answer or grade
+export const getQuestionError = (question: QuizQuestion) => {
+  if (!question.prompt.trim()) return "Enter the question";
+  if (question.type === "multiple_choice") {
+    const options = (question.options || []).filter((o) => o.trim());
+    if (options.length < 2) return "Add at least two options";
+  }
+  if (!question.correct_answers.some((a) => a.trim())) return "Choose the correct answer";
+  return null;
+};
+
+export async function getTrainingQuiz(sessionId: string) {
+  const { data, error } = await supabase.rpc("get_training_quiz", { _session_id: sessionId });
+  if (error) throw error;
+  return data as unknown as EmployeeQuiz | null;
+}
+
+export async function submitQuizAttempt(sessionId: string, answers: QuizAnswers) {
+  const { data, error } = await supabase.rpc("submit_quiz_attempt", {
+    _session_id: sessionId,
+    _answers: answers as Json,
+  });
+  if (error) throw error;
+  return data;
+}
@@ -0,0 +1,229 @@
+// SCORM run-time API for packaged courses played in the training viewer.
+// Courses look for window.API (1.2) or window.API_1484_11 (2004) on their
+// parent frames and talk to it through the cmi data model; we keep that data
+// model as a flat element -> value map and hand it back on every commit.
+
+export type ScormVersion = "scorm12" | "scorm2004";
+export type CmiData = Record<string, string>;
+
+export interface PackageResult {
+  completed: boolean;
+  progress: number | null;
+  score: number | null;
+}
+
+type ScormApi = Record<string, (...args: string[]) => string>;
+
+export type ScormWindow = Window & { API?: ScormApi; API_1484_11?: ScormApi };
+
+interface ScormRuntimeOptions {
+  version: ScormVersion;
+  // Values saved from an earlier launch
+  data: CmiData;
+  learner: { id: string; name: string };
+  onCommit: (data: CmiData) => void;
+}
+
+const READ_ONLY: Record<ScormVersion, string[]> = {
+  scorm12: [
+    "cmi.core.student_id",
+    "cmi.core.student_name",
+    "cmi.core.credit",
+    "cmi.core.entry",
+    "cmi.core.total_time",
+    "cmi.core.lesson_mode",
+    "cmi.launch_data",
+  ],
+  scorm2004: [
+    "cmi.learner_id",
+    "cmi.learner_name",
+    "cmi.credit",
+    "cmi.entry",
+    "cmi.total_time",
+    "cmi.mode",
+    "cmi.launch_data",
+  ],
+};
+
+const ERROR_STRINGS: Record<ScormVersion, Record<string, string>> = {
+  scorm12: {
+    "0": "No error",
+    "101": "General exception",
+    "301": "Not initialized",
+    "403": "Element is read only",
+  },
+  scorm2004: {
+    "0": "No error",
+    "103": "Already initialized",
+    "104": "Content instance terminated",
+    "122": "Retrieve data before initialization",
+    "123": "Retrieve data after termination",
+    "132": "Store data before initialization",
+    "133": "Store data after termination",
+    "142": "Commit before initialization",
+    "143": "Commit after termination",
+    "403": "Data model element value not initialized",
+    "404": "Data model element is read only",
+  },
+};
+
+// Error codes for calls made before Initialize / after Terminate, by call
+const STATE_ERRORS = {
+  get: { new: "122", terminated: "123" },
+  set: { new: "132", terminated: "133" },
+  commit: { new: "142", terminated: "143" },
+};
+
+export function createScormApi({ version, data, learner, onCommit }: ScormRuntimeOptions): ScormApi {
+  const is2004 = version === "scorm2004";
+  const suspended = data[is2004 ? "cmi.exit" : "cmi.core.exit"] === "suspend";
+
+  const values: CmiData = is2004
+    ? {
+        "cmi.completion_status": "unknown",
+        "cmi.success_status": "unknown",
+        ...data,
+        "cmi.learner_id": learner.id,
+        "cmi.learner_name": learner.name,
+        "cmi.credit": "credit",
+        "cmi.mode": "normal",
+        "cmi.entry": suspended ? "resume" : "ab-initio",
+      }
+    : {
+        "cmi.core.lesson_status": "not attempted",
+        ...data,
+        "cmi.core.student_id": learner.id,
+        "cmi.core.student_name": learner.name,
+        "cmi.core.credit": "credit",
+        "cmi.core.lesson_mode": "normal",
+        "cmi.core.entry": suspended ? "resume" : "ab-initio",
+      };
+
+  let state: "new" | "running" | "terminated" = "new";
+  let lastError = "0";
+
+  const succeed = (result = "true") => {
+    lastError = "0";
+    return result;
+  };
+
+  const fail = (code: string, result = "false") => {
+    lastError = code;
+    return result;
+  };
+
+  // SCORM 1.2 has a single "not initialized" error for every call
+  const stateError = (call: keyof typeof STATE_ERRORS) =>
+    is2004 ? STATE_ERRORS[call][state === "new" ? "new" : "terminated"] : "301";
+
+  const save = () =>
+    onCommit(
+      Object.fromEntries(Object.entries(values).filter(([element]) => !READ_ONLY[version].includes(element)))
+    );
+
+  const initialize = () => {
+    if (state !== "new") return fail(is2004 ? (state === "running" ? "103" : "104") : "101");
+    state = "running";
+    return succeed();
+  };
+
+  const terminate = () => {
+    if (state !== "running") return fail(stateError("commit"));
+    save();
+    state = "terminated";
+    return succeed();
+  };
+
+  const getValue = (element: string) => {
+    if (state !== "running") return fail(stateError("get"), "");
+
+    // Collections such as cmi.interactions are stored as cmi.interactions.N.*
+    if (element.endsWith("._count")) {
+      const collection = element.slice(0, -"_count".length);
+      const indexes = new Set(
+        Object.keys(values)
+          .filter((key) => key.startsWith(collection))
+          .map((key) => key.slice(collection.length).split(".")[0])
+          .filter((index) => /^\d+$/.test(index))
+      );
+      return succeed(String(indexes.size));
+    }
+
+    if (element in values) return succeed(values[element]);
+    return is2004 ? fail("403", "") : succeed("");
+  };
+
+  const setValue = (element: string, value: string) => {
+    if (state !== "running") return fail(stateError("set"));
+    if (READ_ONLY[version].includes(element)) return fail(is2004 ? "404" : "403");
+    values[element] = String(value);
+    return succeed();
+  };
+
+  const commit = () => {
+    if (state !== "running") return fail(stateError("commit"));
+    save();
+    return succeed();
+  };
+
+  const getErrorString = (code: string) => ERROR_STRINGS[version][code] || "";
+
+  return is2004
+    ? {
+        Initialize: initialize,
+        Terminate: terminate,
+        GetValue: getValue,
+        SetValue: setValue,
+        Commit: commit,
+        GetLastError: () => lastError,
+        GetErrorString: getErrorString,
+        GetDiagnostic: getErrorString,
+      }
+    : {
+        LMSInitialize: initialize,
+        LMSFinish: terminate,
+        LMSGetValue: getValue,
+        LMSSetValue: setValue,
+        LMSCommit: commit,
+        LMSGetLastError: () => lastError,
+        LMSGetErrorString: getErrorString,
+        LMSGetDiagnostic: getErrorString,
+      };
+}
+
+// Raw scores are relative to the course's own min and max; without a max
+// they're taken as a percentage
+export const toPercentScore = (raw?: string, min?: string, max?: string) => {
+  const rawScore = parseFloat(raw ?? "");
+  if (Number.isNaN(rawScore)) return null;
+
+  const minScore = parseFloat(min ?? "") || 0;
+  const maxScore = parseFloat(max ?? "");
+  const percent =
+    maxScore > minScore ? ((rawScore - minScore) / (maxScore - minScore)) * 100 : rawScore;
+  return Math.round(Math.min(100, Math.max(0, percent)));
+};
+
+export const getScormResult = (version: ScormVersion, data: CmiData): PackageResult => {
+  if (version === "scorm12") {
+    const status = data["cmi.core.lesson_status"];
+    const completed = status === "completed" || status === "passed";
+    return {
+      completed,
+      progress: completed ? 100 : null,
+      score: toPercentScore(data["cmi.core.score.raw"], data["cmi.core.score.min"], data["cmi.core.score.max"]),
+    };
+  }
+
+  const completed = data["cmi.completion_status"] === "completed" || data["cmi.success_status"] === "passed";
+  const measure = parseFloat(data["cmi.progress_measure"] ?? "");
+  const scaled = parseFloat(data["cmi.score.scaled"] ?? "");
+
+  return {
+    completed,
+    progress: completed ? 100 : Number.isNaN(measure) ? null : Math.round(measure * 100),
+    score: Number.isNaN(scaled)
+      ? toPercentScore(data["cmi.score.raw"], data["cmi.score.min"], data["cmi.score.max"])
+      : Math.round(Math.min(100, Math.max(0, scaled * 100))),
+  };
+};
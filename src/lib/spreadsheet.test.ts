@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { toCsv, toXlsx } from "./spreadsheet";
+
+describe("toCsv", () => {
+  it("joins cells with commas and rows with CRLF", () => {
+    expect(
+      toCsv([
+        ["Name", "Age"],
+        ["Asha", 31],
+      ])
+    ).toBe("Name,Age\r\nAsha,31");
+  });
+
+  it("quotes cells with commas, quotes or line breaks", () => {
+    expect(toCsv([["Rao, Asha", 'said "hi"', "two\nlines"]])).toBe('"Rao, Asha","said ""hi""","two\nlines"');
+  });
+
+  it("writes missing values as empty cells", () => {
+    expect(toCsv([[null, undefined, ""]])).toBe(",,");
+  });
+
+  it("keeps text that would run as a formula as text", () => {
+    expect(toCsv([["=HYPERLINK(\"http://x\")", "+1", "-1", "@SUM(A1)", "\tx"]])).toBe(
+      `"'=HYPERLINK(""http://x"")",'+1,'-1,'@SUM(A1),'\tx`
+    );
+    expect(toCsv([["\rcmd"]])).toBe(`"'\rcmd"`);
+  });
+
+  it("leaves numbers and text that merely contains formula characters alone", () => {
+    expect(toCsv([[-5, "a=b", "x+y@z"]])).toBe("-5,a=b,x+y@z");
+  });
+});
+
+describe("toXlsx", () => {
+  it("packages the rows as a stored zip with an escaped, named sheet", async () => {
+    const blob = toXlsx(
+      [
+        ["Name", "Score"],
+        ["<Asha & co>", 9],
+        [null, ""],
+      ],
+      "Q1: [draft]"
+    );
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const text = new TextDecoder().decode(bytes);
+
+    expect(blob.type).toBe("application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+    expect(Array.from(bytes.slice(0, 4))).toEqual([0x50, 0x4b, 0x03, 0x04]);
+    expect(text).toContain('<sheet name="Q1   draft " sheetId="1" r:id="rId1"/>');
+    expect(text).toContain('<c r="A2" t="inlineStr"><is><t xml:space="preserve">&lt;Asha &amp; co&gt;</t></is></c>');
+    expect(text).toContain('<c r="B2"><v>9</v></c>');
+    expect(text).toContain('<row r="3"></row>');
+  });
+
+  it("names columns past Z", async () => {
+    const text = new TextDecoder().decode(await toXlsx([Array.from({ length: 28 }, (_, i) => i)]).arrayBuffer());
+    expect(text).toContain('<c r="Z1"><v>25</v></c>');
+    expect(text).toContain('<c r="AB1"><v>27</v></c>');
+  });
+});
@@ -0,0 +1,18 @@
+import { describe, expect, it, vi } from "vitest";
+import { parsePublicStorageUrl } from "./storage";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+describe("parsePublicStorageUrl", () => {
+  it("splits a public storage URL into bucket and path", () => {
+    expect(
+      parsePublicStorageUrl("https://abc.supabase.co/storage/v1/object/public/employee_docs/user-1/passport.pdf")
+    ).toEqual({ bucket: "employee_docs", path: "user-1/passport.pdf" });
+  });
+
+  it("ignores storage paths and other links", () => {
+    expect(parsePublicStorageUrl("user-1/passport.pdf")).toBeNull();
+    expect(parsePublicStorageUrl("https://drive.google.com/file/d/123")).toBeNull();
+    expect(parsePublicStorageUrl("https://abc.supabase.co/storage/v1/object/sign/employee_docs/a.pdf")).toBeNull();
+  });
+});
@@ -0,0 +1,47 @@
+import { supabase } from "@/integrations/supabase/client";
+
+const isExternalUrl = (fileUrl: string) =>
+  fileUrl.startsWith("http://") || fileUrl.startsWith("https://");
+
+// Bucket and path of a Supabase public storage URL, as older documents stored
+export const parsePublicStorageUrl = (fileUrl: string): { bucket: string; path: string } | null => {
+  if (!isExternalUrl(fileUrl) || !fileUrl.includes("supabase.co/storage")) return null;
+
+  const urlParts = fileUrl.split("/storage/v1/object/public/");
+  if (urlParts.length < 2) return null;
+
+  const [bucket, ...pathParts] = urlParts[1].split("/");
+  return { bucket, path: pathParts.join("/") };
+};
+
+// Resolve a stored document file_url into a URL the browser can open.
+// New uploads store a path in the private employee_docs bucket, older rows
+// hold a Supabase public storage URL, and anything else is an external link.
+export const getDocumentUrl = async (fileUrl: string): Promise<string> => {
+  if (isExternalUrl(fileUrl)) {
+    // Check if it's a Supabase storage public URL (old documents)
+    const stored = parsePublicStorageUrl(fileUrl);
+    if (stored) {
+      const { data, error } = await supabase.storage
+        .from(stored.bucket)
+        .createSignedUrl(stored.path, 3600);
+
+      if (error) throw error;
+      if (data?.signedUrl) {
+        // signedUrl is already a full URL from createSignedUrl
+        return data.signedUrl.startsWith("http")
+          ? data.signedUrl
+          : `${import.meta.env.VITE_SUPABASE_URL}${data.signedUrl}`;
+      }
+    }
+    // For other external URLs (Google Drive, etc.), open directly
+    return fileUrl;
+  }
+
+  const { data, error } = await supabase.storage
+    .from("employee_docs")
+    .createSignedUrl(fileUrl, 3600);
+
+  if (error) throw error;
+  return data.signedUrl;
+};
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  formatTimeSpent,
+  getDaysOverdue,
+  getDueDateFromStart,
+  getEmbedUrl,
+  getTimedProgress,
+  isTrainingOverdue,
+} from "./training";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+describe("getEmbedUrl", () => {
+  it("embeds YouTube videos from any link form", () => {
+    const embed = "https://www.youtube-nocookie.com/embed/dQw4w9WgXcQ";
+    expect(getEmbedUrl("youtube", "https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=10")).toBe(embed);
+    expect(getEmbedUrl("youtube", "https://www.youtube.com/watch?list=x&v=dQw4w9WgXcQ")).toBe(embed);
+    expect(getEmbedUrl("youtube", "https://youtu.be/dQw4w9WgXcQ")).toBe(embed);
+    expect(getEmbedUrl("youtube", "https://youtube.com/shorts/dQw4w9WgXcQ")).toBe(embed);
+    expect(getEmbedUrl("youtube", "https://www.youtube.com/channel/abc")).toBeNull();
+  });
+
+  it("switches Drive links to the preview page", () => {
+    expect(getEmbedUrl("drive", "https://drive.google.com/file/d/123/view?usp=sharing")).toBe(
+      "https://drive.google.com/file/d/123/preview"
+    );
+  });
+
+  it("replaces any fragment on PDF links with the viewer options", () => {
+    expect(getEmbedUrl("pdf", "https://x.test/a.pdf#page=3")).toBe(
+      "https://x.test/a.pdf#view=FitH&toolbar=0&navpanes=0"
+    );
+  });
+
+  it("shows PDF decks directly and PowerPoint files through Microsoft's viewer", () => {
+    expect(getEmbedUrl("slides", "https://x.test/deck.pdf?token=1")).toBe(
+      "https://x.test/deck.pdf?token=1#view=FitH&toolbar=0&navpanes=0"
+    );
+    expect(getEmbedUrl("slides", "https://x.test/deck.pptx?token=1")).toBe(
+      "https://view.officeapps.live.com/op/embed.aspx?src=https%3A%2F%2Fx.test%2Fdeck.pptx%3Ftoken%3D1"
+    );
+  });
+
+  it("opens external links and missing URLs in a new tab", () => {
+    expect(getEmbedUrl("external", "https://x.test")).toBeNull();
+    expect(getEmbedUrl("pdf", null)).toBeNull();
+  });
+});
+
+describe("getTimedProgress", () => {
+  it("measures time spent against the stated duration, short of complete", () => {
+    expect(getTimedProgress(300, 10)).toBe(50);
+    expect(getTimedProgress(6000, 10)).toBe(95);
+  });
+
+  it("reports nothing without a duration", () => {
+    expect(getTimedProgress(300, null)).toBe(0);
+    expect(getTimedProgress(300, 0)).toBe(0);
+  });
+});
+
+describe("formatTimeSpent", () => {
+  it("rounds to minutes and splits out hours", () => {
+    expect(formatTimeSpent(29)).toBe("Less than a minute");
+    expect(formatTimeSpent(90)).toBe("2 min");
+    expect(formatTimeSpent(3600)).toBe("1 h 0 min");
+    expect(formatTimeSpent(5430)).toBe("1 h 31 min");
+  });
+});
+
+describe("getDueDateFromStart", () => {
+  it("counts whole days from the start date", () => {
+    expect(getDueDateFromStart("2026-03-10", 0)).toBe("2026-03-10");
+    expect(getDueDateFromStart("2026-03-10", 30)).toBe("2026-04-09");
+  });
+
+  it("crosses month, year and leap-day boundaries", () => {
+    expect(getDueDateFromStart("2026-12-20", 14)).toBe("2027-01-03");
+    expect(getDueDateFromStart("2028-02-28", 1)).toBe("2028-02-29");
+    expect(getDueDateFromStart("2027-02-28", 1)).toBe("2027-03-01");
+  });
+});
+
+describe("overdue training", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2026, 9, 18, 15, 30));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("is overdue from the day after the due date until completed", () => {
+    expect(isTrainingOverdue("2026-10-18", false)).toBe(false);
+    expect(isTrainingOverdue("2026-10-17", false)).toBe(true);
+    expect(isTrainingOverdue("2026-10-17", true)).toBe(false);
+    expect(isTrainingOverdue(null, false)).toBe(false);
+  });
+
+  it("counts calendar days past the due date", () => {
+    expect(getDaysOverdue("2026-10-17")).toBe(1);
+    expect(getDaysOverdue("2026-09-18")).toBe(30);
+  });
+});
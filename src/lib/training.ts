@@ -0,0 +1,123 @@
+import { addDays, differenceInCalendarDays, format, isBefore, parseISO, startOfDay } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+
+export type TrainingResourceType = "youtube" | "pdf" | "drive" | "external" | "video" | "slides" | "scorm";
+
+// File types staff can upload instead of linking; accept is passed to the
+// file input. Packages can only be uploaded.
+export const TRAINING_RESOURCE_TYPES: {
+  value: TrainingResourceType;
+  label: string;
+  accept?: string;
+  uploadOnly?: boolean;
+}[] = [
+  { value: "youtube", label: "YouTube Video" },
+  { value: "pdf", label: "PDF Document", accept: ".pdf,application/pdf" },
+  { value: "video", label: "Video File (MP4)", accept: ".mp4,.webm,video/mp4,video/webm" },
+  { value: "slides", label: "Slide Deck", accept: ".pptx,.ppt,.odp,.pdf" },
+  { value: "scorm", label: "SCORM / xAPI Package", accept: ".zip,application/zip", uploadOnly: true },
+  { value: "drive", label: "Google Drive Link" },
+  { value: "external", label: "External Link" },
+];
+
+export const getResourceTypeLabel = (type: string) =>
+  TRAINING_RESOURCE_TYPES.find((t) => t.value === type)?.label || type;
+
+// How often time spent in the viewer is written back while it stays open
+export const ACTIVITY_FLUSH_SECONDS = 30;
+
+// Progress short of 100% until the employee finishes or marks it complete
+const MAX_TIMED_PROGRESS = 95;
+
+const getYouTubeId = (url: string) => {
+  const match = url.match(/(?:youtu\.be\/|youtube\.com\/(?:watch\?(?:.*&)?v=|embed\/|shorts\/))([\w-]{11})/);
+  return match?.[1] || null;
+};
+
+// URL to show inside the viewer, or null when the resource has to open in a
+// new tab (most external sites refuse to be framed)
+export const getEmbedUrl = (resourceType: string, url: string | null) => {
+  if (!url) return null;
+
+  switch (resourceType) {
+    case "youtube": {
+      const id = getYouTubeId(url);
+      return id ? `https://www.youtube-nocookie.com/embed/${id}` : null;
+    }
+    case "drive":
+      return url.replace(/\/(view|edit)(\?.*)?$/, "/preview");
+    case "pdf":
+      return `${url.split("#")[0]}#view=FitH&toolbar=0&navpanes=0`;
+    case "slides":
+      // Decks exported to PDF show like any PDF; PowerPoint files go through
+      // Microsoft's viewer, which needs a URL it can fetch (signed URLs work)
+      return /\.pdf(\?|#|$)/i.test(url)
+        ? `${url.split("#")[0]}#view=FitH&toolbar=0&navpanes=0`
+        : `https://view.officeapps.live.com/op/embed.aspx?src=${encodeURIComponent(url)}`;
+    default:
+      return null;
+  }
+};
+
+// Uploaded files are private, so the viewer gets a short-lived signed URL
+export async function getTrainingContentUrl(storagePath: string) {
+  const { data, error } = await supabase.storage.from("training_content").createSignedUrl(storagePath, 3600 * 4);
+  if (error) throw error;
+  return data.signedUrl;
+}
+
+// The department folder is what the storage policies scope managers by
+export async function uploadTrainingContent(file: File, departmentId: string | null) {
+  const fileExt = file.name.split(".").pop();
+  const filePath = `${departmentId || "shared"}/${Date.now()}.${fileExt}`;
+
+  const { error } = await supabase.storage.from("training_content").upload(filePath, file);
+  if (error) throw error;
+  return filePath;
+}
+
+// The viewer can't see inside framed content, so time spent against the
+// session's stated duration is the best progress measure available
+export const getTimedProgress = (seconds: number, durationMinutes: number | null) => {
+  if (!durationMinutes) return 0;
+  return Math.min(MAX_TIMED_PROGRESS, Math.floor((seconds / (durationMinutes * 60)) * 100));
+};
+
+export const formatTimeSpent = (seconds: number) => {
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 1) return "Less than a minute";
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+};
+
+// Due dates are whole days: an assignment is overdue from the day after
+export const isTrainingOverdue = (dueDate: string | null, completed: boolean) =>
+  !!dueDate && !completed && isBefore(parseISO(dueDate), startOfDay(new Date()));
+
+export const getDaysOverdue = (dueDate: string) => differenceInCalendarDays(new Date(), parseISO(dueDate));
+
+// A due date relative to the employee's start date, as stored in due_date
+export const getDueDateFromStart = (joinDate: string, days: number) =>
+  format(addDays(parseISO(joinDate), days), "yyyy-MM-dd");
+
+interface TrainingActivity {
+  seconds?: number;
+  progress?: number;
+  completed?: boolean;
+  opened?: boolean;
+  position?: number; // Video playback position in seconds
+}
+
+export async function recordTrainingActivity(sessionId: string, activity: TrainingActivity) {
+  const { data, error } = await supabase.rpc("record_training_activity", {
+    _session_id: sessionId,
+    _seconds: Math.round(activity.seconds || 0),
+    _progress: Math.round(activity.progress || 0),
+    _completed: activity.completed || false,
+    _opened: activity.opened || false,
+    _position: activity.position === undefined ? undefined : Math.floor(activity.position),
+  });
+
+  if (error) throw error;
+  return data;
+}
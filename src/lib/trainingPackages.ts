@@ -0,0 +1,294 @@
+import { Json } from "@/integrations/supabase/types";
+import { ZipEntry, readZip } from "@/lib/zip";
+import { CmiData, PackageResult, ScormVersion } from "@/lib/scorm";
+
+// Packaged courses are uploaded by staff and run their own scripts, so they
+// never run on the app's origin, where they could use the learner's session.
+// The viewer embeds package-host.html from a separate origin serving the same
+// build; the host page unpacks the course into that origin's Cache Storage,
+// public/training-package-sw.js serves it from this path so the course's
+// relative links work, and the host page provides the SCORM API and passes
+// what the course reports back to the viewer by postMessage.
+export const PACKAGE_HOST_ORIGIN: string | null = import.meta.env.VITE_TRAINING_PACKAGE_ORIGIN
+  ? new URL(import.meta.env.VITE_TRAINING_PACKAGE_ORIGIN).origin
+  : null;
+export const PACKAGE_SCOPE = "/training-packages/";
+const PACKAGE_WORKER = "/training-package-sw.js";
+// Endpoint the worker answers xAPI requests on, inside each package
+const XAPI_ENDPOINT = "__xapi__/";
+
+export type PackageStandard = ScormVersion | "xapi";
+
+export interface TrainingPackage {
+  standard: PackageStandard;
+  launchPath: string;
+  // xAPI only: the course activity its completion statements are about
+  activityId?: string;
+}
+
+// Saved in training_progress.package_data
+export interface PackageData {
+  cmi?: CmiData;
+  registration?: string;
+  state?: Record<string, string>;
+}
+
+export interface PackageLearner {
+  id: string;
+  name: string;
+  email: string;
+}
+
+// Viewer -> host page. The viewer downloads the package, as only it is
+// signed in, and sends it when the host doesn't have that upload yet.
+export type PackageViewerMessage =
+  | { type: "launch"; sessionId: string; storagePath: string; learner: PackageLearner; data: PackageData }
+  | { type: "package"; zip: ArrayBuffer };
+
+// Host page -> viewer
+export type PackageHostMessage =
+  | { type: "ready" }
+  | { type: "need-package" }
+  | { type: "launched" }
+  | { type: "save"; data: PackageData; result: PackageResult | null }
+  | { type: "error"; message: string };
+
+// Sent by the worker when the course posts a statement or saves state
+export type PackageWorkerMessage =
+  | { type: "xapi-statement"; sessionId: string; statement: XapiStatement }
+  | { type: "xapi-state"; sessionId: string; key: string; value: string | null };
+
+interface XapiStatement {
+  verb?: { id?: string };
+  object?: { id?: string };
+  result?: {
+    completion?: boolean;
+    success?: boolean;
+    score?: { scaled?: number; raw?: number; min?: number; max?: number };
+  };
+}
+
+export const PACKAGE_STANDARDS: Record<PackageStandard, string> = {
+  scorm12: "SCORM 1.2",
+  scorm2004: "SCORM 2004",
+  xapi: "xAPI",
+};
+
+const MIME_TYPES: Record<string, string> = {
+  html: "text/html",
+  htm: "text/html",
+  js: "text/javascript",
+  css: "text/css",
+  json: "application/json",
+  xml: "application/xml",
+  xsd: "application/xml",
+  svg: "image/svg+xml",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  ico: "image/x-icon",
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+  mp4: "video/mp4",
+  webm: "video/webm",
+  vtt: "text/vtt",
+  pdf: "application/pdf",
+  woff: "font/woff",
+  woff2: "font/woff2",
+  ttf: "font/ttf",
+  swf: "application/x-shockwave-flash",
+};
+
+const getMimeType = (path: string) =>
+  MIME_TYPES[path.split(".").pop()?.toLowerCase() || ""] || "application/octet-stream";
+
+// Must match fileUrl in the worker
+export const getPackageFileUrl = (sessionId: string, path: string) =>
+  `${PACKAGE_SCOPE}${sessionId}/${path.split("/").map(encodeURIComponent).join("/")}`;
+
+const getCacheName = (sessionId: string) => `training-package-${sessionId}`;
+const getMarkerUrl = (sessionId: string) => `${PACKAGE_SCOPE}${sessionId}/__package__`;
+const getStateUrl = (sessionId: string, key: string) =>
+  `${PACKAGE_SCOPE}${sessionId}/__xapi_state__/${encodeURIComponent(key)}`;
+
+const parseXml = async (entry: ZipEntry) =>
+  new DOMParser().parseFromString(new TextDecoder().decode(await entry.read()), "application/xml");
+
+// Courses are sometimes zipped inside a top-level folder, so take the
+// shallowest manifest and resolve the launch file against its folder
+const findEntry = (entries: ZipEntry[], name: string) =>
+  entries
+    .filter((e) => e.path.toLowerCase().split("/").pop() === name)
+    .sort((a, b) => a.path.split("/").length - b.path.split("/").length)[0];
+
+const getFolder = (path: string) => path.slice(0, path.lastIndexOf("/") + 1);
+
+// The element's xml:base, which SCORM manifests use to prefix hrefs
+const getBase = (element: Element | null) => element?.getAttribute("xml:base") || "";
+
+const inspectScormManifest = async (entry: ZipEntry): Promise<TrainingPackage> => {
+  const manifest = await parseXml(entry);
+  if (manifest.querySelector("parsererror")) throw new Error("imsmanifest.xml could not be read");
+
+  const schemaVersion = manifest.getElementsByTagName("schemaversion")[0]?.textContent?.trim() || "";
+  const is2004 =
+    /2004|CAM 1\.3/i.test(schemaVersion) ||
+    Array.from(manifest.documentElement.attributes).some((a) => a.value.includes("adlcp_v1p3"));
+
+  // The first SCO is what the course launches with; fall back to any
+  // resource with a file
+  const resources = Array.from(manifest.getElementsByTagName("resource")).filter((r) => r.getAttribute("href"));
+  const sco =
+    resources.find((r) =>
+      Array.from(r.attributes).some((a) => a.name.toLowerCase().endsWith("scormtype") && a.value === "sco")
+    ) || resources[0];
+  if (!sco) throw new Error("imsmanifest.xml doesn't list a launch file");
+
+  return {
+    standard: is2004 ? "scorm2004" : "scorm12",
+    launchPath:
+      getFolder(entry.path) +
+      getBase(manifest.getElementsByTagName("resources")[0]) +
+      getBase(sco) +
+      sco.getAttribute("href"),
+  };
+};
+
+const inspectTinCan = async (entry: ZipEntry): Promise<TrainingPackage> => {
+  const tincan = await parseXml(entry);
+  const activity = Array.from(tincan.getElementsByTagName("activity")).find(
+    (a) => a.getElementsByTagName("launch")[0]?.textContent?.trim()
+  );
+  if (!activity) throw new Error("tincan.xml doesn't list a launch file");
+
+  return {
+    standard: "xapi",
+    launchPath: getFolder(entry.path) + activity.getElementsByTagName("launch")[0].textContent!.trim(),
+    activityId: activity.getAttribute("id") || undefined,
+  };
+};
+
+const inspectEntries = async (entries: ZipEntry[]) => {
+  const manifest = findEntry(entries, "imsmanifest.xml");
+  if (manifest) return inspectScormManifest(manifest);
+
+  const tincan = findEntry(entries, "tincan.xml");
+  if (tincan) return inspectTinCan(tincan);
+
+  throw new Error("No imsmanifest.xml (SCORM) or tincan.xml (xAPI) found in the package");
+};
+
+// Checked when the package is uploaded so a broken zip is caught up front
+export async function inspectTrainingPackage(file: File) {
+  return inspectEntries(readZip(await file.arrayBuffer()));
+}
+
+export const getPackageHostUrl = () =>
+  `${PACKAGE_HOST_ORIGIN}/package-host.html?viewer=${encodeURIComponent(window.location.origin)}`;
+
+export async function registerPackageWorker() {
+  if (!("serviceWorker" in navigator) || !("caches" in window)) {
+    throw new Error("This browser can't play packaged courses");
+  }
+
+  const registration = await navigator.serviceWorker.register(PACKAGE_WORKER, { scope: PACKAGE_SCOPE });
+  const worker = registration.installing || registration.waiting || registration.active;
+  if (!worker || worker.state === "activated") return;
+
+  await new Promise<void>((resolve) => {
+    worker.addEventListener("statechange", () => {
+      if (worker.state === "activated") resolve();
+    });
+  });
+}
+
+// The session's package when the same upload is already unpacked from an
+// earlier launch
+export async function getMountedPackage(sessionId: string, storagePath: string): Promise<TrainingPackage | null> {
+  const marker = await (await caches.open(getCacheName(sessionId))).match(getMarkerUrl(sessionId));
+  if (!marker) return null;
+
+  const mounted = await marker.json();
+  return mounted.storagePath === storagePath ? mounted.package : null;
+}
+
+// Unpacks the session's package into the cache in place of any earlier upload
+export async function mountTrainingPackage(
+  sessionId: string,
+  storagePath: string,
+  zip: ArrayBuffer
+): Promise<TrainingPackage> {
+  const cacheName = getCacheName(sessionId);
+  await caches.delete(cacheName);
+
+  const entries = readZip(zip);
+  const trainingPackage = await inspectEntries(entries);
+  const cache = await caches.open(cacheName);
+
+  for (const entry of entries) {
+    await cache.put(
+      getPackageFileUrl(sessionId, entry.path),
+      new Response(await entry.read(), { headers: { "Content-Type": getMimeType(entry.path) } })
+    );
+  }
+  await cache.put(getMarkerUrl(sessionId), Response.json({ storagePath, package: trainingPackage }));
+
+  return trainingPackage;
+}
+
+// Puts saved xAPI state back where the worker answers state requests from
+export async function restorePackageState(sessionId: string, state: Record<string, string>) {
+  const cache = await caches.open(getCacheName(sessionId));
+  await Promise.all(
+    Object.entries(state).map(([key, value]) => cache.put(getStateUrl(sessionId, key), new Response(value)))
+  );
+}
+
+// Launch parameters from the xAPI launch spec: where to send statements and
+// who the learner is
+export const getXapiLaunchUrl = (
+  sessionId: string,
+  trainingPackage: TrainingPackage,
+  learner: { name: string; email: string },
+  registration: string
+) => {
+  const [path, query] = trainingPackage.launchPath.split("?");
+  const params = new URLSearchParams(query);
+  params.set("endpoint", `${window.location.origin}${PACKAGE_SCOPE}${sessionId}/${XAPI_ENDPOINT}`);
+  params.set("auth", "Basic training-viewer");
+  params.set("actor", JSON.stringify({ objectType: "Agent", name: learner.name, mbox: `mailto:${learner.email}` }));
+  params.set("registration", registration);
+  if (trainingPackage.activityId) params.set("activity_id", trainingPackage.activityId);
+
+  return `${getPackageFileUrl(sessionId, path)}?${params}`;
+};
+
+export const getScormLaunchUrl = (sessionId: string, trainingPackage: TrainingPackage) => {
+  const [path, query] = trainingPackage.launchPath.split("?");
+  return getPackageFileUrl(sessionId, path) + (query ? `?${query}` : "");
+};
+
+// What a statement about the course itself says about the attempt; null for
+// statements that don't change completion or score
+export const getStatementResult = (statement: XapiStatement, activityId?: string): PackageResult | null => {
+  if (activityId && statement.object?.id !== activityId) return null;
+
+  const verb = statement.verb?.id?.split("/").pop();
+  const result = statement.result;
+  const score = result?.score;
+  const scaledScore =
+    score?.scaled !== undefined
+      ? Math.round(Math.min(100, Math.max(0, score.scaled * 100)))
+      : score?.raw !== undefined && score.max
+        ? Math.round(((score.raw - (score.min || 0)) / (score.max - (score.min || 0))) * 100)
+        : null;
+  const completed = verb === "completed" || verb === "passed" || result?.completion === true;
+
+  if (!completed && scaledScore === null && verb !== "failed") return null;
+  return { completed, progress: completed ? 100 : null, score: scaledScore };
+};
+
+export const toPackageData = (data: Json | undefined): PackageData =>
+  data && typeof data === "object" && !Array.isArray(data) ? (data as PackageData) : {};
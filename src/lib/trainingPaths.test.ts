@@ -0,0 +1,46 @@
+import { describe, expect, it, vi } from "vitest";
+import { TrainingPath, TrainingPathModule, createsPrerequisiteCycle, getModuleState } from "./trainingPaths";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+const module = (id: string, sessionId: string, prerequisites: string[] = []): TrainingPathModule => ({
+  id,
+  path_id: "path",
+  training_session_id: sessionId,
+  prerequisite_session_ids: prerequisites,
+  position: 0,
+  due_offset_days: null,
+  created_at: null,
+});
+
+const path = (...modules: TrainingPathModule[]) => ({ training_path_modules: modules }) as TrainingPath;
+
+describe("getModuleState", () => {
+  it("unlocks a module once all its prerequisites are complete", () => {
+    const quiz = module("m2", "quiz", ["intro", "safety"]);
+    expect(getModuleState(quiz, ["intro"])).toBe("locked");
+    expect(getModuleState(quiz, ["intro", "safety"])).toBe("unlocked");
+    expect(getModuleState(quiz, ["quiz"])).toBe("completed");
+  });
+});
+
+describe("createsPrerequisiteCycle", () => {
+  const paths = [path(module("m1", "intro"), module("m2", "safety", ["intro"]), module("m3", "quiz", ["safety"]))];
+
+  it("rejects a module that waits on itself", () => {
+    expect(createsPrerequisiteCycle(paths, { training_session_id: "extra", prerequisite_session_ids: ["extra"] })).toBe(
+      true
+    );
+  });
+
+  it("rejects prerequisites that lead back to the module through other paths", () => {
+    const edited = { id: "m4", training_session_id: "intro", prerequisite_session_ids: ["quiz"] };
+    expect(createsPrerequisiteCycle([...paths, path(module("m4", "intro"))], edited)).toBe(true);
+  });
+
+  it("allows chains and shared prerequisites without a loop", () => {
+    expect(
+      createsPrerequisiteCycle(paths, { training_session_id: "final", prerequisite_session_ids: ["quiz", "intro"] })
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,83 @@
+import { addDays, isBefore, parseISO, startOfDay } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+
+export type TrainingPathModule = Tables<"training_path_modules">;
+export type ModuleState = "completed" | "unlocked" | "locked";
+
+export interface TrainingPath extends Tables<"training_paths"> {
+  training_path_modules: TrainingPathModule[];
+}
+
+export const MODULE_STATES: Record<ModuleState, { label: string; className: string }> = {
+  completed: { label: "Completed", className: "bg-green-100 text-green-800 hover:bg-green-100" },
+  unlocked: { label: "Unlocked", className: "bg-blue-100 text-blue-800 hover:bg-blue-100" },
+  locked: { label: "Locked", className: "bg-muted text-muted-foreground hover:bg-muted" },
+};
+
+// A department's paths with their modules in order
+export async function loadTrainingPaths(departmentId: string): Promise<TrainingPath[]> {
+  const { data, error } = await supabase
+    .from("training_paths")
+    .select("*, training_path_modules(*)")
+    .eq("department_id", departmentId)
+    .order("created_at");
+
+  if (error) throw error;
+
+  return (data || []).map((path) => ({
+    ...path,
+    training_path_modules: [...path.training_path_modules].sort((a, b) => a.position - b.position),
+  }));
+}
+
+export const getModuleState = (module: TrainingPathModule, completedSessionIds: string[]): ModuleState => {
+  if (completedSessionIds.includes(module.training_session_id)) return "completed";
+  return module.prerequisite_session_ids.every((id) => completedSessionIds.includes(id)) ? "unlocked" : "locked";
+};
+
+// Sessions any of the paths keep locked; mirrors is_training_locked
+export const getLockedSessionIds = (paths: TrainingPath[], completedSessionIds: string[]) =>
+  paths
+    .flatMap((path) => path.training_path_modules)
+    .filter((module) => getModuleState(module, completedSessionIds) === "locked")
+    .map((module) => module.training_session_id);
+
+// Whether saving a module with these prerequisites would leave a session
+// waiting on itself through the department's paths; mirrors the
+// prevent_training_prerequisite_cycles trigger
+export const createsPrerequisiteCycle = (
+  paths: TrainingPath[],
+  module: Pick<TrainingPathModule, "training_session_id" | "prerequisite_session_ids"> & { id?: string }
+) => {
+  const prerequisitesOf = new Map<string, string[]>();
+  for (const other of paths.flatMap((path) => path.training_path_modules)) {
+    if (other.id === module.id) continue;
+    prerequisitesOf.set(other.training_session_id, [
+      ...(prerequisitesOf.get(other.training_session_id) || []),
+      ...other.prerequisite_session_ids,
+    ]);
+  }
+
+  const visited = new Set<string>();
+  const pending = [...module.prerequisite_session_ids];
+  for (let sessionId = pending.pop(); sessionId !== undefined; sessionId = pending.pop()) {
+    if (sessionId === module.training_session_id) return true;
+    if (visited.has(sessionId)) continue;
+    visited.add(sessionId);
+    pending.push(...(prerequisitesOf.get(sessionId) || []));
+  }
+  return false;
+};
+
+export const getModuleDueDate = (module: TrainingPathModule, joinDate: string | null) =>
+  joinDate && module.due_offset_days !== null ? addDays(parseISO(joinDate), module.due_offset_days) : null;
+
+export const isModuleOverdue = (dueDate: Date | null, state: ModuleState) =>
+  !!dueDate && state !== "completed" && isBefore(dueDate, startOfDay(new Date()));
+
+export const formatDueOffset = (days: number | null) => {
+  if (days === null) return "No deadline";
+  if (days === 0) return "Due on the join date";
+  return `Due ${days} day${days === 1 ? "" : "s"} after joining`;
+};
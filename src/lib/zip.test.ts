@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { readZip } from "./zip";
+
+interface TestEntry {
+  name: string;
+  data?: Uint8Array;
+  method?: number;
+  flags?: number;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const deflate = async (data: Uint8Array) => {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Just enough of a zip writer to exercise the reader; CRCs are left at zero
+// because readZip doesn't check them
+const buildZip = (entries: TestEntry[], comment = "") => {
+  const local: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const data = entry.data ?? new Uint8Array();
+
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, 0x04034b50, true);
+    header.setUint16(8, entry.method ?? 0, true);
+    header.setUint32(18, data.length, true);
+    header.setUint16(26, name.length, true);
+    local.push(new Uint8Array(header.buffer), name, data);
+
+    const record = new DataView(new ArrayBuffer(46));
+    record.setUint32(0, 0x02014b50, true);
+    record.setUint16(8, entry.flags ?? 0, true);
+    record.setUint16(10, entry.method ?? 0, true);
+    record.setUint32(20, data.length, true);
+    record.setUint16(28, name.length, true);
+    record.setUint32(42, offset, true);
+    central.push(new Uint8Array(record.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  }
+
+  const commentBytes = encoder.encode(comment);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(16, offset, true);
+  end.setUint16(20, commentBytes.length, true);
+
+  const parts = [...local, ...central, new Uint8Array(end.buffer), commentBytes];
+  const buffer = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+  parts.reduce((position, part) => {
+    buffer.set(part, position);
+    return position + part.length;
+  }, 0);
+  return buffer.buffer;
+};
+
+describe("readZip", () => {
+  it("reads stored and deflated entries", async () => {
+    const manifest = encoder.encode("<manifest/>");
+    const page = encoder.encode("<html>".repeat(50));
+    const entries = readZip(
+      buildZip([
+        { name: "imsmanifest.xml", data: manifest },
+        { name: "content/index.html", data: await deflate(page), method: 8 },
+      ])
+    );
+
+    expect(entries.map((entry) => entry.path)).toEqual(["imsmanifest.xml", "content/index.html"]);
+    expect(decoder.decode(await entries[0].read())).toBe("<manifest/>");
+    expect(decoder.decode(await entries[1].read())).toBe("<html>".repeat(50));
+  });
+
+  it("skips folders and normalises Windows path separators", () => {
+    const entries = readZip(buildZip([{ name: "content/" }, { name: "content\\app.js", data: encoder.encode("x") }]));
+    expect(entries.map((entry) => entry.path)).toEqual(["content/app.js"]);
+  });
+
+  it("finds the end record behind an archive comment", () => {
+    const entries = readZip(buildZip([{ name: "a.txt", data: encoder.encode("a") }], "made by an authoring tool"));
+    expect(entries.map((entry) => entry.path)).toEqual(["a.txt"]);
+  });
+
+  it("reads an empty archive", () => {
+    expect(readZip(buildZip([]))).toEqual([]);
+  });
+
+  it("rejects files that aren't zip archives", () => {
+    expect(() => readZip(encoder.encode("not a zip file at all, just some text").buffer)).toThrow(
+      "The file is not a zip archive"
+    );
+    expect(() => readZip(new ArrayBuffer(4))).toThrow("The file is not a zip archive");
+  });
+
+  it("rejects encrypted entries and unsupported compression", () => {
+    expect(() => readZip(buildZip([{ name: "secret.txt", flags: 0x1 }]))).toThrow(
+      "Encrypted zip archives are not supported"
+    );
+    expect(() => readZip(buildZip([{ name: "a.bin", method: 12 }]))).toThrow(
+      '"a.bin" uses an unsupported compression method'
+    );
+  });
+
+  it("rejects zip64 archives and damaged directories", () => {
+    const zip64 = buildZip([{ name: "a.txt" }]);
+    new DataView(zip64).setUint32(zip64.byteLength - 6, 0xffffffff, true);
+    expect(() => readZip(zip64)).toThrow("Zip64 archives are not supported");
+
+    const damaged = buildZip([{ name: "a.txt" }]);
+    new DataView(damaged).setUint32(damaged.byteLength - 6, 0, true);
+    expect(() => readZip(damaged)).toThrow("The zip archive is damaged");
+  });
+});
@@ -0,0 +1,72 @@
+// Minimal zip reader for training packages. Handles stored and deflated
+// entries (everything course authoring tools produce) using the browser's
+// DecompressionStream; zip64 and encrypted archives are rejected.
+
+export interface ZipEntry {
+  path: string;
+  read: () => Promise<Uint8Array>;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const inflate = async (data: Uint8Array) => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+export function readZip(buffer: ArrayBuffer): ZipEntry[] {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  // The end record sits in the last 22 bytes plus an optional comment
+  let end = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) throw new Error("The file is not a zip archive");
+
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  if (offset === 0xffffffff) throw new Error("Zip64 archives are not supported");
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) throw new Error("The zip archive is damaged");
+
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const path = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength)).replace(/\\/g, "/");
+
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith("/")) continue;
+    if (flags & 0x1) throw new Error("Encrypted zip archives are not supported");
+    if (method !== 0 && method !== 8) throw new Error(`"${path}" uses an unsupported compression method`);
+
+    entries.push({
+      path,
+      read: async () => {
+        if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) throw new Error("The zip archive is damaged");
+        // The local header's name and extra field can differ in length from
+        // the central directory's
+        const start =
+          localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+        const data = bytes.subarray(start, start + compressedSize);
+        return method === 8 ? inflate(data) : data.slice();
+      },
+    });
+  }
+
+  return entries;
+}
@@ -0,0 +1,115 @@
+import { PackageResult, ScormWindow, createScormApi, getScormResult } from "@/lib/scorm";
+import {
+  PackageHostMessage,
+  PackageViewerMessage,
+  PackageWorkerMessage,
+  TrainingPackage,
+  getMountedPackage,
+  getScormLaunchUrl,
+  getStatementResult,
+  getXapiLaunchUrl,
+  mountTrainingPackage,
+  registerPackageWorker,
+  restorePackageState,
+} from "@/lib/trainingPackages";
+
+// Runs one packaged course for the training viewer that embeds this page, on
+// the separate package origin (see src/lib/trainingPackages.ts). Everything
+// the course reports is passed back to the viewer, which saves it.
+
+type LaunchMessage = Extract<PackageViewerMessage, { type: "launch" }>;
+
+const viewerOrigin = new URLSearchParams(window.location.search).get("viewer");
+let launch: LaunchMessage | null = null;
+
+const post = (message: PackageHostMessage) => window.parent.postMessage(message, viewerOrigin!);
+
+const start = async ({ sessionId, learner, data }: LaunchMessage, trainingPackage: TrainingPackage) => {
+  const save = (result: PackageResult | null) => post({ type: "save", data, result });
+  let launchUrl: string;
+
+  if (trainingPackage.standard === "xapi") {
+    await restorePackageState(sessionId, data.state || {});
+
+    if (!data.registration) {
+      data.registration = crypto.randomUUID();
+      save(null);
+    }
+
+    navigator.serviceWorker.addEventListener("message", (event: MessageEvent<PackageWorkerMessage>) => {
+      const message = event.data;
+      if (message?.sessionId !== sessionId) return;
+
+      if (message.type === "xapi-state") {
+        const state = { ...data.state };
+        if (message.value === null) delete state[message.key];
+        else state[message.key] = message.value;
+        data.state = state;
+        save(null);
+      } else {
+        const result = getStatementResult(message.statement, trainingPackage.activityId);
+        if (result) save(result);
+      }
+    });
+    navigator.serviceWorker.startMessages();
+
+    launchUrl = getXapiLaunchUrl(sessionId, trainingPackage, learner, data.registration);
+  } else {
+    const version = trainingPackage.standard;
+    const api = createScormApi({
+      version,
+      data: data.cmi || {},
+      learner,
+      onCommit: (cmi) => {
+        data.cmi = cmi;
+        save(getScormResult(version, cmi));
+      },
+    });
+
+    // Courses look for the API on their parent frames, which ends here
+    if (version === "scorm2004") (window as ScormWindow).API_1484_11 = api;
+    else (window as ScormWindow).API = api;
+
+    launchUrl = getScormLaunchUrl(sessionId, trainingPackage);
+  }
+
+  const frame = document.createElement("iframe");
+  frame.title = "Course";
+  frame.allow = "autoplay; fullscreen";
+  frame.allowFullscreen = true;
+  frame.src = launchUrl;
+  document.body.appendChild(frame);
+
+  post({ type: "launched" });
+};
+
+const handleMessage = async (message: PackageViewerMessage) => {
+  if (message.type === "launch") {
+    // One course per page
+    if (launch) return;
+    launch = message;
+
+    await registerPackageWorker();
+    const mounted = await getMountedPackage(message.sessionId, message.storagePath);
+    if (mounted) await start(message, mounted);
+    else post({ type: "need-package" });
+  } else if (message.type === "package" && launch) {
+    await start(launch, await mountTrainingPackage(launch.sessionId, launch.storagePath, message.zip));
+  }
+};
+
+// Only ever run embedded by the viewer, and never on the app's own origin
+if (!viewerOrigin || viewerOrigin === window.location.origin || window.parent === window) {
+  document.body.textContent = "Training courses can only be opened from the training viewer.";
+} else {
+  window.addEventListener("message", (event: MessageEvent<PackageViewerMessage>) => {
+    if (event.source !== window.parent || event.origin !== viewerOrigin) return;
+
+    handleMessage(event.data).catch((error) => {
+      console.error("Error launching course:", error);
+      post({ type: "error", message: error.message });
+    });
+  });
+
+  post({ type: "ready" });
+}
@@ -1,5 +1,5 @@
-import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -9,17 +9,65 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { Building2, Loader2, Upload } from "lucide-react";
+import { format, parseISO } from "date-fns";
 
 interface Department {
   id: string;
   name: string;
 }
 
+interface Invitation {
+  email: string;
+  full_name: string;
+  phone_number: string | null;
+  department_name: string;
+  join_date: string;
+}
+
 const Auth = () => {
   const [loading, setLoading] = useState(false);
+  const [openSignup, setOpenSignup] = useState(true);
+  const [invitation, setInvitation] = useState<Invitation | null>(null);
+  const [invitationError, setInvitationError] = useState<string | null>(null);
+  const [searchParams] = useSearchParams();
+  const inviteToken = searchParams.get("invite");
   const navigate = useNavigate();
   const { toast } = useToast();
 
+  const loadSignupOptions = useCallback(async () => {
+    try {
+      const { data: setting, error: settingError } = await supabase
+        .from("app_settings")
+        .select("value")
+        .eq("key", "open_signup")
+        .maybeSingle();
+
+      if (settingError) throw settingError;
+      setOpenSignup(setting?.value !== false);
+
+      if (inviteToken) {
+        const { data, error } = await supabase.rpc("get_invitation", { _token: inviteToken });
+        if (error) throw error;
+
+        if (data && data.length > 0) {
+          setInvitation(data[0]);
+          setInvitationError(null);
+        } else {
+          setInvitation(null);
+          setInvitationError("This invitation link is invalid, has already been used or has expired.");
+        }
+      }
+    } catch (error) {
+      console.error("Error loading signup options:", error);
+    }
+  }, [inviteToken]);
+
+  useEffect(() => {
+    loadSignupOptions();
+  }, [loadSignupOptions]);
+
+  const signupAvailable = openSignup || !!invitation;
+
   const handleSignUp = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     setLoading(true);
@@ -38,6 +86,7 @@ const Auth = () => {
           data: {
             full_name: fullName,
             phone_number: phoneNumber,
+            ...(invitation && inviteToken ? { invitation_token: inviteToken } : {}),
           },
           emailRedirectTo: `${window.location.origin}/`,
         },
@@ -52,6 +101,7 @@ const Auth = () => {
           body: {
             email,
             fullName,
+            department: invitation?.department_name,
           },
         });
       } catch (emailError) {
@@ -116,11 +166,25 @@ const Auth = () => {
           <CardDescription>Sign in to access your dashboard</CardDescription>
         </CardHeader>
         <CardContent>
-          <Tabs defaultValue="signin" className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
+          {invitationError && (
+            <p className="mb-4 rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+              {invitationError}
+            </p>
+          )}
+          <Tabs
+            key={invitation ? "invited" : "default"}
+            defaultValue={invitation ? "signup" : "signin"}
+            className="w-full"
+          >
+            <TabsList className={`grid w-full ${signupAvailable ? "grid-cols-2" : "grid-cols-1"}`}>
               <TabsTrigger value="signin">Sign In</TabsTrigger>
-              <TabsTrigger value="signup">Sign Up</TabsTrigger>
+              {signupAvailable && <TabsTrigger value="signup">Sign Up</TabsTrigger>}
             </TabsList>
+            {!signupAvailable && (
+              <p className="mt-3 text-center text-sm text-muted-foreground">
+                New accounts are by invitation only. Ask your HR contact for an invitation link.
+              </p>
+            )}
 
             <TabsContent value="signin">
               <form onSubmit={handleSignIn} className="space-y-4">
@@ -159,6 +223,12 @@ const Auth = () => {
 
             <TabsContent value="signup">
               <form onSubmit={handleSignUp} className="space-y-4">
+                {invitation && (
+                  <div className="rounded-md bg-muted p-3 text-sm">
+                    You've been invited to join <strong>{invitation.department_name}</strong>, starting{" "}
+                    {format(parseISO(invitation.join_date), "MMM d, yyyy")}.
+                  </div>
+                )}
                 <div className="space-y-2">
                   <Label htmlFor="signup-name">Full Name</Label>
                   <Input
@@ -166,6 +236,7 @@ const Auth = () => {
                     name="fullName"
                     type="text"
                     placeholder="John Doe"
+                    defaultValue={invitation?.full_name}
                     required
                   />
                 </div>
@@ -176,6 +247,8 @@ const Auth = () => {
                     name="email"
                     type="email"
                     placeholder="your.email@company.com"
+                    defaultValue={invitation?.email}
+                    readOnly={!!invitation}
                     required
                   />
                 </div>
@@ -197,6 +270,7 @@ const Auth = () => {
                     name="phoneNumber"
                     type="tel"
                     placeholder="+1 234 567 8900"
+                    defaultValue={invitation?.phone_number || undefined}
                     required
                   />
                 </div>
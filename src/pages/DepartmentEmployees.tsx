@@ -1,5 +1,6 @@
 import { useEffect, useState } from "react";
 import { useParams, useNavigate } from "react-router-dom";
+import { format, parseISO } from "date-fns";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import DashboardLayout from "@/components/dashboard/DashboardLayout";
@@ -8,6 +9,8 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Progress } from "@/components/ui/progress";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -18,18 +21,33 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { ArrowLeft, FileText, BookOpen, Upload, Plus, X, Trash2, Eye } from "lucide-react";
+import { ArrowLeft, FileText, BookOpen, Upload, Plus, X, Trash2, Eye, ClipboardList } from "lucide-react";
 import DocumentUploadModal from "@/components/dashboard/DocumentUploadModal";
+import FormSubmissionReview from "@/components/dashboard/admin/FormSubmissionReview";
+import OnboardingStatusCard from "@/components/dashboard/admin/OnboardingStatusCard";
+import OnboardingStatusBadge from "@/components/dashboard/OnboardingStatusBadge";
+import OnboardingChecklist from "@/components/dashboard/OnboardingChecklist";
+import QuizAttemptsReview from "@/components/dashboard/admin/QuizAttemptsReview";
+import ExportMenu from "@/components/dashboard/ExportMenu";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { getDocumentUrl } from "@/lib/storage";
+import { OnboardingStatus } from "@/lib/onboardingStatus";
+import { exportFilename, loadDocumentInventoryRows } from "@/lib/exports";
+import { ExportFormat, exportRows } from "@/lib/spreadsheet";
+import { formatTimeSpent, isTrainingOverdue } from "@/lib/training";
+import { useAuth } from "@/hooks/use-auth";
+import Forbidden from "@/pages/Forbidden";
 
 interface EmployeeDetail {
   id: string;
   full_name: string;
   email: string;
   phone_number: string;
+  department_id: string | null;
+  join_date: string;
   created_at: string;
-  onboarding_status: string;
+  onboarding_status: OnboardingStatus;
   departments?: { name: string };
 }
 
@@ -38,6 +56,8 @@ interface Document {
   title: string;
   file_name: string;
   file_url: string;
+  status: string;
+  review_notes: string | null;
   created_at: string;
 }
 
@@ -45,6 +65,10 @@ interface TrainingProgress {
   id: string;
   progress_percentage: number;
   completed: boolean;
+  completed_at: string | null;
+  last_accessed_at: string | null;
+  time_spent_seconds: number;
+  score: number | null;
   training_sessions: {
     title: string;
     is_mandatory: boolean;
@@ -62,18 +86,23 @@ const DepartmentEmployees = () => {
   const { employeeId } = useParams();
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { user, can, canAccessDepartment } = useAuth();
+  const canManage = can("employees.manage");
   const [employee, setEmployee] = useState<EmployeeDetail | null>(null);
   const [documents, setDocuments] = useState<Document[]>([]);
   const [trainingProgress, setTrainingProgress] = useState<TrainingProgress[]>([]);
   const [availableTraining, setAvailableTraining] = useState<AvailableTraining[]>([]);
   const [assignedTrainingIds, setAssignedTrainingIds] = useState<string[]>([]);
+  const [dueDates, setDueDates] = useState<Record<string, string | null>>({});
   const [loading, setLoading] = useState(true);
   const [uploadModalOpen, setUploadModalOpen] = useState(false);
   const [assignTrainingOpen, setAssignTrainingOpen] = useState(false);
   const [selectedTrainingId, setSelectedTrainingId] = useState<string>("");
+  const [selectedDueDate, setSelectedDueDate] = useState("");
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [documentToDelete, setDocumentToDelete] = useState<Document | null>(null);
   const [deleting, setDeleting] = useState(false);
+  const [forbidden, setForbidden] = useState(false);
 
   useEffect(() => {
     if (employeeId) loadEmployeeData();
@@ -81,20 +110,28 @@ const DepartmentEmployees = () => {
 
   const loadEmployeeData = async () => {
     try {
-      const [employeeData, docsData, progressData, trainingData, assignmentsData] = await Promise.all([
-        supabase.from("profiles").select("*, departments(name)").eq("id", employeeId).single(),
+      const employeeData = await supabase.from("profiles").select("*, departments(name)").eq("id", employeeId).maybeSingle();
+
+      if (employeeData.error) throw employeeData.error;
+      // Row-level security hides profiles outside the viewer's scope, so a missing row is a 403 too
+      if (!employeeData.data || !canAccessDepartment(employeeData.data.department_id)) {
+        setForbidden(true);
+        return;
+      }
+
+      const [docsData, progressData, trainingData, assignmentsData] = await Promise.all([
         supabase.from("documents").select("*").eq("user_id", employeeId).order("created_at", { ascending: false }),
         supabase.from("training_progress").select("*, training_sessions(title, is_mandatory)").eq("user_id", employeeId),
         supabase.from("training_sessions").select("id, title, description, resource_type").order("title"),
-        supabase.from("training_assignments").select("training_session_id").eq("user_id", employeeId),
+        supabase.from("training_assignments").select("training_session_id, due_date").eq("user_id", employeeId),
       ]);
 
-      if (employeeData.error) throw employeeData.error;
       setEmployee(employeeData.data);
       setDocuments(docsData.data || []);
       setTrainingProgress(progressData.data || []);
       setAvailableTraining(trainingData.data || []);
       setAssignedTrainingIds(assignmentsData.data?.map((a: any) => a.training_session_id) || []);
+      setDueDates(Object.fromEntries((assignmentsData.data || []).map((a) => [a.training_session_id, a.due_date])));
     } catch (error: any) {
       toast({ variant: "destructive", title: "Error", description: error.message });
     } finally {
@@ -106,14 +143,14 @@ const DepartmentEmployees = () => {
     if (!selectedTrainingId || !employeeId) return;
 
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-
       const { error } = await supabase
         .from("training_assignments")
         .insert({
           user_id: employeeId,
           training_session_id: selectedTrainingId,
           assigned_by: user?.id,
+          // Left empty, the session's default deadline applies
+          due_date: selectedDueDate || undefined,
         });
 
       if (error) throw error;
@@ -121,6 +158,7 @@ const DepartmentEmployees = () => {
       toast({ title: "Success", description: "Training session assigned successfully" });
       setAssignTrainingOpen(false);
       setSelectedTrainingId("");
+      setSelectedDueDate("");
       loadEmployeeData();
     } catch (error: any) {
       toast({ variant: "destructive", title: "Error", description: error.message });
@@ -146,6 +184,16 @@ const DepartmentEmployees = () => {
     }
   };
 
+  const handleExportDocuments = async (exportFormat: ExportFormat) => {
+    if (!employee) return;
+    try {
+      const rows = await loadDocumentInventoryRows(employee.id, employee.department_id);
+      exportRows(rows, exportFilename(`${employee.full_name} documents`), exportFormat, "Documents");
+    } catch (error) {
+      toast({ variant: "destructive", title: "Error exporting documents", description: (error as Error).message });
+    }
+  };
+
   const handleDeleteDocument = (doc: Document) => {
     setDocumentToDelete(doc);
     setDeleteDialogOpen(true);
@@ -197,6 +245,10 @@ const DepartmentEmployees = () => {
     }
   };
 
+  if (forbidden) {
+    return <Forbidden message="You don't have access to this employee" />;
+  }
+
   if (loading || !employee) {
     return <DashboardLayout title="Employee Details" subtitle="Loading..."><div>Loading...</div></DashboardLayout>;
   }
@@ -209,17 +261,39 @@ const DepartmentEmployees = () => {
           <CardContent className="grid grid-cols-2 gap-4">
             <div><p className="text-sm text-muted-foreground">Email</p><p>{employee.email}</p></div>
             <div><p className="text-sm text-muted-foreground">Phone</p><p>{employee.phone_number || "N/A"}</p></div>
+            <div><p className="text-sm text-muted-foreground">Onboarding</p><OnboardingStatusBadge status={employee.onboarding_status} /></div>
           </CardContent>
         </Card>
 
+        <OnboardingStatusCard
+          userId={employee.id}
+          status={employee.onboarding_status}
+          readOnly={!canManage}
+          onStatusChange={(status) => setEmployee({ ...employee, onboarding_status: status })}
+        />
+
+        <OnboardingChecklist
+          userId={employee.id}
+          departmentId={employee.department_id}
+          joinDate={employee.join_date}
+          reviewer
+          readOnly={!canManage}
+        />
+
         <Tabs defaultValue="documents">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="documents"><FileText className="w-4 h-4 mr-2" />Documents</TabsTrigger>
+            <TabsTrigger value="form"><ClipboardList className="w-4 h-4 mr-2" />Onboarding Form</TabsTrigger>
             <TabsTrigger value="training"><BookOpen className="w-4 h-4 mr-2" />Training</TabsTrigger>
           </TabsList>
 
           <TabsContent value="documents" className="space-y-4">
-            <Button onClick={() => setUploadModalOpen(true)}><Upload className="w-4 h-4 mr-2" />Upload for Employee</Button>
+            <div className="flex gap-2">
+              {canManage && (
+                <Button onClick={() => setUploadModalOpen(true)}><Upload className="w-4 h-4 mr-2" />Upload for Employee</Button>
+              )}
+              <ExportMenu label="Export Inventory" onExport={handleExportDocuments} />
+            </div>
             <div className="grid gap-4">
               {documents.length === 0 ? (
                 <Card><CardContent className="p-8 text-center text-muted-foreground">No documents uploaded yet</CardContent></Card>
@@ -228,8 +302,12 @@ const DepartmentEmployees = () => {
                   <Card key={doc.id}>
                     <CardContent className="p-4 flex items-center justify-between">
                       <div>
-                        <p className="font-medium">{doc.title}</p>
+                        <div className="flex items-center gap-2">
+                          <p className="font-medium">{doc.title}</p>
+                          <Badge variant="outline" className="text-xs">{doc.status.replace(/_/g, " ")}</Badge>
+                        </div>
                         <p className="text-sm text-muted-foreground">{doc.file_name}</p>
+                        {doc.review_notes && <p className="text-xs text-muted-foreground">Review: {doc.review_notes}</p>}
                       </div>
                       <div className="flex gap-2">
                         <Button
@@ -237,40 +315,7 @@ const DepartmentEmployees = () => {
                           variant="outline"
                           onClick={async () => {
                             try {
-                              // Check if it's an external URL
-                              if (doc.file_url.startsWith('http://') || doc.file_url.startsWith('https://')) {
-                                // Check if it's a Supabase storage public URL (old documents)
-                                if (doc.file_url.includes('supabase.co/storage')) {
-                                  const urlParts = doc.file_url.split('/storage/v1/object/public/');
-                                  if (urlParts.length > 1) {
-                                    const [bucket, ...pathParts] = urlParts[1].split('/');
-                                    const filePath = pathParts.join('/');
-
-                                    const { data, error } = await supabase.storage
-                                      .from(bucket)
-                                      .createSignedUrl(filePath, 3600);
-
-                                    if (error) throw error;
-                                    if (data?.signedUrl) {
-                                      // signedUrl is already a full URL from createSignedUrl
-                                      const fullUrl = data.signedUrl.startsWith('http')
-                                        ? data.signedUrl
-                                        : `${import.meta.env.VITE_SUPABASE_URL}${data.signedUrl}`;
-                                      window.open(fullUrl, "_blank");
-                                      return;
-                                    }
-                                  }
-                                }
-                                window.open(doc.file_url, "_blank");
-                              } else {
-                                const { data, error } = await supabase.storage
-                                  .from('employee_docs')
-                                  .createSignedUrl(doc.file_url, 3600);
-                                if (error) throw error;
-                                if (data?.signedUrl) {
-                                  window.open(data.signedUrl, "_blank");
-                                }
-                              }
+                              window.open(await getDocumentUrl(doc.file_url), "_blank");
                             } catch (error: any) {
                               toast({ variant: "destructive", title: "Error", description: error.message });
                             }
@@ -279,15 +324,17 @@ const DepartmentEmployees = () => {
                           <Eye className="w-3 h-3 mr-1" />
                           View
                         </Button>
-                        <Button
-                          size="sm"
-                          variant="outline"
-                          onClick={() => handleDeleteDocument(doc)}
-                          className="text-destructive hover:text-destructive"
-                        >
-                          <Trash2 className="w-3 h-3 mr-1" />
-                          Delete
-                        </Button>
+                        {canManage && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleDeleteDocument(doc)}
+                            className="text-destructive hover:text-destructive"
+                          >
+                            <Trash2 className="w-3 h-3 mr-1" />
+                            Delete
+                          </Button>
+                        )}
                       </div>
                     </CardContent>
                   </Card>
@@ -296,39 +343,49 @@ const DepartmentEmployees = () => {
             </div>
           </TabsContent>
 
+          <TabsContent value="form" className="space-y-4">
+            <FormSubmissionReview userId={employee.id} />
+          </TabsContent>
+
           <TabsContent value="training" className="space-y-4">
-            <div className="flex gap-2">
-              <Dialog open={assignTrainingOpen} onOpenChange={setAssignTrainingOpen}>
-                <DialogTrigger asChild>
-                  <Button><Plus className="w-4 h-4 mr-2" />Assign Training</Button>
-                </DialogTrigger>
-                <DialogContent>
-                  <DialogHeader>
-                    <DialogTitle>Assign Training Session</DialogTitle>
-                  </DialogHeader>
-                  <div className="space-y-4 pt-4">
-                    <Select value={selectedTrainingId} onValueChange={setSelectedTrainingId}>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select training session" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {availableTraining
-                          .filter(t => !assignedTrainingIds.includes(t.id))
-                          .map((training) => (
-                            <SelectItem key={training.id} value={training.id}>
-                              {training.title} ({training.resource_type})
-                            </SelectItem>
-                          ))}
-                      </SelectContent>
-                    </Select>
-                    <div className="flex justify-end gap-2">
-                      <Button variant="outline" onClick={() => setAssignTrainingOpen(false)}>Cancel</Button>
-                      <Button onClick={handleAssignTraining} disabled={!selectedTrainingId}>Assign</Button>
+            {canManage && (
+              <div className="flex gap-2">
+                <Dialog open={assignTrainingOpen} onOpenChange={setAssignTrainingOpen}>
+                  <DialogTrigger asChild>
+                    <Button><Plus className="w-4 h-4 mr-2" />Assign Training</Button>
+                  </DialogTrigger>
+                  <DialogContent>
+                    <DialogHeader>
+                      <DialogTitle>Assign Training Session</DialogTitle>
+                    </DialogHeader>
+                    <div className="space-y-4 pt-4">
+                      <Select value={selectedTrainingId} onValueChange={setSelectedTrainingId}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select training session" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {availableTraining
+                            .filter(t => !assignedTrainingIds.includes(t.id))
+                            .map((training) => (
+                              <SelectItem key={training.id} value={training.id}>
+                                {training.title} ({training.resource_type})
+                              </SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                      <div>
+                        <Label>Due date (optional)</Label>
+                        <Input type="date" value={selectedDueDate} onChange={(e) => setSelectedDueDate(e.target.value)} />
+                      </div>
+                      <div className="flex justify-end gap-2">
+                        <Button variant="outline" onClick={() => setAssignTrainingOpen(false)}>Cancel</Button>
+                        <Button onClick={handleAssignTraining} disabled={!selectedTrainingId}>Assign</Button>
+                      </div>
                     </div>
-                  </div>
-                </DialogContent>
-              </Dialog>
-            </div>
+                  </DialogContent>
+                </Dialog>
+              </div>
+            )}
 
             <div className="space-y-4">
               {assignedTrainingIds.length === 0 ? (
@@ -338,20 +395,32 @@ const DepartmentEmployees = () => {
                   .filter(t => assignedTrainingIds.includes(t.id))
                   .map((training) => {
                     const progress = trainingProgress.find(p => p.training_sessions.title === training.title);
+                    const dueDate = dueDates[training.id];
+                    const overdue = isTrainingOverdue(dueDate, !!progress?.completed);
                     return (
-                      <Card key={training.id}>
+                      <Card key={training.id} className={overdue ? "border-destructive/50" : undefined}>
                         <CardHeader>
                           <div className="flex items-center justify-between">
-                            <CardTitle className="text-base">{training.title}</CardTitle>
-                            <Button
-                              size="sm"
-                              variant="ghost"
-                              onClick={() => handleUnassignTraining(training.id)}
-                            >
-                              <X className="w-4 h-4" />
-                            </Button>
+                            <div className="flex items-center gap-2">
+                              <CardTitle className="text-base">{training.title}</CardTitle>
+                              {overdue && <Badge variant="destructive">Overdue</Badge>}
+                            </div>
+                            {canManage && (
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => handleUnassignTraining(training.id)}
+                              >
+                                <X className="w-4 h-4" />
+                              </Button>
+                            )}
                           </div>
                           <p className="text-sm text-muted-foreground">{training.description}</p>
+                          {dueDate && !progress?.completed && (
+                            <p className={`text-xs ${overdue ? "text-destructive" : "text-muted-foreground"}`}>
+                              Due {format(parseISO(dueDate), "PP")}
+                            </p>
+                          )}
                         </CardHeader>
                         <CardContent>
                           <div className="space-y-2">
@@ -360,6 +429,18 @@ const DepartmentEmployees = () => {
                               <span>{progress?.progress_percentage || 0}%</span>
                             </div>
                             <Progress value={progress?.progress_percentage || 0} />
+                            {progress && (
+                              <p className="text-xs text-muted-foreground">
+                                {progress.completed && progress.completed_at
+                                  ? `Completed ${new Date(progress.completed_at).toLocaleDateString()} · `
+                                  : ""}
+                                {formatTimeSpent(progress.time_spent_seconds)} spent
+                                {progress.score !== null && ` · scored ${progress.score}%`}
+                                {progress.last_accessed_at &&
+                                  ` · last opened ${new Date(progress.last_accessed_at).toLocaleDateString()}`}
+                              </p>
+                            )}
+                            {employeeId && <QuizAttemptsReview userId={employeeId} sessionId={training.id} />}
                           </div>
                         </CardContent>
                       </Card>
@@ -1,7 +1,7 @@
 import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import DashboardLayout from "@/components/dashboard/DashboardLayout";
 import DocumentUploadModal from "@/components/dashboard/DocumentUploadModal";
 import { Button } from "@/components/ui/button";
@@ -17,8 +17,9 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { Plus, FileText, ExternalLink, Calendar, Trash2, Eye } from "lucide-react";
+import { Plus, FileText, ExternalLink, Calendar, Trash2, Eye, RotateCcw } from "lucide-react";
 import { format } from "date-fns";
+import { getDocumentUrl } from "@/lib/storage";
 
 interface Document {
   id: string;
@@ -30,6 +31,9 @@ interface Document {
   status: string;
   created_at: string;
   uploaded_by_admin: boolean;
+  review_notes: string | null;
+  replaces_document_id: string | null;
+  template_id: string | null;
 }
 
 const Documents = () => {
@@ -39,8 +43,9 @@ const Documents = () => {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [documentToDelete, setDocumentToDelete] = useState<Document | null>(null);
   const [deleting, setDeleting] = useState(false);
+  const [documentToReplace, setDocumentToReplace] = useState<Document | null>(null);
   const { toast } = useToast();
-  const navigate = useNavigate();
+  const { user } = useAuth();
 
   useEffect(() => {
     loadDocuments();
@@ -48,14 +53,7 @@ const Documents = () => {
 
   const loadDocuments = async () => {
     try {
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-
-      if (!user) {
-        navigate("/auth");
-        return;
-      }
+      if (!user) return;
 
       const { data, error } = await supabase
         .from("documents")
@@ -79,47 +77,7 @@ const Documents = () => {
 
   const openDocument = async (doc: Document) => {
     try {
-      // Check if it's an external URL (Google Drive, etc.)
-      if (doc.file_url.startsWith('http://') || doc.file_url.startsWith('https://')) {
-        // Check if it's a Supabase storage public URL (old documents)
-        if (doc.file_url.includes('supabase.co/storage')) {
-          // Extract the file path from the public URL
-          const urlParts = doc.file_url.split('/storage/v1/object/public/');
-          if (urlParts.length > 1) {
-            const [bucket, ...pathParts] = urlParts[1].split('/');
-            const filePath = pathParts.join('/');
-
-            // Create signed URL from the original bucket
-            const { data, error } = await supabase.storage
-              .from(bucket)
-              .createSignedUrl(filePath, 3600);
-
-            if (error) throw error;
-            if (data?.signedUrl) {
-              // signedUrl is already a full URL from createSignedUrl
-              const fullUrl = data.signedUrl.startsWith('http')
-                ? data.signedUrl
-                : `${import.meta.env.VITE_SUPABASE_URL}${data.signedUrl}`;
-              window.open(fullUrl, "_blank");
-              return;
-            }
-          }
-        }
-        // For other external URLs (Google Drive, etc.), open directly
-        window.open(doc.file_url, "_blank");
-        return;
-      }
-
-      // For new storage format (file path only), create signed URL from employee_docs
-      const { data, error } = await supabase.storage
-        .from('employee_docs')
-        .createSignedUrl(doc.file_url, 3600);
-
-      if (error) throw error;
-
-      if (data?.signedUrl) {
-        window.open(data.signedUrl, "_blank");
-      }
+      window.open(await getDocumentUrl(doc.file_url), "_blank");
     } catch (error: any) {
       toast({
         variant: "destructive",
@@ -129,6 +87,14 @@ const Documents = () => {
     }
   };
 
+  const isReplaced = (doc: Document) =>
+    documents.some((d) => d.replaces_document_id === doc.id);
+
+  const openReplaceModal = (doc: Document) => {
+    setDocumentToReplace(doc);
+    setUploadModalOpen(true);
+  };
+
   const handleDeleteClick = (e: React.MouseEvent, doc: Document) => {
     e.stopPropagation(); // Prevent card click
     setDocumentToDelete(doc);
@@ -246,9 +212,22 @@ const Documents = () => {
                     <Calendar className="w-3 h-3" />
                     {format(new Date(doc.created_at), "MMM dd, yyyy")}
                   </div>
+                  {doc.review_notes && (doc.status === "rejected" || doc.status === "reupload_requested") && (
+                    <p className="text-xs text-destructive">{doc.review_notes}</p>
+                  )}
+                  {doc.status === "reupload_requested" && !isReplaced(doc) && (
+                    <Button
+                      size="sm"
+                      className="w-full"
+                      onClick={() => openReplaceModal(doc)}
+                    >
+                      <RotateCcw className="w-3 h-3 mr-1" />
+                      Upload Replacement
+                    </Button>
+                  )}
                   <div className="flex items-center justify-between">
                     <Badge variant="outline" className="text-xs">
-                      {doc.status}
+                      {isReplaced(doc) ? "replaced" : doc.status.replace(/_/g, " ")}
                     </Badge>
                     <div className="flex gap-2">
                       <Button
@@ -279,8 +258,12 @@ const Documents = () => {
 
       <DocumentUploadModal
         open={uploadModalOpen}
-        onOpenChange={setUploadModalOpen}
+        onOpenChange={(open) => {
+          setUploadModalOpen(open);
+          if (!open) setDocumentToReplace(null);
+        }}
         onUploadComplete={loadDocuments}
+        replacesDocument={documentToReplace}
       />
 
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
@@ -0,0 +1,37 @@
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, ShieldAlert } from "lucide-react";
+
+interface ForbiddenProps {
+  message?: string;
+}
+
+const Forbidden = ({ message = "You don't have permission to view this page" }: ForbiddenProps) => {
+  const navigate = useNavigate();
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-primary/5 via-background to-accent/5">
+      <div className="text-center space-y-6 p-8">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => navigate(-1)}
+          className="mb-4"
+        >
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back
+        </Button>
+        <div className="flex justify-center">
+          <ShieldAlert className="w-12 h-12 text-primary" />
+        </div>
+        <h1 className="text-6xl font-bold text-primary">403</h1>
+        <p className="text-2xl text-muted-foreground">{message}</p>
+        <Button onClick={() => navigate("/dashboard")} size="lg">
+          Return to Dashboard
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default Forbidden;
@@ -1,22 +1,18 @@
 import { useEffect } from "react";
 import { useNavigate } from "react-router-dom";
-import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
 import { Building2, FileText, Users, Shield } from "lucide-react";
 
 const Index = () => {
   const navigate = useNavigate();
+  const { session } = useAuth();
 
   useEffect(() => {
-    checkSession();
-  }, []);
-
-  const checkSession = async () => {
-    const { data: { session } } = await supabase.auth.getSession();
     if (session) {
       navigate("/dashboard");
     }
-  };
+  }, [session, navigate]);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-accent/5">
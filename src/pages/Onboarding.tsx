@@ -1,5 +1,5 @@
-import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useState, useEffect, useRef, useCallback } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -7,69 +7,231 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { Upload, Loader2, FileCheck, ArrowLeft } from "lucide-react";
-import { Progress } from "@/components/ui/progress";
-import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/hooks/use-auth";
+import { Upload, Loader2, FileCheck, ArrowLeft, ArrowRight, CloudUpload, Download } from "lucide-react";
+import { format } from "date-fns";
+import {
+  FieldValue,
+  FormField,
+  evaluateFieldRules,
+  formatFieldValue,
+  getFieldError,
+  getFormSections,
+  getMissingRequiredFields,
+  getVisibleAnswers,
+  isEmptyValue,
+  toFormFields,
+} from "@/lib/formFields";
+import DynamicFieldInput from "@/components/forms/DynamicFieldInput";
+import { Tables } from "@/integrations/supabase/types";
+import { getDocumentUrl } from "@/lib/storage";
+import StepIndicator, { WizardStep } from "@/components/onboarding/StepIndicator";
+import ReviewStep, { ReviewSection } from "@/components/onboarding/ReviewStep";
+import { DraftFile, useOnboardingDraft } from "@/hooks/use-onboarding-draft";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 
 interface Department {
   id: string;
   name: string;
 }
 
+type DocumentTemplate = Tables<"department_document_templates">;
+
+const DOCUMENT_ACCEPT = ".pdf,.jpg,.jpeg,.png,.doc,.docx";
+
 const Onboarding = () => {
   const [loading, setLoading] = useState(false);
   const [departments, setDepartments] = useState<Department[]>([]);
   const [selectedDepartment, setSelectedDepartment] = useState("");
-  const [documents, setDocuments] = useState<{
-    aadhaar_card?: File;
-    police_verification?: File;
-    offer_letter?: File;
-    resume?: File;
-  }>({});
-  const [uploadProgress, setUploadProgress] = useState(0);
-  const [formFields, setFormFields] = useState<any[]>([]);
+  const [documentTemplates, setDocumentTemplates] = useState<DocumentTemplate[]>([]);
+  // Chosen files are uploaded immediately so they survive in the draft, keyed by template id
+  const [documents, setDocuments] = useState<Record<string, DraftFile>>({});
+  const [uploadingDoc, setUploadingDoc] = useState<string | null>(null);
+  const [formFields, setFormFields] = useState<FormField[]>([]);
+  const [formId, setFormId] = useState<string | null>(null);
+  const [revisionId, setRevisionId] = useState<string | null>(null);
+  const [answers, setAnswers] = useState<Record<string, FieldValue>>({});
+  const [reviewerNotes, setReviewerNotes] = useState<string | null>(null);
+  // Employees who already finished onboarding come back here to resubmit their answers
+  const [isResubmission, setIsResubmission] = useState(false);
+  const [departmentLocked, setDepartmentLocked] = useState(false);
+  const [profileLoaded, setProfileLoaded] = useState(false);
+  // Only autosave once the user has actually changed something
+  const [hasChanges, setHasChanges] = useState(false);
+  const [discardOpen, setDiscardOpen] = useState(false);
+  const [discarding, setDiscarding] = useState(false);
+  const restoredFromDraft = useRef(false);
+  const draftApplied = useRef(false);
+  const {
+    draft,
+    loaded: draftLoaded,
+    saving: draftSaving,
+    lastSavedAt,
+    scheduleSave,
+    clearDraft,
+    discardDraft,
+  } = useOnboardingDraft();
+  // The current wizard step lives in the URL so a refresh or the back button keeps your place
+  const [searchParams, setSearchParams] = useSearchParams();
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { user } = useAuth();
+  const userId = user?.id;
 
   useEffect(() => {
-    checkAuth();
     loadDepartments();
   }, []);
 
+  const goToStep = useCallback(
+    (index: number) => {
+      setSearchParams({ step: String(index) });
+    },
+    [setSearchParams]
+  );
+
+  const loadExistingProfile = useCallback(async () => {
+    if (!userId) return;
+
+    const [{ data }, { data: invitation }] = await Promise.all([
+      supabase
+        .from("profiles")
+        .select("department_id, department_specific_data, onboarding_status")
+        .eq("id", userId)
+        .single(),
+      supabase
+        .from("employee_invitations")
+        .select("id")
+        .eq("accepted_by", userId)
+        .maybeSingle(),
+    ]);
+
+    // Invited hires arrive with their department already assigned
+    const invited = !!invitation && !!data?.department_id;
+    setDepartmentLocked(invited);
+
+    if (data?.department_id) {
+      setIsResubmission(data.onboarding_status !== "invited");
+      if (!restoredFromDraft.current) {
+        setAnswers((data.department_specific_data as Record<string, FieldValue>) || {});
+      }
+      if (!restoredFromDraft.current || invited) {
+        setSelectedDepartment(data.department_id);
+      }
+    }
+    setProfileLoaded(true);
+  }, [userId]);
+
+  useEffect(() => {
+    // Restore the draft once, when it has finished loading
+    if (!draftLoaded || draftApplied.current) return;
+    draftApplied.current = true;
+
+    // A saved draft takes precedence over previously submitted answers
+    if (draft) {
+      restoredFromDraft.current = true;
+      setSelectedDepartment(draft.department_id || "");
+      setAnswers(draft.answers);
+      setDocuments(draft.uploaded_files);
+      if (!searchParams.get("step")) goToStep(draft.current_step);
+    }
+    loadExistingProfile();
+  }, [draftLoaded, draft, searchParams, goToStep, loadExistingProfile]);
+
   useEffect(() => {
     const fetchFields = async () => {
       if (selectedDepartment) {
-        const fields = await loadDepartmentFormFields(selectedDepartment);
+        const [fields] = await Promise.all([
+          loadDepartmentFormFields(selectedDepartment),
+          loadDocumentTemplates(selectedDepartment),
+        ]);
         setFormFields(fields);
       } else {
+        setFormId(null);
+        setRevisionId(null);
         setFormFields([]);
+        setDocumentTemplates([]);
       }
     };
     fetchFields();
   }, [selectedDepartment]);
 
-  const checkAuth = async () => {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) {
-      navigate("/auth");
-      return;
+  const loadPreviousSubmission = useCallback(async (id: string) => {
+    if (!userId) return;
+
+    const { data } = await supabase
+      .from("department_signup_form_submissions")
+      .select("submission_data, status, reviewer_notes")
+      .eq("user_id", userId)
+      .eq("form_id", id)
+      .order("version", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (data) {
+      if (!restoredFromDraft.current) setAnswers((data.submission_data as Record<string, FieldValue>) || {});
+      setReviewerNotes(data.status === "needs_changes" ? data.reviewer_notes : null);
     }
-  };
+  }, [userId]);
+
+  useEffect(() => {
+    if (formId) loadPreviousSubmission(formId);
+  }, [formId, loadPreviousSubmission]);
 
   const loadDepartments = async () => {
     const { data } = await supabase.from("departments").select("*").order("name");
     if (data) setDepartments(data);
   };
 
+  const loadDocumentTemplates = async (departmentId: string) => {
+    const { data, error } = await supabase
+      .from("department_document_templates")
+      .select("*")
+      .eq("department_id", departmentId)
+      .order("is_required", { ascending: false })
+      .order("title");
+
+    if (error) {
+      console.error("Error loading document templates:", error);
+      setDocumentTemplates([]);
+      return;
+    }
+    setDocumentTemplates(data || []);
+  };
+
+  const openTemplate = async (template: DocumentTemplate) => {
+    try {
+      window.open(await getDocumentUrl(template.file_url), "_blank");
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error opening template",
+        description: (error as Error).message,
+      });
+    }
+  };
+
   const loadDepartmentFormFields = async (departmentId: string) => {
     try {
       // Get the department signup form which contains all fields
       const { data: formData, error: formError } = await supabase
         .from("department_signup_forms")
-        .select("form_fields")
+        .select("id, form_fields, published_revision_id")
         .eq("department_id", departmentId)
         .single();
 
+      // Forms without a published revision aren't live yet
+      setFormId(formData?.published_revision_id ? formData.id : null);
+      setRevisionId(formData?.published_revision_id || null);
+
       if (formError) {
         console.error("Error loading department signup form:", formError);
 
@@ -83,115 +245,117 @@ const Onboarding = () => {
       }
 
       // Return the form fields from the form configuration
-      return (formData?.form_fields as unknown as any[]) || [];
+      return toFormFields(formData?.form_fields);
     } catch (error: any) {
       console.error("Error loading department form fields:", error);
       return [];
     }
   };
 
-  const getFieldComponent = (field: any) => {
-    switch (field.type) {
-      case "text":
-        return (
-          <Input
-            id={field.id}
-            name={field.id}
-            type="text"
-            placeholder={field.placeholder || `Enter ${field.label.toLowerCase()}`}
-            required={field.required}
-          />
-        );
-      case "email":
-        return (
-          <Input
-            id={field.id}
-            name={field.id}
-            type="email"
-            placeholder={field.placeholder || `Enter ${field.label.toLowerCase()}`}
-            required={field.required}
-          />
-        );
-      case "phone":
-        return (
-          <Input
-            id={field.id}
-            name={field.id}
-            type="tel"
-            placeholder={field.placeholder || `Enter ${field.label.toLowerCase()}`}
-            required={field.required}
-          />
-        );
-      case "textarea":
-        return (
-          <Textarea
-            id={field.id}
-            name={field.id}
-            placeholder={field.placeholder || `Enter ${field.label.toLowerCase()}`}
-            required={field.required}
-            rows={3}
-          />
-        );
-      case "dropdown":
-        const options = field.options || [];
-        return (
-          <Select name={field.id} required={field.required}>
-            <SelectTrigger>
-              <SelectValue placeholder={field.placeholder || `Select ${field.label.toLowerCase()}`} />
-            </SelectTrigger>
-            <SelectContent>
-              {options.map((option: string, index: number) => (
-                <SelectItem key={index} value={option}>
-                  {option}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-        );
-      case "file":
-        return (
-          <Input
-            id={field.id}
-            type="file"
-            accept={field.fileTypes?.map((type: string) => {
-              if (type === 'pdf') return '.pdf';
-              if (type === 'docx') return '.docx';
-              if (type === 'image') return '.jpg,.jpeg,.png';
-              return '.*';
-            }).join(',') || '.pdf,.jpg,.jpeg,.png,.doc,.docx'}
-            onChange={(e) => handleFileChange(field.id, e.target.files?.[0] || null)}
-            className="cursor-pointer"
-            required={field.required}
-          />
-        );
-      default:
-        return (
-          <Input
-            id={field.id}
-            name={field.id}
-            type="text"
-            placeholder={field.placeholder || `Enter ${field.label.toLowerCase()}`}
-            required={field.required}
-          />
-        );
-    }
+  const fieldStates = evaluateFieldRules(formFields, answers);
+
+  const setAnswer = (fieldId: string, value: FieldValue) => {
+    setAnswers(prev => ({ ...prev, [fieldId]: value }));
+    setHasChanges(true);
   };
 
-  const handleFileChange = (documentType: string, file: File | null) => {
-    if (file) {
-      setDocuments(prev => ({ ...prev, [documentType]: file }));
+  const handleDepartmentChange = (departmentId: string) => {
+    setSelectedDepartment(departmentId);
+    setHasChanges(true);
+  };
+
+  const answerFields = formFields.filter((field) => field.type !== "file");
+  const requiredTemplates = documentTemplates.filter((template) => template.is_required);
+
+  // Sections hidden by rules, or whose fields are all hidden, are skipped
+  const formSections = getFormSections(answerFields).filter(
+    (section) =>
+      fieldStates[section.id]?.visible !== false &&
+      section.fields.some((field) => fieldStates[field.id]?.visible !== false)
+  );
+
+  const steps: WizardStep[] = [
+    { id: "department", title: "Department" },
+    ...formSections.map((section) => ({
+      id: `section-${section.id}`,
+      title: section.title,
+      description: section.description,
+    })),
+    { id: "documents", title: "Documents" },
+    { id: "review", title: "Review" },
+  ];
+
+  const stepIndex = Math.min(Math.max(Number(searchParams.get("step")) || 0, 0), steps.length - 1);
+  const currentStep = steps[stepIndex];
+  const currentSection = formSections.find((section) => currentStep.id === `section-${section.id}`);
+
+  useEffect(() => {
+    // Without a department there is nothing to resume past the first step
+    if (profileLoaded && !selectedDepartment && stepIndex > 0) goToStep(0);
+  }, [profileLoaded, selectedDepartment, stepIndex, goToStep]);
+
+  useEffect(() => {
+    if (!hasChanges) return;
+    scheduleSave({
+      department_id: selectedDepartment || null,
+      answers,
+      uploaded_files: documents,
+      current_step: stepIndex,
+    });
+  }, [hasChanges, selectedDepartment, answers, documents, stepIndex, scheduleSave]);
+
+  const validateStep = (index: number): { title: string; description?: string } | null => {
+    const step = steps[index];
+
+    if (step.id === "department") {
+      return selectedDepartment ? null : { title: "Please select a department" };
     }
+
+    if (step.id === "documents") {
+      const missingDocs = requiredTemplates.filter((template) => !documents[template.id]);
+      if (isResubmission || missingDocs.length === 0) return null;
+      return {
+        title: "Missing required documents",
+        description: `Please upload: ${missingDocs.map((t) => t.title).join(', ')}`,
+      };
+    }
+
+    const section = formSections.find((s) => step.id === `section-${s.id}`);
+    if (section) {
+      // Evaluate against the whole form so rules can reference other sections
+      const missingFields = getMissingRequiredFields(answerFields, answers).filter((field) =>
+        section.fields.some((f) => f.id === field.id)
+      );
+      if (missingFields.length > 0) {
+        return {
+          title: "Missing required information",
+          description: `Please fill in: ${missingFields.map(f => f.label).join(', ')}`,
+        };
+      }
+
+      const invalidField = section.fields.find(
+        (field) => fieldStates[field.id]?.visible !== false && getFieldError(field, answers[field.id], false)
+      );
+      if (invalidField) {
+        return {
+          title: `Please check ${invalidField.label}`,
+          description: getFieldError(invalidField, answers[invalidField.id], false) || undefined,
+        };
+      }
+    }
+
+    return null;
   };
 
-  const uploadDocuments = async (userId: string) => {
-    const docEntries = Object.entries(documents).filter(([_, file]) => file);
-    let completed = 0;
+  const handleFileChange = async (documentType: string, file: File | null) => {
+    if (!file) return;
 
-    for (const [docType, file] of docEntries) {
-      if (!file) continue;
+    setUploadingDoc(documentType);
+    try {
+      if (!user) throw new Error("Not authenticated");
 
       const fileExt = file.name.split('.').pop();
-      const fileName = `${userId}/${docType}_${Date.now()}.${fileExt}`;
+      const fileName = `${user.id}/${documentType}_${Date.now()}.${fileExt}`;
 
       const { error: uploadError } = await supabase.storage
         .from('documents')
@@ -199,83 +363,109 @@ const Onboarding = () => {
 
       if (uploadError) throw uploadError;
 
-      const { data: { publicUrl } } = supabase.storage
-        .from('documents')
-        .getPublicUrl(fileName);
-
-      const { error: dbError } = await supabase
-        .from('onboarding_documents')
-        .insert([{
-          user_id: userId,
-          document_type: docType as any,
-          file_name: file.name,
-          file_url: publicUrl,
-          file_type: file.type,
-        }]);
-
-      if (dbError) throw dbError;
+      // Replacing a file drops the earlier upload for the same slot
+      const previous = documents[documentType];
+      if (previous) {
+        await supabase.storage.from('documents').remove([previous.path]);
+      }
 
-      completed++;
-      setUploadProgress((completed / docEntries.length) * 100);
+      setDocuments(prev => ({
+        ...prev,
+        [documentType]: { path: fileName, file_name: file.name, file_type: file.type },
+      }));
+      setHasChanges(true);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error uploading file",
+        description: (error as Error).message,
+      });
+    } finally {
+      setUploadingDoc(null);
     }
   };
 
-  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+  // Each upload becomes a document awaiting review, linked to its template
+  const getUploadedDocuments = () =>
+    documentTemplates
+      .filter((template) => documents[template.id])
+      .map((template) => {
+        const file = documents[template.id];
+        const { data: { publicUrl } } = supabase.storage
+          .from('documents')
+          .getPublicUrl(file.path);
+
+        return {
+          template_id: template.id,
+          template_version: template.version,
+          title: template.title,
+          file_name: file.file_name,
+          file_url: publicUrl,
+          file_type: file.file_type,
+        };
+      });
+
+  const handleNext = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
-    setLoading(true);
-    setUploadProgress(0);
 
-    const formData = new FormData(e.currentTarget);
-    const departmentId = selectedDepartment;
+    if (currentStep.id === "review") {
+      handleSubmit();
+      return;
+    }
 
-    if (!departmentId) {
-      toast({
-        variant: "destructive",
-        title: "Please select a department",
-      });
-      setLoading(false);
+    const error = validateStep(stepIndex);
+    if (error) {
+      toast({ variant: "destructive", ...error });
       return;
     }
 
-    const requiredDocs = ['aadhaar_card', 'police_verification', 'offer_letter'];
-    const missingDocs = requiredDocs.filter(doc => !documents[doc as keyof typeof documents]);
+    goToStep(stepIndex + 1);
+    setHasChanges(true);
+  };
 
-    if (missingDocs.length > 0) {
-      toast({
-        variant: "destructive",
-        title: "Missing required documents",
-        description: `Please upload: ${missingDocs.map(d => d.replace(/_/g, ' ')).join(', ')}`,
-      });
-      setLoading(false);
-      return;
+  const handleSubmit = async () => {
+    // Re-check every step in case earlier answers changed what is required
+    for (let index = 0; index < steps.length - 1; index++) {
+      const error = validateStep(index);
+      if (error) {
+        toast({ variant: "destructive", ...error });
+        goToStep(index);
+        return;
+      }
     }
 
+    setLoading(true);
+
+    const departmentId = selectedDepartment;
+
     try {
-      const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error("Not authenticated");
 
-      const departmentSpecificData: Record<string, any> = {};
-      formFields
-        .filter((field) => field.type !== "file")
-        .forEach((field) => {
-          const value = formData.get(field.id) as string;
-          if (value) departmentSpecificData[field.id] = value;
-        });
-
-      await uploadDocuments(user.id);
-
-      await supabase
-        .from('profiles')
-        .update({
-          department_id: departmentId,
-          department_specific_data: departmentSpecificData,
-          onboarding_status: 'documents_uploaded'
-        })
-        .eq('id', user.id);
+      // Only keep answers to fields on this form that the rules leave visible
+      const departmentSpecificData: Record<string, FieldValue> = {};
+      Object.entries(getVisibleAnswers(answerFields, answers)).forEach(([fieldId, value]) => {
+        if (!isEmptyValue(value) && answerFields.some((field) => field.id === fieldId)) {
+          departmentSpecificData[fieldId] = value;
+        }
+      });
+
+      const { error: submitError } = await supabase.rpc('submit_onboarding', {
+        _department_id: departmentId,
+        _submission_data: departmentSpecificData,
+        _documents: getUploadedDocuments(),
+        _form_id: formId ?? undefined,
+        _revision_id: revisionId ?? undefined,
+      });
+
+      if (submitError) throw submitError;
+
+      await clearDraft();
 
       toast({
-        title: "Onboarding completed!",
-        description: "Your documents have been uploaded successfully.",
+        title: isResubmission ? "Answers resubmitted" : "Onboarding completed!",
+        description: isResubmission
+          ? "Your updated answers have been sent for review."
+          : "Your documents have been uploaded successfully.",
       });
 
       navigate("/dashboard");
@@ -290,8 +480,64 @@ const Onboarding = () => {
     }
   };
 
-  const totalDocs = Object.keys(documents).length;
-  const uploadedDocs = Object.values(documents).filter(Boolean).length;
+  const handleDiscardDraft = async () => {
+    setDiscarding(true);
+    try {
+      await discardDraft(Object.values(documents));
+
+      restoredFromDraft.current = false;
+      setHasChanges(false);
+      setAnswers({});
+      setDocuments({});
+      setSelectedDepartment("");
+      goToStep(0);
+
+      // Employees resubmitting start again from their last submitted answers
+      await loadExistingProfile();
+      if (formId) await loadPreviousSubmission(formId);
+
+      toast({ title: "Draft discarded" });
+      setDiscardOpen(false);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error discarding draft",
+        description: (error as Error).message,
+      });
+    } finally {
+      setDiscarding(false);
+    }
+  };
+
+  const uploadedDocs = documentTemplates.filter((template) => documents[template.id]).length;
+
+  const reviewSections: ReviewSection[] = [
+    {
+      stepIndex: 0,
+      title: "Department",
+      items: [
+        {
+          label: "Department",
+          value: departments.find((d) => d.id === selectedDepartment)?.name || "",
+        },
+      ],
+    },
+    ...formSections.map((section, index) => ({
+      stepIndex: index + 1,
+      title: section.title,
+      items: section.fields
+        .filter((field) => fieldStates[field.id]?.visible !== false)
+        .map((field) => ({ label: field.label, value: formatFieldValue(field, answers[field.id]) })),
+    })),
+    {
+      stepIndex: steps.length - 2,
+      title: "Documents",
+      items: documentTemplates.map((template) => ({
+        label: template.title,
+        value: documents[template.id]?.file_name || (template.is_required && !isResubmission ? "" : "Not provided"),
+      })),
+    },
+  ];
 
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary/5 via-background to-accent/5 p-4">
@@ -317,146 +563,214 @@ const Onboarding = () => {
           </CardDescription>
         </CardHeader>
         <CardContent className="max-h-[calc(100vh-200px)] overflow-y-auto">
-          <form onSubmit={handleSubmit} className="space-y-6">
-            <div className="space-y-2">
-              <Label htmlFor="department">Department *</Label>
-              <Select value={selectedDepartment} onValueChange={setSelectedDepartment} required>
-                <SelectTrigger className="w-full">
-                  <SelectValue placeholder="Select your department" />
-                </SelectTrigger>
-                <SelectContent className="bg-popover z-[100]">
-                  {departments.map((dept) => (
-                    <SelectItem key={dept.id} value={dept.id}>
-                      {dept.name}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
+          <form onSubmit={handleNext} className="space-y-6">
+            <StepIndicator steps={steps} currentStep={stepIndex} onStepClick={goToStep} />
+
+            {(draftSaving || lastSavedAt) && (
+              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <span className="flex items-center gap-1">
+                  {draftSaving ? (
+                    <>
+                      <Loader2 className="w-3 h-3 animate-spin" />
+                      Saving draft...
+                    </>
+                  ) : (
+                    lastSavedAt && (
+                      <>
+                        <CloudUpload className="w-3 h-3" />
+                        Draft saved {format(lastSavedAt, "MMM d, h:mm a")}
+                      </>
+                    )
+                  )}
+                </span>
+                <Button
+                  type="button"
+                  variant="link"
+                  size="sm"
+                  className="h-auto p-0 text-xs text-destructive"
+                  onClick={() => setDiscardOpen(true)}
+                >
+                  Discard draft
+                </Button>
+              </div>
+            )}
+
+            {reviewerNotes && (
+              <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+                <p className="font-medium">Changes requested by your reviewer</p>
+                <p>{reviewerNotes}</p>
+              </div>
+            )}
+
+            {currentStep.id === "department" && (
+              <div className="space-y-2">
+                <Label htmlFor="department">Department *</Label>
+                <Select
+                  value={selectedDepartment}
+                  onValueChange={handleDepartmentChange}
+                  disabled={departmentLocked}
+                  required
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder="Select your department" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-popover z-[100]">
+                    {departments.map((dept) => (
+                      <SelectItem key={dept.id} value={dept.id}>
+                        {dept.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {departmentLocked && (
+                  <p className="text-xs text-muted-foreground">Assigned by your invitation</p>
+                )}
+              </div>
+            )}
 
-            {selectedDepartment && (
-              <div className="space-y-4 pt-4 border-t">
-                <h3 className="font-semibold">Department Information</h3>
-                {formFields
-                  .filter((field) => field.type !== "file")
+            {currentSection && (
+              <div className="space-y-4">
+                <div>
+                  <h3 className="font-semibold">{currentSection.title}</h3>
+                  {currentSection.description && (
+                    <p className="text-sm text-muted-foreground">{currentSection.description}</p>
+                  )}
+                </div>
+                {currentSection.fields
+                  .filter((field) => fieldStates[field.id]?.visible !== false)
                   .map((field) => (
                     <div key={field.id} className="space-y-2">
                       <Label htmlFor={field.id}>
                         {field.label}
-                        {field.required && <span className="text-red-500 ml-1">*</span>}
+                        {fieldStates[field.id]?.required && <span className="text-red-500 ml-1">*</span>}
                       </Label>
-                      {getFieldComponent(field)}
+                      <DynamicFieldInput
+                        field={field}
+                        value={answers[field.id]}
+                        onChange={(value) => setAnswer(field.id, value)}
+                        required={fieldStates[field.id]?.required ?? field.required}
+                      />
                     </div>
                   ))}
               </div>
             )}
 
-            <div className="space-y-4 pt-4 border-t">
-              <div className="flex items-center justify-between">
-                <h3 className="font-semibold">Required Documents</h3>
-                <span className="text-sm text-muted-foreground">
-                  {uploadedDocs} of 3 required
-                </span>
-              </div>
-
+            {currentStep.id === "documents" && (
               <div className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="aadhaar" className="flex items-center gap-2">
-                    Aadhaar Card *
-                    {documents.aadhaar_card && <FileCheck className="w-4 h-4 text-green-600" />}
-                  </Label>
-                  <Input
-                    id="aadhaar"
-                    type="file"
-                    accept=".pdf,.jpg,.jpeg,.png"
-                    onChange={(e) => handleFileChange('aadhaar_card', e.target.files?.[0] || null)}
-                    className="cursor-pointer"
-                  />
-                  {documents.aadhaar_card && (
-                    <p className="text-xs text-muted-foreground">{documents.aadhaar_card.name}</p>
-                  )}
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="police" className="flex items-center gap-2">
-                    Police Verification *
-                    {documents.police_verification && <FileCheck className="w-4 h-4 text-green-600" />}
-                  </Label>
-                  <Input
-                    id="police"
-                    type="file"
-                    accept=".pdf,.jpg,.jpeg,.png"
-                    onChange={(e) => handleFileChange('police_verification', e.target.files?.[0] || null)}
-                    className="cursor-pointer"
-                  />
-                  {documents.police_verification && (
-                    <p className="text-xs text-muted-foreground">{documents.police_verification.name}</p>
-                  )}
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="offer" className="flex items-center gap-2">
-                    Offer Letter *
-                    {documents.offer_letter && <FileCheck className="w-4 h-4 text-green-600" />}
-                  </Label>
-                  <Input
-                    id="offer"
-                    type="file"
-                    accept=".pdf,.jpg,.jpeg,.png"
-                    onChange={(e) => handleFileChange('offer_letter', e.target.files?.[0] || null)}
-                    className="cursor-pointer"
-                  />
-                  {documents.offer_letter && (
-                    <p className="text-xs text-muted-foreground">{documents.offer_letter.name}</p>
-                  )}
+                <div className="flex items-center justify-between">
+                  <h3 className="font-semibold">
+                    {isResubmission ? "Documents (Optional)" : "Required Documents"}
+                  </h3>
+                  <span className="text-sm text-muted-foreground">
+                    {isResubmission
+                      ? `${uploadedDocs} selected`
+                      : `${requiredTemplates.filter((t) => documents[t.id]).length} of ${requiredTemplates.length} required`}
+                  </span>
                 </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="resume" className="flex items-center gap-2">
-                    Resume (Optional)
-                    {documents.resume && <FileCheck className="w-4 h-4 text-green-600" />}
-                  </Label>
-                  <Input
-                    id="resume"
-                    type="file"
-                    accept=".pdf,.doc,.docx"
-                    onChange={(e) => handleFileChange('resume', e.target.files?.[0] || null)}
-                    className="cursor-pointer"
-                  />
-                  {documents.resume && (
-                    <p className="text-xs text-muted-foreground">{documents.resume.name}</p>
-                  )}
-                </div>
+                {documentTemplates.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    Your department doesn't need any documents uploaded during onboarding.
+                  </p>
+                ) : (
+                  <div className="space-y-4">
+                    {documentTemplates.map((template) => (
+                      <div key={template.id} className="space-y-2 rounded-lg border p-3">
+                        <div className="flex items-start justify-between gap-2">
+                          <div>
+                            <Label htmlFor={`document-${template.id}`} className="flex items-center gap-2">
+                              {template.title} {template.is_required ? "*" : "(Optional)"}
+                              {uploadingDoc === template.id ? (
+                                <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                              ) : (
+                                documents[template.id] && <FileCheck className="w-4 h-4 text-green-600" />
+                              )}
+                            </Label>
+                            {template.description && (
+                              <p className="text-xs text-muted-foreground mt-1">{template.description}</p>
+                            )}
+                          </div>
+                          <Button type="button" variant="ghost" size="sm" onClick={() => openTemplate(template)}>
+                            <Download className="w-3 h-3 mr-1" />
+                            Template
+                          </Button>
+                        </div>
+                        <Input
+                          id={`document-${template.id}`}
+                          type="file"
+                          accept={DOCUMENT_ACCEPT}
+                          onChange={(e) => handleFileChange(template.id, e.target.files?.[0] || null)}
+                          className="cursor-pointer"
+                          disabled={!!uploadingDoc}
+                        />
+                        {documents[template.id] && (
+                          <p className="text-xs text-muted-foreground">{documents[template.id]?.file_name}</p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
-            </div>
+            )}
 
-            {loading && uploadProgress > 0 && (
-              <div className="space-y-2">
-                <div className="flex justify-between text-sm">
-                  <span>Uploading documents...</span>
-                  <span>{Math.round(uploadProgress)}%</span>
-                </div>
-                <Progress value={uploadProgress} />
-              </div>
+            {currentStep.id === "review" && (
+              <ReviewStep sections={reviewSections} onEdit={goToStep} />
             )}
 
-            <Button
-              type="submit"
-              className="w-full"
-              disabled={loading || !selectedDepartment || uploadedDocs < 3}
-            >
-              {loading ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Uploading documents...
-                </>
-              ) : (
-                "Save & Continue to Dashboard"
+            <div className="flex gap-2">
+              {stepIndex > 0 && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => goToStep(stepIndex - 1)}
+                  disabled={loading}
+                >
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  Previous
+                </Button>
               )}
-            </Button>
+              <Button type="submit" className="flex-1" disabled={loading || !!uploadingDoc}>
+                {loading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Uploading documents...
+                  </>
+                ) : currentStep.id !== "review" ? (
+                  <>
+                    Next
+                    <ArrowRight className="w-4 h-4 ml-2" />
+                  </>
+                ) : isResubmission ? (
+                  "Resubmit & Return to Dashboard"
+                ) : (
+                  "Save & Continue to Dashboard"
+                )}
+              </Button>
+            </div>
           </form>
         </CardContent>
       </Card>
+
+      <AlertDialog open={discardOpen} onOpenChange={setDiscardOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Discard your saved progress?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Your answers and any files you've uploaded so far will be removed. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={discarding}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDiscardDraft}
+              disabled={discarding}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {discarding ? "Discarding..." : "Discard"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
@@ -0,0 +1,103 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Award, CheckCircle2, Loader2, XCircle } from "lucide-react";
+import { verifyCertificate } from "@/lib/certificates";
+
+type VerifiedCertificate = NonNullable<Awaited<ReturnType<typeof verifyCertificate>>>;
+
+// Public page where anyone holding a certificate can check its ID
+const VerifyCertificate = () => {
+  const { code } = useParams();
+  const navigate = useNavigate();
+  const [input, setInput] = useState(code || "");
+  const [certificate, setCertificate] = useState<VerifiedCertificate | null>(null);
+  const [checked, setChecked] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setInput(code || "");
+    if (code) check(code);
+  }, [code]);
+
+  const check = async (value: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      setCertificate(await verifyCertificate(value));
+      setChecked(true);
+    } catch (error) {
+      setError((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = input.trim().toUpperCase();
+    if (value) navigate(`/verify/${encodeURIComponent(value)}`);
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-primary/5 via-background to-accent/5 p-4">
+      <Card className="w-full max-w-lg">
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-2">
+            <Award className="w-12 h-12 text-primary" />
+          </div>
+          <CardTitle className="text-2xl">Verify a Training Certificate</CardTitle>
+          <CardDescription>Enter the verification ID printed at the bottom of the certificate.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <form onSubmit={handleSubmit} className="flex gap-2">
+            <Input
+              placeholder="XXXX-XXXX-XXXX"
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              className="font-mono"
+            />
+            <Button type="submit" disabled={loading || !input.trim()}>
+              {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Verify
+            </Button>
+          </form>
+
+          {error ? (
+            <p className="text-sm text-destructive text-center">{error}</p>
+          ) : loading ? null : certificate ? (
+            <div className="rounded-lg border border-green-200 bg-green-50 p-4 space-y-2">
+              <div className="flex items-center gap-2 font-semibold text-green-800">
+                <CheckCircle2 className="w-5 h-5" />
+                Valid certificate
+              </div>
+              <dl className="grid grid-cols-3 gap-y-1 text-sm">
+                <dt className="text-muted-foreground">Employee</dt>
+                <dd className="col-span-2 font-medium">{certificate.employee_name}</dd>
+                <dt className="text-muted-foreground">Training</dt>
+                <dd className="col-span-2 font-medium">{certificate.session_title}</dd>
+                <dt className="text-muted-foreground">Completed</dt>
+                <dd className="col-span-2">{format(parseISO(certificate.completed_at), "PPP")}</dd>
+                <dt className="text-muted-foreground">Issued</dt>
+                <dd className="col-span-2">{format(parseISO(certificate.issued_at), "PPP")}</dd>
+              </dl>
+            </div>
+          ) : (
+            checked && (
+              <div className="flex items-center justify-center gap-2 rounded-lg border border-destructive/30 bg-destructive/10 p-4 text-sm text-destructive">
+                <XCircle className="w-5 h-5" />
+                No certificate matches this ID.
+              </div>
+            )
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default VerifyCertificate;
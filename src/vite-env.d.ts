@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Separate origin serving this same build, where packaged training courses run
+  readonly VITE_TRAINING_PACKAGE_ORIGIN?: string;
+}
@@ -0,0 +1,170 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+// Roles that may invite; the invitation policies decide which invitations
+const INVITING_ROLES = ["admin", "hr_manager", "department_manager"];
+
+interface InvitationEmailRequest {
+  invitationId: string;
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { invitationId }: InvitationEmailRequest = await req.json();
+
+    // Act as the caller, so they only reach invitations their policies allow
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_ANON_KEY")!,
+      { global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } } }
+    );
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return jsonResponse({ error: "Not authenticated" }, 401);
+    }
+
+    const { data: canInvite, error: roleError } = await supabase.rpc("has_any_role", {
+      _user_id: user.id,
+      _roles: INVITING_ROLES,
+    });
+    if (roleError) throw roleError;
+    if (!canInvite) {
+      return jsonResponse({ error: "Not allowed to send invitations" }, 403);
+    }
+
+    const { data: invitation, error: invitationError } = await supabase
+      .from("employee_invitations")
+      .select("email, full_name, join_date, token, expires_at, accepted_at, revoked_at, departments(name)")
+      .eq("id", invitationId)
+      .maybeSingle();
+    if (invitationError) throw invitationError;
+    if (!invitation) {
+      return jsonResponse({ error: "Invitation not found" }, 404);
+    }
+    if (invitation.accepted_at || invitation.revoked_at || new Date(invitation.expires_at) < new Date()) {
+      return jsonResponse({ error: "Invitation is no longer open" }, 409);
+    }
+
+    const siteUrl = Deno.env.get("SITE_URL");
+    const resendApiKey = Deno.env.get("RESEND_API_KEY");
+
+    if (!siteUrl) {
+      throw new Error("SITE_URL not configured");
+    }
+    if (!resendApiKey) {
+      throw new Error("RESEND_API_KEY not configured");
+    }
+
+    const email = invitation.email;
+    const fullName = escapeHtml(invitation.full_name);
+    const department = escapeHtml(invitation.departments?.name ?? "");
+    const joinDate = formatDate(invitation.join_date);
+    const expiresAt = formatDate(invitation.expires_at);
+    const inviteUrl = escapeHtml(
+      `${siteUrl.replace(/\/$/, "")}/auth?invite=${encodeURIComponent(invitation.token)}`
+    );
+
+    console.log("Sending invitation email to:", email);
+
+    const response = await fetch("https://api.resend.com/emails", {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${resendApiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        from: "Employee Management <onboarding@resend.dev>",
+        to: [email],
+        subject: "You're invited to join the team",
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+            <h1 style="color: #4F46E5; border-bottom: 3px solid #4F46E5; padding-bottom: 10px;">
+              Welcome aboard
+            </h1>
+
+            <p style="font-size: 16px; line-height: 1.6;">
+              Dear <strong>${fullName}</strong>,
+            </p>
+
+            <p style="font-size: 16px; line-height: 1.6;">
+              You have been invited to join the
+              <strong style="color: #4F46E5;">${department}</strong> department,
+              starting on <strong>${joinDate}</strong>.
+            </p>
+
+            <p style="text-align: center; margin: 30px 0;">
+              <a href="${inviteUrl}" style="background-color: #4F46E5; color: #FFFFFF; padding: 12px 24px; border-radius: 6px; text-decoration: none; font-weight: bold;">
+                Create your account
+              </a>
+            </p>
+
+            <p style="font-size: 14px; line-height: 1.6; color: #4B5563;">
+              This link can only be used once and expires on ${expiresAt}.
+              If it has expired, ask your HR contact to send a new one.
+            </p>
+
+            <p style="font-size: 16px; line-height: 1.6; margin-top: 30px;">
+              Best regards,<br>
+              <strong>The HR Team</strong>
+            </p>
+
+            <hr style="border: none; border-top: 1px solid #E5E7EB; margin: 30px 0;">
+
+            <p style="font-size: 12px; color: #6B7280; text-align: center;">
+              This is an automated message. Please do not reply to this email.
+            </p>
+          </div>
+        `,
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error("Resend API error:", error);
+      throw new Error(`Failed to send email: ${error}`);
+    }
+
+    const result = await response.json();
+    console.log("Email sent successfully:", result);
+
+    return jsonResponse(result, 200);
+  } catch (error) {
+    console.error("Error sending invitation email:", error);
+    return jsonResponse({ error: (error as Error).message }, 500);
+  }
+};
+
+serve(handler);
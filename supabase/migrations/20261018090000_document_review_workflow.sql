@@ -0,0 +1,100 @@
+-- Document review workflow: admins approve, reject or request a re-upload of
+-- employee documents, and employees are notified of the outcome.
+
+-- New status for documents the employee has been asked to upload again
+ALTER TYPE public.document_status ADD VALUE IF NOT EXISTS 'reupload_requested';
+
+-- Review metadata and link from a replacement back to the original document
+ALTER TABLE public.documents
+ADD COLUMN reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+ADD COLUMN reviewed_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN review_notes TEXT,
+ADD COLUMN replaces_document_id UUID REFERENCES public.documents(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_documents_status ON public.documents(status);
+CREATE INDEX IF NOT EXISTS idx_documents_replaces_document_id ON public.documents(replaces_document_id);
+
+COMMENT ON COLUMN public.documents.review_notes IS 'Reason given by the reviewer when rejecting or requesting a re-upload';
+COMMENT ON COLUMN public.documents.replaces_document_id IS 'Original document this upload replaces after a re-upload request';
+
+-- Only reviewers decide a document's status. Employee uploads always start
+-- pending, and a replacement can only point at a document of the same owner.
+CREATE OR REPLACE FUNCTION public.protect_document_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.replaces_document_id IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.replaces_document_id IS DISTINCT FROM OLD.replaces_document_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.documents
+      WHERE id = NEW.replaces_document_id AND user_id = NEW.user_id
+    )
+  THEN
+    RAISE EXCEPTION 'A document can only replace another document of the same employee';
+  END IF;
+
+  -- Server-side jobs run without a signed-in user
+  IF auth.uid() IS NULL OR public.has_role(auth.uid(), 'admin'::app_role) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.status := 'pending';
+    NEW.reviewed_by := NULL;
+    NEW.reviewed_at := NULL;
+    NEW.review_notes := NULL;
+  ELSIF (NEW.status, NEW.reviewed_by, NEW.reviewed_at, NEW.review_notes)
+    IS DISTINCT FROM (OLD.status, OLD.reviewed_by, OLD.reviewed_at, OLD.review_notes)
+  THEN
+    RAISE EXCEPTION 'Only reviewers can change the review status of a document';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_document_review
+  BEFORE INSERT OR UPDATE ON public.documents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_document_review();
+
+-- Create notifications table for in-app messages to users
+CREATE TABLE public.notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  message TEXT,
+  link TEXT,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for notifications
+CREATE POLICY "Users can view their own notifications"
+  ON public.notifications FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can mark their own notifications as read"
+  ON public.notifications FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- Recipients may only mark notifications read, not rewrite what was sent
+REVOKE UPDATE ON public.notifications FROM authenticated;
+GRANT UPDATE (read_at) ON public.notifications TO authenticated;
+
+CREATE POLICY "Admins can manage all notifications"
+  ON public.notifications FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Create indexes for faster queries
+CREATE INDEX idx_notifications_user_id ON public.notifications(user_id);
+CREATE INDEX idx_notifications_unread ON public.notifications(user_id) WHERE read_at IS NULL;
+
+COMMENT ON TABLE public.notifications IS 'In-app notifications shown in the dashboard header';
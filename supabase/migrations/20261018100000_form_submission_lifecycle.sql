@@ -0,0 +1,125 @@
+-- Store every onboarding form submission as a versioned row with a review
+-- lifecycle: submitted -> under_review -> accepted / needs_changes
+
+-- Replace the old pending/approved/rejected statuses
+ALTER TABLE public.department_signup_form_submissions
+DROP CONSTRAINT IF EXISTS department_signup_form_submissions_status_check;
+
+UPDATE public.department_signup_form_submissions
+SET status = CASE status
+  WHEN 'approved' THEN 'accepted'
+  WHEN 'rejected' THEN 'needs_changes'
+  ELSE 'submitted'
+END;
+
+ALTER TABLE public.department_signup_form_submissions
+ALTER COLUMN status SET DEFAULT 'submitted',
+ADD CONSTRAINT department_signup_form_submissions_status_check
+  CHECK (status IN ('submitted', 'under_review', 'accepted', 'needs_changes'));
+
+-- Versioning and review metadata
+ALTER TABLE public.department_signup_form_submissions
+ADD COLUMN version INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN reviewer_notes TEXT,
+ADD COLUMN reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+ADD COLUMN reviewed_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE DEFAULT now();
+
+-- Number existing submissions per user and form in submission order
+UPDATE public.department_signup_form_submissions s
+SET version = numbered.version
+FROM (
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY user_id, form_id ORDER BY submitted_at, id) AS version
+  FROM public.department_signup_form_submissions
+) numbered
+WHERE s.id = numbered.id;
+
+ALTER TABLE public.department_signup_form_submissions
+ADD CONSTRAINT department_signup_form_submissions_version_key UNIQUE (user_id, form_id, version);
+
+-- New submissions always get the next version and start as submitted
+CREATE OR REPLACE FUNCTION public.set_form_submission_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT COALESCE(MAX(version), 0) + 1 INTO NEW.version
+  FROM public.department_signup_form_submissions
+  WHERE user_id = NEW.user_id AND form_id = NEW.form_id;
+
+  NEW.status := 'submitted';
+  NEW.submitted_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_department_signup_form_submission_version
+  BEFORE INSERT ON public.department_signup_form_submissions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_form_submission_version();
+
+CREATE TRIGGER update_department_signup_form_submissions_updated_at
+  BEFORE UPDATE ON public.department_signup_form_submissions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at();
+
+-- New hires pick their department during onboarding, before profiles.department_id
+-- is set, so they need to read forms for any department
+DROP POLICY IF EXISTS "Users can view their department signup forms" ON public.department_signup_forms;
+
+CREATE POLICY "Authenticated users can view department signup forms"
+  ON public.department_signup_forms FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Onboarding is submitted in a single transaction, so a failure part-way
+-- through leaves nothing behind for a retry to duplicate. Files are uploaded
+-- beforehand; this records them with the answers. It runs with the caller's
+-- own policies, the same as the separate writes it replaces.
+CREATE OR REPLACE FUNCTION public.submit_onboarding(
+  _department_id UUID,
+  _submission_data JSONB,
+  _documents JSONB DEFAULT '[]'::jsonb,
+  _form_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.onboarding_documents (user_id, document_type, file_name, file_url, file_type)
+  SELECT _user_id, d.document_type, d.file_name, d.file_url, d.file_type
+  FROM jsonb_to_recordset(_documents) AS d(
+    document_type public.document_type, file_name TEXT, file_url TEXT, file_type TEXT
+  );
+
+  -- Version and status are assigned by the submission trigger
+  IF _form_id IS NOT NULL THEN
+    INSERT INTO public.department_signup_form_submissions (form_id, user_id, submission_data)
+    VALUES (_form_id, _user_id, _submission_data);
+  END IF;
+
+  UPDATE public.profiles
+  SET department_id = _department_id,
+      department_specific_data = _submission_data,
+      -- Only the first submission moves onboarding on; resubmitted answers don't
+      onboarding_status = CASE WHEN department_id IS NULL THEN 'documents_uploaded' ELSE onboarding_status END
+  WHERE id = _user_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_onboarding(UUID, JSONB, JSONB, UUID) TO authenticated;
+
+CREATE INDEX IF NOT EXISTS idx_department_signup_form_submissions_status ON public.department_signup_form_submissions(status);
+
+COMMENT ON COLUMN public.department_signup_form_submissions.version IS 'Increments for each resubmission of the same form by the same user';
+COMMENT ON COLUMN public.department_signup_form_submissions.status IS 'submitted, under_review, accepted or needs_changes';
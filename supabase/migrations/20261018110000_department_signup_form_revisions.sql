@@ -0,0 +1,244 @@
+-- Versioned department signup forms. Admins edit a draft revision; publishing
+-- freezes it and makes it the revision new hires answer against.
+
+CREATE TABLE public.department_signup_form_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  form_id UUID NOT NULL REFERENCES public.department_signup_forms(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'published', 'archived')),
+  form_name TEXT NOT NULL,
+  form_description TEXT,
+  form_fields JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  published_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  published_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (form_id, revision_number)
+);
+
+-- At most one open draft per form
+CREATE UNIQUE INDEX idx_department_signup_form_revisions_one_draft
+  ON public.department_signup_form_revisions(form_id)
+  WHERE status = 'draft';
+
+CREATE INDEX idx_department_signup_form_revisions_form_id ON public.department_signup_form_revisions(form_id);
+
+ALTER TABLE public.department_signup_form_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage form revisions"
+  ON public.department_signup_form_revisions FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Authenticated users can view non-draft form revisions"
+  ON public.department_signup_form_revisions FOR SELECT
+  TO authenticated
+  USING (status <> 'draft');
+
+CREATE TRIGGER update_department_signup_form_revisions_updated_at
+  BEFORE UPDATE ON public.department_signup_form_revisions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at();
+
+-- Revision numbers are assigned per form
+CREATE OR REPLACE FUNCTION public.set_form_revision_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT COALESCE(MAX(revision_number), 0) + 1 INTO NEW.revision_number
+  FROM public.department_signup_form_revisions
+  WHERE form_id = NEW.form_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_department_signup_form_revision_number
+  BEFORE INSERT ON public.department_signup_form_revisions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_form_revision_number();
+
+-- Published and archived revisions are frozen; the only change allowed is
+-- moving a published revision to archived when a newer one is published
+CREATE OR REPLACE FUNCTION public.prevent_published_revision_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status = 'draft' THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'published' AND NEW.status = 'archived'
+    AND NEW.form_name IS NOT DISTINCT FROM OLD.form_name
+    AND NEW.form_description IS NOT DISTINCT FROM OLD.form_description
+    AND NEW.form_fields = OLD.form_fields THEN
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'Revision % of this form is % and can no longer be changed', OLD.revision_number, OLD.status;
+END;
+$$;
+
+CREATE TRIGGER prevent_department_signup_form_revision_changes
+  BEFORE UPDATE ON public.department_signup_form_revisions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_published_revision_changes();
+
+-- Forms point at their live revision. form_name, form_description and
+-- form_fields on the form row mirror that revision for existing readers.
+ALTER TABLE public.department_signup_forms
+ADD COLUMN published_revision_id UUID REFERENCES public.department_signup_form_revisions(id) ON DELETE SET NULL;
+
+-- Submissions record the revision they were answered against
+ALTER TABLE public.department_signup_form_submissions
+ADD COLUMN revision_id UUID REFERENCES public.department_signup_form_revisions(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_department_signup_form_submissions_revision_id ON public.department_signup_form_submissions(revision_id);
+
+-- Backfill: every existing form becomes published revision 1
+INSERT INTO public.department_signup_form_revisions (form_id, revision_number, status, form_name, form_description, form_fields, published_at)
+SELECT id, 1, 'published', form_name, form_description, form_fields, COALESCE(updated_at, created_at, now())
+FROM public.department_signup_forms;
+
+UPDATE public.department_signup_forms f
+SET published_revision_id = r.id
+FROM public.department_signup_form_revisions r
+WHERE r.form_id = f.id;
+
+UPDATE public.department_signup_form_submissions s
+SET revision_id = f.published_revision_id
+FROM public.department_signup_forms f
+WHERE s.form_id = f.id;
+
+-- New submissions default to the form's published revision and may never
+-- reference a draft
+CREATE OR REPLACE FUNCTION public.set_form_submission_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT COALESCE(MAX(version), 0) + 1 INTO NEW.version
+  FROM public.department_signup_form_submissions
+  WHERE user_id = NEW.user_id AND form_id = NEW.form_id;
+
+  IF NEW.revision_id IS NULL THEN
+    SELECT published_revision_id INTO NEW.revision_id
+    FROM public.department_signup_forms
+    WHERE id = NEW.form_id;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.department_signup_form_revisions
+    WHERE id = NEW.revision_id AND form_id = NEW.form_id AND status <> 'draft'
+  ) THEN
+    RAISE EXCEPTION 'Submissions must reference a published revision of the form';
+  END IF;
+
+  NEW.status := 'submitted';
+  NEW.submitted_at := now();
+  RETURN NEW;
+END;
+$$;
+
+-- Publish a draft: archive the current revision, freeze the draft and
+-- copy its content onto the form row
+CREATE OR REPLACE FUNCTION public.publish_department_signup_form_revision(_revision_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _revision public.department_signup_form_revisions%ROWTYPE;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can publish forms';
+  END IF;
+
+  SELECT * INTO _revision
+  FROM public.department_signup_form_revisions
+  WHERE id = _revision_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Form revision not found';
+  END IF;
+
+  IF _revision.status <> 'draft' THEN
+    RAISE EXCEPTION 'Only draft revisions can be published';
+  END IF;
+
+  UPDATE public.department_signup_form_revisions
+  SET status = 'archived'
+  WHERE form_id = _revision.form_id AND status = 'published';
+
+  UPDATE public.department_signup_form_revisions
+  SET status = 'published', published_at = now(), published_by = auth.uid()
+  WHERE id = _revision_id;
+
+  UPDATE public.department_signup_forms
+  SET published_revision_id = _revision_id,
+      form_name = _revision.form_name,
+      form_description = _revision.form_description,
+      form_fields = _revision.form_fields
+  WHERE id = _revision.form_id;
+
+  RETURN _revision_id;
+END;
+$$;
+
+-- Onboarding submissions carry the revision the answers were given against
+DROP FUNCTION public.submit_onboarding(UUID, JSONB, JSONB, UUID);
+
+CREATE OR REPLACE FUNCTION public.submit_onboarding(
+  _department_id UUID,
+  _submission_data JSONB,
+  _documents JSONB DEFAULT '[]'::jsonb,
+  _form_id UUID DEFAULT NULL,
+  _revision_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.onboarding_documents (user_id, document_type, file_name, file_url, file_type)
+  SELECT _user_id, d.document_type, d.file_name, d.file_url, d.file_type
+  FROM jsonb_to_recordset(_documents) AS d(
+    document_type public.document_type, file_name TEXT, file_url TEXT, file_type TEXT
+  );
+
+  -- Version and status are assigned by the submission trigger
+  IF _form_id IS NOT NULL THEN
+    INSERT INTO public.department_signup_form_submissions (form_id, revision_id, user_id, submission_data)
+    VALUES (_form_id, _revision_id, _user_id, _submission_data);
+  END IF;
+
+  UPDATE public.profiles
+  SET department_id = _department_id,
+      department_specific_data = _submission_data,
+      -- Only the first submission moves onboarding on; resubmitted answers don't
+      onboarding_status = CASE WHEN department_id IS NULL THEN 'documents_uploaded' ELSE onboarding_status END
+  WHERE id = _user_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_onboarding(UUID, JSONB, JSONB, UUID, UUID) TO authenticated;
+
+COMMENT ON TABLE public.department_signup_form_revisions IS 'Revision history of department signup forms; published and archived revisions are immutable';
+COMMENT ON COLUMN public.department_signup_forms.published_revision_id IS 'Revision new hires currently answer against';
+COMMENT ON COLUMN public.department_signup_form_submissions.revision_id IS 'Form revision the answers were given against';
@@ -0,0 +1,239 @@
+-- Onboarding answers are checked against the form on the server as well, so a
+-- request that bypasses the onboarding screen can't skip required fields,
+-- answer fields the rules hide or ignore the field's validation settings.
+
+-- Same comparison value as normalize() in src/lib/formFields.ts
+CREATE OR REPLACE FUNCTION public.normalize_form_answer(_value JSONB)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(lower(trim(
+    CASE jsonb_typeof(_value)
+      WHEN 'array' THEN (SELECT string_agg(e, ', ') FROM jsonb_array_elements_text(_value) AS e)
+      WHEN 'string' THEN _value #>> '{}'
+      WHEN 'null' THEN NULL
+      ELSE _value::text
+    END
+  )), '')
+$$;
+
+CREATE OR REPLACE FUNCTION public.form_rule_matches(_rule JSONB, _answer JSONB)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  _actual TEXT := public.normalize_form_answer(_answer);
+  _expected TEXT := public.normalize_form_answer(_rule -> 'value');
+BEGIN
+  RETURN CASE _rule ->> 'operator'
+    WHEN 'equals' THEN _actual = _expected
+    WHEN 'not_equals' THEN _actual <> _expected
+    WHEN 'contains' THEN position(_expected IN _actual) > 0
+    WHEN 'is_empty' THEN _actual = ''
+    WHEN 'is_not_empty' THEN _actual <> ''
+    ELSE false
+  END;
+END;
+$$;
+
+-- Port of evaluateFieldRules: fields are evaluated in form order and a hidden
+-- field counts as empty for the rules of the fields after it
+CREATE OR REPLACE FUNCTION public.evaluate_form_field_rules(_fields JSONB, _answers JSONB)
+RETURNS TABLE (field_id TEXT, visible BOOLEAN, required BOOLEAN)
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  _field JSONB;
+  _rule JSONB;
+  _evaluated TEXT[] := '{}';
+  _effective JSONB := '{}'::jsonb;
+  _has_show BOOLEAN;
+  _any_show BOOLEAN;
+  _any_hide BOOLEAN;
+  _any_require BOOLEAN;
+  _matches BOOLEAN;
+BEGIN
+  FOR _field IN SELECT f FROM jsonb_array_elements(COALESCE(_fields, '[]'::jsonb)) AS f LOOP
+    _has_show := false;
+    _any_show := false;
+    _any_hide := false;
+    _any_require := false;
+
+    FOR _rule IN
+      SELECT r FROM jsonb_array_elements(COALESCE(_field -> 'rules', '[]'::jsonb)) AS r
+      WHERE COALESCE(r ->> 'fieldId', '') NOT IN ('', COALESCE(_field ->> 'id', ''))
+    LOOP
+      _matches := public.form_rule_matches(
+        _rule,
+        CASE WHEN (_rule ->> 'fieldId') = ANY(_evaluated)
+          THEN _effective -> (_rule ->> 'fieldId')
+          ELSE _answers -> (_rule ->> 'fieldId')
+        END
+      );
+
+      CASE _rule ->> 'action'
+        WHEN 'show' THEN
+          _has_show := true;
+          _any_show := _any_show OR _matches;
+        WHEN 'hide' THEN
+          _any_hide := _any_hide OR _matches;
+        WHEN 'require' THEN
+          _any_require := _any_require OR _matches;
+        ELSE
+          NULL;
+      END CASE;
+    END LOOP;
+
+    field_id := _field ->> 'id';
+    visible := (NOT _has_show OR _any_show) AND NOT _any_hide;
+    required := visible AND (COALESCE((_field ->> 'required')::boolean, false) OR _any_require);
+
+    _evaluated := _evaluated || field_id;
+    IF visible AND _answers ? field_id THEN
+      _effective := _effective || jsonb_build_object(field_id, _answers -> field_id);
+    END IF;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+-- Raise on the first answer the form doesn't accept
+CREATE OR REPLACE FUNCTION public.validate_form_answers(_fields JSONB, _answers JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  _key TEXT;
+  _state RECORD;
+  _field JSONB;
+  _value TEXT;
+BEGIN
+  IF jsonb_typeof(_answers) IS DISTINCT FROM 'object' THEN
+    RAISE EXCEPTION 'Form answers must be an object keyed by field id';
+  END IF;
+
+  FOR _key IN SELECT jsonb_object_keys(_answers) LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(_fields) AS f
+      WHERE f ->> 'id' = _key AND f ->> 'type' <> 'file'
+    ) THEN
+      RAISE EXCEPTION 'Answer given for a field that is not on this form: %', _key;
+    END IF;
+  END LOOP;
+
+  FOR _state IN SELECT * FROM public.evaluate_form_field_rules(_fields, _answers) LOOP
+    SELECT f INTO _field
+    FROM jsonb_array_elements(_fields) AS f
+    WHERE f ->> 'id' = _state.field_id
+    LIMIT 1;
+
+    CONTINUE WHEN _field ->> 'type' = 'file';
+
+    IF public.normalize_form_answer(_answers -> _state.field_id) = '' THEN
+      IF _state.required THEN
+        RAISE EXCEPTION '% is required', _field ->> 'label';
+      END IF;
+      CONTINUE;
+    END IF;
+
+    IF NOT _state.visible THEN
+      RAISE EXCEPTION '% is hidden by the form rules and can''t be answered', _field ->> 'label';
+    END IF;
+
+    _value := _answers ->> _state.field_id;
+
+    IF _field ->> 'type' = 'dropdown'
+      AND jsonb_array_length(COALESCE(_field -> 'options', '[]'::jsonb)) > 0
+      AND NOT (_field -> 'options') ? _value THEN
+      RAISE EXCEPTION '% must be one of the listed options', _field ->> 'label';
+    END IF;
+
+    IF NULLIF(_field #>> '{validation,min}', '')::numeric > 0
+      AND char_length(_value) < NULLIF(_field #>> '{validation,min}', '')::numeric THEN
+      RAISE EXCEPTION '% needs at least % characters', _field ->> 'label', _field #>> '{validation,min}';
+    END IF;
+
+    IF NULLIF(_field #>> '{validation,max}', '')::numeric > 0
+      AND char_length(_value) > NULLIF(_field #>> '{validation,max}', '')::numeric THEN
+      RAISE EXCEPTION '% allows at most % characters', _field ->> 'label', _field #>> '{validation,max}';
+    END IF;
+
+    IF COALESCE(_field #>> '{validation,pattern}', '') <> ''
+      AND _value !~ (_field #>> '{validation,pattern}') THEN
+      RAISE EXCEPTION '% is not in the expected format', _field ->> 'label';
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Answers are validated against the revision they are submitted for, and a
+-- department with a live form can't be submitted without answering it
+CREATE OR REPLACE FUNCTION public.submit_onboarding(
+  _department_id UUID,
+  _submission_data JSONB,
+  _documents JSONB DEFAULT '[]'::jsonb,
+  _form_id UUID DEFAULT NULL,
+  _revision_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _live_form_id UUID;
+  _fields JSONB;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT id INTO _live_form_id
+  FROM public.department_signup_forms
+  WHERE department_id = _department_id AND published_revision_id IS NOT NULL;
+
+  IF _live_form_id IS DISTINCT FROM _form_id THEN
+    RAISE EXCEPTION 'Answers must be submitted against the department''s signup form';
+  END IF;
+
+  IF _form_id IS NOT NULL THEN
+    SELECT r.form_fields INTO _fields
+    FROM public.department_signup_form_revisions r
+    JOIN public.department_signup_forms f ON f.id = r.form_id
+    WHERE r.form_id = _form_id
+      AND r.id = COALESCE(_revision_id, f.published_revision_id)
+      AND r.status <> 'draft';
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Submissions must reference a published revision of the form';
+    END IF;
+
+    PERFORM public.validate_form_answers(_fields, _submission_data);
+  END IF;
+
+  INSERT INTO public.onboarding_documents (user_id, document_type, file_name, file_url, file_type)
+  SELECT _user_id, d.document_type, d.file_name, d.file_url, d.file_type
+  FROM jsonb_to_recordset(_documents) AS d(
+    document_type public.document_type, file_name TEXT, file_url TEXT, file_type TEXT
+  );
+
+  -- Version and status are assigned by the submission trigger
+  IF _form_id IS NOT NULL THEN
+    INSERT INTO public.department_signup_form_submissions (form_id, revision_id, user_id, submission_data)
+    VALUES (_form_id, _revision_id, _user_id, _submission_data);
+  END IF;
+
+  UPDATE public.profiles
+  SET department_id = _department_id,
+      department_specific_data = _submission_data,
+      -- Only the first submission moves onboarding on; resubmitted answers don't
+      onboarding_status = CASE WHEN department_id IS NULL THEN 'documents_uploaded' ELSE onboarding_status END
+  WHERE id = _user_id;
+END;
+$$;
@@ -0,0 +1,51 @@
+-- Autosaved, in-progress onboarding wizard state, one draft per user.
+-- Files chosen in the wizard are uploaded straight away and tracked here
+-- until the onboarding is submitted or the draft is discarded.
+
+CREATE TABLE public.onboarding_drafts (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  department_id UUID REFERENCES public.departments(id) ON DELETE SET NULL,
+  answers JSONB NOT NULL DEFAULT '{}'::jsonb,
+  uploaded_files JSONB NOT NULL DEFAULT '{}'::jsonb,
+  current_step INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+ALTER TABLE public.onboarding_drafts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own onboarding draft"
+  ON public.onboarding_drafts FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view onboarding drafts"
+  ON public.onboarding_drafts FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_onboarding_drafts_updated_at
+  BEFORE UPDATE ON public.onboarding_drafts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at();
+
+-- Discarding a draft removes its uploads from the user's own folder. Files
+-- already submitted as documents are kept, as their rows still point at them.
+CREATE POLICY "Users can delete their own draft uploads"
+  ON storage.objects FOR DELETE
+  USING (
+    bucket_id = 'documents'
+    AND auth.uid()::text = (storage.foldername(name))[1]
+    AND NOT EXISTS (
+      SELECT 1 FROM public.documents d
+      WHERE d.user_id = auth.uid()
+        AND d.file_url LIKE '%/documents/' || storage.objects.name
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.onboarding_documents d
+      WHERE d.user_id = auth.uid()
+        AND d.file_url LIKE '%/documents/' || storage.objects.name
+    )
+  );
+
+COMMENT ON TABLE public.onboarding_drafts IS 'Autosaved onboarding wizard progress; removed when onboarding is submitted';
+COMMENT ON COLUMN public.onboarding_drafts.uploaded_files IS 'Document key -> { path, file_name, file_type } in the documents bucket';
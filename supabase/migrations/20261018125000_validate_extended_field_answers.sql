@@ -0,0 +1,248 @@
+-- Server-side answer checks for the date, number, choice, address, signature
+-- and acknowledgement field types, and for section pages hidden by rules.
+
+DROP FUNCTION public.normalize_form_answer(JSONB);
+
+-- Same comparison value as normalize() in src/lib/formFields.ts: checkbox
+-- answers compare as 'yes' or empty, addresses as their filled-in parts
+CREATE OR REPLACE FUNCTION public.normalize_form_answer(_value JSONB, _type TEXT DEFAULT NULL)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN _type IN ('checkbox', 'acknowledgement') THEN
+      CASE WHEN lower(trim(COALESCE(_value #>> '{}', ''))) IN ('true', 'yes') THEN 'yes' ELSE '' END
+    ELSE COALESCE(lower(trim(
+      CASE jsonb_typeof(_value)
+        WHEN 'array' THEN (SELECT string_agg(e, ', ') FROM jsonb_array_elements_text(_value) AS e)
+        WHEN 'object' THEN (
+          SELECT string_agg(e.value, ', ')
+          FROM jsonb_each_text(_value) AS e
+          WHERE COALESCE(e.value, '') <> ''
+        )
+        WHEN 'boolean' THEN CASE WHEN _value = 'true'::jsonb THEN 'yes' END
+        WHEN 'string' THEN _value #>> '{}'
+        WHEN 'null' THEN NULL
+        ELSE _value::text
+      END
+    )), '')
+  END
+$$;
+
+DROP FUNCTION public.form_rule_matches(JSONB, JSONB);
+
+CREATE OR REPLACE FUNCTION public.form_rule_matches(_rule JSONB, _answer JSONB, _source_type TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  _actual TEXT := public.normalize_form_answer(_answer, _source_type);
+  _expected TEXT := public.normalize_form_answer(_rule -> 'value', _source_type);
+BEGIN
+  RETURN CASE _rule ->> 'operator'
+    WHEN 'equals' THEN _actual = _expected
+    WHEN 'not_equals' THEN _actual <> _expected
+    WHEN 'contains' THEN position(_expected IN _actual) > 0
+    WHEN 'is_empty' THEN _actual = ''
+    WHEN 'is_not_empty' THEN _actual <> ''
+    ELSE false
+  END;
+END;
+$$;
+
+-- Hiding a section hides every field on it
+CREATE OR REPLACE FUNCTION public.evaluate_form_field_rules(_fields JSONB, _answers JSONB)
+RETURNS TABLE (field_id TEXT, visible BOOLEAN, required BOOLEAN)
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  _field JSONB;
+  _rule JSONB;
+  _evaluated TEXT[] := '{}';
+  _effective JSONB := '{}'::jsonb;
+  _section_visible BOOLEAN := true;
+  _own_visible BOOLEAN;
+  _has_show BOOLEAN;
+  _any_show BOOLEAN;
+  _any_hide BOOLEAN;
+  _any_require BOOLEAN;
+  _matches BOOLEAN;
+BEGIN
+  FOR _field IN SELECT f FROM jsonb_array_elements(COALESCE(_fields, '[]'::jsonb)) AS f LOOP
+    _has_show := false;
+    _any_show := false;
+    _any_hide := false;
+    _any_require := false;
+
+    FOR _rule IN
+      SELECT r FROM jsonb_array_elements(COALESCE(_field -> 'rules', '[]'::jsonb)) AS r
+      WHERE COALESCE(r ->> 'fieldId', '') NOT IN ('', COALESCE(_field ->> 'id', ''))
+    LOOP
+      _matches := public.form_rule_matches(
+        _rule,
+        CASE WHEN (_rule ->> 'fieldId') = ANY(_evaluated)
+          THEN _effective -> (_rule ->> 'fieldId')
+          ELSE _answers -> (_rule ->> 'fieldId')
+        END,
+        (SELECT s ->> 'type' FROM jsonb_array_elements(_fields) AS s WHERE s ->> 'id' = _rule ->> 'fieldId' LIMIT 1)
+      );
+
+      CASE _rule ->> 'action'
+        WHEN 'show' THEN
+          _has_show := true;
+          _any_show := _any_show OR _matches;
+        WHEN 'hide' THEN
+          _any_hide := _any_hide OR _matches;
+        WHEN 'require' THEN
+          _any_require := _any_require OR _matches;
+        ELSE
+          NULL;
+      END CASE;
+    END LOOP;
+
+    _own_visible := (NOT _has_show OR _any_show) AND NOT _any_hide;
+    field_id := _field ->> 'id';
+    _evaluated := _evaluated || field_id;
+
+    IF _field ->> 'type' = 'section' THEN
+      _section_visible := _own_visible;
+      visible := _own_visible;
+      required := false;
+      RETURN NEXT;
+      CONTINUE;
+    END IF;
+
+    visible := _section_visible AND _own_visible;
+    required := visible AND (COALESCE((_field ->> 'required')::boolean, false) OR _any_require);
+
+    IF visible AND _answers ? field_id THEN
+      _effective := _effective || jsonb_build_object(field_id, _answers -> field_id);
+    END IF;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+-- Mirrors getFieldError in src/lib/formFields.ts, plus the shape of each answer
+CREATE OR REPLACE FUNCTION public.validate_form_answers(_fields JSONB, _answers JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  _key TEXT;
+  _state RECORD;
+  _field JSONB;
+  _type TEXT;
+  _label TEXT;
+  _answer JSONB;
+  _value TEXT;
+  _number NUMERIC;
+  _min NUMERIC;
+  _max NUMERIC;
+BEGIN
+  IF jsonb_typeof(_answers) IS DISTINCT FROM 'object' THEN
+    RAISE EXCEPTION 'Form answers must be an object keyed by field id';
+  END IF;
+
+  FOR _key IN SELECT jsonb_object_keys(_answers) LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(_fields) AS f
+      WHERE f ->> 'id' = _key AND f ->> 'type' NOT IN ('file', 'section')
+    ) THEN
+      RAISE EXCEPTION 'Answer given for a field that is not on this form: %', _key;
+    END IF;
+  END LOOP;
+
+  FOR _state IN SELECT * FROM public.evaluate_form_field_rules(_fields, _answers) LOOP
+    SELECT f INTO _field
+    FROM jsonb_array_elements(_fields) AS f
+    WHERE f ->> 'id' = _state.field_id
+    LIMIT 1;
+
+    _type := _field ->> 'type';
+    _label := _field ->> 'label';
+    CONTINUE WHEN _type IN ('file', 'section');
+
+    _answer := _answers -> _state.field_id;
+
+    IF public.normalize_form_answer(_answer, _type) = '' THEN
+      IF _state.required THEN
+        RAISE EXCEPTION '% is required', _label;
+      END IF;
+      CONTINUE;
+    END IF;
+
+    IF NOT _state.visible THEN
+      RAISE EXCEPTION '% is hidden by the form rules and can''t be answered', _label;
+    END IF;
+
+    -- Answer shapes: booleans for checkbox and acknowledgement, a list for
+    -- multiselect, an object for address and text for everything else
+    IF jsonb_typeof(_answer) IS DISTINCT FROM CASE
+      WHEN _type IN ('checkbox', 'acknowledgement') THEN 'boolean'
+      WHEN _type = 'multiselect' THEN 'array'
+      WHEN _type = 'address' THEN 'object'
+      ELSE 'string'
+    END THEN
+      RAISE EXCEPTION '% has an answer of the wrong type', _label;
+    END IF;
+
+    _value := _answer #>> '{}';
+    _min := NULLIF(_field #>> '{validation,min}', '')::numeric;
+    _max := NULLIF(_field #>> '{validation,max}', '')::numeric;
+
+    IF _type IN ('dropdown', 'radio', 'multiselect')
+      AND jsonb_array_length(COALESCE(_field -> 'options', '[]'::jsonb)) > 0
+      AND EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements_text(CASE WHEN _type = 'multiselect' THEN _answer ELSE jsonb_build_array(_answer) END) AS o
+        WHERE NOT (_field -> 'options') ? o
+      ) THEN
+      RAISE EXCEPTION '% must be one of the listed options', _label;
+    END IF;
+
+    IF _type = 'email' AND _value !~ '^[^[:space:]@]+@[^[:space:]@]+\.[^[:space:]@]+$' THEN
+      RAISE EXCEPTION '% must be a valid email address', _label;
+    END IF;
+
+    IF _type = 'phone' AND _value !~ '^[0-9[:space:]()+-]+$' THEN
+      RAISE EXCEPTION '% must be a valid phone number', _label;
+    END IF;
+
+    IF _type = 'date' AND _value !~ '^\d{4}-\d{2}-\d{2}$' THEN
+      RAISE EXCEPTION '% must be a date', _label;
+    END IF;
+
+    IF _type = 'number' THEN
+      IF _value !~ '^\s*-?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?\s*$' THEN
+        RAISE EXCEPTION '% must be a number', _label;
+      END IF;
+      _number := _value::numeric;
+      IF _number < _min THEN
+        RAISE EXCEPTION '% must be at least %', _label, _min;
+      END IF;
+      IF _number > _max THEN
+        RAISE EXCEPTION '% must be at most %', _label, _max;
+      END IF;
+    END IF;
+
+    IF _type IN ('text', 'email', 'phone', 'textarea') THEN
+      IF _min > 0 AND char_length(_value) < _min THEN
+        RAISE EXCEPTION '% needs at least % characters', _label, _min;
+      END IF;
+      IF _max > 0 AND char_length(_value) > _max THEN
+        RAISE EXCEPTION '% allows at most % characters', _label, _max;
+      END IF;
+      IF COALESCE(_field #>> '{validation,pattern}', '') <> ''
+        AND _value !~ (_field #>> '{validation,pattern}') THEN
+        RAISE EXCEPTION '% is not in the expected format', _label;
+      END IF;
+    END IF;
+  END LOOP;
+END;
+$$;
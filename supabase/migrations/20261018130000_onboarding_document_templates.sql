@@ -0,0 +1,102 @@
+-- Onboarding documents are driven by the selected department's document
+-- templates. Each upload is stored as a document for review and linked to
+-- the template it satisfies.
+
+ALTER TABLE public.documents
+ADD COLUMN template_id UUID REFERENCES public.department_document_templates(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_documents_template_id ON public.documents(template_id);
+
+COMMENT ON COLUMN public.documents.template_id IS 'Department document template this upload satisfies';
+
+-- New joiners pick their department before their profile is assigned to it,
+-- so templates must be visible to any signed-in user
+CREATE POLICY "Authenticated users can view department document templates"
+  ON public.department_document_templates FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Template files live under templates/ in employee_docs
+CREATE POLICY "Authenticated users can view document template files"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'employee_docs' AND
+  (storage.foldername(name))[1] = 'templates'
+);
+
+-- Onboarding uploads are filed as documents for review against their template
+CREATE OR REPLACE FUNCTION public.submit_onboarding(
+  _department_id UUID,
+  _submission_data JSONB,
+  _documents JSONB DEFAULT '[]'::jsonb,
+  _form_id UUID DEFAULT NULL,
+  _revision_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _live_form_id UUID;
+  _fields JSONB;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT id INTO _live_form_id
+  FROM public.department_signup_forms
+  WHERE department_id = _department_id AND published_revision_id IS NOT NULL;
+
+  IF _live_form_id IS DISTINCT FROM _form_id THEN
+    RAISE EXCEPTION 'Answers must be submitted against the department''s signup form';
+  END IF;
+
+  IF _form_id IS NOT NULL THEN
+    SELECT r.form_fields INTO _fields
+    FROM public.department_signup_form_revisions r
+    JOIN public.department_signup_forms f ON f.id = r.form_id
+    WHERE r.form_id = _form_id
+      AND r.id = COALESCE(_revision_id, f.published_revision_id)
+      AND r.status <> 'draft';
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Submissions must reference a published revision of the form';
+    END IF;
+
+    PERFORM public.validate_form_answers(_fields, _submission_data);
+  END IF;
+
+  -- Files already filed by an earlier submission aren't filed again
+  INSERT INTO public.documents (
+    user_id, department_id, template_id, title,
+    file_name, file_url, file_type, uploaded_by_admin
+  )
+  SELECT _user_id, _department_id, d.template_id, d.title,
+    d.file_name, d.file_url, d.file_type, false
+  FROM jsonb_to_recordset(_documents) AS d(
+    template_id UUID, title TEXT, file_name TEXT, file_url TEXT, file_type TEXT
+  )
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.documents existing
+    WHERE existing.user_id = _user_id AND existing.file_url = d.file_url
+  );
+
+  -- Version and status are assigned by the submission trigger
+  IF _form_id IS NOT NULL THEN
+    INSERT INTO public.department_signup_form_submissions (form_id, revision_id, user_id, submission_data)
+    VALUES (_form_id, _revision_id, _user_id, _submission_data);
+  END IF;
+
+  UPDATE public.profiles
+  SET department_id = _department_id,
+      department_specific_data = _submission_data,
+      -- Only the first submission moves onboarding on; resubmitted answers don't
+      onboarding_status = CASE WHEN department_id IS NULL THEN 'documents_uploaded' ELSE onboarding_status END
+  WHERE id = _user_id;
+END;
+$$;
@@ -0,0 +1,141 @@
+-- Document template versioning: replacing a template's file keeps the old
+-- file as a numbered version, and employee uploads record the version of the
+-- template they were returned against.
+
+ALTER TABLE public.department_document_templates
+ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+
+CREATE TABLE public.department_document_template_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id UUID NOT NULL REFERENCES public.department_document_templates(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  file_name TEXT NOT NULL,
+  file_url TEXT NOT NULL,
+  file_type TEXT NOT NULL,
+  uploaded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE(template_id, version)
+);
+
+ALTER TABLE public.department_document_template_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage document template versions"
+  ON public.department_document_template_versions FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Authenticated users can view document template versions"
+  ON public.department_document_template_versions FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Archive the outgoing file whenever a template's file is replaced
+CREATE OR REPLACE FUNCTION public.archive_document_template_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.file_url IS DISTINCT FROM OLD.file_url THEN
+    INSERT INTO public.department_document_template_versions
+      (template_id, version, file_name, file_url, file_type, uploaded_by, created_at)
+    VALUES
+      (OLD.id, OLD.version, OLD.file_name, OLD.file_url, OLD.file_type, OLD.created_by, COALESCE(OLD.updated_at, OLD.created_at));
+
+    -- created_by follows whoever uploaded the current file
+    NEW.version := OLD.version + 1;
+    NEW.created_by := COALESCE(auth.uid(), OLD.created_by);
+  ELSE
+    NEW.version := OLD.version;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER archive_document_template_version
+  BEFORE UPDATE ON public.department_document_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.archive_document_template_version();
+
+ALTER TABLE public.documents
+ADD COLUMN template_version INTEGER;
+
+-- Onboarding uploads record the template version they were returned against
+CREATE OR REPLACE FUNCTION public.submit_onboarding(
+  _department_id UUID,
+  _submission_data JSONB,
+  _documents JSONB DEFAULT '[]'::jsonb,
+  _form_id UUID DEFAULT NULL,
+  _revision_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _live_form_id UUID;
+  _fields JSONB;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT id INTO _live_form_id
+  FROM public.department_signup_forms
+  WHERE department_id = _department_id AND published_revision_id IS NOT NULL;
+
+  IF _live_form_id IS DISTINCT FROM _form_id THEN
+    RAISE EXCEPTION 'Answers must be submitted against the department''s signup form';
+  END IF;
+
+  IF _form_id IS NOT NULL THEN
+    SELECT r.form_fields INTO _fields
+    FROM public.department_signup_form_revisions r
+    JOIN public.department_signup_forms f ON f.id = r.form_id
+    WHERE r.form_id = _form_id
+      AND r.id = COALESCE(_revision_id, f.published_revision_id)
+      AND r.status <> 'draft';
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Submissions must reference a published revision of the form';
+    END IF;
+
+    PERFORM public.validate_form_answers(_fields, _submission_data);
+  END IF;
+
+  -- Files already filed by an earlier submission aren't filed again
+  INSERT INTO public.documents (
+    user_id, department_id, template_id, template_version, title,
+    file_name, file_url, file_type, uploaded_by_admin
+  )
+  SELECT _user_id, _department_id, d.template_id, d.template_version, d.title,
+    d.file_name, d.file_url, d.file_type, false
+  FROM jsonb_to_recordset(_documents) AS d(
+    template_id UUID, template_version INTEGER, title TEXT,
+    file_name TEXT, file_url TEXT, file_type TEXT
+  )
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.documents existing
+    WHERE existing.user_id = _user_id AND existing.file_url = d.file_url
+  );
+
+  -- Version and status are assigned by the submission trigger
+  IF _form_id IS NOT NULL THEN
+    INSERT INTO public.department_signup_form_submissions (form_id, revision_id, user_id, submission_data)
+    VALUES (_form_id, _revision_id, _user_id, _submission_data);
+  END IF;
+
+  UPDATE public.profiles
+  SET department_id = _department_id,
+      department_specific_data = _submission_data,
+      -- Only the first submission moves onboarding on; resubmitted answers don't
+      onboarding_status = CASE WHEN department_id IS NULL THEN 'documents_uploaded' ELSE onboarding_status END
+  WHERE id = _user_id;
+END;
+$$;
+
+COMMENT ON TABLE public.department_document_template_versions IS 'Earlier files of a department document template, kept when the file is replaced';
+COMMENT ON COLUMN public.documents.template_version IS 'Version of the template the employee returned this document against';
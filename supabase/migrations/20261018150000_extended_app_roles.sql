@@ -0,0 +1,8 @@
+-- Roles beyond admin/employee: HR managers run onboarding across the
+-- organisation, department managers are scoped to their own department and
+-- auditors get read-only access. Enum values are added on their own so the
+-- following migration can use them.
+
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'hr_manager';
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'department_manager';
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'auditor';
@@ -0,0 +1,368 @@
+-- Access rules for the hr_manager, department_manager and auditor roles.
+-- HR managers can do what admins do except manage roles, department managers
+-- can manage their department's employees, forms and training, and auditors
+-- can read everything but change nothing.
+
+-- A department manager role is held for a specific department
+ALTER TABLE public.user_roles
+ADD COLUMN department_id UUID REFERENCES public.departments(id) ON DELETE CASCADE;
+
+ALTER TABLE public.user_roles
+DROP CONSTRAINT IF EXISTS user_roles_user_id_role_key;
+
+CREATE UNIQUE INDEX user_roles_user_role_department_key
+  ON public.user_roles (user_id, role, COALESCE(department_id, '00000000-0000-0000-0000-000000000000'::uuid));
+
+ALTER TABLE public.user_roles
+ADD CONSTRAINT user_roles_department_scope_check
+CHECK ((role = 'department_manager') = (department_id IS NOT NULL));
+
+COMMENT ON COLUMN public.user_roles.department_id IS 'Department a department_manager role applies to; NULL for organisation-wide roles';
+
+-- True when the user holds any of the given roles
+CREATE OR REPLACE FUNCTION public.has_any_role(_user_id UUID, _roles app_role[])
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles
+    WHERE user_id = _user_id AND role = ANY(_roles)
+  )
+$$;
+
+-- True when the user manages the given department
+CREATE OR REPLACE FUNCTION public.manages_department(_user_id UUID, _department_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles
+    WHERE user_id = _user_id
+      AND role = 'department_manager'
+      AND department_id = _department_id
+  )
+$$;
+
+-- True when the employee belongs to a department the user manages
+CREATE OR REPLACE FUNCTION public.manages_employee(_user_id UUID, _employee_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.profiles p
+    JOIN public.user_roles r ON r.department_id = p.department_id
+    WHERE p.id = _employee_id
+      AND r.user_id = _user_id
+      AND r.role = 'department_manager'
+  )
+$$;
+
+-- Storage variant: employee files live under a folder named after their user id
+CREATE OR REPLACE FUNCTION public.manages_employee_folder(_user_id UUID, _folder TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.profiles p
+    JOIN public.user_roles r ON r.department_id = p.department_id
+    WHERE p.id::text = _folder
+      AND r.user_id = _user_id
+      AND r.role = 'department_manager'
+  )
+$$;
+
+-- Profiles
+CREATE POLICY "HR managers and auditors can view all profiles"
+  ON public.profiles FOR SELECT
+  USING (public.has_any_role(auth.uid(), ARRAY['hr_manager', 'auditor']::app_role[]));
+
+CREATE POLICY "HR managers can update all profiles"
+  ON public.profiles FOR UPDATE
+  USING (public.has_role(auth.uid(), 'hr_manager'::app_role));
+
+CREATE POLICY "Department managers can view their department's profiles"
+  ON public.profiles FOR SELECT
+  USING (public.manages_department(auth.uid(), department_id));
+
+CREATE POLICY "Department managers can update their department's profiles"
+  ON public.profiles FOR UPDATE
+  USING (public.manages_department(auth.uid(), department_id));
+
+-- Roles
+CREATE POLICY "HR managers and auditors can view all roles"
+  ON public.user_roles FOR SELECT
+  USING (public.has_any_role(auth.uid(), ARRAY['hr_manager', 'auditor']::app_role[]));
+
+-- Documents
+CREATE POLICY "HR managers can manage all documents"
+  ON public.documents FOR ALL
+  USING (public.has_role(auth.uid(), 'hr_manager'::app_role));
+
+CREATE POLICY "Auditors can view all documents"
+  ON public.documents FOR SELECT
+  USING (public.has_role(auth.uid(), 'auditor'::app_role));
+
+CREATE POLICY "Department managers can manage their department's documents"
+  ON public.documents FOR ALL
+  USING (public.manages_employee(auth.uid(), user_id));
+
+CREATE POLICY "Staff can view employee_docs"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'employee_docs' AND (
+    public.has_any_role(auth.uid(), ARRAY['hr_manager', 'auditor']::app_role[]) OR
+    public.manages_employee_folder(auth.uid(), (storage.foldername(name))[1])
+  )
+);
+
+-- Files employees upload during onboarding, which reviewers need to preview
+CREATE POLICY "Staff can view onboarding uploads"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'documents' AND (
+    public.has_any_role(auth.uid(), ARRAY['hr_manager', 'auditor']::app_role[]) OR
+    public.manages_employee_folder(auth.uid(), (storage.foldername(name))[1])
+  )
+);
+
+CREATE POLICY "Staff can upload to employee_docs for users"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'employee_docs' AND (
+    public.has_role(auth.uid(), 'hr_manager'::app_role) OR
+    public.manages_employee_folder(auth.uid(), (storage.foldername(name))[1])
+  )
+);
+
+CREATE POLICY "Staff can delete from employee_docs"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'employee_docs' AND (
+    public.has_role(auth.uid(), 'hr_manager'::app_role) OR
+    public.manages_employee_folder(auth.uid(), (storage.foldername(name))[1])
+  )
+);
+
+-- Department signup forms, revisions and submissions
+CREATE POLICY "HR managers can manage department signup forms"
+  ON public.department_signup_forms FOR ALL
+  USING (public.has_role(auth.uid(), 'hr_manager'::app_role));
+
+CREATE POLICY "Department managers can manage their department's signup form"
+  ON public.department_signup_forms FOR ALL
+  USING (public.manages_department(auth.uid(), department_id));
+
+CREATE POLICY "HR managers can manage form revisions"
+  ON public.department_signup_form_revisions FOR ALL
+  USING (public.has_role(auth.uid(), 'hr_manager'::app_role));
+
+CREATE POLICY "Auditors can view form revisions"
+  ON public.department_signup_form_revisions FOR SELECT
+  USING (public.has_role(auth.uid(), 'auditor'::app_role));
+
+CREATE POLICY "Department managers can manage their department's form revisions"
+  ON public.department_signup_form_revisions FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.department_signup_forms f
+      WHERE f.id = form_id AND public.manages_department(auth.uid(), f.department_id)
+    )
+  );
+
+CREATE POLICY "HR managers can manage form submissions"
+  ON public.department_signup_form_submissions FOR ALL
+  USING (public.has_role(auth.uid(), 'hr_manager'::app_role));
+
+CREATE POLICY "Auditors can view form submissions"
+  ON public.department_signup_form_submissions FOR SELECT
+  USING (public.has_role(auth.uid(), 'auditor'::app_role));
+
+CREATE POLICY "Department managers can review their department's submissions"
+  ON public.department_signup_form_submissions FOR ALL
+  USING (public.manages_employee(auth.uid(), user_id));
+
+-- Document templates
+CREATE POLICY "HR managers can manage department document templates"
+  ON public.department_document_templates FOR ALL
+  USING (public.has_role(auth.uid(), 'hr_manager'::app_role));
+
+CREATE POLICY "HR managers can manage document template versions"
+  ON public.department_document_template_versions FOR ALL
+  USING (public.has_role(auth.uid(), 'hr_manager'::app_role));
+
+-- Training
+CREATE POLICY "HR managers can manage training sessions"
+  ON public.training_sessions FOR ALL
+  USING (public.has_role(auth.uid(), 'hr_manager'::app_role));
+
+CREATE POLICY "Auditors can view training sessions"
+  ON public.training_sessions FOR SELECT
+  USING (public.has_role(auth.uid(), 'auditor'::app_role));
+
+CREATE POLICY "Department managers can view training sessions"
+  ON public.training_sessions FOR SELECT
+  USING (public.has_role(auth.uid(), 'department_manager'::app_role));
+
+CREATE POLICY "Department managers can manage their department's training sessions"
+  ON public.training_sessions FOR ALL
+  USING (public.manages_department(auth.uid(), department_id));
+
+CREATE POLICY "HR managers can manage training assignments"
+  ON public.training_assignments FOR ALL
+  USING (public.has_role(auth.uid(), 'hr_manager'::app_role));
+
+CREATE POLICY "Auditors can view training assignments"
+  ON public.training_assignments FOR SELECT
+  USING (public.has_role(auth.uid(), 'auditor'::app_role));
+
+CREATE POLICY "Department managers can manage their department's training assignments"
+  ON public.training_assignments FOR ALL
+  USING (public.manages_employee(auth.uid(), user_id));
+
+CREATE POLICY "HR managers and auditors can view all training progress"
+  ON public.training_progress FOR SELECT
+  USING (public.has_any_role(auth.uid(), ARRAY['hr_manager', 'auditor']::app_role[]));
+
+CREATE POLICY "Department managers can view their department's training progress"
+  ON public.training_progress FOR SELECT
+  USING (public.manages_employee(auth.uid(), user_id));
+
+-- Notifications sent by reviewers and managers
+CREATE POLICY "HR managers can send notifications"
+  ON public.notifications FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'hr_manager'::app_role));
+
+CREATE POLICY "Department managers can notify their department"
+  ON public.notifications FOR INSERT
+  WITH CHECK (public.manages_employee(auth.uid(), user_id));
+
+-- Onboarding drafts
+CREATE POLICY "HR managers and auditors can view onboarding drafts"
+  ON public.onboarding_drafts FOR SELECT
+  USING (public.has_any_role(auth.uid(), ARRAY['hr_manager', 'auditor']::app_role[]));
+
+-- Publishing is open to HR managers and the form's department manager
+CREATE OR REPLACE FUNCTION public.publish_department_signup_form_revision(_revision_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _revision public.department_signup_form_revisions%ROWTYPE;
+  _department_id UUID;
+BEGIN
+  SELECT * INTO _revision
+  FROM public.department_signup_form_revisions
+  WHERE id = _revision_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Form revision not found';
+  END IF;
+
+  SELECT department_id INTO _department_id
+  FROM public.department_signup_forms
+  WHERE id = _revision.form_id;
+
+  IF NOT (
+    public.has_any_role(auth.uid(), ARRAY['admin', 'hr_manager']::app_role[]) OR
+    public.manages_department(auth.uid(), _department_id)
+  ) THEN
+    RAISE EXCEPTION 'You do not have permission to publish this form';
+  END IF;
+
+  IF _revision.status <> 'draft' THEN
+    RAISE EXCEPTION 'Only draft revisions can be published';
+  END IF;
+
+  UPDATE public.department_signup_form_revisions
+  SET status = 'archived'
+  WHERE form_id = _revision.form_id AND status = 'published';
+
+  UPDATE public.department_signup_form_revisions
+  SET status = 'published', published_at = now(), published_by = auth.uid()
+  WHERE id = _revision_id;
+
+  UPDATE public.department_signup_forms
+  SET published_revision_id = _revision_id,
+      form_name = _revision.form_name,
+      form_description = _revision.form_description,
+      form_fields = _revision.form_fields
+  WHERE id = _revision.form_id;
+
+  RETURN _revision_id;
+END;
+$$;
+
+-- HR managers and department managers review documents as well, though not
+-- their own
+CREATE OR REPLACE FUNCTION public.protect_document_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.replaces_document_id IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.replaces_document_id IS DISTINCT FROM OLD.replaces_document_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.documents
+      WHERE id = NEW.replaces_document_id AND user_id = NEW.user_id
+    )
+  THEN
+    RAISE EXCEPTION 'A document can only replace another document of the same employee';
+  END IF;
+
+  -- Server-side jobs run without a signed-in user
+  IF auth.uid() IS NULL
+    OR public.has_role(auth.uid(), 'admin'::app_role)
+    OR (
+      NEW.user_id <> auth.uid()
+      AND (
+        public.has_role(auth.uid(), 'hr_manager'::app_role)
+        OR public.manages_employee(auth.uid(), NEW.user_id)
+      )
+    )
+  THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.status := 'pending';
+    NEW.reviewed_by := NULL;
+    NEW.reviewed_at := NULL;
+    NEW.review_notes := NULL;
+  ELSIF (NEW.status, NEW.reviewed_by, NEW.reviewed_at, NEW.review_notes)
+    IS DISTINCT FROM (OLD.status, OLD.reviewed_by, OLD.reviewed_at, OLD.review_notes)
+  THEN
+    RAISE EXCEPTION 'Only reviewers can change the review status of a document';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
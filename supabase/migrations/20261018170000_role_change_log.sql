@@ -0,0 +1,113 @@
+-- Role management: every grant and revoke on user_roles is logged with the
+-- acting user, and the last remaining admin role can never be removed.
+
+-- user_id and changed_by deliberately have no foreign keys so entries outlive
+-- the accounts they describe
+CREATE TABLE public.role_change_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  role app_role NOT NULL,
+  department_id UUID REFERENCES public.departments(id) ON DELETE SET NULL,
+  action TEXT NOT NULL CHECK (action IN ('granted', 'revoked')),
+  changed_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX role_change_log_created_at_idx ON public.role_change_log (created_at DESC);
+
+ALTER TABLE public.role_change_log ENABLE ROW LEVEL SECURITY;
+
+-- Entries are only ever written by the trigger below
+CREATE POLICY "Admins, HR managers and auditors can view role changes"
+  ON public.role_change_log FOR SELECT
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'hr_manager', 'auditor']::app_role[]));
+
+CREATE OR REPLACE FUNCTION public.log_role_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    INSERT INTO public.role_change_log (user_id, role, department_id, action, changed_by)
+    VALUES (OLD.user_id, OLD.role, OLD.department_id, 'revoked', auth.uid());
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    INSERT INTO public.role_change_log (user_id, role, department_id, action, changed_by)
+    VALUES (NEW.user_id, NEW.role, NEW.department_id, 'granted', auth.uid());
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER log_role_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.user_roles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_role_change();
+
+CREATE OR REPLACE FUNCTION public.prevent_last_admin_removal()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.role = 'admin' AND (TG_OP = 'DELETE' OR NEW.role <> 'admin') THEN
+    -- Serialise admin removals, so two revoked at once can't each count the
+    -- other as the admin that remains
+    PERFORM pg_advisory_xact_lock(hashtext('public.prevent_last_admin_removal'));
+
+    IF NOT EXISTS (
+      SELECT 1 FROM public.user_roles
+      WHERE role = 'admin' AND id <> OLD.id
+    ) THEN
+      RAISE EXCEPTION 'Cannot remove the last admin';
+    END IF;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_last_admin_removal
+  BEFORE UPDATE OR DELETE ON public.user_roles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_last_admin_removal();
+
+-- Keep an existing admin role in place so re-running setup for the only
+-- admin does not trip the guard
+CREATE OR REPLACE FUNCTION public.setup_admin_user(user_email TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  admin_user_id UUID;
+BEGIN
+  SELECT id INTO admin_user_id
+  FROM auth.users
+  WHERE email = user_email;
+
+  IF admin_user_id IS NULL THEN
+    RAISE EXCEPTION 'User with email % not found', user_email;
+  END IF;
+
+  DELETE FROM public.user_roles WHERE user_id = admin_user_id AND role <> 'admin';
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (admin_user_id, 'admin')
+  ON CONFLICT DO NOTHING;
+
+  UPDATE public.profiles
+  SET full_name = 'Admin User'
+  WHERE id = admin_user_id;
+END;
+$$;
+
+COMMENT ON TABLE public.role_change_log IS 'Audit trail of roles granted and revoked, with the user who made the change';
@@ -0,0 +1,228 @@
+-- Onboarding status lifecycle: profiles.onboarding_status becomes an enum,
+-- only the transitions listed in onboarding_status_transitions are allowed,
+-- and every change is recorded in onboarding_status_history.
+
+CREATE TYPE public.onboarding_status AS ENUM (
+  'invited',
+  'profile_started',
+  'documents_uploaded',
+  'under_review',
+  'approved',
+  'training_in_progress',
+  'completed',
+  'blocked'
+);
+
+-- Map the old free-text values onto the lifecycle
+ALTER TABLE public.profiles DROP CONSTRAINT IF EXISTS profiles_onboarding_status_check;
+ALTER TABLE public.profiles ALTER COLUMN onboarding_status DROP DEFAULT;
+
+ALTER TABLE public.profiles
+ALTER COLUMN onboarding_status TYPE public.onboarding_status
+USING (
+  CASE onboarding_status
+    WHEN 'documents_uploaded' THEN 'documents_uploaded'
+    WHEN 'verified' THEN 'approved'
+    WHEN 'rejected' THEN 'blocked'
+    ELSE 'profile_started'
+  END
+)::public.onboarding_status;
+
+ALTER TABLE public.profiles
+ALTER COLUMN onboarding_status SET DEFAULT 'profile_started',
+ALTER COLUMN onboarding_status SET NOT NULL;
+
+-- Allowed transitions; employee_allowed marks the ones employees make themselves
+CREATE TABLE public.onboarding_status_transitions (
+  from_status public.onboarding_status NOT NULL,
+  to_status public.onboarding_status NOT NULL,
+  employee_allowed BOOLEAN NOT NULL DEFAULT false,
+  PRIMARY KEY (from_status, to_status)
+);
+
+INSERT INTO public.onboarding_status_transitions (from_status, to_status, employee_allowed) VALUES
+  ('invited', 'profile_started', true),
+  ('invited', 'documents_uploaded', true),
+  ('profile_started', 'documents_uploaded', true),
+  ('documents_uploaded', 'under_review', false),
+  ('under_review', 'approved', false),
+  ('under_review', 'documents_uploaded', false),
+  ('approved', 'training_in_progress', false),
+  ('approved', 'completed', false),
+  ('training_in_progress', 'completed', false),
+  ('invited', 'blocked', false),
+  ('profile_started', 'blocked', false),
+  ('documents_uploaded', 'blocked', false),
+  ('under_review', 'blocked', false),
+  ('approved', 'blocked', false),
+  ('training_in_progress', 'blocked', false),
+  ('blocked', 'profile_started', false),
+  ('blocked', 'documents_uploaded', false),
+  ('blocked', 'under_review', false),
+  ('blocked', 'approved', false),
+  ('blocked', 'training_in_progress', false);
+
+ALTER TABLE public.onboarding_status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view onboarding status transitions"
+  ON public.onboarding_status_transitions FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE TABLE public.onboarding_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  from_status public.onboarding_status,
+  to_status public.onboarding_status NOT NULL,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX idx_onboarding_status_history_user_id ON public.onboarding_status_history(user_id, created_at DESC);
+
+ALTER TABLE public.onboarding_status_history ENABLE ROW LEVEL SECURITY;
+
+-- Entries are only ever written by the trigger below
+CREATE POLICY "Users can view their own onboarding status history"
+  ON public.onboarding_status_history FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Staff can view all onboarding status history"
+  ON public.onboarding_status_history FOR SELECT
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'hr_manager', 'auditor']::app_role[]));
+
+CREATE POLICY "Department managers can view their department's onboarding status history"
+  ON public.onboarding_status_history FOR SELECT
+  USING (public.manages_employee(auth.uid(), user_id));
+
+-- Reject transitions that aren't in the table, and ones an employee tries to
+-- make on their own profile that are reserved for reviewers. Staff can't
+-- approve their own onboarding either.
+CREATE OR REPLACE FUNCTION public.enforce_onboarding_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _employee_allowed BOOLEAN;
+BEGIN
+  IF NEW.onboarding_status IS NOT DISTINCT FROM OLD.onboarding_status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT employee_allowed INTO _employee_allowed
+  FROM public.onboarding_status_transitions
+  WHERE from_status = OLD.onboarding_status AND to_status = NEW.onboarding_status;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Onboarding status cannot change from % to %', OLD.onboarding_status, NEW.onboarding_status;
+  END IF;
+
+  -- auth.uid() is NULL for changes made by the database itself
+  IF auth.uid() IS NOT NULL
+    AND NOT _employee_allowed
+    AND NOT (
+      (
+        public.has_any_role(auth.uid(), ARRAY['admin', 'hr_manager']::app_role[])
+        OR public.manages_employee(auth.uid(), NEW.id)
+      )
+      AND NEW.id <> auth.uid()
+    )
+  THEN
+    RAISE EXCEPTION 'You do not have permission to move onboarding to %', NEW.onboarding_status;
+  END IF;
+
+  INSERT INTO public.onboarding_status_history (user_id, from_status, to_status, changed_by)
+  VALUES (NEW.id, OLD.onboarding_status, NEW.onboarding_status, auth.uid());
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_onboarding_status_transition
+  BEFORE UPDATE OF onboarding_status ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_onboarding_status_transition();
+
+-- Submitting onboarding moves it on by status rather than by department
+CREATE OR REPLACE FUNCTION public.submit_onboarding(
+  _department_id UUID,
+  _submission_data JSONB,
+  _documents JSONB DEFAULT '[]'::jsonb,
+  _form_id UUID DEFAULT NULL,
+  _revision_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _live_form_id UUID;
+  _fields JSONB;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT id INTO _live_form_id
+  FROM public.department_signup_forms
+  WHERE department_id = _department_id AND published_revision_id IS NOT NULL;
+
+  IF _live_form_id IS DISTINCT FROM _form_id THEN
+    RAISE EXCEPTION 'Answers must be submitted against the department''s signup form';
+  END IF;
+
+  IF _form_id IS NOT NULL THEN
+    SELECT r.form_fields INTO _fields
+    FROM public.department_signup_form_revisions r
+    JOIN public.department_signup_forms f ON f.id = r.form_id
+    WHERE r.form_id = _form_id
+      AND r.id = COALESCE(_revision_id, f.published_revision_id)
+      AND r.status <> 'draft';
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Submissions must reference a published revision of the form';
+    END IF;
+
+    PERFORM public.validate_form_answers(_fields, _submission_data);
+  END IF;
+
+  -- Files already filed by an earlier submission aren't filed again
+  INSERT INTO public.documents (
+    user_id, department_id, template_id, template_version, title,
+    file_name, file_url, file_type, uploaded_by_admin
+  )
+  SELECT _user_id, _department_id, d.template_id, d.template_version, d.title,
+    d.file_name, d.file_url, d.file_type, false
+  FROM jsonb_to_recordset(_documents) AS d(
+    template_id UUID, template_version INTEGER, title TEXT,
+    file_name TEXT, file_url TEXT, file_type TEXT
+  )
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.documents existing
+    WHERE existing.user_id = _user_id AND existing.file_url = d.file_url
+  );
+
+  -- Version and status are assigned by the submission trigger
+  IF _form_id IS NOT NULL THEN
+    INSERT INTO public.department_signup_form_submissions (form_id, revision_id, user_id, submission_data)
+    VALUES (_form_id, _revision_id, _user_id, _submission_data);
+  END IF;
+
+  UPDATE public.profiles
+  SET department_id = _department_id,
+      department_specific_data = _submission_data,
+      onboarding_status = CASE
+        -- Statuses from which the employee's own submission moves them on
+        WHEN onboarding_status IN ('invited', 'profile_started') THEN 'documents_uploaded'
+        ELSE onboarding_status
+      END
+  WHERE id = _user_id;
+END;
+$$;
+
+COMMENT ON TABLE public.onboarding_status_transitions IS 'Onboarding status changes the database allows';
+COMMENT ON TABLE public.onboarding_status_history IS 'Every onboarding status change, with the user who made it';
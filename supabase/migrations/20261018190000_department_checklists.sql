@@ -0,0 +1,91 @@
+-- Per-department onboarding checklists. Each item is a form to fill in, a
+-- template to return, a training session to complete or a manual task a
+-- manager signs off, due a number of days after the employee's join date.
+
+ALTER TABLE public.profiles
+ADD COLUMN join_date DATE NOT NULL DEFAULT CURRENT_DATE;
+
+UPDATE public.profiles SET join_date = created_at::date WHERE created_at IS NOT NULL;
+
+COMMENT ON COLUMN public.profiles.join_date IS 'Day the employee joined; checklist due dates count from here';
+
+CREATE TYPE public.checklist_task_type AS ENUM (
+  'fill_form',
+  'upload_template',
+  'complete_training',
+  'manual'
+);
+
+CREATE TABLE public.department_checklist_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  department_id UUID NOT NULL REFERENCES public.departments(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT,
+  task_type public.checklist_task_type NOT NULL,
+  template_id UUID REFERENCES public.department_document_templates(id) ON DELETE CASCADE,
+  training_session_id UUID REFERENCES public.training_sessions(id) ON DELETE CASCADE,
+  due_offset_days INTEGER NOT NULL DEFAULT 0,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CHECK ((task_type = 'upload_template') = (template_id IS NOT NULL)),
+  CHECK ((task_type = 'complete_training') = (training_session_id IS NOT NULL))
+);
+
+CREATE INDEX idx_department_checklist_items_department_id ON public.department_checklist_items(department_id, position);
+
+CREATE TRIGGER update_department_checklist_items_updated_at
+  BEFORE UPDATE ON public.department_checklist_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at();
+
+ALTER TABLE public.department_checklist_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view department checklist items"
+  ON public.department_checklist_items FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins and HR managers can manage department checklist items"
+  ON public.department_checklist_items FOR ALL
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'hr_manager']::app_role[]));
+
+CREATE POLICY "Department managers can manage their department's checklist items"
+  ON public.department_checklist_items FOR ALL
+  USING (public.manages_department(auth.uid(), department_id));
+
+-- Manual tasks are complete once a manager signs them off
+CREATE TABLE public.checklist_item_signoffs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  item_id UUID NOT NULL REFERENCES public.department_checklist_items(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  signed_off_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE(item_id, user_id)
+);
+
+CREATE INDEX idx_checklist_item_signoffs_user_id ON public.checklist_item_signoffs(user_id);
+
+ALTER TABLE public.checklist_item_signoffs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own checklist sign-offs"
+  ON public.checklist_item_signoffs FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Auditors can view checklist sign-offs"
+  ON public.checklist_item_signoffs FOR SELECT
+  USING (public.has_role(auth.uid(), 'auditor'::app_role));
+
+CREATE POLICY "Admins and HR managers can manage checklist sign-offs"
+  ON public.checklist_item_signoffs FOR ALL
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'hr_manager']::app_role[]));
+
+CREATE POLICY "Department managers can sign off their department's checklists"
+  ON public.checklist_item_signoffs FOR ALL
+  USING (public.manages_employee(auth.uid(), user_id));
+
+COMMENT ON TABLE public.department_checklist_items IS 'Onboarding tasks every employee of a department has to complete';
+COMMENT ON COLUMN public.department_checklist_items.due_offset_days IS 'Days after the employee''s join date the task is due';
+COMMENT ON TABLE public.checklist_item_signoffs IS 'Manager sign-off of a manual checklist task for one employee';
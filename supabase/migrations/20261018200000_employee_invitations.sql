@@ -0,0 +1,207 @@
+-- Employee invitations: staff invite a hire by email with their department,
+-- role and start date already decided. The invite carries a single-use token
+-- that expires, and open self-signup can be switched off in app_settings.
+
+CREATE TABLE public.app_settings (
+  key TEXT PRIMARY KEY,
+  value JSONB NOT NULL,
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+INSERT INTO public.app_settings (key, value) VALUES ('open_signup', 'true'::jsonb);
+
+ALTER TABLE public.app_settings ENABLE ROW LEVEL SECURITY;
+
+-- The sign-in page reads settings before anyone is signed in
+CREATE POLICY "Anyone can view app settings"
+  ON public.app_settings FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage app settings"
+  ON public.app_settings FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_app_settings_updated_at
+  BEFORE UPDATE ON public.app_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at();
+
+CREATE TABLE public.employee_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email TEXT NOT NULL,
+  full_name TEXT NOT NULL,
+  department_id UUID NOT NULL REFERENCES public.departments(id) ON DELETE CASCADE,
+  role app_role NOT NULL DEFAULT 'employee',
+  join_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT (now() + INTERVAL '7 days'),
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  accepted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX idx_employee_invitations_email ON public.employee_invitations(lower(email));
+
+ALTER TABLE public.employee_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage invitations"
+  ON public.employee_invitations FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+-- Only admins hand out roles, so everyone else invites plain employees
+CREATE POLICY "HR managers can manage employee invitations"
+  ON public.employee_invitations FOR ALL
+  USING (public.has_role(auth.uid(), 'hr_manager'::app_role))
+  WITH CHECK (public.has_role(auth.uid(), 'hr_manager'::app_role) AND role = 'employee');
+
+CREATE POLICY "Auditors can view invitations"
+  ON public.employee_invitations FOR SELECT
+  USING (public.has_role(auth.uid(), 'auditor'::app_role));
+
+CREATE POLICY "Department managers can manage their department's invitations"
+  ON public.employee_invitations FOR ALL
+  USING (public.manages_department(auth.uid(), department_id))
+  WITH CHECK (public.manages_department(auth.uid(), department_id) AND role = 'employee');
+
+-- Lets onboarding keep the department the invitation assigned
+CREATE POLICY "Users can view the invitation they accepted"
+  ON public.employee_invitations FOR SELECT
+  USING (accepted_by = auth.uid());
+
+-- What the signup page may show for a token, without exposing the table
+CREATE OR REPLACE FUNCTION public.get_invitation(_token TEXT)
+RETURNS TABLE (email TEXT, full_name TEXT, department_name TEXT, join_date DATE)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT i.email, i.full_name, d.name, i.join_date
+  FROM public.employee_invitations i
+  JOIN public.departments d ON d.id = i.department_id
+  WHERE i.token = _token
+    AND i.accepted_at IS NULL
+    AND i.revoked_at IS NULL
+    AND i.expires_at > now()
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_invitation(TEXT) TO anon, authenticated;
+
+-- New accounts either redeem an invitation or, while open signup is on, join
+-- without a department. Signup stays open until the first admin exists so
+-- the initial account can still be created.
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _token TEXT := NEW.raw_user_meta_data->>'invitation_token';
+  _invitation public.employee_invitations%ROWTYPE;
+BEGIN
+  IF _token IS NOT NULL THEN
+    SELECT * INTO _invitation
+    FROM public.employee_invitations
+    WHERE token = _token
+      AND accepted_at IS NULL
+      AND revoked_at IS NULL
+      AND expires_at > now()
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'This invitation is invalid or has expired';
+    END IF;
+
+    IF lower(_invitation.email) <> lower(NEW.email) THEN
+      RAISE EXCEPTION 'This invitation was sent to a different email address';
+    END IF;
+
+    INSERT INTO public.profiles (id, full_name, email, phone_number, department_id, join_date, onboarding_status)
+    VALUES (
+      NEW.id,
+      COALESCE(NULLIF(NEW.raw_user_meta_data->>'full_name', ''), _invitation.full_name),
+      NEW.email,
+      NEW.raw_user_meta_data->>'phone_number',
+      _invitation.department_id,
+      _invitation.join_date,
+      'invited'
+    );
+
+    INSERT INTO public.user_roles (user_id, role, department_id)
+    VALUES (
+      NEW.id,
+      _invitation.role,
+      CASE WHEN _invitation.role = 'department_manager' THEN _invitation.department_id END
+    );
+
+    UPDATE public.employee_invitations
+    SET accepted_at = now(), accepted_by = NEW.id
+    WHERE id = _invitation.id;
+
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.user_roles WHERE role = 'admin')
+    AND NOT COALESCE((SELECT value = 'true'::jsonb FROM public.app_settings WHERE key = 'open_signup'), true)
+  THEN
+    RAISE EXCEPTION 'Sign up is by invitation only';
+  END IF;
+
+  INSERT INTO public.profiles (
+    id,
+    full_name,
+    email,
+    phone_number,
+    department_id,
+    department_specific_data
+  )
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data->>'full_name', ''),
+    NEW.email,
+    NEW.raw_user_meta_data->>'phone_number',
+    (NEW.raw_user_meta_data->>'department_id')::uuid,
+    COALESCE((NEW.raw_user_meta_data->>'department_specific_data')::jsonb, '{}'::jsonb)
+  );
+
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (NEW.id, 'employee');
+
+  RETURN NEW;
+END;
+$$;
+
+-- Invited hires keep the department their invitation assigned; only HR and
+-- admins can move them, not the employee through their own profile
+CREATE OR REPLACE FUNCTION public.enforce_invited_department()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.department_id IS DISTINCT FROM OLD.department_id
+    AND auth.uid() = OLD.id
+    AND NOT public.has_any_role(auth.uid(), ARRAY['admin', 'hr_manager']::app_role[])
+    AND EXISTS (SELECT 1 FROM public.employee_invitations WHERE accepted_by = OLD.id)
+  THEN
+    RAISE EXCEPTION 'Your department was assigned by your invitation and cannot be changed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_invited_department
+  BEFORE UPDATE OF department_id ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_invited_department();
+
+COMMENT ON TABLE public.app_settings IS 'Application-wide configuration; open_signup controls whether accounts can be created without an invitation';
+COMMENT ON TABLE public.employee_invitations IS 'Invitations to join with a pre-assigned department, role and start date';
+COMMENT ON COLUMN public.employee_invitations.token IS 'Single-use secret included in the invitation link';
@@ -0,0 +1,25 @@
+-- Bulk CSV imports carry a phone number; keep it on the invitation so the
+-- signup page can prefill it.
+
+ALTER TABLE public.employee_invitations ADD COLUMN phone_number TEXT;
+
+-- The return type changes, so the function has to be recreated
+DROP FUNCTION public.get_invitation(TEXT);
+
+CREATE FUNCTION public.get_invitation(_token TEXT)
+RETURNS TABLE (email TEXT, full_name TEXT, phone_number TEXT, department_name TEXT, join_date DATE)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT i.email, i.full_name, i.phone_number, d.name, i.join_date
+  FROM public.employee_invitations i
+  JOIN public.departments d ON d.id = i.department_id
+  WHERE i.token = _token
+    AND i.accepted_at IS NULL
+    AND i.revoked_at IS NULL
+    AND i.expires_at > now()
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_invitation(TEXT) TO anon, authenticated;
@@ -0,0 +1,104 @@
+-- Record what employees actually do in the in-app training viewer: how often
+-- a session is opened, how long it stays open and when it is completed.
+
+ALTER TABLE public.training_progress
+  ADD COLUMN time_spent_seconds INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN open_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN first_opened_at TIMESTAMP WITH TIME ZONE;
+
+-- Progress only moves forward and completion is sticky. Time added can't be
+-- more than has passed since the last call, give or take a few seconds of
+-- network delay, and calls that add time are rejected when they come faster
+-- than the viewer's one-second clock.
+CREATE OR REPLACE FUNCTION public.record_training_activity(
+  _session_id UUID,
+  _seconds INTEGER DEFAULT 0,
+  _progress INTEGER DEFAULT 0,
+  _completed BOOLEAN DEFAULT false,
+  _opened BOOLEAN DEFAULT false
+)
+RETURNS public.training_progress
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _row public.training_progress%ROWTYPE;
+  _last_accessed_at TIMESTAMP WITH TIME ZONE;
+  _clamped_seconds INTEGER := GREATEST(COALESCE(_seconds, 0), 0);
+  _clamped_progress INTEGER := CASE WHEN _completed THEN 100 ELSE LEAST(GREATEST(COALESCE(_progress, 0), 0), 100) END;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.training_assignments
+    WHERE user_id = auth.uid() AND training_session_id = _session_id
+  ) THEN
+    RAISE EXCEPTION 'This training session is not assigned to you';
+  END IF;
+
+  SELECT last_accessed_at INTO _last_accessed_at
+  FROM public.training_progress
+  WHERE user_id = auth.uid() AND training_session_id = _session_id
+  FOR UPDATE;
+
+  IF _clamped_seconds > 0 THEN
+    IF now() - _last_accessed_at < interval '1 second' THEN
+      RAISE EXCEPTION 'Training activity is being recorded too quickly';
+    END IF;
+    _clamped_seconds := LEAST(
+      _clamped_seconds,
+      COALESCE(ceil(extract(epoch FROM now() - _last_accessed_at))::integer, 0) + 5
+    );
+  END IF;
+
+  INSERT INTO public.training_progress (
+    user_id,
+    training_session_id,
+    progress_percentage,
+    completed,
+    completed_at,
+    last_accessed_at,
+    time_spent_seconds,
+    open_count,
+    first_opened_at
+  )
+  VALUES (
+    auth.uid(),
+    _session_id,
+    _clamped_progress,
+    _completed,
+    CASE WHEN _completed THEN now() END,
+    now(),
+    _clamped_seconds,
+    CASE WHEN _opened THEN 1 ELSE 0 END,
+    CASE WHEN _opened THEN now() END
+  )
+  ON CONFLICT (user_id, training_session_id) DO UPDATE SET
+    progress_percentage = CASE
+      WHEN training_progress.completed OR EXCLUDED.completed THEN 100
+      ELSE GREATEST(COALESCE(training_progress.progress_percentage, 0), EXCLUDED.progress_percentage)
+    END,
+    completed = COALESCE(training_progress.completed, false) OR EXCLUDED.completed,
+    completed_at = COALESCE(training_progress.completed_at, EXCLUDED.completed_at),
+    last_accessed_at = now(),
+    time_spent_seconds = training_progress.time_spent_seconds + EXCLUDED.time_spent_seconds,
+    open_count = training_progress.open_count + EXCLUDED.open_count,
+    first_opened_at = COALESCE(training_progress.first_opened_at, EXCLUDED.first_opened_at)
+  RETURNING * INTO _row;
+
+  RETURN _row;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_training_activity(UUID, INTEGER, INTEGER, BOOLEAN, BOOLEAN) TO authenticated;
+
+-- Progress is only written through the function above, so employees can't set
+-- their own completion, time spent or progress directly
+DROP POLICY IF EXISTS "Users can insert their own training progress" ON public.training_progress;
+DROP POLICY IF EXISTS "Users can update their own training progress" ON public.training_progress;
+
+COMMENT ON COLUMN public.training_progress.time_spent_seconds IS 'Time the session was open and visible in the training viewer';
+COMMENT ON COLUMN public.training_progress.open_count IS 'Number of times the session was opened in the training viewer';
@@ -0,0 +1,234 @@
+-- Quizzes attached to training sessions. Questions live in a JSONB array like
+-- signup form fields; each one is
+--   { id, type: multiple_choice | true_false | short_answer, prompt,
+--     options?: text[], correct_answers: text[] }
+-- Employees never read this table directly: they fetch questions without the
+-- answers and submit attempts through functions that grade on the server.
+
+CREATE TABLE public.training_quizzes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  training_session_id UUID NOT NULL UNIQUE REFERENCES public.training_sessions(id) ON DELETE CASCADE,
+  passing_score INTEGER NOT NULL DEFAULT 70 CHECK (passing_score BETWEEN 0 AND 100),
+  max_attempts INTEGER CHECK (max_attempts IS NULL OR max_attempts > 0),
+  questions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE TABLE public.training_quiz_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  quiz_id UUID NOT NULL REFERENCES public.training_quizzes(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  attempt_number INTEGER NOT NULL,
+  answers JSONB NOT NULL DEFAULT '{}'::jsonb,
+  score INTEGER NOT NULL,
+  passed BOOLEAN NOT NULL,
+  submitted_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (quiz_id, user_id, attempt_number)
+);
+
+CREATE INDEX idx_training_quiz_attempts_user ON public.training_quiz_attempts(user_id, quiz_id);
+
+ALTER TABLE public.training_quizzes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.training_quiz_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and HR managers can manage training quizzes"
+  ON public.training_quizzes FOR ALL
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'hr_manager']::app_role[]));
+
+CREATE POLICY "Auditors and department managers can view training quizzes"
+  ON public.training_quizzes FOR SELECT
+  USING (public.has_any_role(auth.uid(), ARRAY['auditor', 'department_manager']::app_role[]));
+
+CREATE POLICY "Department managers can manage their department's training quizzes"
+  ON public.training_quizzes FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.training_sessions s
+      WHERE s.id = training_session_id
+        AND public.manages_department(auth.uid(), s.department_id)
+    )
+  );
+
+CREATE POLICY "Users can view their own quiz attempts"
+  ON public.training_quiz_attempts FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins, HR managers and auditors can view all quiz attempts"
+  ON public.training_quiz_attempts FOR SELECT
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'hr_manager', 'auditor']::app_role[]));
+
+CREATE POLICY "Department managers can view their department's quiz attempts"
+  ON public.training_quiz_attempts FOR SELECT
+  USING (public.manages_employee(auth.uid(), user_id));
+
+CREATE TRIGGER update_training_quizzes_updated_at
+  BEFORE UPDATE ON public.training_quizzes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at();
+
+-- The quiz as an assigned employee sees it: questions without answers, plus
+-- how many attempts they have used and whether they already passed
+CREATE OR REPLACE FUNCTION public.get_training_quiz(_session_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _quiz public.training_quizzes%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.training_assignments
+    WHERE user_id = auth.uid() AND training_session_id = _session_id
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO _quiz FROM public.training_quizzes WHERE training_session_id = _session_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'id', _quiz.id,
+    'passing_score', _quiz.passing_score,
+    'max_attempts', _quiz.max_attempts,
+    'questions', COALESCE((
+      SELECT jsonb_agg(q - 'correct_answers' ORDER BY ordinality)
+      FROM jsonb_array_elements(_quiz.questions) WITH ORDINALITY AS q
+    ), '[]'::jsonb),
+    'attempts_used', (
+      SELECT count(*) FROM public.training_quiz_attempts
+      WHERE quiz_id = _quiz.id AND user_id = auth.uid()
+    ),
+    'passed', EXISTS (
+      SELECT 1 FROM public.training_quiz_attempts
+      WHERE quiz_id = _quiz.id AND user_id = auth.uid() AND passed
+    )
+  );
+END;
+$$;
+
+-- Grade an attempt: answers match case-insensitively against any of the
+-- question's correct_answers. Passing also completes the session.
+CREATE OR REPLACE FUNCTION public.submit_quiz_attempt(_session_id UUID, _answers JSONB)
+RETURNS public.training_quiz_attempts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _quiz public.training_quizzes%ROWTYPE;
+  _attempt public.training_quiz_attempts%ROWTYPE;
+  _question JSONB;
+  _answer TEXT;
+  _attempts_used INTEGER;
+  _total INTEGER := 0;
+  _correct INTEGER := 0;
+  _score INTEGER;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.training_assignments
+    WHERE user_id = auth.uid() AND training_session_id = _session_id
+  ) THEN
+    RAISE EXCEPTION 'This training session is not assigned to you';
+  END IF;
+
+  SELECT * INTO _quiz FROM public.training_quizzes WHERE training_session_id = _session_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This training session has no quiz';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.training_quiz_attempts
+    WHERE quiz_id = _quiz.id AND user_id = auth.uid() AND passed
+  ) THEN
+    RAISE EXCEPTION 'You have already passed this quiz';
+  END IF;
+
+  SELECT count(*) INTO _attempts_used
+  FROM public.training_quiz_attempts
+  WHERE quiz_id = _quiz.id AND user_id = auth.uid();
+
+  IF _quiz.max_attempts IS NOT NULL AND _attempts_used >= _quiz.max_attempts THEN
+    RAISE EXCEPTION 'You have no quiz attempts left';
+  END IF;
+
+  FOR _question IN SELECT * FROM jsonb_array_elements(_quiz.questions) LOOP
+    _total := _total + 1;
+    _answer := lower(btrim(COALESCE(_answers->>(_question->>'id'), '')));
+
+    IF _answer <> '' AND EXISTS (
+      SELECT 1 FROM jsonb_array_elements_text(COALESCE(_question->'correct_answers', '[]'::jsonb)) AS correct
+      WHERE lower(btrim(correct)) = _answer
+    ) THEN
+      _correct := _correct + 1;
+    END IF;
+  END LOOP;
+
+  _score := CASE WHEN _total = 0 THEN 100 ELSE round(_correct * 100.0 / _total) END;
+
+  INSERT INTO public.training_quiz_attempts (quiz_id, user_id, attempt_number, answers, score, passed)
+  VALUES (_quiz.id, auth.uid(), _attempts_used + 1, COALESCE(_answers, '{}'::jsonb), _score, _score >= _quiz.passing_score)
+  RETURNING * INTO _attempt;
+
+  IF _attempt.passed THEN
+    INSERT INTO public.training_progress (user_id, training_session_id, progress_percentage, completed, completed_at, last_accessed_at)
+    VALUES (auth.uid(), _session_id, 100, true, now(), now())
+    ON CONFLICT (user_id, training_session_id) DO UPDATE SET
+      progress_percentage = 100,
+      completed = true,
+      completed_at = COALESCE(training_progress.completed_at, now()),
+      last_accessed_at = now();
+  END IF;
+
+  RETURN _attempt;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_training_quiz(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.submit_quiz_attempt(UUID, JSONB) TO authenticated;
+
+-- Mandatory sessions with a quiz can only be completed by passing it,
+-- whichever way the progress row is written
+CREATE OR REPLACE FUNCTION public.enforce_quiz_before_completion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(NEW.completed, false)
+    AND (TG_OP = 'INSERT' OR NOT COALESCE(OLD.completed, false))
+    AND EXISTS (
+      SELECT 1
+      FROM public.training_sessions s
+      JOIN public.training_quizzes q ON q.training_session_id = s.id
+      WHERE s.id = NEW.training_session_id AND s.is_mandatory
+    )
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.training_quiz_attempts a
+      JOIN public.training_quizzes q ON q.id = a.quiz_id
+      WHERE q.training_session_id = NEW.training_session_id
+        AND a.user_id = NEW.user_id
+        AND a.passed
+    )
+  THEN
+    RAISE EXCEPTION 'Pass the quiz to complete this training';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_quiz_before_completion
+  BEFORE INSERT OR UPDATE OF completed ON public.training_progress
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_quiz_before_completion();
+
+COMMENT ON TABLE public.training_quizzes IS 'Quiz attached to a training session; questions hold the correct answers and are hidden from employees';
+COMMENT ON TABLE public.training_quiz_attempts IS 'Graded quiz attempts; written only through submit_quiz_attempt';
@@ -0,0 +1,227 @@
+-- Training paths: an ordered series of training sessions for a department.
+-- A module unlocks once the sessions it lists as prerequisites are complete,
+-- and can be due a number of days after the employee's join date.
+
+CREATE TABLE public.training_paths (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  department_id UUID NOT NULL REFERENCES public.departments(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE TABLE public.training_path_modules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  path_id UUID NOT NULL REFERENCES public.training_paths(id) ON DELETE CASCADE,
+  training_session_id UUID NOT NULL REFERENCES public.training_sessions(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  prerequisite_session_ids UUID[] NOT NULL DEFAULT '{}',
+  due_offset_days INTEGER CHECK (due_offset_days IS NULL OR due_offset_days >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE(path_id, training_session_id)
+);
+
+CREATE INDEX idx_training_paths_department_id ON public.training_paths(department_id);
+CREATE INDEX idx_training_path_modules_path_id ON public.training_path_modules(path_id, position);
+
+CREATE TRIGGER update_training_paths_updated_at
+  BEFORE UPDATE ON public.training_paths
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at();
+
+ALTER TABLE public.training_paths ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.training_path_modules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view training paths"
+  ON public.training_paths FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins and HR managers can manage training paths"
+  ON public.training_paths FOR ALL
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'hr_manager']::app_role[]));
+
+CREATE POLICY "Department managers can manage their department's training paths"
+  ON public.training_paths FOR ALL
+  USING (public.manages_department(auth.uid(), department_id));
+
+CREATE POLICY "Authenticated users can view training path modules"
+  ON public.training_path_modules FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins and HR managers can manage training path modules"
+  ON public.training_path_modules FOR ALL
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'hr_manager']::app_role[]));
+
+CREATE POLICY "Department managers can manage their department's training path modules"
+  ON public.training_path_modules FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.training_paths p
+      WHERE p.id = path_id
+        AND public.manages_department(auth.uid(), p.department_id)
+    )
+  );
+
+-- A session can't wait on itself, directly or through the prerequisites of
+-- any path in the department
+CREATE OR REPLACE FUNCTION public.prevent_training_prerequisite_cycles()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _department_id UUID;
+BEGIN
+  IF NEW.training_session_id = ANY(NEW.prerequisite_session_ids) THEN
+    RAISE EXCEPTION 'A training module can''t be its own prerequisite';
+  END IF;
+
+  SELECT department_id INTO _department_id
+  FROM public.training_paths
+  WHERE id = NEW.path_id;
+
+  IF EXISTS (
+    WITH RECURSIVE prerequisite_edges AS (
+      SELECT m.training_session_id AS session_id, prerequisite.session_id AS prerequisite_id
+      FROM public.training_path_modules m
+      JOIN public.training_paths p ON p.id = m.path_id
+      CROSS JOIN LATERAL unnest(m.prerequisite_session_ids) AS prerequisite(session_id)
+      WHERE p.department_id = _department_id
+        AND m.id <> NEW.id
+    ),
+    reachable(session_id) AS (
+      SELECT unnest(NEW.prerequisite_session_ids)
+      UNION
+      SELECT e.prerequisite_id
+      FROM prerequisite_edges e
+      JOIN reachable r ON r.session_id = e.session_id
+    )
+    SELECT 1 FROM reachable WHERE session_id = NEW.training_session_id
+  ) THEN
+    RAISE EXCEPTION 'These prerequisites would make the training wait on itself';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_training_prerequisite_cycles
+  BEFORE INSERT OR UPDATE OF training_session_id, prerequisite_session_ids ON public.training_path_modules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_training_prerequisite_cycles();
+
+-- Everyone in the department follows its paths, so adding a module assigns
+-- the session to them, and joining a department assigns its path sessions.
+-- Removing a module leaves existing assignments and progress alone.
+CREATE OR REPLACE FUNCTION public.assign_training_path_module()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.training_assignments (user_id, training_session_id, assigned_by)
+  SELECT pr.id, NEW.training_session_id, auth.uid()
+  FROM public.profiles pr
+  JOIN public.training_paths p ON p.department_id = pr.department_id
+  WHERE p.id = NEW.path_id
+  ON CONFLICT (user_id, training_session_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_training_path_module
+  AFTER INSERT ON public.training_path_modules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_training_path_module();
+
+CREATE OR REPLACE FUNCTION public.assign_department_training_paths()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.department_id IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.department_id IS DISTINCT FROM OLD.department_id)
+  THEN
+    INSERT INTO public.training_assignments (user_id, training_session_id, assigned_by)
+    SELECT DISTINCT NEW.id, m.training_session_id, auth.uid()
+    FROM public.training_path_modules m
+    JOIN public.training_paths p ON p.id = m.path_id
+    WHERE p.department_id = NEW.department_id
+    ON CONFLICT (user_id, training_session_id) DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_department_training_paths
+  AFTER INSERT OR UPDATE OF department_id ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_department_training_paths();
+
+-- A session is locked for an employee while any path in their department
+-- lists a prerequisite they haven't completed
+CREATE OR REPLACE FUNCTION public.is_training_locked(_user_id UUID, _session_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.training_path_modules m
+    JOIN public.training_paths p ON p.id = m.path_id
+    JOIN public.profiles pr ON pr.department_id = p.department_id
+    CROSS JOIN LATERAL unnest(m.prerequisite_session_ids) AS prerequisite(session_id)
+    WHERE pr.id = _user_id
+      AND m.training_session_id = _session_id
+      AND NOT EXISTS (
+        SELECT 1 FROM public.training_progress tp
+        WHERE tp.user_id = _user_id
+          AND tp.training_session_id = prerequisite.session_id
+          AND tp.completed
+      )
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_training_prerequisites()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Updates are only checked when they complete the session
+  IF TG_OP = 'UPDATE' AND (NOT NEW.completed OR OLD.completed) THEN
+    RETURN NEW;
+  END IF;
+
+  IF public.is_training_locked(NEW.user_id, NEW.training_session_id) THEN
+    RAISE EXCEPTION 'Complete the earlier modules in this training path first';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Also fires for the upserts record_training_activity makes, so a locked
+-- session can't be opened or progressed, and for rows that already exist
+-- (such as auto-assigned ones) being completed
+CREATE TRIGGER enforce_training_prerequisites
+  BEFORE INSERT OR UPDATE OF completed ON public.training_progress
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_training_prerequisites();
+
+COMMENT ON TABLE public.training_paths IS 'Ordered series of training sessions every employee of a department follows';
+COMMENT ON COLUMN public.training_path_modules.prerequisite_session_ids IS 'Sessions that must be completed before this module unlocks';
+COMMENT ON COLUMN public.training_path_modules.due_offset_days IS 'Days after the employee''s join date the module is due; null for no deadline';
@@ -0,0 +1,32 @@
+-- New hires get their department's mandatory training, plus mandatory
+-- training meant for every department, as soon as their department is set.
+-- Sessions made mandatory later are rolled out with bulk assignment.
+
+CREATE OR REPLACE FUNCTION public.assign_mandatory_department_training()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.department_id IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.department_id IS DISTINCT FROM OLD.department_id)
+  THEN
+    INSERT INTO public.training_assignments (user_id, training_session_id, assigned_by)
+    SELECT NEW.id, s.id, auth.uid()
+    FROM public.training_sessions s
+    WHERE s.is_mandatory
+      AND (s.department_id = NEW.department_id OR s.department_id IS NULL)
+    ON CONFLICT (user_id, training_session_id) DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_mandatory_department_training
+  AFTER INSERT OR UPDATE OF department_id ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_mandatory_department_training();
+
+CREATE INDEX IF NOT EXISTS idx_training_assignments_session_id ON public.training_assignments(training_session_id);
@@ -0,0 +1,157 @@
+-- Training content uploaded by staff (PDFs, videos and slide decks) lives in
+-- a private bucket and is played inside the app's training viewer. Video
+-- sessions remember where the employee stopped watching.
+
+INSERT INTO storage.buckets (id, name, public) VALUES ('training_content', 'training_content', false);
+
+CREATE POLICY "Authenticated users can view training content"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (bucket_id = 'training_content');
+
+-- Files are kept under a folder named after the session's department, or
+-- "shared" for organisation-wide sessions
+CREATE OR REPLACE FUNCTION public.manages_department_folder(_user_id UUID, _folder TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles
+    WHERE user_id = _user_id
+      AND role = 'department_manager'
+      AND department_id::text = _folder
+  )
+$$;
+
+CREATE POLICY "Training managers can upload training content"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'training_content' AND (
+    public.has_any_role(auth.uid(), ARRAY['admin', 'hr_manager']::app_role[]) OR
+    public.manages_department_folder(auth.uid(), (storage.foldername(name))[1])
+  )
+);
+
+CREATE POLICY "Training managers can delete training content"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'training_content' AND (
+    public.has_any_role(auth.uid(), ARRAY['admin', 'hr_manager']::app_role[]) OR
+    public.manages_department_folder(auth.uid(), (storage.foldername(name))[1])
+  )
+);
+
+ALTER TABLE public.training_sessions
+  ADD COLUMN storage_path TEXT,
+  ADD COLUMN file_name TEXT;
+
+ALTER TABLE public.training_progress
+  ADD COLUMN playback_position_seconds INTEGER NOT NULL DEFAULT 0;
+
+-- Same as before, plus the video position to resume from. A null position
+-- leaves the saved one alone.
+DROP FUNCTION public.record_training_activity(UUID, INTEGER, INTEGER, BOOLEAN, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION public.record_training_activity(
+  _session_id UUID,
+  _seconds INTEGER DEFAULT 0,
+  _progress INTEGER DEFAULT 0,
+  _completed BOOLEAN DEFAULT false,
+  _opened BOOLEAN DEFAULT false,
+  _position INTEGER DEFAULT NULL
+)
+RETURNS public.training_progress
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _row public.training_progress%ROWTYPE;
+  _last_accessed_at TIMESTAMP WITH TIME ZONE;
+  _clamped_seconds INTEGER := GREATEST(COALESCE(_seconds, 0), 0);
+  _clamped_progress INTEGER := CASE WHEN _completed THEN 100 ELSE LEAST(GREATEST(COALESCE(_progress, 0), 0), 100) END;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.training_assignments
+    WHERE user_id = auth.uid() AND training_session_id = _session_id
+  ) THEN
+    RAISE EXCEPTION 'This training session is not assigned to you';
+  END IF;
+
+  SELECT last_accessed_at INTO _last_accessed_at
+  FROM public.training_progress
+  WHERE user_id = auth.uid() AND training_session_id = _session_id
+  FOR UPDATE;
+
+  IF _clamped_seconds > 0 THEN
+    IF now() - _last_accessed_at < interval '1 second' THEN
+      RAISE EXCEPTION 'Training activity is being recorded too quickly';
+    END IF;
+    _clamped_seconds := LEAST(
+      _clamped_seconds,
+      COALESCE(ceil(extract(epoch FROM now() - _last_accessed_at))::integer, 0) + 5
+    );
+  END IF;
+
+  INSERT INTO public.training_progress (
+    user_id,
+    training_session_id,
+    progress_percentage,
+    completed,
+    completed_at,
+    last_accessed_at,
+    time_spent_seconds,
+    open_count,
+    first_opened_at,
+    playback_position_seconds
+  )
+  VALUES (
+    auth.uid(),
+    _session_id,
+    _clamped_progress,
+    _completed,
+    CASE WHEN _completed THEN now() END,
+    now(),
+    _clamped_seconds,
+    CASE WHEN _opened THEN 1 ELSE 0 END,
+    CASE WHEN _opened THEN now() END,
+    GREATEST(COALESCE(_position, 0), 0)
+  )
+  ON CONFLICT (user_id, training_session_id) DO UPDATE SET
+    progress_percentage = CASE
+      WHEN training_progress.completed OR EXCLUDED.completed THEN 100
+      ELSE GREATEST(COALESCE(training_progress.progress_percentage, 0), EXCLUDED.progress_percentage)
+    END,
+    completed = COALESCE(training_progress.completed, false) OR EXCLUDED.completed,
+    completed_at = COALESCE(training_progress.completed_at, EXCLUDED.completed_at),
+    last_accessed_at = now(),
+    time_spent_seconds = training_progress.time_spent_seconds + EXCLUDED.time_spent_seconds,
+    open_count = training_progress.open_count + EXCLUDED.open_count,
+    first_opened_at = COALESCE(training_progress.first_opened_at, EXCLUDED.first_opened_at),
+    playback_position_seconds = CASE
+      WHEN _position IS NULL THEN training_progress.playback_position_seconds
+      ELSE EXCLUDED.playback_position_seconds
+    END
+  RETURNING * INTO _row;
+
+  RETURN _row;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_training_activity(UUID, INTEGER, INTEGER, BOOLEAN, BOOLEAN, INTEGER) TO authenticated;
+
+COMMENT ON COLUMN public.training_sessions.storage_path IS 'Uploaded file in the training_content bucket; resource_url is unused when set';
+COMMENT ON COLUMN public.training_progress.playback_position_seconds IS 'Where the employee stopped watching a video session';
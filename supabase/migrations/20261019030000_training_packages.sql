@@ -0,0 +1,82 @@
+-- SCORM 1.2 / 2004 and xAPI courses are uploaded as a zip to the
+-- training_content bucket (resource_type 'scorm') and unpacked in the
+-- browser, on a separate origin from the app. The course's runtime data is
+-- kept with the employee's progress so they can resume, and its score is
+-- recorded next to the completion.
+
+ALTER TABLE public.training_progress
+  ADD COLUMN package_data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN score INTEGER CHECK (score BETWEEN 0 AND 100);
+
+-- last_accessed_at is left to record_training_activity, which measures the
+-- time it adds against it
+CREATE OR REPLACE FUNCTION public.save_training_package_state(
+  _session_id UUID,
+  _data JSONB,
+  _score INTEGER DEFAULT NULL
+)
+RETURNS public.training_progress
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _row public.training_progress%ROWTYPE;
+  _clamped_score INTEGER := LEAST(GREATEST(_score, 0), 100);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.training_assignments
+    WHERE user_id = auth.uid() AND training_session_id = _session_id
+  ) THEN
+    RAISE EXCEPTION 'This training session is not assigned to you';
+  END IF;
+
+  INSERT INTO public.training_progress (user_id, training_session_id, package_data, score, last_accessed_at)
+  VALUES (auth.uid(), _session_id, COALESCE(_data, '{}'::jsonb), _clamped_score, now())
+  ON CONFLICT (user_id, training_session_id) DO UPDATE SET
+    package_data = EXCLUDED.package_data,
+    score = COALESCE(EXCLUDED.score, training_progress.score)
+  RETURNING * INTO _row;
+
+  RETURN _row;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.save_training_package_state(UUID, JSONB, INTEGER) TO authenticated;
+
+-- Packages run their own scripts for every learner, so only HR and admins can
+-- add one or swap its file. Other edits to a package session are left alone.
+CREATE OR REPLACE FUNCTION public.restrict_training_packages()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.resource_type = 'scorm'
+    AND (
+      TG_OP = 'INSERT'
+      OR OLD.resource_type IS DISTINCT FROM NEW.resource_type
+      OR OLD.storage_path IS DISTINCT FROM NEW.storage_path
+    )
+    AND auth.uid() IS NOT NULL
+    AND NOT public.has_any_role(auth.uid(), ARRAY['admin', 'hr_manager']::app_role[])
+  THEN
+    RAISE EXCEPTION 'Only HR managers and admins can add training packages';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER restrict_training_packages
+  BEFORE INSERT OR UPDATE ON public.training_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.restrict_training_packages();
+
+COMMENT ON COLUMN public.training_progress.package_data IS 'SCORM cmi values or xAPI state saved by a packaged course, used to resume it';
+COMMENT ON COLUMN public.training_progress.score IS 'Latest score (0-100) reported by a packaged course';
@@ -0,0 +1,184 @@
+-- Completing a mandatory training session issues a certificate with a
+-- verification ID anyone can check on the public /verify page. Completion is
+-- only written by the training functions, which check the assignment, quiz and
+-- prerequisites. The PDF is drawn in the browser and filed in the employee's
+-- documents for review; the certificate
+-- row keeps the name, title and date it was issued with so a later rename
+-- doesn't change what was certified.
+
+CREATE TABLE public.training_certificates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  verification_code TEXT NOT NULL UNIQUE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  training_session_id UUID NOT NULL REFERENCES public.training_sessions(id) ON DELETE CASCADE,
+  employee_name TEXT NOT NULL,
+  session_title TEXT NOT NULL,
+  completed_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  document_id UUID REFERENCES public.documents(id) ON DELETE SET NULL,
+  issued_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, training_session_id)
+);
+
+CREATE INDEX idx_training_certificates_user_id ON public.training_certificates(user_id);
+
+ALTER TABLE public.training_certificates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own certificates"
+  ON public.training_certificates FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "HR and auditors can view all certificates"
+  ON public.training_certificates FOR SELECT
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'hr_manager', 'auditor']::app_role[]));
+
+CREATE POLICY "Department managers can view their employees' certificates"
+  ON public.training_certificates FOR SELECT
+  USING (public.manages_employee(auth.uid(), user_id));
+
+-- Short enough to read out or type from a printed certificate
+CREATE OR REPLACE FUNCTION public.generate_certificate_code()
+RETURNS TEXT
+LANGUAGE SQL
+VOLATILE
+AS $$
+  SELECT regexp_replace(
+    upper(substr(replace(gen_random_uuid()::text, '-', ''), 1, 12)),
+    '(.{4})(.{4})(.{4})',
+    '\1-\2-\3'
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.issue_training_certificate()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.training_certificates (
+    verification_code,
+    user_id,
+    training_session_id,
+    employee_name,
+    session_title,
+    completed_at
+  )
+  SELECT
+    public.generate_certificate_code(),
+    NEW.user_id,
+    s.id,
+    COALESCE(NULLIF(p.full_name, ''), p.email),
+    s.title,
+    COALESCE(NEW.completed_at, now())
+  FROM public.training_sessions s
+  JOIN public.profiles p ON p.id = NEW.user_id
+  WHERE s.id = NEW.training_session_id
+    AND s.is_mandatory
+  ON CONFLICT (user_id, training_session_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER issue_training_certificate
+  AFTER INSERT OR UPDATE OF completed ON public.training_progress
+  FOR EACH ROW
+  WHEN (NEW.completed)
+  EXECUTE FUNCTION public.issue_training_certificate();
+
+-- Mandatory sessions completed before certificates existed
+INSERT INTO public.training_certificates (
+  verification_code,
+  user_id,
+  training_session_id,
+  employee_name,
+  session_title,
+  completed_at
+)
+SELECT
+  public.generate_certificate_code(),
+  tp.user_id,
+  s.id,
+  COALESCE(NULLIF(p.full_name, ''), p.email),
+  s.title,
+  COALESCE(tp.completed_at, tp.last_accessed_at, now())
+FROM public.training_progress tp
+JOIN public.training_sessions s ON s.id = tp.training_session_id
+JOIN public.profiles p ON p.id = tp.user_id
+WHERE tp.completed AND s.is_mandatory
+ON CONFLICT (user_id, training_session_id) DO NOTHING;
+
+-- Files the generated PDF, uploaded to the certificate's own path in the
+-- employee's employee_docs folder, as a document awaiting review and links it
+-- to the certificate. The PDF is drawn by the client, so it isn't approved here.
+CREATE OR REPLACE FUNCTION public.attach_certificate_document(_certificate_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _certificate public.training_certificates%ROWTYPE;
+  _file_url TEXT;
+  _document_id UUID;
+BEGIN
+  SELECT * INTO _certificate
+  FROM public.training_certificates
+  WHERE id = _certificate_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Certificate not found';
+  END IF;
+
+  IF _certificate.document_id IS NOT NULL THEN
+    RETURN _certificate.document_id;
+  END IF;
+
+  -- Must match fileCertificateDocument in src/lib/certificates.ts
+  _file_url := auth.uid()::text || '/certificates/certificate-' || _certificate.verification_code || '.pdf';
+
+  IF NOT EXISTS (
+    SELECT 1 FROM storage.objects
+    WHERE bucket_id = 'employee_docs' AND name = _file_url
+  ) THEN
+    RAISE EXCEPTION 'Certificate file has not been uploaded';
+  END IF;
+
+  INSERT INTO public.documents (user_id, department_id, title, description, file_name, file_type, file_url)
+  SELECT
+    auth.uid(),
+    p.department_id,
+    'Certificate: ' || _certificate.session_title,
+    'Verification ID ' || _certificate.verification_code,
+    'certificate-' || _certificate.verification_code || '.pdf',
+    'application/pdf',
+    _file_url
+  FROM public.profiles p
+  WHERE p.id = auth.uid()
+  RETURNING id INTO _document_id;
+
+  UPDATE public.training_certificates SET document_id = _document_id WHERE id = _certificate_id;
+
+  RETURN _document_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.attach_certificate_document(UUID) TO authenticated;
+
+-- What the public verification page may show for an ID
+CREATE OR REPLACE FUNCTION public.verify_training_certificate(_code TEXT)
+RETURNS TABLE (employee_name TEXT, session_title TEXT, completed_at TIMESTAMP WITH TIME ZONE, issued_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.employee_name, c.session_title, c.completed_at, c.issued_at
+  FROM public.training_certificates c
+  WHERE c.verification_code = upper(trim(_code))
+$$;
+
+GRANT EXECUTE ON FUNCTION public.verify_training_certificate(TEXT) TO anon, authenticated;
+
+COMMENT ON TABLE public.training_certificates IS 'Certificates issued for completed mandatory training sessions';
+COMMENT ON COLUMN public.training_certificates.document_id IS 'The generated PDF in the employee''s documents; null until the dashboard has filed it';
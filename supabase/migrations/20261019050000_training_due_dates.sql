@@ -0,0 +1,91 @@
+-- Training assignments get a due date. Staff can set one when assigning;
+-- otherwise it's worked out from the employee's start date, using the
+-- training path module's deadline for their department or else the session's
+-- own default. Worked-out dates follow later changes to the start date;
+-- dates staff chose are left alone. Assignments past their due date and not
+-- completed are overdue.
+
+ALTER TABLE public.training_sessions
+  ADD COLUMN due_offset_days INTEGER CHECK (due_offset_days >= 0);
+
+ALTER TABLE public.training_assignments
+  ADD COLUMN due_date DATE,
+  ADD COLUMN due_date_explicit BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX idx_training_assignments_due_date ON public.training_assignments(due_date);
+
+CREATE OR REPLACE FUNCTION public.get_training_due_date(_user_id UUID, _session_id UUID)
+RETURNS DATE
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(pr.join_date, CURRENT_DATE) + COALESCE(
+    (
+      SELECT MIN(m.due_offset_days)
+      FROM public.training_path_modules m
+      JOIN public.training_paths p ON p.id = m.path_id
+      WHERE m.training_session_id = _session_id
+        AND p.department_id = pr.department_id
+    ),
+    (SELECT s.due_offset_days FROM public.training_sessions s WHERE s.id = _session_id)
+  )
+  FROM public.profiles pr
+  WHERE pr.id = _user_id
+$$;
+
+-- Path sessions already assigned pick up their module deadlines
+UPDATE public.training_assignments
+SET due_date = public.get_training_due_date(user_id, training_session_id)
+WHERE due_date IS NULL;
+
+-- Covers every way sessions get assigned, including the path and new-hire
+-- triggers
+CREATE OR REPLACE FUNCTION public.set_training_assignment_due_date()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.due_date_explicit := NEW.due_date IS NOT NULL;
+  IF NEW.due_date IS NULL THEN
+    NEW.due_date := public.get_training_due_date(NEW.user_id, NEW.training_session_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_training_assignment_due_date
+  BEFORE INSERT ON public.training_assignments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_training_assignment_due_date();
+
+-- A new start date moves the due dates worked out from it
+CREATE OR REPLACE FUNCTION public.recompute_training_due_dates()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.training_assignments
+  SET due_date = public.get_training_due_date(user_id, training_session_id)
+  WHERE user_id = NEW.id
+    AND NOT due_date_explicit;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER recompute_training_due_dates
+  AFTER UPDATE OF join_date ON public.profiles
+  FOR EACH ROW
+  WHEN (NEW.join_date IS DISTINCT FROM OLD.join_date)
+  EXECUTE FUNCTION public.recompute_training_due_dates();
+
+COMMENT ON COLUMN public.training_sessions.due_offset_days IS 'Default deadline for new assignments, in days after the employee''s start date';
+COMMENT ON COLUMN public.training_assignments.due_date IS 'When the session should be completed; null means no deadline';
+COMMENT ON COLUMN public.training_assignments.due_date_explicit IS 'Whether staff chose the due date, rather than it being worked out from the start date';
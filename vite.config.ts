@@ -19,4 +19,13 @@ export default defineConfig(({ mode }) => ({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  build: {
+    rollupOptions: {
+      // package-host.html runs training courses on a separate origin
+      input: {
+        main: path.resolve(__dirname, "index.html"),
+        packageHost: path.resolve(__dirname, "package-host.html"),
+      },
+    },
+  },
 }));